@@ -1,12 +1,23 @@
 const startBtn = document.getElementById('start');
 const sendBtn = document.getElementById('send');
 const output = document.getElementById('output');
+const tokenInput = document.getElementById('token');
+const confirmations = document.getElementById('confirmations');
+
+// Remember the API token between visits
+tokenInput.value = localStorage.getItem('apiToken') ?? '';
+tokenInput.addEventListener('change', () => {
+  localStorage.setItem('apiToken', tokenInput.value.trim());
+  listenForReminders();
+});
 
 let mediaRecorder;
 let audioChunks = [];
 let lastRecordingBlob = null;
 let currentStream = null;
 let stopRecordingPromise = null;
+// Conversation session, so follow-up commands keep their context
+let sessionId = null;
 
 const setUiState = (state) => {
   // state: 'idle' | 'recording' | 'recorded' | 'sending'
@@ -40,6 +51,127 @@ const setUiState = (state) => {
 
 setUiState('idle');
 
+// Server-sent events: "event:" and "data:" lines, blank line between events
+const readServerSentEvents = async (body, handleEvent) => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop();
+    for (const block of blocks) {
+      const lines = block.split('\n');
+      const event = lines.find((l) => l.startsWith('event: '))?.slice(7);
+      const data = lines.find((l) => l.startsWith('data: '))?.slice(6);
+      if (event && data) handleEvent(event, JSON.parse(data));
+    }
+  }
+};
+
+// Speak text with the browser's speech synthesis, if available.
+// interrupt: false queues it after anything being spoken.
+const speak = (text, { interrupt = true } = {}) => {
+  const canSpeak =
+    typeof window !== 'undefined' &&
+    'speechSynthesis' in window &&
+    typeof window.SpeechSynthesisUtterance === 'function';
+  if (!canSpeak) return;
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  const inferredLang =
+    (document.documentElement && document.documentElement.lang) ||
+    navigator.language ||
+    'en-US';
+  utterance.lang = inferredLang;
+  if (interrupt) window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+// Changes the server holds until the user confirms them, shown with
+// Confirm/Cancel buttons. The answer goes to the same conversation.
+const showPendingActions = (pendingActions = []) => {
+  const items = pendingActions.map((action) => {
+    const item = document.createElement('div');
+    item.className = 'confirmation';
+    const summary = document.createElement('span');
+    summary.textContent = action.summary;
+
+    const answer = async (confirm) => {
+      item.querySelectorAll('button').forEach((btn) => (btn.disabled = true));
+      try {
+        const token = tokenInput.value.trim();
+        const res = await fetch('/api/v1/client/confirm', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify({ token: action.token, confirm, sessionId }),
+        });
+        const data = await res.json().catch(() => ({}));
+        const message = res.ok
+          ? data.answer
+          : data.message || `Request failed (${res.status})`;
+        output.textContent += `\n${message}`;
+        speak(message.split('\n')[0]);
+      } catch (err) {
+        console.error(err);
+        output.textContent += '\nConfirming the change failed.';
+      }
+      item.remove();
+    };
+
+    const confirmBtn = document.createElement('button');
+    confirmBtn.className = 'btn btn--primary';
+    confirmBtn.textContent = 'Confirm';
+    confirmBtn.addEventListener('click', () => answer(true));
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'btn btn--danger';
+    cancelBtn.textContent = 'Cancel';
+    cancelBtn.addEventListener('click', () => answer(false));
+
+    item.append(summary, confirmBtn, cancelBtn);
+    return item;
+  });
+  confirmations.replaceChildren(...items);
+};
+
+// Reminders of upcoming events are streamed by the server and spoken
+const REMINDER_RECONNECT_MS = 30000;
+let reminderController = null;
+
+const listenForReminders = async () => {
+  reminderController?.abort();
+  const controller = new AbortController();
+  reminderController = controller;
+
+  while (!controller.signal.aborted) {
+    try {
+      const token = tokenInput.value.trim();
+      const res = await fetch('/api/v1/reminders', {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        signal: controller.signal,
+      });
+      if (res.ok && res.body) {
+        await readServerSentEvents(res.body, (event, data) => {
+          if (event !== 'reminder') return;
+          output.textContent = `Reminder: ${data.message}\n${output.textContent}`;
+          speak(data.message, { interrupt: false });
+        });
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(err);
+    }
+    // Reconnect after the server restarts or the token is fixed
+    await new Promise((resolve) => setTimeout(resolve, REMINDER_RECONNECT_MS));
+  }
+};
+
+listenForReminders();
+
 const releaseMicrophone = () => {
   if (!currentStream) return;
   currentStream.getTracks().forEach((t) => t.stop());
@@ -125,57 +257,87 @@ sendBtn.addEventListener('click', async () => {
   if (timezone) {
     formData.append('timezone', timezone);
   }
+  if (sessionId) {
+    formData.append('sessionId', sessionId);
+  }
 
   setUiState('sending');
   output.textContent = 'Processing...';
+  showPendingActions([]);
 
   try {
-    // Send audio to backend STT middleware -> MCP
-    const res = await fetch('/api/v1/client', {
+    // Send audio to backend STT middleware -> MCP, streaming progress back
+    const token = tokenInput.value.trim();
+    const res = await fetch('/api/v1/client/stream', {
       method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
       body: formData,
     });
 
+    if (res.status === 401) {
+      throw new Error('Enter a valid API token and try again.');
+    }
     if (!res.ok) {
+      // Expired session: the next command starts a new conversation
+      if (res.status === 404) sessionId = null;
       const errorText = await res.text().catch(() => '');
       throw new Error(errorText || `Request failed (${res.status})`);
     }
 
     const contentType = res.headers.get('content-type') || '';
-    if (!contentType.includes('application/json')) {
+    if (!contentType.includes('text/event-stream') || !res.body) {
       const text = await res.text().catch(() => '');
-      throw new Error(text || 'Unexpected non-JSON response from server.');
+      throw new Error(text || 'Unexpected non-stream response from server.');
     }
 
-    const data = await res.json();
+    let transcript = '';
+    const progress = [];
+    let answer = '';
+    let result = null;
+
+    const render = () => {
+      output.textContent = [
+        transcript && `You said: ${transcript}`,
+        ...progress,
+        answer && `MCP Response:\n${answer}`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+    };
 
-    if (!data || typeof data.answer !== 'string') {
-      output.textContent = 'Unexpected response format from server.';
+    const handleEvent = (event, data) => {
+      if (event === 'transcription') transcript = data.text;
+      if (event === 'tool_call') progress.push(`→ ${data.name}…`);
+      if (event === 'tool_result') {
+        progress.push(`  ${data.isError ? '✗' : '✓'} ${data.summary}`);
+        // Text streamed before a tool call was not the final answer
+        answer = '';
+      }
+      if (event === 'confirmation_required') {
+        progress.push(`  ? Needs confirmation: ${data.summary}`);
+      }
+      if (event === 'token') answer += data.text;
+      if (event === 'done') {
+        result = data;
+        answer = data.answer;
+      }
+      if (event === 'error') throw new Error(data.message);
+      render();
+    };
+
+    await readServerSentEvents(res.body, handleEvent);
+
+    if (!result) {
+      output.textContent = 'The response ended unexpectedly.';
       setUiState(lastRecordingBlob ? 'recorded' : 'idle');
       return;
     }
 
-    // Display MCP response
-    output.textContent = `MCP Response:\n${data.answer}`;
+    sessionId = result.sessionId ?? null;
+    showPendingActions(result.pendingActions);
 
     // Speak out the response
-    if ('answer' in data) {
-      const canSpeak =
-        typeof window !== 'undefined' &&
-        'speechSynthesis' in window &&
-        typeof window.SpeechSynthesisUtterance === 'function';
-
-      if (canSpeak) {
-        const utterance = new SpeechSynthesisUtterance(data.answer);
-        const inferredLang =
-          (document.documentElement && document.documentElement.lang) ||
-          navigator.language ||
-          'en-US';
-        utterance.lang = inferredLang;
-        window.speechSynthesis.cancel();
-        window.speechSynthesis.speak(utterance);
-      }
-    }
+    speak(result.answer);
 
     setUiState('recorded');
   } catch (err) {
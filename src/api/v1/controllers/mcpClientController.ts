@@ -1,15 +1,69 @@
 import { NextFunction, Request, Response } from 'express';
 import { z } from 'zod';
 import CustomError from '@/classes/CustomError';
-import { runPromptWithMcpServer } from '@/mcp-client';
+import { confirmPendingAction, runPromptWithMcpServer } from '@/mcp-client';
+import {
+  getSessionStore,
+  type ConversationSession,
+} from '@/mcp-client/sessionStore';
 import { DEFAULT_TIMEZONE, timezoneSchema } from '@/utils/weekday';
 
 const BodySchema = z.object({
   prompt: z.string().min(1),
   // Validate timezone at API boundary - returns 400 for invalid timezones
   timezone: timezoneSchema.default(DEFAULT_TIMEZONE),
+  // Continue an earlier conversation
+  sessionId: z.string().min(1).optional(),
 });
 
+const ConfirmBodySchema = z.object({
+  token: z.string().min(1),
+  // false cancels the pending action
+  confirm: z.boolean().default(true),
+  // Conversation to record the answer in
+  sessionId: z.string().min(1).optional(),
+});
+
+/** Maximum length of the first prompt shown as a session title */
+const SESSION_TITLE_LENGTH = 80;
+
+/** Session metadata returned by the list endpoint (without the history) */
+const summarizeSession = (session: ConversationSession) => {
+  const userMessages = session.messages.filter((m) => m.role === 'user');
+  const firstPrompt = userMessages[0]?.content;
+
+  return {
+    id: session.id,
+    title:
+      typeof firstPrompt === 'string'
+        ? firstPrompt.slice(0, SESSION_TITLE_LENGTH)
+        : '',
+    turns: userMessages.length,
+    timezone: session.timezone,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+  };
+};
+
+/**
+ * The trace query flag: ?trace or ?trace=1 includes a trace in the
+ * response, ?trace=0 leaves it out. Without it, DEBUG_MCP_CLIENT decides.
+ */
+const isTraceRequested = (req: Request) => {
+  const value = req.query.trace;
+  if (value === undefined) return undefined;
+  return value !== '0' && value !== 'false';
+};
+
+/**
+ * Find a session of the caller. Sessions of other users are reported as
+ * missing, so their ids cannot be probed.
+ */
+const findOwnSession = async (req: Request, sessionId: string) => {
+  const session = await getSessionStore().get(sessionId);
+  return session?.userId === req.auth?.clientId ? session : undefined;
+};
+
 const postPrompt = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const parseResult = BodySchema.safeParse(req.body);
@@ -18,12 +72,165 @@ const postPrompt = async (req: Request, res: Response, next: NextFunction) => {
       return;
     }
 
-    const { prompt, timezone } = parseResult.data;
-    const result = await runPromptWithMcpServer(prompt, timezone);
+    const { prompt, timezone, sessionId } = parseResult.data;
+    if (sessionId && !(await findOwnSession(req, sessionId))) {
+      next(new CustomError(`Session "${sessionId}" not found`, 404));
+      return;
+    }
+
+    const result = await runPromptWithMcpServer(prompt, timezone, {
+      sessionId,
+      auth: req.auth,
+      trace: isTraceRequested(req),
+    });
     res.json(result);
   } catch (error) {
     next(new CustomError((error as Error).message, 500));
   }
 };
 
-export { postPrompt };
+/**
+ * Streaming variant of postPrompt using Server-Sent Events.
+ * Events: transcription, tool_call, tool_result, token, done and error.
+ * Validation errors are returned as JSON before the stream starts; later
+ * errors are sent as an error event.
+ */
+const postPromptStream = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const parseResult = BodySchema.safeParse(req.body);
+  if (!parseResult.success) {
+    next(new CustomError(parseResult.error.message, 400));
+    return;
+  }
+
+  const { prompt, timezone, sessionId } = parseResult.data;
+  try {
+    if (sessionId && !(await findOwnSession(req, sessionId))) {
+      next(new CustomError(`Session "${sessionId}" not found`, 404));
+      return;
+    }
+  } catch (error) {
+    next(new CustomError((error as Error).message, 500));
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Stop calling the model and tools if the client goes away
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort();
+  });
+
+  if (typeof res.locals.transcription === 'string') {
+    sendEvent('transcription', { text: res.locals.transcription });
+  }
+
+  try {
+    await runPromptWithMcpServer(prompt, timezone, {
+      sessionId,
+      auth: req.auth,
+      trace: isTraceRequested(req),
+      signal: abortController.signal,
+      onEvent: ({ type, ...data }) => sendEvent(type, data),
+    });
+  } catch (error) {
+    if (!abortController.signal.aborted) {
+      sendEvent('error', { message: (error as Error).message });
+    }
+  } finally {
+    res.end();
+  }
+};
+
+/**
+ * Confirm or cancel a write that a tool held for confirmation (the
+ * pendingActions of a prompt response), without a model round trip.
+ */
+const postConfirmation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  try {
+    const parseResult = ConfirmBodySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      next(new CustomError(parseResult.error.message, 400));
+      return;
+    }
+
+    const { token, confirm, sessionId } = parseResult.data;
+    if (sessionId && !(await findOwnSession(req, sessionId))) {
+      next(new CustomError(`Session "${sessionId}" not found`, 404));
+      return;
+    }
+
+    const result = await confirmPendingAction(token, confirm, {
+      sessionId,
+      auth: req.auth,
+    });
+    if (result.status === 'not_found') {
+      next(new CustomError(result.answer.replace(/^Error: /, ''), 404));
+      return;
+    }
+    res.json(result);
+  } catch (error) {
+    next(new CustomError((error as Error).message, 500));
+  }
+};
+
+const listSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  try {
+    const sessions = await getSessionStore().list();
+    res.json(
+      sessions
+        .filter((session) => session.userId === req.auth?.clientId)
+        .map(summarizeSession)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    );
+  } catch (error) {
+    next(new CustomError((error as Error).message, 500));
+  }
+};
+
+const deleteSession = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction,
+) => {
+  try {
+    const deleted =
+      (await findOwnSession(req, req.params.id)) &&
+      (await getSessionStore().delete(req.params.id));
+    if (!deleted) {
+      next(new CustomError(`Session "${req.params.id}" not found`, 404));
+      return;
+    }
+    res.json({ message: 'Session deleted' });
+  } catch (error) {
+    next(new CustomError((error as Error).message, 500));
+  }
+};
+
+export {
+  postPrompt,
+  postPromptStream,
+  postConfirmation,
+  listSessions,
+  deleteSession,
+};
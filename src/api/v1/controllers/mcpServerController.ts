@@ -1,22 +1,79 @@
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { NextFunction, Request, Response } from 'express';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import CustomError from '@/classes/CustomError';
-import { mcpServer } from '@/mcp-server';
+import {
+  getMcpSession,
+  holdMcpSession,
+  startMcpSession,
+} from '@/mcp-server/sessions';
 
+/**
+ * The session addressed by the Mcp-Session-Id header.
+ * @throws CustomError 400 without the header, 404 for an unknown (or
+ * expired, or someone else's) session, so the client starts a new one
+ */
+const requireSession = (req: Request) => {
+  const sessionId = req.header('mcp-session-id');
+  if (!sessionId) {
+    throw new CustomError(
+      'Mcp-Session-Id header is required. Start a session with an initialize request.',
+      400,
+    );
+  }
+  const session = getMcpSession(sessionId, req.auth?.clientId);
+  if (!session) {
+    throw new CustomError(`MCP session "${sessionId}" not found`, 404);
+  }
+  return session;
+};
+
+/** Handle a JSON-RPC message; an initialize request starts a new session */
 const postMcp = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-      enableJsonResponse: true,
-    });
+    const session =
+      !req.header('mcp-session-id') && isInitializeRequest(req.body)
+        ? await startMcpSession(req.auth?.clientId)
+        : requireSession(req);
+    await session.transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError((error as Error).message, 500),
+    );
+  }
+};
 
-    res.on('close', () => transport.close());
+/**
+ * Open the server-to-client SSE stream of a session (notifications).
+ * With Last-Event-ID, missed events are replayed first.
+ */
+const getMcp = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = requireSession(req);
+    holdMcpSession(session, res);
+    await session.transport.handleRequest(req, res);
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError((error as Error).message, 500),
+    );
+  }
+};
 
-    await mcpServer.connect(transport);
-    await transport.handleRequest(req, res, req.body);
+/** Terminate a session */
+const deleteMcp = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = requireSession(req);
+    await session.transport.handleRequest(req, res);
   } catch (error) {
-    next(new CustomError((error as Error).message, 500));
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError((error as Error).message, 500),
+    );
   }
 };
 
-export { postMcp };
+export { postMcp, getMcp, deleteMcp };
@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { getSseReminderChannel } from '@/reminders/channels';
+
+/** Interval of keep-alive comments, so proxies do not close idle streams */
+const KEEP_ALIVE_MS = 30_000;
+
+/**
+ * Stream the caller's reminders as Server-Sent Events ("reminder" events
+ * with a ReminderNotification) until the client disconnects.
+ */
+const getReminderStream = (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  // Send the headers now; the first reminder may be hours away
+  res.write(': connected\n\n');
+
+  getSseReminderChannel().subscribe(res, req.auth?.clientId);
+
+  const keepAlive = setInterval(
+    () => res.write(': keep-alive\n\n'),
+    KEEP_ALIVE_MS,
+  );
+  res.on('close', () => clearInterval(keepAlive));
+};
+
+export { getReminderStream };
@@ -2,6 +2,8 @@ import express, { Request, Response } from 'express';
 
 import mcpServerRouter from './routes/mcpServerRouter';
 import mcpClientRouter from './routes/mcpClientRouter';
+import remindersRouter from './routes/remindersRouter';
+import { authenticate, clockOverride } from '@/middlewares';
 
 const router = express.Router();
 
@@ -11,7 +13,9 @@ router.get('/', (req: Request, res: Response) => {
   });
 });
 
-router.use('/mcp', mcpServerRouter);
-router.use('/client/', mcpClientRouter);
+// Authenticate before audio uploads are accepted or transcribed
+router.use('/mcp', authenticate, clockOverride, mcpServerRouter);
+router.use('/client/', authenticate, mcpClientRouter);
+router.use('/reminders', authenticate, remindersRouter);
 
 export default router;
@@ -1,7 +1,13 @@
 import express from 'express';
-import { postPrompt } from '../controllers/mcpClientController';
+import {
+  postPrompt,
+  postPromptStream,
+  postConfirmation,
+  listSessions,
+  deleteSession,
+} from '../controllers/mcpClientController';
 import multer from 'multer';
-import { audioTranscriptionMiddleware } from '@/middlewares';
+import { audioTranscriptionMiddleware, clockOverride } from '@/middlewares';
 import CustomError from '@/classes/CustomError';
 
 const DEFAULT_MAX_AUDIO_UPLOAD_BYTES = 10 * 1024 * 1024; // 10 MiB
@@ -36,6 +42,26 @@ const router = express.Router();
 
 router
   .route('/')
-  .post(upload.single('audio'), audioTranscriptionMiddleware, postPrompt);
+  .post(
+    upload.single('audio'),
+    audioTranscriptionMiddleware,
+    clockOverride,
+    postPrompt,
+  );
+
+router
+  .route('/stream')
+  .post(
+    upload.single('audio'),
+    audioTranscriptionMiddleware,
+    clockOverride,
+    postPromptStream,
+  );
+
+router.route('/confirm').post(clockOverride, postConfirmation);
+
+router.route('/sessions').get(listSessions);
+
+router.route('/sessions/:id').delete(deleteSession);
 
 export default router;
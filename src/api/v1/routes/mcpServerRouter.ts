@@ -1,8 +1,8 @@
 import express from 'express';
-import { postMcp } from '../controllers/mcpServerController';
+import { postMcp, getMcp, deleteMcp } from '../controllers/mcpServerController';
 
 const router = express.Router();
 
-router.route('/').post(postMcp);
+router.route('/').post(postMcp).get(getMcp).delete(deleteMcp);
 
 export default router;
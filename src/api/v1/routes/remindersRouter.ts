@@ -0,0 +1,8 @@
+import express from 'express';
+import { getReminderStream } from '../controllers/remindersController';
+
+const router = express.Router();
+
+router.route('/').get(getReminderStream);
+
+export default router;
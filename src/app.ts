@@ -11,7 +11,10 @@ const app = express();
 
 const isDevelopment = process.env.NODE_ENV === 'development';
 
-app.use(morgan('dev'));
+// Keep test output readable
+if (process.env.NODE_ENV !== 'test') {
+  app.use(morgan('dev'));
+}
 app.use(
   helmet.contentSecurityPolicy({
     directives: {
@@ -0,0 +1,150 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { z } from 'zod';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Organizer } from '@/utils/ical-lib';
+
+const userSchema = z.object({
+  // Also used as a directory name by the filesystem calendar backend
+  id: z
+    .string()
+    .regex(
+      /^[\w-][\w.@-]*$/,
+      'User id may contain letters, digits, _ - . and @, and must not start with a dot',
+    ),
+  /** SHA-256 (hex) of the user's API token; the token itself is not stored */
+  tokenSha256: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/i, 'tokenSha256 must be a hex SHA-256 digest'),
+  /** Email address and name used as organizer of the user's meetings */
+  email: z.email().optional(),
+  name: z.string().optional(),
+  /** CalDAV account; serverUrl defaults to CALDAV_SERVER_URL */
+  caldav: z
+    .object({
+      serverUrl: z.url().optional(),
+      username: z.string().min(1),
+      password: z.string(),
+    })
+    .optional(),
+});
+
+export type User = Omit<z.infer<typeof userSchema>, 'tokenSha256'>;
+
+/** Users allowed to call the API, looked up by their bearer token */
+export type UserStore = {
+  /** @returns undefined if the token belongs to nobody */
+  findByToken: (token: string) => Promise<User | undefined>;
+  /** All users, e.g. to scan their calendars for reminders */
+  list: () => Promise<User[]>;
+};
+
+/** SHA-256 of an API token as stored in the users file */
+export const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+/**
+ * User store backed by a JSON file holding an array of
+ * { id, tokenSha256, email?, name?, caldav?: { serverUrl?, username, password } }.
+ * The file is read and validated on first use.
+ * @param filePath - Path of the users file
+ * @throws Error on lookup if the file cannot be read or is invalid
+ */
+export const createFileUserStore = (filePath: string): UserStore => {
+  let usersPromise: Promise<Map<string, User>> | null = null;
+
+  const loadUsers = async () => {
+    const raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    const parsed = z.array(userSchema).safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid users file ${filePath}: ${parsed.error.message}`,
+      );
+    }
+
+    const users = new Map<string, User>();
+    for (const { tokenSha256, ...user } of parsed.data) {
+      users.set(tokenSha256.toLowerCase(), user);
+    }
+    return users;
+  };
+
+  const getUsers = () => {
+    usersPromise ??= loadUsers().catch((error) => {
+      usersPromise = null; // Retry on the next request
+      throw error;
+    });
+    return usersPromise;
+  };
+
+  return {
+    findByToken: async (token) => (await getUsers()).get(hashToken(token)),
+    list: async () => [...(await getUsers()).values()],
+  };
+};
+
+/**
+ * In-memory user store, e.g. for tests.
+ * @param entries - API token and user pairs
+ */
+export const createInMemoryUserStore = (
+  entries: { token: string; user: User }[],
+): UserStore => {
+  const users = new Map(
+    entries.map(({ token, user }) => [hashToken(token), user]),
+  );
+  return {
+    findByToken: async (token) => users.get(hashToken(token)),
+    list: async () => [...users.values()],
+  };
+};
+
+/**
+ * Auth info attached to authenticated requests (req.auth). The MCP SDK
+ * passes it to tool handlers as extra.authInfo; clientId is the user id.
+ */
+export const toAuthInfo = (token: string, user: User): AuthInfo => ({
+  token,
+  clientId: user.id,
+  scopes: [],
+  extra: { user },
+});
+
+/** The user of an authenticated request, if authentication is enabled */
+export const getAuthenticatedUser = (authInfo?: AuthInfo): User | undefined =>
+  authInfo?.extra?.user as User | undefined;
+
+/**
+ * Organizer of the meetings a user sets up: their email address, or
+ * ORGANIZER_EMAIL (and ORGANIZER_NAME) for the shared calendar when
+ * authentication is disabled.
+ * @returns undefined if no email address is configured
+ */
+export const getOrganizer = (user?: User): Organizer | undefined => {
+  const email = user ? user.email : process.env.ORGANIZER_EMAIL;
+  if (!email) return undefined;
+  const name = user ? user.name : process.env.ORGANIZER_NAME;
+  return { email, name: name || undefined };
+};
+
+let userStore: UserStore | null | undefined;
+
+/**
+ * The user store configured by AUTH_USERS_FILE, created on first use.
+ * @returns null if authentication is disabled
+ */
+export const getUserStore = (): UserStore | null => {
+  if (userStore === undefined) {
+    const filePath = process.env.AUTH_USERS_FILE;
+    userStore = filePath ? createFileUserStore(filePath) : null;
+  }
+  return userStore;
+};
+
+/**
+ * Replace the user store, e.g. with a database backed one.
+ * Pass null to disable authentication.
+ */
+export const setUserStore = (store: UserStore | null) => {
+  userStore = store;
+};
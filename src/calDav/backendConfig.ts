@@ -0,0 +1,183 @@
+import path from 'node:path';
+import type { CalendarBackend } from '@/calDav/calendarBackend';
+import {
+  createCalDavBackend,
+  type CalDavCredentials,
+} from '@/calDav/calDavBackend';
+import { createFileSystemBackend } from '@/calDav/fileSystemBackend';
+import { createInMemoryBackend } from '@/calDav/inMemoryBackend';
+import type { User } from '@/auth/userStore';
+
+/**
+ * CalDAV account of a user, or the shared CALDAV_* account when
+ * authentication is disabled.
+ * @throws Error if the user has no CalDAV account configured
+ */
+const getCalDavCredentials = (user?: User): CalDavCredentials => {
+  const serverUrl = process.env.CALDAV_SERVER_URL ?? 'http://localhost:5232/';
+  if (!user) {
+    return {
+      serverUrl,
+      username: process.env.CALDAV_USERNAME ?? 'username',
+      password: process.env.CALDAV_PASSWORD ?? 'password',
+    };
+  }
+  if (!user.caldav) {
+    throw new Error(`No CalDAV account is configured for user "${user.id}"`);
+  }
+  return { serverUrl, ...user.caldav };
+};
+
+const BACKENDS = {
+  caldav: (user?: User) => createCalDavBackend(getCalDavCredentials(user)),
+  // Each user gets a subdirectory of CALENDAR_DIR
+  filesystem: (user?: User) => {
+    const rootDir = process.env.CALENDAR_DIR || 'calendars';
+    return createFileSystemBackend(
+      user ? path.join(rootDir, user.id) : rootDir,
+    );
+  },
+  memory: () => createInMemoryBackend(),
+} satisfies Record<string, (user?: User) => CalendarBackend>;
+
+export type CalendarBackendName = keyof typeof BACKENDS;
+
+const getBackendName = () => process.env.CALENDAR_BACKEND || 'caldav';
+
+/**
+ * Create the backend configured by the environment:
+ * CALENDAR_BACKEND = caldav (default, CALDAV_* settings), filesystem
+ * (CALENDAR_DIR, default ./calendars) or memory.
+ * @param user - Authenticated user whose calendars to use. Without a user,
+ * the shared calendars are used.
+ * @throws Error if the backend is unknown
+ */
+export const createCalendarBackendFromEnv = (user?: User): CalendarBackend => {
+  const name = getBackendName();
+  if (!Object.hasOwn(BACKENDS, name)) {
+    throw new Error(
+      `Unknown CALENDAR_BACKEND "${name}". Expected one of: ${Object.keys(BACKENDS).join(', ')}`,
+    );
+  }
+  return BACKENDS[name as CalendarBackendName](user);
+};
+
+/** Parse a positive number from the environment */
+const positiveEnvNumber = (name: string, fallback: number): number => {
+  const parsed = Number(process.env[name]);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Maximum number of per-user backends (and their CalDAV logins) kept */
+const maxUserBackends = positiveEnvNumber('CALENDAR_BACKEND_CACHE_SIZE', 100);
+
+/** Per-user backends unused for this long are dropped */
+const userBackendIdleMs =
+  positiveEnvNumber('CALENDAR_BACKEND_IDLE_MINUTES', 30) * 60_000;
+
+type CachedBackend = {
+  backend: CalendarBackend;
+  /** Account settings the backend was created with */
+  account: string;
+  lastUsed: number;
+};
+
+let calendarBackend: CalendarBackend | null = null;
+
+/** Per-user backends by user id, least recently used first */
+const userBackends = new Map<string, CachedBackend>();
+
+/**
+ * Per-user in-memory backends by user id. They hold the user's only copy
+ * of their calendars, so they are never evicted.
+ */
+const memoryBackends = new Map<string, CalendarBackend>();
+
+/** Per-user backends of background scans by user id, apart from the cache */
+const scanBackends = new Map<string, Omit<CachedBackend, 'lastUsed'>>();
+
+/** Drop idle backends, then the least recently used ones above the limit */
+const evictUserBackends = (now: number) => {
+  for (const [id, cached] of userBackends) {
+    if (now - cached.lastUsed > userBackendIdleMs) userBackends.delete(id);
+  }
+  for (const id of userBackends.keys()) {
+    if (userBackends.size <= maxUserBackends) break;
+    userBackends.delete(id);
+  }
+};
+
+/**
+ * The calendar backend used by the MCP tools, created on first use.
+ * Each authenticated user gets their own backend, cached until it has been
+ * idle for CALENDAR_BACKEND_IDLE_MINUTES or CALENDAR_BACKEND_CACHE_SIZE
+ * other users have used theirs more recently. A changed CalDAV account
+ * replaces the cached backend. In-memory backends are kept for good.
+ * @param user - Authenticated user. Without a user (authentication
+ * disabled), one shared backend is used.
+ * @throws Error if the user's backend cannot be created
+ */
+export const getCalendarBackend = (user?: User): CalendarBackend => {
+  if (!user) return (calendarBackend ??= createCalendarBackendFromEnv());
+  if (getBackendName() === 'memory') {
+    let backend = memoryBackends.get(user.id);
+    if (!backend) {
+      backend = createCalendarBackendFromEnv(user);
+      memoryBackends.set(user.id, backend);
+    }
+    return backend;
+  }
+
+  const now = Date.now();
+  const account = JSON.stringify(user.caldav ?? null);
+  let cached = userBackends.get(user.id);
+  userBackends.delete(user.id);
+  if (!cached || cached.account !== account) {
+    cached = {
+      backend: createCalendarBackendFromEnv(user),
+      account,
+      lastUsed: now,
+    };
+  }
+  cached.lastUsed = now;
+  // Re-inserting keeps the map ordered by last use
+  userBackends.set(user.id, cached);
+  evictUserBackends(now);
+  return cached.backend;
+};
+
+/**
+ * The calendar backend of a user for background scans, such as reminders.
+ * Unlike getCalendarBackend, it leaves the per-user cache as it is, so
+ * scans neither keep a backend from going idle nor push others out of it.
+ * A backend cached for the user's requests is reused; otherwise the scans
+ * keep their own until the user's CalDAV account changes.
+ * @param user - User whose calendars to scan. Without a user, the shared
+ * backend is used.
+ * @throws Error if the user's backend cannot be created
+ */
+export const getScanCalendarBackend = (user?: User): CalendarBackend => {
+  if (!user || getBackendName() === 'memory') return getCalendarBackend(user);
+
+  const account = JSON.stringify(user.caldav ?? null);
+  const cached = userBackends.get(user.id);
+  if (cached?.account === account) return cached.backend;
+  let scanned = scanBackends.get(user.id);
+  if (!scanned || scanned.account !== account) {
+    scanned = { backend: createCalendarBackendFromEnv(user), account };
+    scanBackends.set(user.id, scanned);
+  }
+  return scanned.backend;
+};
+
+/**
+ * Replace the shared calendar backend, e.g. with an in-memory one in tests,
+ * and drop the per-user and scan backends.
+ * Pass null to create it from the environment again.
+ */
+export const setCalendarBackend = (backend: CalendarBackend | null) => {
+  calendarBackend = backend;
+  userBackends.clear();
+  memoryBackends.clear();
+  scanBackends.clear();
+};
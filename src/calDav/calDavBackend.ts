@@ -0,0 +1,192 @@
+import { DAVClient, type DAVCalendar } from 'tsdav';
+import {
+  syncByEtags,
+  writeConflictError,
+  type CalendarBackend,
+  type CalendarComponentType,
+  type CalendarInfo,
+  type CalendarObject,
+} from '@/calDav/calendarBackend';
+
+export type CalDavCredentials = {
+  serverUrl: string;
+  username: string;
+  password: string;
+};
+
+/**
+ * Display name of a calendar. Servers may return the DAV property
+ * as an object, in which case the last URL segment is used.
+ */
+const getCalendarName = (calendar: DAVCalendar): string =>
+  typeof calendar.displayName === 'string' && calendar.displayName
+    ? calendar.displayName
+    : decodeURIComponent(
+        calendar.url.replace(/\/+$/, '').split('/').pop() ?? calendar.url,
+      );
+
+const toCalendarInfo = (calendar: DAVCalendar): CalendarInfo => ({
+  name: getCalendarName(calendar),
+  url: calendar.url,
+  color: calendar.calendarColor ?? null,
+  ctag: calendar.ctag ?? null,
+  components: calendar.components ?? [],
+});
+
+/**
+ * Throw a descriptive error for a failed CalDAV write.
+ * 412 means the If-Match ETag no longer matches the stored object.
+ */
+const assertWriteSucceeded = (response: Response, action: string) => {
+  if (response.ok) return;
+  if (response.status === 412) throw writeConflictError(action);
+  throw new Error(
+    `Could not ${action} the event: CalDAV server responded ${response.status} ${response.statusText}`,
+  );
+};
+
+/** Format a date as a CalDAV time-range value, e.g. 20250101T080000Z */
+const toTimeRangeValue = (date: Date) =>
+  `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+
+/**
+ * calendar-query filter (RFC 4791 9.7) for the objects holding a component
+ * type, optionally overlapping a time range
+ */
+const componentFilter = (
+  componentType: CalendarComponentType,
+  range?: { start: Date; end: Date },
+) => ({
+  'comp-filter': {
+    _attributes: { name: 'VCALENDAR' },
+    'comp-filter': {
+      _attributes: { name: componentType },
+      ...(range
+        ? {
+            'time-range': {
+              _attributes: {
+                start: toTimeRangeValue(range.start),
+                end: toTimeRangeValue(range.end),
+              },
+            },
+          }
+        : {}),
+    },
+  },
+});
+
+/**
+ * CalDAV backend using tsdav. Logs in on first use; a failed login is
+ * retried on the next call.
+ * @param credentials - Server URL and Basic auth credentials
+ */
+export const createCalDavBackend = (
+  credentials: CalDavCredentials,
+): CalendarBackend => {
+  let clientPromise: Promise<DAVClient> | null = null;
+
+  const getAuthenticatedClient = () => {
+    // If a login is already in progress or finished, return that same promise
+    if (clientPromise) return clientPromise;
+
+    clientPromise = (async () => {
+      const client = new DAVClient({
+        serverUrl: credentials.serverUrl,
+        credentials: {
+          username: credentials.username,
+          password: credentials.password,
+        },
+        authMethod: 'Basic',
+        defaultAccountType: 'caldav',
+      });
+
+      try {
+        await client.login();
+        return client;
+      } catch (error) {
+        clientPromise = null; // Reset so we can try again later
+        throw error;
+      }
+    })();
+
+    return clientPromise;
+  };
+
+  // tsdav needs its own calendar objects (with the DAV properties)
+  const davCalendars = new Map<string, DAVCalendar>();
+  const toDavCalendar = (calendar: CalendarInfo): DAVCalendar =>
+    davCalendars.get(calendar.url) ?? { url: calendar.url };
+
+  const fetchObjects: CalendarBackend['fetchObjects'] = async (
+    calendar,
+    range,
+    componentType = 'VEVENT',
+  ) => {
+    const client = await getAuthenticatedClient();
+    const objects = await client.fetchCalendarObjects({
+      calendar: toDavCalendar(calendar),
+      timeRange: range && {
+        start: range.start.toISOString(),
+        end: range.end.toISOString(),
+      },
+      // tsdav queries VEVENTs unless given its own filter
+      filters:
+        componentType === 'VEVENT'
+          ? undefined
+          : [componentFilter(componentType, range)],
+    });
+    return (objects ?? []).map((object) => ({
+      url: object.url,
+      etag: object.etag,
+      data: object.data ?? '',
+    }));
+  };
+
+  return {
+    listCalendars: async () => {
+      const client = await getAuthenticatedClient();
+      const calendars = await client.fetchCalendars();
+      davCalendars.clear();
+      for (const calendar of calendars) {
+        davCalendars.set(calendar.url, calendar);
+      }
+      return calendars.map(toCalendarInfo);
+    },
+
+    fetchObjects,
+
+    createObject: async (calendar, filename, data) => {
+      const client = await getAuthenticatedClient();
+      const response = await client.createCalendarObject({
+        calendar: toDavCalendar(calendar),
+        filename,
+        iCalString: data,
+      });
+      assertWriteSucceeded(response, 'create');
+      return {
+        url: new URL(filename, calendar.url).href,
+        etag: response.headers.get('etag') ?? undefined,
+        data,
+      };
+    },
+
+    updateObject: async (object: CalendarObject) => {
+      const client = await getAuthenticatedClient();
+      const response = await client.updateCalendarObject({
+        calendarObject: object,
+      });
+      assertWriteSucceeded(response, 'update');
+      return { ...object, etag: response.headers.get('etag') ?? undefined };
+    },
+
+    deleteObject: async (object) => {
+      const client = await getAuthenticatedClient();
+      const response = await client.deleteCalendarObject({
+        calendarObject: object,
+      });
+      assertWriteSucceeded(response, 'delete');
+    },
+
+    syncChanges: syncByEtags(fetchObjects),
+  };
+};
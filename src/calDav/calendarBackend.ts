@@ -0,0 +1,122 @@
+/**
+ * Storage backend abstraction for calendars.
+ * A backend stores iCalendar objects (one .ics document per event,
+ * series or task) in calendars; parsing, generation and the event logic live in
+ * calendarClient.ts on top of it.
+ *
+ * Backends: CalDAV (calDavBackend.ts), a directory of .ics files
+ * (fileSystemBackend.ts) and in-memory (inMemoryBackend.ts), selected with
+ * the CALENDAR_BACKEND environment variable.
+ */
+
+/** Calendar metadata, also shown to the LLM by listCalendars */
+export type CalendarInfo = {
+  name: string;
+  url: string;
+  color: string | null;
+  /** Collection tag, changes whenever an object in the calendar changes */
+  ctag: string | null;
+  /** Supported component types, e.g. ["VEVENT", "VTODO"] */
+  components: string[];
+};
+
+/** Component types stored in calendars: events and tasks */
+export type CalendarComponentType = 'VEVENT' | 'VTODO';
+
+/** A stored iCalendar object */
+export type CalendarObject = {
+  url: string;
+  /** Version tag; writes with a stale etag fail */
+  etag?: string;
+  data: string;
+};
+
+/** Position of a calendar for syncChanges, returned by the previous sync */
+export type SyncState = {
+  ctag: string | null;
+  /** ETag of each object URL at the time of the sync */
+  etags: Record<string, string | undefined>;
+};
+
+export type SyncResult = {
+  state: SyncState;
+  /** Objects added or modified since the given state */
+  changed: CalendarObject[];
+  /** URLs of objects removed since the given state */
+  deleted: string[];
+};
+
+export type CalendarBackend = {
+  /** Calendars of the user, in the backend's order */
+  listCalendars: () => Promise<CalendarInfo[]>;
+  /**
+   * Objects of a calendar holding the given component type (default
+   * VEVENT). Backends may return objects outside the range or of other
+   * types; callers filter them while parsing.
+   */
+  fetchObjects: (
+    calendar: CalendarInfo,
+    range?: { start: Date; end: Date },
+    componentType?: CalendarComponentType,
+  ) => Promise<CalendarObject[]>;
+  /**
+   * Store a new object.
+   * @throws Error if an object with the filename already exists
+   */
+  createObject: (
+    calendar: CalendarInfo,
+    filename: string,
+    data: string,
+  ) => Promise<CalendarObject>;
+  /**
+   * Replace an object if its etag still matches.
+   * @throws Error (see writeConflictError) if it was changed meanwhile
+   */
+  updateObject: (object: CalendarObject) => Promise<CalendarObject>;
+  /**
+   * Delete an object if its etag still matches.
+   * @throws Error (see writeConflictError) if it was changed meanwhile
+   */
+  deleteObject: (object: Omit<CalendarObject, 'data'>) => Promise<void>;
+  /**
+   * Changes to a calendar since an earlier sync.
+   * Without a state, every object is reported as changed.
+   */
+  syncChanges: (
+    calendar: CalendarInfo,
+    since?: SyncState,
+  ) => Promise<SyncResult>;
+};
+
+/** Error for a write rejected because the object changed (HTTP 412) */
+export const writeConflictError = (action: string) =>
+  new Error(
+    `Could not ${action} the event: it was modified by someone else. Fetch it again and retry.`,
+  );
+
+/**
+ * syncChanges by comparing ETags, for backends without a native sync
+ * protocol. An unchanged ctag skips fetching the objects.
+ * @param fetchObjects - The backend's fetchObjects
+ */
+export const syncByEtags =
+  (fetchObjects: CalendarBackend['fetchObjects']) =>
+  async (calendar: CalendarInfo, since?: SyncState): Promise<SyncResult> => {
+    if (since && calendar.ctag !== null && since.ctag === calendar.ctag) {
+      return { state: since, changed: [], deleted: [] };
+    }
+
+    const objects = await fetchObjects(calendar);
+    const etags = Object.fromEntries(
+      objects.map((object) => [object.url, object.etag]),
+    );
+    const previous = since?.etags ?? {};
+    return {
+      state: { ctag: calendar.ctag, etags },
+      changed: objects.filter(
+        (object) =>
+          !(object.url in previous) || previous[object.url] !== object.etag,
+      ),
+      deleted: Object.keys(previous).filter((url) => !(url in etags)),
+    };
+  };
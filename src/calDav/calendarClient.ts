@@ -1,119 +1,753 @@
-import { generateICal, ICalInput } from '@/utils/ical-lib';
+import { generateICal, generateUid, ICalInput } from '@/utils/ical-lib';
+import type { ICalCalendarExtras, Organizer } from '@/utils/ical-lib';
+import { createITipMessages, type ScheduleChange } from '@/utils/itip';
+import type { MailSender } from '@/mail/mailSender';
 import {
   parseCalendarObjects,
+  parseIcsObject,
   type CalendarEvent,
+  type IcsParseOptions,
 } from '@/utils/calendar-events';
-import { DAVClient } from 'tsdav';
-
-const CALDAV_SERVER_URL =
-  process.env.CALDAV_SERVER_URL ?? 'http://localhost:5232/';
-const CALDAV_USERNAME = process.env.CALDAV_USERNAME ?? 'username';
-const CALDAV_PASSWORD = process.env.CALDAV_PASSWORD ?? 'password';
-
-let clientPromise: Promise<DAVClient> | null = null;
-
-const getAuthenticatedClient = () => {
-  // If a login is already in progress or finished, return that same promise
-  if (clientPromise) return clientPromise;
-
-  // Otherwise, create the promise and store it
-  clientPromise = (async () => {
-    const client = new DAVClient({
-      serverUrl: CALDAV_SERVER_URL,
-      credentials: { username: CALDAV_USERNAME, password: CALDAV_PASSWORD },
-      authMethod: 'Basic',
-      defaultAccountType: 'caldav',
-    });
+import { shiftRecurrenceWeekday } from '@/utils/recurrence';
+import type {
+  CalendarBackend,
+  CalendarInfo,
+  CalendarObject,
+  SyncState,
+} from '@/calDav/calendarBackend';
+import { DateTime } from 'luxon';
 
-    try {
-      await client.login();
-      return client;
-    } catch (error) {
-      clientPromise = null; // Reset so we can try again later
-      throw error;
-    }
-  })();
+/** Display name or URL of the default calendar. Defaults to the first calendar */
+const CALDAV_DEFAULT_CALENDAR = process.env.CALDAV_DEFAULT_CALENDAR;
+
+/** Selector value that targets every event calendar */
+export const ALL_CALENDARS = 'all';
+
+/**
+ * Calendar(s) to target: display name or URL, a list of them,
+ * or ALL_CALENDARS. Undefined means the default calendar.
+ */
+export type CalendarSelector = string | string[];
 
-  return clientPromise;
+export type { CalendarInfo };
+
+/** Changes that can be applied to an existing event */
+export type EventChanges = Partial<
+  Pick<
+    ICalInput,
+    | 'title'
+    | 'start'
+    | 'end'
+    | 'allDay'
+    | 'transparent'
+    | 'timezone'
+    | 'description'
+    | 'location'
+    | 'attendees'
+  >
+>;
+
+/** How meeting invitations are sent for the events of a calendar client */
+export type SchedulingOptions = {
+  /** The user, as organizer of the events they invite attendees to */
+  organizer?: Organizer;
+  /** Delivers iTIP messages to attendees. Without one, none are sent */
+  mailSender?: MailSender;
 };
 
 /**
- * Get the primary (first) calendar for the authenticated user.
- * Shared helper to avoid duplicating calendar fetching logic.
- * @throws Error if no calendars are found
+ * Which part of a recurring series a change applies to:
+ * a single occurrence or the whole series.
  */
-const getPrimaryCalendar = async () => {
-  const client = await getAuthenticatedClient();
-  const calendars = await client.fetchCalendars();
+export type EventScope = 'occurrence' | 'series';
 
-  if (calendars.length === 0) {
-    throw new Error('No calendars found for the user.');
-  }
+export type EventTarget = {
+  /** Original start of the targeted occurrence of a recurring series */
+  recurrenceId?: Date;
+  /** Defaults to 'occurrence' when recurrenceId is given, otherwise 'series' */
+  scope?: EventScope;
+};
 
-  return { client, calendar: calendars[0] };
+/** A stored event as returned by findEventByUid */
+export type StoredEvent = {
+  /** The series master, or the first override if there is none */
+  event: CalendarEvent;
+  /** The stored object holding the event (data + ETag) */
+  calendarObject: CalendarObject;
+  /** All components of the event in the object (master and overrides) */
+  components: ICalInput[];
+  /** Calendar-level content of the object (VTIMEZONE etc.) */
+  extras: ICalCalendarExtras;
 };
 
-const createEvent = async ({
-  title,
-  start,
-  end,
-  description,
-  location,
-}: Omit<ICalInput, 'uid' | 'domain'>) => {
-  const { client, calendar } = await getPrimaryCalendar();
+/** Where an earlier syncEvents call left off */
+export type EventSyncState = SyncState & {
+  /** UIDs of the events in each object, to report removed objects by UID */
+  uids: Record<string, string[]>;
+};
+
+const stripTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** Whether a calendar matches a name (case-insensitive) or URL */
+const matchesCalendar = (calendar: CalendarInfo, nameOrUrl: string) => {
+  const wanted = nameOrUrl.trim();
+  return (
+    calendar.name.toLowerCase() === wanted.toLowerCase() ||
+    stripTrailingSlash(calendar.url) === stripTrailingSlash(wanted) ||
+    // Relative URLs, e.g. "/user/team/"
+    (wanted.startsWith('/') &&
+      stripTrailingSlash(calendar.url).endsWith(stripTrailingSlash(wanted)))
+  );
+};
+
+/** Calendars that can hold events (servers may omit components) */
+const isEventCalendar = (calendar: CalendarInfo) =>
+  calendar.components.length === 0 || calendar.components.includes('VEVENT');
+
+/** Find one calendar by name or URL */
+export const findCalendar = (calendars: CalendarInfo[], nameOrUrl: string) => {
+  const calendar = calendars.find((c) => matchesCalendar(c, nameOrUrl));
+  if (!calendar) {
+    const available = calendars.map((c) => c.name).join(', ');
+    throw new Error(
+      `Calendar "${nameOrUrl}" not found. Available calendars: ${available}`,
+    );
+  }
+  return calendar;
+};
+
+/**
+ * The default calendar: CALDAV_DEFAULT_CALENDAR if set, otherwise the first one.
+ */
+const getDefaultCalendar = (calendars: CalendarInfo[]) =>
+  CALDAV_DEFAULT_CALENDAR
+    ? findCalendar(calendars, CALDAV_DEFAULT_CALENDAR)
+    : calendars[0];
+
+/** Parse calendar objects and tag each event with its calendar's name */
+const parseCalendarEvents = (
+  calendar: CalendarInfo,
+  objects: CalendarObject[],
+  options: IcsParseOptions = {},
+): CalendarEvent[] =>
+  parseCalendarObjects(objects, undefined, options).map((event) => ({
+    ...event,
+    calendar: calendar.name,
+  }));
+
+/** Drop undefined values so they don't overwrite existing fields when spread */
+const definedChanges = (changes: EventChanges): EventChanges =>
+  Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined),
+  );
+
+const isSameInstant = (a?: Date, b?: Date) =>
+  a !== undefined && b !== undefined && a.getTime() === b.getTime();
+
+/**
+ * Calendar operations on top of a storage backend: calendar selection,
+ * event parsing and generation, recurrence handling and ETag-checked writes.
+ * Changes of events the user organizes are sent to their attendees.
+ * @param backend - Where the calendar objects are stored
+ * @param scheduling - Organizer and mail sender for invitations
+ */
+export const createCalendarClient = (
+  backend: CalendarBackend,
+  { organizer, mailSender }: SchedulingOptions = {},
+) => {
+  /**
+   * Fetch the event calendars of the user.
+   * @throws Error if no calendars are found
+   */
+  const fetchEventCalendars = async () => {
+    const calendars = (await backend.listCalendars()).filter(isEventCalendar);
 
-  const eventData: ICalInput = {
+    if (calendars.length === 0) {
+      throw new Error('No calendars found for the user.');
+    }
+
+    return calendars;
+  };
+
+  /**
+   * Resolve a calendar selector to the calendars it targets.
+   * The default calendar comes first when ALL_CALENDARS is used.
+   * @throws Error if no calendars exist or a selected calendar is not found
+   */
+  const resolveCalendars = async (selector?: CalendarSelector) => {
+    const calendars = await fetchEventCalendars();
+    const names = Array.isArray(selector)
+      ? selector
+      : selector
+        ? [selector]
+        : [];
+
+    if (names.length === 0) {
+      return [getDefaultCalendar(calendars)];
+    }
+    if (names.some((name) => name.toLowerCase() === ALL_CALENDARS)) {
+      const defaultCalendar = getDefaultCalendar(calendars);
+      return [
+        defaultCalendar,
+        ...calendars.filter((c) => c !== defaultCalendar),
+      ];
+    }
+    return [...new Set(names.map((name) => findCalendar(calendars, name)))];
+  };
+
+  /**
+   * The organizer of an event that gets attendees.
+   * @throws Error if the user has no email address configured
+   */
+  const requireOrganizer = (): Organizer => {
+    if (!organizer) {
+      throw new Error(
+        'Cannot invite attendees: no organizer email address is configured for this calendar.',
+      );
+    }
+    return organizer;
+  };
+
+  /** Whether the user is the organizer of a meeting */
+  const isOwnMeeting = (components: ICalInput[]) => {
+    const eventOrganizer = components.find((c) => c.organizer)?.organizer;
+    return (
+      organizer !== undefined &&
+      eventOrganizer?.email.toLowerCase() === organizer.email.toLowerCase()
+    );
+  };
+
+  /** Meetings the user organizes get a new SEQUENCE with every change */
+  const nextSequence = (component: ICalInput) =>
+    component.attendees?.length && isOwnMeeting([component])
+      ? (component.sequence ?? 0) + 1
+      : component.sequence;
+
+  /**
+   * Send the iTIP messages for a change of a meeting the user organizes.
+   * Meetings organized by someone else are changed locally only.
+   * @returns Email addresses the messages were sent to
+   * @throws Error if sending fails; the change itself is already stored
+   */
+  const sendSchedulingMessages = async (change: ScheduleChange) => {
+    if (
+      !mailSender ||
+      !isOwnMeeting([...(change.after ?? []), ...(change.before ?? [])])
+    ) {
+      return [];
+    }
+
+    const messages = createITipMessages(change);
+    try {
+      for (const message of messages) await mailSender.send(message);
+    } catch (error) {
+      throw new Error(
+        `The calendar was updated, but notifying the attendees failed: ${(error as Error).message}`,
+      );
+    }
+    return [...new Set(messages.flatMap((message) => message.to))];
+  };
+
+  /**
+   * List the user's event calendars with their metadata.
+   * The default calendar is listed first.
+   */
+  const listCalendars = (): Promise<CalendarInfo[]> =>
+    resolveCalendars(ALL_CALENDARS);
+
+  const createEvent = async ({
     title,
     start,
     end,
     description,
     location,
+    timezone,
+    allDay,
+    transparent,
+    recurrence,
+    attendees,
+    reminders,
+    calendar: calendarName,
+  }: Omit<
+    ICalInput,
+    'uid' | 'domain' | 'exdates' | 'recurrenceId' | 'organizer' | 'sequence'
+  > & {
+    /** Target calendar name or URL. Defaults to the default calendar */
+    calendar?: string;
+  }) => {
+    const [calendar] = await resolveCalendars(calendarName);
+
+    const uid = generateUid();
+    const eventData: ICalInput = {
+      uid,
+      title,
+      start,
+      end,
+      description,
+      location,
+      // Recurring and all-day events need local dates, single events stay in UTC
+      timezone: recurrence || allDay ? timezone : undefined,
+      allDay,
+      transparent,
+      recurrence,
+      organizer: attendees?.length ? requireOrganizer() : undefined,
+      attendees: attendees?.length ? attendees : undefined,
+      reminders,
+    };
+
+    await backend.createObject(
+      calendar,
+      `${encodeURIComponent(uid)}.ics`,
+      generateICal(eventData),
+    );
+    const invited = await sendSchedulingMessages({
+      after: [eventData],
+      timezone,
+    });
+
+    return { uid, title, start, calendar: calendar.name, invited };
   };
 
-  const iCalString = generateICal(eventData);
+  /**
+   * List the events of the selected calendar(s), tagged with their calendar.
+   * Recurring series are expanded within the default expansion window.
+   * @throws Error if a selected calendar does not exist
+   */
+  const listEvents = async (
+    selector?: CalendarSelector,
+  ): Promise<CalendarEvent[]> => {
+    let calendars;
+    try {
+      calendars = await resolveCalendars(selector);
+    } catch (error) {
+      // Return empty array if no calendars found
+      if (selector) throw error;
+      return [];
+    }
 
-  await client.createCalendarObject({
-    calendar,
-    filename: `${Date.now()}.ics`,
-    iCalString,
-  });
+    const events = await Promise.all(
+      calendars.map(async (calendar) =>
+        parseCalendarEvents(calendar, await backend.fetchObjects(calendar)),
+      ),
+    );
+    return events.flat();
+  };
 
-  return { title, start };
-};
+  /**
+   * Get the events overlapping a time range, with recurring series expanded.
+   * Events of several calendars are aggregated; each carries its calendar name.
+   * @param timezone - Zone for floating times and all-day dates
+   * @param selector - Calendar(s) to query. Defaults to the default calendar.
+   * @throws Error if a selected calendar does not exist
+   */
+  const getEventsInRange = async (
+    start: Date,
+    end: Date,
+    timezone?: string,
+    selector?: CalendarSelector,
+  ): Promise<CalendarEvent[]> => {
+    let calendars;
+    try {
+      calendars = await resolveCalendars(selector);
+    } catch (error) {
+      // Return empty array if no calendars found
+      if (selector) throw error;
+      return [];
+    }
 
-const listEvents = async () => {
-  try {
-    const { client, calendar } = await getPrimaryCalendar();
-    const events = await client.fetchCalendarObjects({ calendar });
-    return events || [];
-  } catch {
-    // Return empty array if no calendars found
-    return [];
-  }
-};
+    const events = await Promise.all(
+      calendars.map(async (calendar) => {
+        const objects = await backend.fetchObjects(calendar, { start, end });
+
+        // Expand recurring series inside the range (also filters the objects
+        // backends return without range support)
+        return parseCalendarEvents(calendar, objects, {
+          range: { start, end },
+          timezone,
+        });
+      }),
+    );
+    return events.flat();
+  };
+
+  /**
+   * Get the events of one calendar overlapping a time range together with
+   * the stored objects they come from, e.g. to export the raw iCalendar data.
+   * @param timezone - Zone for floating times and all-day dates
+   * @param selector - Calendar name or URL
+   * @throws Error if the calendar does not exist
+   */
+  const getEventObjectsInRange = async (
+    start: Date,
+    end: Date,
+    timezone: string | undefined,
+    selector: string,
+  ) => {
+    const [calendar] = await resolveCalendars(selector);
+    const objects = await backend.fetchObjects(calendar, { start, end });
+    const events = parseCalendarEvents(calendar, objects, {
+      range: { start, end },
+      timezone,
+    });
 
-const getEventsInRange = async (
-  start: Date,
-  end: Date,
-): Promise<CalendarEvent[]> => {
-  try {
-    const { client, calendar } = await getPrimaryCalendar();
+    // Backends without range support return objects outside the range
+    const urls = new Set(events.map((event) => event.url));
+    return {
+      calendar,
+      events,
+      objects: objects.filter((object) => urls.has(object.url)),
+    };
+  };
 
-    const events = await client.fetchCalendarObjects({
+  /**
+   * Detect changes to a calendar since an earlier sync. The ctag is checked
+   * first, so an unchanged calendar is not downloaded again.
+   * @param selector - Calendar name or URL
+   * @param since - State returned by the previous call. Without it, every
+   * event counts as changed.
+   * @returns The new state and the UIDs of added, changed and removed events
+   * @throws Error if the calendar does not exist
+   */
+  const syncEvents = async (
+    selector: string,
+    since?: EventSyncState,
+  ): Promise<{ state: EventSyncState; changedUids: string[] }> => {
+    const [calendar] = await resolveCalendars(selector);
+    const { state, changed, deleted } = await backend.syncChanges(
       calendar,
-      timeRange: {
-        start: start.toISOString(),
-        end: end.toISOString(),
-      },
+      since,
+    );
+
+    const uids = { ...since?.uids };
+    const changedUids = new Set<string>();
+    for (const url of deleted) {
+      uids[url]?.forEach((uid) => changedUids.add(uid));
+      delete uids[url];
+    }
+    for (const object of changed) {
+      // An object may have changed its UID; report the old one as well
+      uids[object.url]?.forEach((uid) => changedUids.add(uid));
+      uids[object.url] = [
+        ...new Set(
+          parseCalendarObjects([object], undefined, { expand: false })
+            .map((event) => event.uid)
+            .filter((uid): uid is string => uid !== null),
+        ),
+      ];
+      uids[object.url].forEach((uid) => changedUids.add(uid));
+    }
+
+    return { state: { ...state, uids }, changedUids: [...changedUids] };
+  };
+
+  /**
+   * Locate a stored event by its iCalendar UID, in any of the user's calendars
+   * (the default calendar is searched first).
+   * Returns the series master (not expanded) together with the stored
+   * object (data + ETag) and all of its stored components.
+   * @param selector - Calendar(s) to search. Defaults to all calendars.
+   * @throws Error if no event with the UID exists
+   */
+  const findEventByUid = async (
+    uid: string,
+    selector: CalendarSelector = ALL_CALENDARS,
+  ): Promise<StoredEvent> => {
+    const calendars = await resolveCalendars(selector);
+
+    for (const calendar of calendars) {
+      const objects = await backend.fetchObjects(calendar);
+
+      for (const calendarObject of objects) {
+        const events = parseCalendarEvents(calendar, [calendarObject], {
+          expand: false,
+        }).filter((evt) => evt.uid === uid);
+        if (events.length === 0) continue;
+
+        const event = events.find((evt) => !evt.recurrenceId) ?? events[0];
+        const { events: components, extras } = parseIcsObject(
+          calendarObject.data,
+        );
+        return { event, calendarObject, components, extras };
+      }
+    }
+
+    throw new Error(`No event found with UID "${uid}".`);
+  };
+
+  /**
+   * Write the components back to the stored object, if its ETag still matches.
+   * Calendar-level content of the object (VTIMEZONE etc.) is kept.
+   * @returns The stored event matching recurrenceId, or the series master
+   */
+  const writeComponents = async (
+    { event, calendarObject, extras }: StoredEvent,
+    components: ICalInput[],
+    recurrenceId?: Date,
+  ): Promise<CalendarEvent> => {
+    const updatedObject = await backend.updateObject({
+      url: calendarObject.url,
+      etag: calendarObject.etag,
+      data: generateICal(components, extras),
     });
 
-    if (!events?.length) return [];
+    const events = parseCalendarObjects([updatedObject], undefined, {
+      expand: false,
+    }).map((evt) => ({ ...evt, calendar: event.calendar }));
+    return (
+      events.find(
+        (evt) => evt.recurrenceId?.getTime() === recurrenceId?.getTime(),
+      ) ?? events[0]
+    );
+  };
+
+  /**
+   * Update an existing event identified by UID.
+   * Unspecified fields keep their current values. The write uses the
+   * object's ETag (If-Match) so concurrent modifications are not overwritten.
+   *
+   * For recurring events, the 'occurrence' scope stores an overridden instance
+   * (RECURRENCE-ID). The 'series' scope edits the master; a new start given for
+   * an occurrence shifts the whole series by the same amount. Its EXDATEs and
+   * RECURRENCE-IDs move with it; overridden occurrences that were moved keep
+   * their own time.
+   */
+  const updateEvent = async (
+    uid: string,
+    changes: EventChanges,
+    target: EventTarget = {},
+  ): Promise<CalendarEvent> => {
+    const stored = await findEventByUid(uid);
+    const { components } = stored;
+    const { recurrenceId } = target;
+    const scope = target.scope ?? (recurrenceId ? 'occurrence' : 'series');
+    const master = components.find((c) => !c.recurrenceId);
+    const updates = definedChanges(changes);
+    // Inviting people to a private event makes the user its organizer
+    const scheduling =
+      updates.attendees?.length && !master?.organizer
+        ? { organizer: requireOrganizer() }
+        : {};
 
-    return parseCalendarObjects(events);
-  } catch {
-    // Return empty array if no calendars found
-    return [];
-  }
+    /** Store the components and notify the attendees */
+    const write = async (written: ICalInput[], writtenRecurrenceId?: Date) => {
+      const updated = await writeComponents(
+        stored,
+        written,
+        writtenRecurrenceId,
+      );
+      await sendSchedulingMessages({
+        before: components,
+        after: written,
+        extras: stored.extras,
+      });
+      return updated;
+    };
+
+    if (scope === 'occurrence') {
+      if (!recurrenceId || !master?.recurrence) {
+        throw new Error(
+          `Event "${uid}" is not a recurring event occurrence. Update the whole event instead.`,
+        );
+      }
+      const durationMs = master.end.getTime() - master.start.getTime();
+      const existing = components.find((c) =>
+        isSameInstant(c.recurrenceId, recurrenceId),
+      );
+      const override: ICalInput = {
+        ...(existing ?? {
+          ...master,
+          start: recurrenceId,
+          end: new Date(recurrenceId.getTime() + durationMs),
+        }),
+        ...updates,
+        ...scheduling,
+        recurrence: undefined,
+        exdates: undefined,
+        recurrenceId,
+      };
+      override.sequence = nextSequence(override);
+
+      const others = components.filter((c) => c !== existing);
+      return write([...others, override], recurrenceId);
+    }
+
+    if (!master) {
+      throw new Error(`Series master of event "${uid}" was not found.`);
+    }
+
+    const zone = updates.timezone ?? master.timezone ?? 'utc';
+    let { start, end } = master;
+    if (updates.start) {
+      // Shift relative to the occurrence the new time was given for
+      const reference = recurrenceId ?? master.start;
+      const shiftMs = updates.start.getTime() - reference.getTime();
+      const durationMs = updates.end
+        ? updates.end.getTime() - updates.start.getTime()
+        : master.end.getTime() - master.start.getTime();
+      if (updates.allDay ?? master.allDay) {
+        // Shift by calendar days so whole days keep starting at midnight,
+        // even across a DST change
+        const day = (date: Date) =>
+          DateTime.fromJSDate(date).setZone(zone).startOf('day');
+        const shiftDays = Math.round(
+          day(updates.start).diff(day(reference), 'days').days,
+        );
+        const shifted = day(master.start).plus({ days: shiftDays });
+        start = shifted.toJSDate();
+        end = shifted
+          .plus({ days: Math.max(Math.round(durationMs / 86_400_000), 1) })
+          .toJSDate();
+      } else {
+        start = new Date(master.start.getTime() + shiftMs);
+        end = new Date(start.getTime() + durationMs);
+      }
+    } else if (updates.end) {
+      end = new Date(
+        start.getTime() +
+          (updates.end.getTime() - (recurrenceId ?? start).getTime()),
+      );
+    }
+    const retimed = !isSameInstant(start, master.start);
+    // Such a rule is kept verbatim, so its occurrences cannot be moved with it
+    const unsupportedRule = master.properties?.find((p) => p.name === 'RRULE');
+    if (retimed && unsupportedRule) {
+      throw new Error(
+        `Event "${master.title}" repeats by a rule this server cannot change (${unsupportedRule.value}). Move it in the calendar app it was created in.`,
+      );
+    }
+
+    const from = DateTime.fromJSDate(master.start).setZone(zone);
+    const to = DateTime.fromJSDate(start).setZone(zone);
+    const allDay = updates.allDay ?? master.allDay;
+    // Occurrences move to the same wall-clock time as the master, so
+    // cancelled and changed occurrences still match theirs
+    const shiftDays = Math.round(
+      to.startOf('day').diff(from.startOf('day'), 'days').days,
+    );
+    const shiftOccurrence = (date: Date): Date => {
+      const day = DateTime.fromJSDate(date)
+        .setZone(zone)
+        .startOf('day')
+        .plus({ days: shiftDays });
+      return (
+        allDay
+          ? day
+          : day.set({ hour: to.hour, minute: to.minute, second: to.second })
+      ).toJSDate();
+    };
+
+    const updatedMaster: ICalInput = {
+      ...master,
+      ...updates,
+      ...scheduling,
+      start,
+      end,
+      recurrence:
+        master.recurrence && retimed
+          ? shiftRecurrenceWeekday(master.recurrence, from, to)
+          : master.recurrence,
+      exdates: retimed ? master.exdates?.map(shiftOccurrence) : master.exdates,
+    };
+    updatedMaster.sequence = nextSequence(updatedMaster);
+
+    const overrides = components
+      .filter((c) => c.recurrenceId)
+      .map((override): ICalInput => {
+        if (!retimed) return override;
+        const recurrenceId = shiftOccurrence(override.recurrenceId!);
+        // An occurrence that was moved keeps its own time
+        const moved = !isSameInstant(override.start, override.recurrenceId);
+        const shifted: ICalInput = {
+          ...override,
+          recurrenceId,
+          ...(moved
+            ? {}
+            : {
+                start: recurrenceId,
+                end: new Date(
+                  recurrenceId.getTime() +
+                    (override.end.getTime() - override.start.getTime()),
+                ),
+              }),
+        };
+        shifted.sequence = nextSequence(shifted);
+        return shifted;
+      });
+    return write([updatedMaster, ...overrides]);
+  };
+
+  /**
+   * Delete an existing event identified by UID.
+   * Uses the object's ETag (If-Match) to avoid deleting a changed event.
+   * With the 'occurrence' scope, only one occurrence of a recurring series is
+   * cancelled by adding an EXDATE (and removing its override, if any).
+   * @returns The event as it was before deletion
+   */
+  const deleteEvent = async (
+    uid: string,
+    target: EventTarget = {},
+  ): Promise<CalendarEvent> => {
+    const stored = await findEventByUid(uid);
+    const { event, calendarObject, components } = stored;
+    const { recurrenceId } = target;
+    const scope = target.scope ?? (recurrenceId ? 'occurrence' : 'series');
+
+    if (scope === 'occurrence') {
+      const master = components.find((c) => !c.recurrenceId);
+      if (!recurrenceId || !master?.recurrence) {
+        throw new Error(
+          `Event "${uid}" is not a recurring event occurrence. Delete the whole event instead.`,
+        );
+      }
+
+      const updatedMaster: ICalInput = {
+        ...master,
+        exdates: [...(master.exdates ?? []), recurrenceId],
+        sequence: nextSequence(master),
+      };
+      const overrides = components.filter(
+        (c) => c.recurrenceId && !isSameInstant(c.recurrenceId, recurrenceId),
+      );
+      await writeComponents(stored, [updatedMaster, ...overrides]);
+      await sendSchedulingMessages({
+        before: components,
+        after: [updatedMaster, ...overrides],
+        cancelledOccurrence: recurrenceId,
+        extras: stored.extras,
+      });
+
+      const durationMs = master.end.getTime() - master.start.getTime();
+      return {
+        ...event,
+        start: recurrenceId,
+        end: new Date(recurrenceId.getTime() + durationMs),
+        recurrenceId,
+      };
+    }
+
+    await backend.deleteObject({
+      url: calendarObject.url,
+      etag: calendarObject.etag,
+    });
+    await sendSchedulingMessages({
+      before: components,
+      extras: stored.extras,
+    });
+
+    return event;
+  };
+
+  return {
+    listCalendars,
+    createEvent,
+    listEvents,
+    getEventsInRange,
+    getEventObjectsInRange,
+    syncEvents,
+    findEventByUid,
+    updateEvent,
+    deleteEvent,
+  };
 };
 
-export { createEvent, listEvents, getEventsInRange };
+export type CalendarClient = ReturnType<typeof createCalendarClient>;
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  syncByEtags,
+  writeConflictError,
+  type CalendarBackend,
+  type CalendarInfo,
+  type CalendarObject,
+} from '@/calDav/calendarBackend';
+
+/** Calendar created when the directory has none */
+const DEFAULT_CALENDAR_NAME = 'Calendar';
+
+const hash = (value: string) =>
+  `"${createHash('sha1').update(value).digest('hex')}"`;
+
+/** Directory URLs end with a slash, like CalDAV collection URLs */
+const toDirectoryUrl = (dir: string) => `${pathToFileURL(dir).href}/`;
+
+const isIcsFile = (name: string) => name.toLowerCase().endsWith('.ics');
+
+const readObject = async (filePath: string): Promise<CalendarObject> => {
+  const data = await fs.readFile(filePath, 'utf8');
+  return { url: pathToFileURL(filePath).href, etag: hash(data), data };
+};
+
+/**
+ * Calendar backend storing each calendar as a directory of .ics files:
+ * root/<calendar name>/<object>.ics. Files can also be added or edited by
+ * other programs. ETags are content hashes, so edits made elsewhere are
+ * detected; checks and writes are not atomic across processes.
+ * @param rootDir - Directory holding one subdirectory per calendar
+ */
+export const createFileSystemBackend = (rootDir: string): CalendarBackend => {
+  const root = path.resolve(rootDir);
+
+  /** Resolve an object URL to a path inside the root directory */
+  const toObjectPath = (url: string) => {
+    const filePath = fileURLToPath(url);
+    if (path.relative(root, filePath).startsWith('..')) {
+      throw new Error(`"${url}" is not inside the calendar directory.`);
+    }
+    return filePath;
+  };
+
+  const listIcsFiles = async (dir: string) =>
+    (await fs.readdir(dir, { withFileTypes: true }))
+      .filter((entry) => entry.isFile() && isIcsFile(entry.name))
+      .map((entry) => path.join(dir, entry.name));
+
+  /** Collection tag from file names, sizes and modification times */
+  const getCtag = async (dir: string) => {
+    const files = await listIcsFiles(dir);
+    const stats = await Promise.all(
+      files.map(async (file) => {
+        const { size, mtimeMs } = await fs.stat(file);
+        return `${path.basename(file)}:${size}:${mtimeMs}`;
+      }),
+    );
+    return hash(stats.sort().join('\n'));
+  };
+
+  /** Check that the caller has the latest version of a stored object */
+  const assertCurrent = async (
+    object: Omit<CalendarObject, 'data'>,
+    action: string,
+  ) => {
+    const filePath = toObjectPath(object.url);
+    let current: CalendarObject;
+    try {
+      current = await readObject(filePath);
+    } catch {
+      throw new Error(`Could not ${action} the event: it no longer exists.`);
+    }
+    if (object.etag && object.etag !== current.etag) {
+      throw writeConflictError(action);
+    }
+    return filePath;
+  };
+
+  const fetchObjects: CalendarBackend['fetchObjects'] = async (calendar) => {
+    const files = await listIcsFiles(fileURLToPath(calendar.url));
+    return Promise.all(files.map(readObject));
+  };
+
+  return {
+    listCalendars: async () => {
+      await fs.mkdir(root, { recursive: true });
+      let dirs = (await fs.readdir(root, { withFileTypes: true }))
+        .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map((entry) => entry.name)
+        .sort();
+      if (dirs.length === 0) {
+        await fs.mkdir(path.join(root, DEFAULT_CALENDAR_NAME));
+        dirs = [DEFAULT_CALENDAR_NAME];
+      }
+
+      return Promise.all(
+        dirs.map(
+          async (name): Promise<CalendarInfo> => ({
+            name,
+            url: toDirectoryUrl(path.join(root, name)),
+            color: null,
+            ctag: await getCtag(path.join(root, name)),
+            components: ['VEVENT', 'VTODO'],
+          }),
+        ),
+      );
+    },
+
+    fetchObjects,
+
+    createObject: async (calendar, filename, data) => {
+      const filePath = toObjectPath(new URL(filename, calendar.url).href);
+      try {
+        // wx: fail instead of overwriting an existing object
+        await fs.writeFile(filePath, data, { flag: 'wx' });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          throw writeConflictError('create');
+        }
+        throw error;
+      }
+      return { url: pathToFileURL(filePath).href, etag: hash(data), data };
+    },
+
+    updateObject: async (object) => {
+      const filePath = await assertCurrent(object, 'update');
+      // Write a temporary file first so readers never see half an object
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, object.data);
+      await fs.rename(tempPath, filePath);
+      return { ...object, etag: hash(object.data) };
+    },
+
+    deleteObject: async (object) => {
+      await fs.unlink(await assertCurrent(object, 'delete'));
+    },
+
+    syncChanges: syncByEtags(fetchObjects),
+  };
+};
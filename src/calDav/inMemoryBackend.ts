@@ -0,0 +1,115 @@
+import {
+  syncByEtags,
+  writeConflictError,
+  type CalendarBackend,
+  type CalendarInfo,
+  type CalendarObject,
+} from '@/calDav/calendarBackend';
+
+/**
+ * In-memory calendar backend, e.g. for tests or trying the app without a
+ * CalDAV server. Data is lost on restart.
+ */
+export type InMemoryBackend = CalendarBackend & {
+  /** Current objects of a calendar (by name), for assertions */
+  getObjects: (calendarName: string) => CalendarObject[];
+};
+
+const BASE_URL = 'memory://localhost/calendars/';
+
+/**
+ * Create an empty in-memory calendar store.
+ * Objects get ETags and writes with a stale ETag fail, like on a CalDAV
+ * server. The range and component type of fetchObjects are not applied.
+ * @param calendarNames - Names of the calendars
+ */
+export const createInMemoryBackend = (
+  calendarNames: string[] = ['Calendar'],
+): InMemoryBackend => {
+  let version = 0;
+  const nextTag = () => `"${++version}"`;
+
+  const calendars: CalendarInfo[] = calendarNames.map((name) => ({
+    name,
+    url: `${BASE_URL}${encodeURIComponent(name.toLowerCase())}/`,
+    color: null,
+    ctag: nextTag(),
+    components: ['VEVENT', 'VTODO'],
+  }));
+  const objects = new Map<string, Map<string, CalendarObject>>(
+    calendars.map((calendar) => [calendar.url, new Map()]),
+  );
+
+  const getCalendarObjects = (calendarUrl: string) => {
+    const calendarObjects = objects.get(calendarUrl);
+    if (!calendarObjects) {
+      throw new Error(`Calendar "${calendarUrl}" does not exist.`);
+    }
+    return calendarObjects;
+  };
+
+  /** Find a stored object and check that the caller has its latest version */
+  const findCurrent = (
+    object: Omit<CalendarObject, 'data'>,
+    action: string,
+  ) => {
+    for (const [calendarUrl, calendarObjects] of objects) {
+      const stored = calendarObjects.get(object.url);
+      if (!stored) continue;
+      if (object.etag && object.etag !== stored.etag) {
+        throw writeConflictError(action);
+      }
+      return { calendarUrl, calendarObjects };
+    }
+    throw new Error(`Could not ${action} the event: it no longer exists.`);
+  };
+
+  /** Record a change in the calendar's ctag, like a CalDAV server does */
+  const touch = (calendarUrl: string) => {
+    const calendar = calendars.find((c) => c.url === calendarUrl);
+    if (calendar) calendar.ctag = nextTag();
+  };
+
+  const fetchObjects: CalendarBackend['fetchObjects'] = async (calendar) =>
+    [...getCalendarObjects(calendar.url).values()].map((object) => ({
+      ...object,
+    }));
+
+  return {
+    listCalendars: async () => calendars.map((calendar) => ({ ...calendar })),
+
+    fetchObjects,
+
+    createObject: async (calendar, filename, data) => {
+      const calendarObjects = getCalendarObjects(calendar.url);
+      const url = `${calendar.url}${filename}`;
+      if (calendarObjects.has(url)) throw writeConflictError('create');
+
+      const object = { url, etag: nextTag(), data };
+      calendarObjects.set(url, object);
+      touch(calendar.url);
+      return { ...object };
+    },
+
+    updateObject: async (object) => {
+      const { calendarUrl, calendarObjects } = findCurrent(object, 'update');
+      const updated = { ...object, etag: nextTag() };
+      calendarObjects.set(object.url, updated);
+      touch(calendarUrl);
+      return { ...updated };
+    },
+
+    deleteObject: async (object) => {
+      const { calendarUrl, calendarObjects } = findCurrent(object, 'delete');
+      calendarObjects.delete(object.url);
+      touch(calendarUrl);
+    },
+
+    syncChanges: syncByEtags(fetchObjects),
+
+    getObjects: (calendarName) => {
+      const calendar = calendars.find((c) => c.name === calendarName);
+      return [...(objects.get(calendar?.url ?? '')?.values() ?? [])];
+    },
+  };
+};
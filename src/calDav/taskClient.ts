@@ -0,0 +1,291 @@
+import {
+  ALL_CALENDARS,
+  findCalendar,
+  type CalendarSelector,
+} from '@/calDav/calendarClient';
+import type {
+  CalendarBackend,
+  CalendarInfo,
+  CalendarObject,
+} from '@/calDav/calendarBackend';
+import {
+  isOpenTask,
+  isOverdueTask,
+  parseIcsTaskObject,
+  parseTaskObjects,
+  type CalendarTask,
+} from '@/utils/calendar-events';
+import {
+  generateTaskICal,
+  generateUid,
+  type ICalCalendarExtras,
+  type ICalTaskInput,
+} from '@/utils/ical-lib';
+import { getNow } from '@/utils/clock';
+
+/**
+ * Display name or URL of the default task list. Defaults to the first
+ * calendar that holds only tasks, or else the first one that holds tasks.
+ */
+const CALDAV_DEFAULT_TASK_LIST = process.env.CALDAV_DEFAULT_TASK_LIST;
+
+/** Which tasks listTasks returns */
+export type TaskFilter = 'open' | 'overdue' | 'completed' | 'all';
+
+/** Changes that can be applied to an existing task */
+export type TaskChanges = Partial<
+  Pick<
+    ICalTaskInput,
+    'title' | 'description' | 'dueAllDay' | 'timezone' | 'priority' | 'status'
+  >
+> & {
+  /** New due date, or null to remove it */
+  due?: Date | null;
+};
+
+/** A stored task as returned by findTaskByUid */
+export type StoredTask = {
+  task: CalendarTask;
+  /** The stored object holding the task (data + ETag) */
+  calendarObject: CalendarObject;
+  /** All components of the task in the object (with overridden instances) */
+  components: ICalTaskInput[];
+  /** Calendar-level content of the object (VTIMEZONE etc.) */
+  extras: ICalCalendarExtras;
+};
+
+/** Calendars that can hold tasks (servers may omit components) */
+const isTaskList = (calendar: CalendarInfo) =>
+  calendar.components.length === 0 || calendar.components.includes('VTODO');
+
+/** Earliest due first (tasks without a due date last), then by priority */
+const compareTasks = (a: CalendarTask, b: CalendarTask) =>
+  (a.due?.getTime() ?? Infinity) - (b.due?.getTime() ?? Infinity) ||
+  (a.priority ?? 10) - (b.priority ?? 10) ||
+  a.title.localeCompare(b.title);
+
+/**
+ * Task (VTODO) operations on top of a storage backend. Tasks live in the
+ * calendars that support VTODO, called task lists here.
+ * @param backend - Where the calendar objects are stored
+ */
+export const createTaskClient = (backend: CalendarBackend) => {
+  /**
+   * Fetch the task lists of the user.
+   * @throws Error if no calendar can hold tasks
+   */
+  const fetchTaskLists = async () => {
+    const taskLists = (await backend.listCalendars()).filter(isTaskList);
+    if (taskLists.length === 0) {
+      throw new Error('No task lists found for the user.');
+    }
+    return taskLists;
+  };
+
+  const getDefaultTaskList = (taskLists: CalendarInfo[]) =>
+    CALDAV_DEFAULT_TASK_LIST
+      ? findCalendar(taskLists, CALDAV_DEFAULT_TASK_LIST)
+      : (taskLists.find(
+          (c) => c.components.length > 0 && !c.components.includes('VEVENT'),
+        ) ?? taskLists[0]);
+
+  /**
+   * Resolve a selector to the task lists it targets, default list first.
+   * @throws Error if no task lists exist or a selected one is not found
+   */
+  const resolveTaskLists = async (selector?: CalendarSelector) => {
+    const taskLists = await fetchTaskLists();
+    const names = Array.isArray(selector)
+      ? selector
+      : selector
+        ? [selector]
+        : [];
+
+    if (names.length === 0) {
+      return [getDefaultTaskList(taskLists)];
+    }
+    if (names.some((name) => name.toLowerCase() === ALL_CALENDARS)) {
+      const defaultList = getDefaultTaskList(taskLists);
+      return [defaultList, ...taskLists.filter((c) => c !== defaultList)];
+    }
+    return [...new Set(names.map((name) => findCalendar(taskLists, name)))];
+  };
+
+  /** Parse task objects and tag each task with its list's name */
+  const parseListTasks = (
+    taskList: CalendarInfo,
+    objects: CalendarObject[],
+    timezone?: string,
+  ) =>
+    parseTaskObjects(objects, undefined, timezone).map((task) => ({
+      ...task,
+      calendar: taskList.name,
+    }));
+
+  const createTask = async ({
+    title,
+    description,
+    due,
+    dueAllDay,
+    timezone,
+    priority,
+    taskList: taskListName,
+  }: Omit<
+    ICalTaskInput,
+    'uid' | 'domain' | 'status' | 'completed' | 'percentComplete'
+  > & {
+    /** Target task list name or URL. Defaults to the default task list */
+    taskList?: string;
+  }) => {
+    const [taskList] = await resolveTaskLists(taskListName);
+
+    const uid = generateUid();
+    await backend.createObject(
+      taskList,
+      `${encodeURIComponent(uid)}.ics`,
+      generateTaskICal({
+        uid,
+        title,
+        description,
+        due,
+        dueAllDay,
+        // Due days are written in the user's zone, due times in UTC
+        timezone: dueAllDay ? timezone : undefined,
+        priority,
+      }),
+    );
+
+    return { uid, title, due, taskList: taskList.name };
+  };
+
+  /**
+   * List the tasks of the selected task list(s), sorted by due date.
+   * @param filter - Defaults to 'open': neither completed nor cancelled
+   * @param selector - Task list(s). Defaults to every task list
+   * @param timezone - Zone for floating times and due days
+   * @param now - Reference time for overdue tasks
+   * @throws Error if a selected task list does not exist
+   */
+  const listTasks = async ({
+    filter = 'open',
+    selector = ALL_CALENDARS,
+    timezone,
+    now = getNow(),
+  }: {
+    filter?: TaskFilter;
+    selector?: CalendarSelector;
+    timezone?: string;
+    now?: Date;
+  } = {}): Promise<CalendarTask[]> => {
+    const taskLists = await resolveTaskLists(selector);
+    const tasks = await Promise.all(
+      taskLists.map(async (taskList) =>
+        parseListTasks(
+          taskList,
+          await backend.fetchObjects(taskList, undefined, 'VTODO'),
+          timezone,
+        ),
+      ),
+    );
+
+    const matches = {
+      open: isOpenTask,
+      overdue: (task: CalendarTask) => isOverdueTask(task, now, timezone),
+      completed: (task: CalendarTask) => task.status === 'COMPLETED',
+      all: () => true,
+    }[filter];
+    return tasks.flat().filter(matches).sort(compareTasks);
+  };
+
+  /**
+   * Locate a stored task by its UID in any of the user's task lists.
+   * @throws Error if no task with the UID exists
+   */
+  const findTaskByUid = async (uid: string): Promise<StoredTask> => {
+    for (const taskList of await resolveTaskLists(ALL_CALENDARS)) {
+      const objects = await backend.fetchObjects(taskList, undefined, 'VTODO');
+      for (const calendarObject of objects) {
+        const task = parseListTasks(taskList, [calendarObject]).find(
+          (t) => t.uid === uid,
+        );
+        if (!task) continue;
+
+        const { tasks: components, extras } = parseIcsTaskObject(
+          calendarObject.data,
+        );
+        return { task, calendarObject, components, extras };
+      }
+    }
+    throw new Error(`No task found with UID "${uid}".`);
+  };
+
+  /**
+   * Update an existing task identified by UID. Unspecified fields keep
+   * their current values; a null due date removes it. Completing a task
+   * records when it was completed; reopening it clears that. The write uses the object's ETag (If-Match).
+   * @param now - Completion time, for tests
+   */
+  const updateTask = async (
+    uid: string,
+    changes: TaskChanges,
+    now = getNow(),
+  ): Promise<CalendarTask> => {
+    const { task, calendarObject, components, extras } =
+      await findTaskByUid(uid);
+    const { due, ...rest } = changes;
+    const updates = Object.fromEntries(
+      Object.entries(rest).filter(([, value]) => value !== undefined),
+    ) as Omit<TaskChanges, 'due'>;
+
+    // Overridden instances of a recurring task keep their RECURRENCE-ID
+    const current =
+      components.find(
+        (c) => !c.properties?.some((p) => p.name === 'RECURRENCE-ID'),
+      ) ?? components[0];
+    const overrides = components.filter((c) => c !== current);
+    const updated: ICalTaskInput = { ...current, ...updates };
+    if (due === null) {
+      updated.due = undefined;
+      updated.dueAllDay = undefined;
+    } else if (due) {
+      updated.due = due;
+      // Due times are written in UTC, due days in the given zone
+      if (!updated.dueAllDay) updated.timezone = undefined;
+    }
+    if (updates.status === 'COMPLETED' && current.status !== 'COMPLETED') {
+      updated.completed = now;
+      updated.percentComplete = 100;
+    } else if (updates.status && updates.status !== 'COMPLETED') {
+      updated.completed = undefined;
+      updated.percentComplete = undefined;
+    }
+
+    const updatedObject = await backend.updateObject({
+      url: calendarObject.url,
+      etag: calendarObject.etag,
+      data: generateTaskICal([updated, ...overrides], extras),
+    });
+    const [written] = parseTaskObjects([updatedObject]).filter(
+      (t) => t.uid === uid,
+    );
+    return { ...written, calendar: task.calendar };
+  };
+
+  /**
+   * Mark a task as completed.
+   * @throws Error if no task with the UID exists
+   */
+  const completeTask = (uid: string, now = getNow()) =>
+    updateTask(uid, { status: 'COMPLETED' }, now);
+
+  return {
+    listTaskLists: () => resolveTaskLists(ALL_CALENDARS),
+    createTask,
+    listTasks,
+    findTaskByUid,
+    updateTask,
+    completeTask,
+  };
+};
+
+export type TaskClient = ReturnType<typeof createTaskClient>;
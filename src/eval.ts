@@ -0,0 +1,107 @@
+/**
+ * Run the prompt evaluation: the golden date cases of a fixture through the
+ * client loop against the configured model (LLM_* variables, or the flags
+ * below), or against model messages recorded in a trace file. Prints the
+ * pass rate of each rule category and the failed cases.
+ */
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import dotenv from 'dotenv';
+
+const DEFAULT_FIXTURE = 'eval/dateCases.json';
+
+const USAGE = `Usage: npm run --silent eval -- [options]
+
+Options:
+  --fixture <path>         Cases to run (default: ${DEFAULT_FIXTURE})
+  --replay <path>          Answer with the model messages of a trace file
+                           (MCP_TRACE_FILE) instead of calling the model API
+  --category <name>        Run only this category; can be repeated
+  --provider <name>        Model API (LLM_PROVIDER)
+  --model <name>           Model (LLM_MODEL)
+  --base-url <url>         Model API base URL (LLM_BASE_URL)
+  --min-pass-rate <0-1>    Exit with status 1 if the total pass rate is lower
+  --json                   Print the report as JSON
+  --env-file <path>        Load variables from this file instead of .env
+  -h, --help               Show this help`;
+
+/** CLI flags and the environment variables they set */
+const FLAG_ENV = {
+  provider: 'LLM_PROVIDER',
+  model: 'LLM_MODEL',
+  'base-url': 'LLM_BASE_URL',
+} as const;
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      ...(Object.fromEntries(
+        Object.keys(FLAG_ENV).map((flag) => [flag, { type: 'string' }]),
+      ) as Record<keyof typeof FLAG_ENV, { type: 'string' }>),
+      fixture: { type: 'string', default: DEFAULT_FIXTURE },
+      replay: { type: 'string' },
+      category: { type: 'string', multiple: true },
+      'min-pass-rate': { type: 'string' },
+      json: { type: 'boolean' },
+      'env-file': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const minPassRate =
+    values['min-pass-rate'] === undefined
+      ? undefined
+      : Number(values['min-pass-rate']);
+  if (
+    minPassRate !== undefined &&
+    !(Number.isFinite(minPassRate) && minPassRate >= 0 && minPassRate <= 1)
+  ) {
+    throw new Error('--min-pass-rate must be a number from 0 to 1');
+  }
+
+  dotenv.config({ path: values['env-file'], quiet: true });
+  for (const [flag, name] of Object.entries(FLAG_ENV)) {
+    const value = values[flag as keyof typeof FLAG_ENV];
+    if (value !== undefined) process.env[name] = value;
+  }
+
+  // Imported after the environment is set: modules read it when loaded
+  const { createReplayProvider, getLlmProviderFromEnv } =
+    await import('@/mcp-client/llm');
+  const { readTraces } = await import('@/mcp-client/trace');
+  const { formatEvalReport, parseEvalFixture, runPromptEvaluation } =
+    await import('@/mcp-client/promptEval');
+
+  const fixture = parseEvalFixture(
+    JSON.parse(await readFile(values.fixture, 'utf8')),
+  );
+  const provider = values.replay
+    ? createReplayProvider(await readTraces(values.replay))
+    : getLlmProviderFromEnv();
+
+  const report = await runPromptEvaluation(fixture, {
+    provider,
+    categories: values.category,
+    onResult: values.json
+      ? undefined
+      : (result) =>
+          console.error(`${result.passed ? 'pass' : 'FAIL'}  ${result.id}`),
+  });
+  console.log(
+    values.json
+      ? JSON.stringify(report, null, 2)
+      : `\n${formatEvalReport(report)}`,
+  );
+  if (minPassRate !== undefined && report.passRate < minPassRate) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(`[eval] ${(error as Error).message}\n\n${USAGE}`);
+  process.exit(1);
+});
@@ -1,6 +1,14 @@
 import app from './app';
+import { getUserStore } from './auth/userStore';
+import { createReminderScheduler } from './reminders/scheduler';
 
 const port = process.env.PORT || 3000;
 app.listen(port, () => {
   console.log(`Listening: http://localhost:${port}`);
+  if (!getUserStore()) {
+    console.warn(
+      'AUTH_USERS_FILE is not set: the API is open and all callers share one calendar',
+    );
+  }
+  createReminderScheduler().start();
 });
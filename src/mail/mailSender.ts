@@ -0,0 +1,118 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * An email to send. Meeting invitations carry their iTIP message as a
+ * text/calendar part next to the plain text.
+ */
+export type MailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  calendar?: {
+    /** iTIP method of the message, e.g. REQUEST or CANCEL */
+    method: string;
+    /** iCalendar document with the same METHOD */
+    content: string;
+  };
+};
+
+/** Delivers emails, e.g. over SMTP or an email API */
+export type MailSender = {
+  /** @throws Error if the message could not be delivered */
+  send: (message: MailMessage) => Promise<void>;
+};
+
+/** In-memory mail sender that keeps the sent messages, for tests */
+export type InMemoryMailSender = MailSender & { sent: MailMessage[] };
+
+/** Keep header values on one line */
+const headerValue = (value: string) => value.replace(/\r?\n/g, ' ');
+
+/**
+ * Format a message as RFC 5322 text: multipart/alternative with the plain
+ * text and the text/calendar part, like mail clients send invitations.
+ */
+export const formatMailMessage = (message: MailMessage): string => {
+  const headers = [
+    `From: ${headerValue(message.from)}`,
+    `To: ${message.to.map(headerValue).join(', ')}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+  ];
+  const text = message.text.replace(/\r?\n/g, '\r\n');
+  if (!message.calendar) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      text,
+    ].join('\r\n');
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    text,
+    `--${boundary}`,
+    `Content-Type: text/calendar; charset=utf-8; method=${message.calendar.method}`,
+    '',
+    message.calendar.content.trimEnd(),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
+
+/**
+ * Mail sender that writes each message as an .eml file into a directory
+ * instead of sending it. A stand-in until a real sender is plugged in:
+ * the files can be inspected or imported into a mail client.
+ * @param outboxDir - Directory for the .eml files, created on first use
+ */
+export const createOutboxMailSender = (outboxDir: string): MailSender => ({
+  send: async (message) => {
+    await fs.mkdir(outboxDir, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    await fs.writeFile(
+      path.join(outboxDir, `${timestamp}-${randomUUID()}.eml`),
+      formatMailMessage(message),
+    );
+  },
+});
+
+/** Mail sender that only records the messages */
+export const createInMemoryMailSender = (): InMemoryMailSender => {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    send: async (message) => {
+      sent.push(message);
+    },
+  };
+};
+
+let mailSender: MailSender | undefined;
+
+/**
+ * The mail sender for invitations, by default an outbox in MAIL_OUTBOX_DIR
+ * (default ./outbox), created on first use.
+ */
+export const getMailSender = (): MailSender => {
+  mailSender ??= createOutboxMailSender(
+    process.env.MAIL_OUTBOX_DIR || 'outbox',
+  );
+  return mailSender;
+};
+
+/** Replace the mail sender, e.g. with an SMTP based one */
+export const setMailSender = (sender: MailSender) => {
+  mailSender = sender;
+};
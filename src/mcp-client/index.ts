@@ -1,51 +1,237 @@
-import fetchData from '@/utils/fetchData';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import {
-  ChatCompletion,
-  ChatCompletionMessageParam,
-} from 'openai/resources/index';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { getCurrentDateInfo } from '@/utils/relativeDateCalculator';
+import { CLOCK_HEADER, getNow, hasRequestClock } from '@/utils/clock';
 import { DEFAULT_TIMEZONE } from '@/utils/weekday';
 import { SYSTEM_PROMPT_DATE_RULES } from '@/utils/relativeDateRules';
 import {
   SYSTEM_PROMPT_WORKFLOW_RULES,
   SYSTEM_PROMPT_TOOL_RULES,
 } from '@/utils/systemPromptRules';
+import {
+  RESOLVED_DATES_META_KEY,
+  type ResolvedDates,
+} from '@/mcp-server/resolvedDates';
+import { getSessionStore, type ConversationSession } from './sessionStore';
+import {
+  appendTrace,
+  isTraceEnabledByDefault,
+  type PromptTrace,
+  type TraceRound,
+} from './trace';
+import {
+  getLlmProviderFromEnv,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmTool,
+} from './llm';
+
+/** A write a tool held until the user confirms it */
+export type PendingAction = {
+  /** Pass to confirmPendingAction (POST /api/v1/client/confirm) */
+  token: string;
+  tool: string;
+  /** What the write does, with absolute dates */
+  summary: string;
+  /** Why the tool asks for confirmation */
+  reason: string;
+  expiresAt: string;
+};
 
 type RunPromptResponse = {
   answer: string;
   toolCalls: number;
+  /** Pass back to continue the conversation */
+  sessionId: string;
+  /** Writes waiting for confirmation, if any tool asked for it */
+  pendingActions?: PendingAction[];
+  /** What the model and the tools did, when tracing is on */
+  trace?: PromptTrace;
+};
+
+/**
+ * Outcome of a confirmation: not_found for unknown, expired and already
+ * handled tokens, failed when the confirmed write did not succeed
+ */
+export type ConfirmationStatus =
+  | 'confirmed'
+  | 'cancelled'
+  | 'not_found'
+  | 'failed';
+
+type ConfirmActionResponse = {
+  /** Result of the write, or that it was cancelled */
+  answer: string;
+  status: ConfirmationStatus;
+  /** The session the confirmation was recorded in, if given */
+  sessionId?: string;
+};
+
+/**
+ * Progress of a running prompt, emitted to RunPromptOptions.onEvent.
+ * Tool results are summarized; the full result only goes to the model.
+ */
+export type PromptEvent =
+  | { type: 'tool_call'; id: string; name: string; arguments: unknown }
+  | {
+      type: 'tool_result';
+      id: string;
+      name: string;
+      summary: string;
+      isError: boolean;
+    }
+  | ({
+      type: 'confirmation_required';
+      id: string;
+      name: string;
+    } & PendingAction)
+  | { type: 'token'; text: string }
+  | ({ type: 'done' } & RunPromptResponse);
+
+/** An open MCP client and how to close it after the turn */
+export type McpConnection = {
+  mcpClient: Client;
+  close: () => Promise<void>;
+};
+
+type RunPromptOptions = {
+  /** Session to continue */
+  sessionId?: string;
+  /**
+   * Receives progress events. When set, the model's answer is streamed
+   * from the Chat Completions API token by token.
+   */
+  onEvent?: (event: PromptEvent) => void;
+  /** Stops the turn, e.g. when the client disconnects */
+  signal?: AbortSignal;
+  /** Model API to use. Defaults to the one configured by LLM_PROVIDER. */
+  provider?: LlmProvider;
+  /**
+   * The authenticated caller. Their token is forwarded to the MCP server,
+   * so the tools act on their calendars, and the session is theirs.
+   */
+  auth?: AuthInfo;
+  /**
+   * Include a trace of the model rounds and tool calls in the response.
+   * Defaults to DEBUG_MCP_CLIENT. With MCP_TRACE_FILE set, every turn's
+   * trace is also appended to that file.
+   */
+  trace?: boolean;
+  /**
+   * Open the MCP connection of the turn, e.g. to an in-process server.
+   * Defaults to connecting to MCP_SERVER_URL.
+   */
+  connect?: (auth?: AuthInfo) => Promise<McpConnection>;
+};
+
+/** Maximum length of a tool result summary in progress events */
+const TOOL_RESULT_SUMMARY_LENGTH = 200;
+
+/** First line of a tool result, shortened for progress events */
+const summarizeToolResult = (content: string): string => {
+  const firstLine = content.split('\n')[0] ?? '';
+  return firstLine.length > TOOL_RESULT_SUMMARY_LENGTH
+    ? `${firstLine.slice(0, TOOL_RESULT_SUMMARY_LENGTH - 1)}…`
+    : firstLine;
 };
 
 const MAX_ROUNDS = 10;
 
-export const runPromptWithMcpServer = async (
-  prompt: string,
-  timezone: string = DEFAULT_TIMEZONE,
-): Promise<RunPromptResponse> => {
+/**
+ * Connect an MCP client to MCP_SERVER_URL, forwarding the caller's token.
+ * A clock set for the request (X-Clock-Now) is forwarded too, so the tools
+ * resolve dates at the same time as the system prompt.
+ * @throws Error if MCP_SERVER_URL is not set or the server is unreachable
+ */
+const connectToMcpServer = async (auth?: AuthInfo): Promise<McpConnection> => {
   const mcpServerUrl = process.env.MCP_SERVER_URL;
   if (!mcpServerUrl) {
     throw new Error('MCP_SERVER_URL environment variable is not set');
   }
-  const openAiProxyUrl = process.env.OPENAI_PROXY_URL;
-  if (!openAiProxyUrl) {
-    throw new Error('OPENAI_PROXY_URL environment variable is not set');
-  }
-
-  const transport = new StreamableHTTPClientTransport(new URL(mcpServerUrl));
+  const headers: Record<string, string> = {
+    ...(auth && { Authorization: `Bearer ${auth.token}` }),
+    ...(hasRequestClock() && { [CLOCK_HEADER]: getNow().toISOString() }),
+  };
+  const transport = new StreamableHTTPClientTransport(new URL(mcpServerUrl), {
+    requestInit: { headers },
+  });
   const mcpClient = new Client(
     { name: 'mcp-client', version: '1.0.0' },
     { capabilities: {} },
   );
   await mcpClient.connect(transport);
+  return {
+    mcpClient,
+    close: async () => {
+      // Best effort: sessions left behind expire on the server when idle
+      await transport.terminateSession().catch(() => undefined);
+      await transport.close();
+    },
+  };
+};
+
+type ToolResult = Awaited<ReturnType<Client['callTool']>>;
 
+/**
+ * Text of a tool result
+ * @param includeStructured - Append the structured content as JSON, for the model
+ */
+const toolResultText = (result: ToolResult, includeStructured = true) => {
+  const content = Array.isArray(result.content) ? result.content : [];
+  const textParts = content
+    .filter(
+      (item): item is { type: 'text'; text: string } => item.type === 'text',
+    )
+    .map((item) => item.text);
+  if (includeStructured && result.structuredContent) {
+    textParts.push(JSON.stringify(result.structuredContent));
+  }
+  return textParts.join('\n') || JSON.stringify(result);
+};
+
+/** The absolute dates the tool resolved from its arguments, if any */
+const getResolvedDates = (result: ToolResult) =>
+  (result._meta as Record<string, ResolvedDates> | undefined)?.[
+    RESOLVED_DATES_META_KEY
+  ];
+
+/**
+ * Parse the arguments of a tool call.
+ * @throws Error naming the problem if they are not a JSON object
+ */
+const parseToolArguments = (json: string): Record<string, unknown> => {
+  const args: unknown = JSON.parse(json || '{}');
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    throw new Error(`expected a JSON object, got ${json}`);
+  }
+  return args as Record<string, unknown>;
+};
+
+/** The pending action of a tool result that asks for confirmation */
+const getPendingAction = (result: ToolResult): PendingAction | undefined => {
+  const structured = result.structuredContent as
+    | { pendingAction?: PendingAction }
+    | undefined;
+  return structured?.pendingAction;
+};
+
+/** The outcome of a confirmAction result */
+const getConfirmationStatus = (result: ToolResult): ConfirmationStatus => {
+  const structured = result.structuredContent as
+    | { confirmationStatus?: ConfirmationStatus }
+    | undefined;
+  return structured?.confirmationStatus ?? 'failed';
+};
+
+/**
+ * Build the system prompt for one turn.
+ * Rebuilt every turn so the current date info stays correct in long sessions.
+ */
+const buildSystemPrompt = (timezone: string): string => {
   const dateInfo = getCurrentDateInfo(timezone);
 
-  const messages: ChatCompletionMessageParam[] = [
-    {
-      role: 'system',
-      content: `
+  return `
 You are a specialized assistant with access to specific MCP tools.
 
 ${dateInfo}
@@ -55,122 +241,277 @@ ${SYSTEM_PROMPT_DATE_RULES}
 ${SYSTEM_PROMPT_WORKFLOW_RULES}
 
 ${SYSTEM_PROMPT_TOOL_RULES}
-`.trim(),
-    },
+`.trim();
+};
+
+/**
+ * Run a prompt through the model with the MCP tools available.
+ * With a sessionId, the conversation continues from the stored history
+ * (including earlier tool results); otherwise a new session is started.
+ * The history is stored only when the turn completes.
+ *
+ * @param prompt - The user's message
+ * @param timezone - IANA timezone of the user. Defaults to DEFAULT_TIMEZONE.
+ * @param options - Session to continue, progress listener, abort signal, provider, caller, tracing and MCP connection
+ * @throws Error if the session does not exist (or has expired or belongs to another user)
+ */
+export const runPromptWithMcpServer = async (
+  prompt: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  options: RunPromptOptions = {},
+): Promise<RunPromptResponse> => {
+  const { sessionId, onEvent, signal, auth } = options;
+  const provider = options.provider ?? getLlmProviderFromEnv();
+
+  const sessionStore = getSessionStore();
+  let session: ConversationSession | undefined;
+  if (sessionId) {
+    session = await sessionStore.get(sessionId);
+    // Someone else's session is reported like a missing one
+    if (!session || session.userId !== auth?.clientId) {
+      throw new Error(`Session "${sessionId}" not found`);
+    }
+  }
+
+  const connect = options.connect ?? connectToMcpServer;
+  const { mcpClient, close } = await connect(auth);
+
+  const system = buildSystemPrompt(timezone);
+  const messages: LlmMessage[] = [
+    ...(session?.messages ?? []),
     { role: 'user', content: prompt },
   ];
 
+  const startedAt = performance.now();
+  const trace: PromptTrace = {
+    sessionId: session?.id,
+    provider: provider.name,
+    prompt,
+    timezone,
+    system,
+    startedAt: new Date().toISOString(),
+    durationMs: 0,
+    rounds: [],
+  };
+  const elapsedSince = (start: number) => Math.round(performance.now() - start);
+
   try {
     const { tools } = await mcpClient.listTools();
-    const openaiTools = tools.map((tool) => ({
-      type: 'function' as const,
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters:
-          typeof tool.inputSchema === 'object' && tool.inputSchema !== null
-            ? tool.inputSchema
-            : { type: 'object', properties: {} },
-      },
+    const llmTools: LlmTool[] = tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema:
+        typeof tool.inputSchema === 'object' && tool.inputSchema !== null
+          ? tool.inputSchema
+          : { type: 'object', properties: {} },
     }));
 
     let toolCallsCount = 0;
+    const pendingActions: PendingAction[] = [];
 
     for (let i = 0; i < MAX_ROUNDS; i++) {
-      const completion = await fetchData<ChatCompletion>(
-        `${openAiProxyUrl}/v1/chat/completions`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: process.env.OPENAI_MODEL || 'gpt-4o',
-            messages,
-            tools: openaiTools.length > 0 ? openaiTools : undefined,
-            tool_choice: 'auto',
-          }),
-        },
-      );
-
-      const message = completion.choices[0]?.message;
-      if (!message) throw new Error('No message returned from OpenAI');
+      signal?.throwIfAborted();
 
-      // Ensure message is properly formatted for history
-      messages.push({
-        role: message.role,
-        content: message.content,
-        tool_calls: message.tool_calls,
+      const roundStartedAt = performance.now();
+      const message = await provider.complete({
+        system,
+        messages,
+        tools: llmTools,
+        onToken: onEvent && ((text) => onEvent({ type: 'token', text })),
+        signal,
       });
+      messages.push(message);
+      const round: TraceRound = {
+        message,
+        durationMs: elapsedSince(roundStartedAt),
+        toolCalls: [],
+      };
+      trace.rounds.push(round);
 
-      if (!message.tool_calls || message.tool_calls.length === 0) {
+      if (!message.toolCalls || message.toolCalls.length === 0) {
         const answer = message.content || '';
 
-        return {
+        // The system prompt is not stored; it is rebuilt per turn
+        const now = new Date();
+        const saved: ConversationSession = {
+          id: session?.id ?? crypto.randomUUID(),
+          userId: auth?.clientId,
+          messages,
+          timezone,
+          createdAt: session?.createdAt ?? now,
+          updatedAt: now,
+        };
+        await sessionStore.save(saved);
+        trace.sessionId = saved.id;
+        trace.durationMs = elapsedSince(startedAt);
+
+        const response: RunPromptResponse = {
           answer,
           toolCalls: toolCallsCount,
+          sessionId: saved.id,
+          ...(pendingActions.length > 0 && { pendingActions }),
+          ...((options.trace ?? isTraceEnabledByDefault()) && { trace }),
         };
+        onEvent?.({ type: 'done', ...response });
+        return response;
       }
 
-      toolCallsCount += message.tool_calls.length;
+      toolCallsCount += message.toolCalls.length;
 
       const toolResults = await Promise.all(
-        message.tool_calls.map(async (call) => {
-          if (call.type !== 'function') return null;
+        message.toolCalls.map(async (call, index) => {
+          const name = call.name;
+          const callStartedAt = performance.now();
+          const toolResult = (
+            content: string,
+            isError: boolean,
+            resolvedDates?: ResolvedDates,
+          ): LlmMessage => {
+            round.toolCalls[index] = {
+              id: call.id,
+              name,
+              arguments: call.arguments,
+              resolvedDates,
+              result: content,
+              isError,
+              durationMs: elapsedSince(callStartedAt),
+            };
+            onEvent?.({
+              type: 'tool_result',
+              id: call.id,
+              name,
+              summary: summarizeToolResult(content),
+              isError,
+            });
+            return { role: 'tool', toolCallId: call.id, name, content };
+          };
 
           let args: Record<string, unknown>;
           try {
-            args = JSON.parse(String(call.function.arguments));
+            args = parseToolArguments(call.arguments);
           } catch (error) {
-            return {
-              role: 'tool',
-              tool_call_id: call.id,
-              content: `Error: Invalid JSON arguments for tool ${call.function.name}: ${error instanceof Error ? error.message : String(error)}`,
-            } as ChatCompletionMessageParam;
+            onEvent?.({
+              type: 'tool_call',
+              id: call.id,
+              name,
+              arguments: call.arguments,
+            });
+            return toolResult(
+              `Error: Invalid JSON arguments for tool ${name}: ${error instanceof Error ? error.message : String(error)}. Call ${name} again with corrected arguments.`,
+              true,
+            );
+          }
+
+          onEvent?.({ type: 'tool_call', id: call.id, name, arguments: args });
+
+          // The user has not seen a write held in this turn yet; a later turn
+          // or POST /api/v1/client/confirm may confirm it
+          if (
+            name === 'confirmAction' &&
+            args.confirm !== false &&
+            pendingActions.some((action) => action.token === args.token)
+          ) {
+            return toolResult(
+              'Error: The user has not answered yet. Ask them to confirm, and call confirmAction only after they reply.',
+              true,
+            );
           }
 
           try {
             const result = await mcpClient.callTool({
-              name: call.function.name,
+              name,
               arguments: args,
             });
 
-            const content = Array.isArray(result.content) ? result.content : [];
+            const finalContent = toolResultText(result);
 
-            const textParts = content
-              .filter(
-                (item): item is { type: 'text'; text: string } =>
-                  item.type === 'text',
-              )
-              .map((item) => item.text);
-
-            if (result.structuredContent) {
-              textParts.push(JSON.stringify(result.structuredContent));
+            const pendingAction = getPendingAction(result);
+            if (pendingAction) {
+              pendingActions.push(pendingAction);
+              onEvent?.({
+                type: 'confirmation_required',
+                id: call.id,
+                name,
+                ...pendingAction,
+              });
             }
 
-            const finalContent = textParts.join('\n') || JSON.stringify(result);
-
-            return {
-              role: 'tool',
-              tool_call_id: call.id,
-              content: finalContent,
-            } as ChatCompletionMessageParam;
+            return toolResult(
+              finalContent,
+              result.isError === true || finalContent.startsWith('Error'),
+              getResolvedDates(result),
+            );
           } catch (error) {
-            return {
-              role: 'tool',
-              tool_call_id: call.id,
-              content: `Error executing tool ${call.function.name}: ${error instanceof Error ? error.message : String(error)}`,
-            } as ChatCompletionMessageParam;
+            return toolResult(
+              `Error executing tool ${name}: ${error instanceof Error ? error.message : String(error)}`,
+              true,
+            );
           }
         }),
       );
 
-      messages.push(...toolResults.filter((result) => result !== null));
+      messages.push(...toolResults);
     }
     throw new Error(
       `Max tool rounds reached (${MAX_ROUNDS}). The model kept requesting tools.`,
     );
+  } catch (error) {
+    trace.error = (error as Error).message;
+    trace.durationMs = elapsedSince(startedAt);
+    throw error;
   } finally {
-    await transport.close();
+    await close();
+    await appendTrace(trace);
+  }
+};
+
+/**
+ * Confirm or cancel a write a tool held for confirmation, without asking
+ * the model. With a sessionId, the answer is added to the conversation so
+ * follow-up prompts know whether the change was made.
+ *
+ * @param token - Token of the pending action
+ * @param confirm - false to cancel the write
+ * @param options - Session to record the answer in, and the caller
+ * @throws Error if the session does not exist (or belongs to another user)
+ */
+export const confirmPendingAction = async (
+  token: string,
+  confirm: boolean,
+  options: Pick<RunPromptOptions, 'sessionId' | 'auth'> = {},
+): Promise<ConfirmActionResponse> => {
+  const { sessionId, auth } = options;
+  const sessionStore = getSessionStore();
+  const session = sessionId ? await sessionStore.get(sessionId) : undefined;
+  if (sessionId && (!session || session.userId !== auth?.clientId)) {
+    throw new Error(`Session "${sessionId}" not found`);
+  }
+
+  const { mcpClient, close } = await connectToMcpServer(auth);
+  let answer: string;
+  let status: ConfirmationStatus;
+  try {
+    const result = await mcpClient.callTool({
+      name: 'confirmAction',
+      arguments: { token, confirm },
+    });
+    answer = toolResultText(result, false);
+    status = getConfirmationStatus(result);
+  } finally {
+    await close();
+  }
+
+  // Nothing happened for an unknown token, so there is nothing to record
+  if (session && status !== 'not_found') {
+    await sessionStore.save({
+      ...session,
+      messages: [
+        ...session.messages,
+        { role: 'user', content: confirm ? 'Confirmed.' : 'Cancel that.' },
+        { role: 'assistant', content: answer },
+      ],
+      updatedAt: new Date(),
+    });
   }
+  return { answer, status, sessionId: session?.id };
 };
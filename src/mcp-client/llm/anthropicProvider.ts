@@ -0,0 +1,221 @@
+import { postJson, readServerSentEvents } from './http';
+import type {
+  LlmAssistantMessage,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmTool,
+} from './types';
+
+// Subset of the Anthropic Messages API used here
+type TextBlock = { type: 'text'; text: string };
+type ToolUseBlock = {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+};
+type ToolResultBlock = {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+};
+type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+/** A streamed tool_use block, with its input as the JSON text received */
+type StreamedToolUseBlock = ToolUseBlock & { inputJson?: string };
+
+type AnthropicMessage = {
+  role: 'user' | 'assistant';
+  content: string | ContentBlock[];
+};
+
+type AnthropicResponse = {
+  content: (TextBlock | ToolUseBlock)[];
+  stop_reason: string | null;
+};
+
+type AnthropicStreamEvent =
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: TextBlock | ToolUseBlock;
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'text_delta'; text: string }
+        | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'message_stop' }
+  | { type: 'error'; error: { message: string } }
+  | { type: 'message_start' | 'message_delta' | 'content_block_stop' | 'ping' };
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Tool input object of a call in the history. Arguments that were not
+ * valid JSON got an error as their tool result, and are sent as {}.
+ */
+const parseToolInput = (json: string): unknown => {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Convert the history to Anthropic messages.
+ * Tool results are user messages, and consecutive results must share one
+ * message, so they are merged.
+ */
+const toAnthropicMessages = (messages: LlmMessage[]): AnthropicMessage[] =>
+  messages.reduce<AnthropicMessage[]>((result, message) => {
+    if (message.role === 'user') {
+      result.push({ role: 'user', content: message.content });
+    } else if (message.role === 'assistant') {
+      const content: ContentBlock[] = [
+        ...(message.content
+          ? [{ type: 'text' as const, text: message.content }]
+          : []),
+        ...(message.toolCalls ?? []).map((call) => ({
+          type: 'tool_use' as const,
+          id: call.id,
+          name: call.name,
+          input: parseToolInput(call.arguments),
+        })),
+      ];
+      result.push({ role: 'assistant', content });
+    } else {
+      const block: ToolResultBlock = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content)) {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    }
+    return result;
+  }, []);
+
+const toAnthropicTool = (tool: LlmTool) => ({
+  name: tool.name,
+  description: tool.description,
+  input_schema: tool.inputSchema,
+});
+
+const fromAnthropicContent = (
+  content: (TextBlock | StreamedToolUseBlock)[],
+): LlmAssistantMessage => {
+  const text = content
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .join('');
+  const toolCalls = content
+    .filter((block) => block.type === 'tool_use')
+    .map((block) => ({
+      id: block.id,
+      name: block.name,
+      arguments: block.inputJson ?? JSON.stringify(block.input ?? {}),
+    }));
+
+  return {
+    role: 'assistant',
+    content: text || null,
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  };
+};
+
+/**
+ * Assemble the streamed content blocks.
+ * Tool inputs arrive as partial JSON strings and are kept as text, so the
+ * client can report input that is not valid JSON to the model.
+ */
+const readMessageStream = async (
+  response: Response,
+  onToken: (token: string) => void,
+): Promise<(TextBlock | StreamedToolUseBlock)[]> => {
+  const blocks: (TextBlock | ToolUseBlock)[] = [];
+  const partialInputs: string[] = [];
+  let stopped = false;
+
+  await readServerSentEvents(response, (_event, data) => {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+    switch (event.type) {
+      case 'content_block_start':
+        blocks[event.index] = { ...event.content_block };
+        partialInputs[event.index] = '';
+        return false;
+      case 'content_block_delta': {
+        const block = blocks[event.index];
+        if (event.delta.type === 'text_delta' && block?.type === 'text') {
+          block.text += event.delta.text;
+          onToken(event.delta.text);
+        } else if (event.delta.type === 'input_json_delta') {
+          partialInputs[event.index] += event.delta.partial_json;
+        }
+        return false;
+      }
+      case 'message_stop':
+        stopped = true;
+        return true;
+      case 'error':
+        throw new Error(event.error.message);
+      default:
+        return false;
+    }
+  });
+
+  if (!stopped) throw new Error('The message stream ended unexpectedly');
+
+  return blocks
+    .filter(Boolean)
+    .map((block, index) =>
+      block.type === 'tool_use' && partialInputs[index]
+        ? { ...block, inputJson: partialInputs[index] }
+        : block,
+    );
+};
+
+/**
+ * Anthropic-style Messages API (POST /v1/messages).
+ * @param config - Base URL, model, API key and output token limit
+ */
+export const createAnthropicProvider = (
+  config: LlmProviderConfig,
+): LlmProvider => ({
+  name: 'anthropic',
+  complete: async ({ system, messages, tools, onToken, signal }) => {
+    const url = `${config.baseUrl}/v1/messages`;
+    const headers: Record<string, string> = {
+      'anthropic-version': ANTHROPIC_VERSION,
+      ...(config.apiKey ? { 'x-api-key': config.apiKey } : {}),
+    };
+    const body = {
+      model: config.model,
+      system,
+      max_tokens: config.maxTokens,
+      messages: toAnthropicMessages(messages),
+      tools: tools.length > 0 ? tools.map(toAnthropicTool) : undefined,
+    };
+
+    if (onToken) {
+      const response = await postJson(
+        url,
+        { ...headers, Accept: 'text/event-stream' },
+        { ...body, stream: true },
+        signal,
+      );
+      return fromAnthropicContent(await readMessageStream(response, onToken));
+    }
+
+    const response = await postJson(url, headers, body, signal);
+    return fromAnthropicContent(
+      ((await response.json()) as AnthropicResponse).content,
+    );
+  },
+});
@@ -0,0 +1,97 @@
+import { ErrorResponse } from '@/types/LocalTypes';
+
+/**
+ * POST a JSON body and return the response, throwing on HTTP errors
+ * like fetchData does. The caller reads the body as JSON or, for
+ * streaming requests, with readServerSentEvents.
+ * Understands both { message } and the { error: { message } } shape
+ * model APIs use.
+ *
+ * @param url - Endpoint URL
+ * @param headers - Request headers in addition to Content-Type
+ * @param body - JSON request body
+ * @param signal - Aborts the request
+ * @throws Error with the server's error message if the request fails
+ */
+export const postJson = async (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const errorJson = (await response.json().catch(() => ({}))) as {
+      message?: ErrorResponse['message'];
+      error?: { message?: string };
+    };
+    throw new Error(
+      errorJson.message ||
+        errorJson.error?.message ||
+        `Error ${response.status} occured`,
+    );
+  }
+  return response;
+};
+
+/**
+ * Read a Server-Sent Events response body.
+ * onEvent is called for each event with its name (if any) and data;
+ * returning true stops reading. A "[DONE]" data line also stops reading.
+ *
+ * @param response - Response with a text/event-stream body
+ * @param onEvent - Handler for each event
+ */
+export const readServerSentEvents = async (
+  response: Response,
+  onEvent: (event: string | undefined, data: string) => boolean | void,
+): Promise<void> => {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const decoder = new TextDecoder();
+  const reader = response.body.getReader();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+  let done = false;
+
+  // An event ends at a blank line
+  const dispatch = () => {
+    if (data.length === 0) return false;
+    const payload = data.join('\n');
+    const name = event;
+    event = undefined;
+    data = [];
+    return payload === '[DONE]' || onEvent(name, payload) === true;
+  };
+
+  try {
+    while (!done) {
+      const { value, done: streamDone } = await reader.read();
+      buffer += decoder.decode(value, { stream: !streamDone });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = streamDone ? '' : (lines.pop() ?? '');
+      if (streamDone) lines.push('');
+
+      for (const line of lines) {
+        if (line === '') {
+          done = dispatch();
+        } else if (line.startsWith('event:')) {
+          event = line.slice('event:'.length).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice('data:'.length).trimStart());
+        }
+        if (done) break;
+      }
+      done ||= streamDone;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+};
@@ -0,0 +1,74 @@
+import { createAnthropicProvider } from './anthropicProvider';
+import { createOpenAiChatProvider } from './openAiChatProvider';
+import { createOpenAiResponsesProvider } from './openAiResponsesProvider';
+import type { LlmProvider, LlmProviderConfig } from './types';
+
+export type * from './types';
+export { createReplayProvider } from './replayProvider';
+
+const PROVIDERS = {
+  'openai-chat': createOpenAiChatProvider,
+  'openai-responses': createOpenAiResponsesProvider,
+  anthropic: createAnthropicProvider,
+} satisfies Record<string, (config: LlmProviderConfig) => LlmProvider>;
+
+export type LlmProviderName = keyof typeof PROVIDERS;
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  'openai-chat': 'gpt-4o',
+  'openai-responses': 'gpt-4o',
+  anthropic: 'claude-sonnet-4-5',
+};
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+const isProviderName = (name: string): name is LlmProviderName =>
+  Object.hasOwn(PROVIDERS, name);
+
+/**
+ * Create an LLM provider.
+ * @param name - Provider API: openai-chat, openai-responses or anthropic
+ * @param config - Base URL, model, API key and token limit
+ */
+export const createLlmProvider = (
+  name: LlmProviderName,
+  config: LlmProviderConfig,
+): LlmProvider =>
+  PROVIDERS[name]({ ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') });
+
+/**
+ * Create the provider configured by the environment:
+ * LLM_PROVIDER (default openai-chat), LLM_BASE_URL (default OPENAI_PROXY_URL),
+ * LLM_MODEL (default OPENAI_MODEL for the OpenAI APIs, otherwise the
+ * provider's default), LLM_API_KEY and LLM_MAX_TOKENS.
+ * @throws Error if the provider is unknown or no base URL is set
+ */
+export const getLlmProviderFromEnv = (): LlmProvider => {
+  const name = process.env.LLM_PROVIDER || 'openai-chat';
+  if (!isProviderName(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`,
+    );
+  }
+
+  const baseUrl = process.env.LLM_BASE_URL || process.env.OPENAI_PROXY_URL;
+  if (!baseUrl) {
+    throw new Error(
+      'LLM_BASE_URL or OPENAI_PROXY_URL environment variable is not set',
+    );
+  }
+
+  const maxTokens = Number(process.env.LLM_MAX_TOKENS);
+  return createLlmProvider(name, {
+    baseUrl,
+    model:
+      process.env.LLM_MODEL ||
+      (name === 'anthropic' ? undefined : process.env.OPENAI_MODEL) ||
+      DEFAULT_MODELS[name],
+    apiKey: process.env.LLM_API_KEY || undefined,
+    maxTokens:
+      Number.isInteger(maxTokens) && maxTokens > 0
+        ? maxTokens
+        : DEFAULT_MAX_TOKENS,
+  });
+};
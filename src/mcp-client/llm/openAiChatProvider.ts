@@ -0,0 +1,157 @@
+import {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources/index';
+import { postJson, readServerSentEvents } from './http';
+import type {
+  LlmAssistantMessage,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmTool,
+} from './types';
+
+const toChatMessage = (message: LlmMessage): ChatCompletionMessageParam => {
+  switch (message.role) {
+    case 'user':
+      return message;
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls?.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    case 'tool':
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+  }
+};
+
+const toChatTool = (tool: LlmTool): ChatCompletionTool => ({
+  type: 'function',
+  function: {
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.inputSchema,
+  },
+});
+
+const fromChatMessage = (
+  message: ChatCompletionMessage,
+): LlmAssistantMessage => {
+  const toolCalls = (message.tool_calls ?? [])
+    .filter((call) => call.type === 'function')
+    .map((call) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+    }));
+  return {
+    role: 'assistant',
+    content: message.content,
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  };
+};
+
+/**
+ * Assemble streamed chunks into a single message.
+ * Content deltas are passed to onToken as they arrive; tool call deltas
+ * are merged by their index.
+ */
+const readChatCompletionStream = async (
+  response: Response,
+  onToken: (token: string) => void,
+): Promise<ChatCompletionMessage> => {
+  let content = '';
+  let receivedChunk = false;
+  const toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
+
+  await readServerSentEvents(response, (_event, data) => {
+    const delta = (JSON.parse(data) as ChatCompletionChunk).choices[0]?.delta;
+    if (!delta) return;
+    receivedChunk = true;
+
+    if (delta.content) {
+      content += delta.content;
+      onToken(delta.content);
+    }
+
+    for (const toolDelta of delta.tool_calls ?? []) {
+      const call = (toolCalls[toolDelta.index] ??= {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' },
+      });
+      if (toolDelta.id) call.id = toolDelta.id;
+      if (toolDelta.function?.name) {
+        call.function.name += toolDelta.function.name;
+      }
+      if (toolDelta.function?.arguments) {
+        call.function.arguments += toolDelta.function.arguments;
+      }
+    }
+  });
+
+  if (!receivedChunk) throw new Error('No message returned from OpenAI');
+
+  const calls = toolCalls.filter(Boolean);
+  return {
+    role: 'assistant',
+    content: content || null,
+    refusal: null,
+    ...(calls.length > 0 ? { tool_calls: calls } : {}),
+  };
+};
+
+/**
+ * OpenAI-compatible Chat Completions API (POST /v1/chat/completions).
+ * Works with most local model servers (LM Studio, Ollama, vLLM, llama.cpp).
+ * @param config - Base URL, model and optional API key
+ */
+export const createOpenAiChatProvider = (
+  config: LlmProviderConfig,
+): LlmProvider => ({
+  name: 'openai-chat',
+  complete: async ({ system, messages, tools, onToken, signal }) => {
+    const url = `${config.baseUrl}/v1/chat/completions`;
+    const headers: Record<string, string> = config.apiKey
+      ? { Authorization: `Bearer ${config.apiKey}` }
+      : {};
+    const body = {
+      model: config.model,
+      messages: [
+        { role: 'system', content: system },
+        ...messages.map(toChatMessage),
+      ],
+      tools: tools.length > 0 ? tools.map(toChatTool) : undefined,
+      tool_choice: tools.length > 0 ? 'auto' : undefined,
+    };
+
+    if (onToken) {
+      const response = await postJson(
+        url,
+        { ...headers, Accept: 'text/event-stream' },
+        { ...body, stream: true },
+        signal,
+      );
+      return fromChatMessage(await readChatCompletionStream(response, onToken));
+    }
+
+    const response = await postJson(url, headers, body, signal);
+    const completion = (await response.json()) as ChatCompletion;
+    const message = completion.choices[0]?.message;
+    if (!message) throw new Error('No message returned from OpenAI');
+    return fromChatMessage(message);
+  },
+});
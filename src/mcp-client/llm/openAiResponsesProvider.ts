@@ -0,0 +1,138 @@
+import type {
+  FunctionTool,
+  Response as OpenAiResponse,
+  ResponseInputItem,
+  ResponseStreamEvent,
+} from 'openai/resources/responses/responses';
+import { postJson, readServerSentEvents } from './http';
+import type {
+  LlmAssistantMessage,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmTool,
+} from './types';
+
+/** One assistant message may become several input items (text + calls) */
+const toInputItems = (message: LlmMessage): ResponseInputItem[] => {
+  switch (message.role) {
+    case 'user':
+      return [{ role: 'user', content: message.content }];
+    case 'assistant':
+      return [
+        ...(message.content
+          ? [{ role: 'assistant' as const, content: message.content }]
+          : []),
+        ...(message.toolCalls ?? []).map((call) => ({
+          type: 'function_call' as const,
+          call_id: call.id,
+          name: call.name,
+          arguments: call.arguments,
+        })),
+      ];
+    case 'tool':
+      return [
+        {
+          type: 'function_call_output',
+          call_id: message.toolCallId,
+          output: message.content,
+        },
+      ];
+  }
+};
+
+const toFunctionTool = (tool: LlmTool): FunctionTool => ({
+  type: 'function',
+  name: tool.name,
+  description: tool.description,
+  parameters: tool.inputSchema,
+  strict: false,
+});
+
+const fromResponse = (response: OpenAiResponse): LlmAssistantMessage => {
+  if (response.error) throw new Error(response.error.message);
+
+  const text = response.output
+    .flatMap((item) => (item.type === 'message' ? item.content : []))
+    .map((part) => (part.type === 'output_text' ? part.text : ''))
+    .join('');
+  const toolCalls = response.output
+    .filter((item) => item.type === 'function_call')
+    .map((item) => ({
+      id: item.call_id,
+      name: item.name,
+      arguments: item.arguments,
+    }));
+
+  return {
+    role: 'assistant',
+    content: text || null,
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  };
+};
+
+/** Pass text deltas to onToken and return the completed response */
+const readResponseStream = async (
+  response: Response,
+  onToken: (token: string) => void,
+): Promise<OpenAiResponse> => {
+  let completed: OpenAiResponse | undefined;
+
+  await readServerSentEvents(response, (_event, data) => {
+    const event = JSON.parse(data) as ResponseStreamEvent;
+    switch (event.type) {
+      case 'response.output_text.delta':
+        onToken(event.delta);
+        return false;
+      case 'response.completed':
+      case 'response.incomplete':
+      case 'response.failed':
+        completed = event.response;
+        return true;
+      case 'error':
+        throw new Error(event.message);
+      default:
+        return false;
+    }
+  });
+
+  if (!completed) throw new Error('The response stream ended unexpectedly');
+  return completed;
+};
+
+/**
+ * OpenAI Responses API (POST /v1/responses).
+ * Requests are stateless (store: false); the full history is sent every turn.
+ * @param config - Base URL, model and optional API key
+ */
+export const createOpenAiResponsesProvider = (
+  config: LlmProviderConfig,
+): LlmProvider => ({
+  name: 'openai-responses',
+  complete: async ({ system, messages, tools, onToken, signal }) => {
+    const url = `${config.baseUrl}/v1/responses`;
+    const headers: Record<string, string> = config.apiKey
+      ? { Authorization: `Bearer ${config.apiKey}` }
+      : {};
+    const body = {
+      model: config.model,
+      instructions: system,
+      input: messages.flatMap(toInputItems),
+      tools: tools.length > 0 ? tools.map(toFunctionTool) : undefined,
+      store: false,
+    };
+
+    if (onToken) {
+      const response = await postJson(
+        url,
+        { ...headers, Accept: 'text/event-stream' },
+        { ...body, stream: true },
+        signal,
+      );
+      return fromResponse(await readResponseStream(response, onToken));
+    }
+
+    const response = await postJson(url, headers, body, signal);
+    return fromResponse((await response.json()) as OpenAiResponse);
+  },
+});
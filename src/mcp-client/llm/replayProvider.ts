@@ -0,0 +1,43 @@
+import type { PromptTrace } from '../trace';
+import type { LlmAssistantMessage, LlmProvider } from './types';
+
+/**
+ * Create a provider that answers with the model messages recorded in
+ * traces (see MCP_TRACE_FILE) instead of calling a model API, so a run can
+ * be repeated offline. The trace is picked by the first user message of
+ * the conversation, and each model call returns the next recorded round.
+ * @param traces - Recorded turns; a later trace of the same prompt wins
+ */
+export const createReplayProvider = (traces: PromptTrace[]): LlmProvider => {
+  const rounds = new Map<string, LlmAssistantMessage[]>(
+    traces
+      .filter((trace) => !trace.error)
+      .map((trace) => [
+        trace.prompt,
+        trace.rounds.map((round) => round.message),
+      ]),
+  );
+
+  return {
+    name: 'replay',
+    complete: async ({ messages }) => {
+      const prompt = messages.find((message) => message.role === 'user');
+      const recorded = prompt && rounds.get(prompt.content);
+      if (!recorded) {
+        throw new Error(
+          `No recorded trace for the prompt "${prompt?.content ?? ''}"`,
+        );
+      }
+      const index = messages.filter(
+        (message) => message.role === 'assistant',
+      ).length;
+      const message = recorded[index];
+      if (!message) {
+        throw new Error(
+          `The recorded trace of "${prompt.content}" has only ${recorded.length} round(s)`,
+        );
+      }
+      return message;
+    },
+  };
+};
@@ -0,0 +1,61 @@
+/**
+ * Provider-neutral conversation types.
+ * Sessions store these, so a conversation does not depend on the API
+ * shape of the provider that produced it; each LlmProvider converts them
+ * to its own request format.
+ */
+
+export type LlmToolCall = {
+  id: string;
+  name: string;
+  /** Arguments as the model produced them (a JSON string) */
+  arguments: string;
+};
+
+export type LlmAssistantMessage = {
+  role: 'assistant';
+  content: string | null;
+  toolCalls?: LlmToolCall[];
+};
+
+export type LlmMessage =
+  | { role: 'user'; content: string }
+  | LlmAssistantMessage
+  | {
+      role: 'tool';
+      toolCallId: string;
+      /** Name of the called tool, required by some APIs */
+      name: string;
+      content: string;
+    };
+
+/** A tool offered to the model, with its JSON Schema input */
+export type LlmTool = {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+};
+
+export type LlmRequest = {
+  system: string;
+  messages: LlmMessage[];
+  tools: LlmTool[];
+  /** When set, the answer is streamed and text deltas are passed here */
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+};
+
+export type LlmProvider = {
+  name: string;
+  /** Run one model turn; tool calls are returned, not executed */
+  complete: (request: LlmRequest) => Promise<LlmAssistantMessage>;
+};
+
+export type LlmProviderConfig = {
+  /** Base URL; endpoint paths like /v1/chat/completions are appended */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Output token limit, required by the Anthropic API */
+  maxTokens: number;
+};
@@ -0,0 +1,429 @@
+/**
+ * Evaluation of the system prompt's date rules against a model.
+ * Each case runs an utterance through the client loop with a frozen "now",
+ * against an in-process MCP server with empty in-memory calendars, and
+ * checks the tool calls the model made and the dates the server resolved
+ * from them. Pass rates are reported per rule category, so models and
+ * prompt revisions can be compared before the rules are changed.
+ */
+import { isDeepStrictEqual } from 'node:util';
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { setCalendarBackend } from '@/calDav/backendConfig';
+import { createInMemoryBackend } from '@/calDav/inMemoryBackend';
+import {
+  createInMemoryMailSender,
+  getMailSender,
+  setMailSender,
+} from '@/mail/mailSender';
+import { createMcpServer } from '@/mcp-server';
+import {
+  parseConfirmationPolicies,
+  parseWorkingHours,
+  setConfirmationConfig,
+} from '@/mcp-server/confirmation';
+import type { ResolvedDates } from '@/mcp-server/resolvedDates';
+import { createFixedClock, setClock } from '@/utils/clock';
+import { DEFAULT_TIMEZONE } from '@/utils/weekday';
+import { runPromptWithMcpServer, type McpConnection } from './index';
+import type { LlmProvider } from './llm';
+import {
+  createInMemorySessionStore,
+  getSessionStore,
+  setSessionStore,
+} from './sessionStore';
+
+/** Calendars of each case; the first is the default */
+const EVAL_CALENDARS = ['Personal', 'Work'];
+
+/** A local time "YYYY-MM-DDTHH:mm" or a day "YYYY-MM-DD" */
+const localTimeField = z
+  .string()
+  .regex(
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/,
+    'Use YYYY-MM-DD or YYYY-MM-DDTHH:mm',
+  );
+
+const expectedToolCallSchema = z.object({
+  tool: z.string().min(1),
+  /** Resolved start (or due time) in the case's timezone */
+  start: localTimeField.optional(),
+  /** Resolved end in the case's timezone; exclusive for all-day events */
+  end: localTimeField.optional(),
+  allDay: z.boolean().optional(),
+  /** Arguments the model must pass, compared as a subset */
+  arguments: z.record(z.string(), z.unknown()).optional(),
+});
+
+const evalCaseSchema = z.object({
+  id: z.string().min(1),
+  /** Rule category the case tests, e.g. weekday-weeks */
+  category: z.string().min(1),
+  utterance: z.string().min(1),
+  /** Overrides the fixture's now */
+  now: localTimeField.optional(),
+  /** Overrides the fixture's timezone */
+  timezone: z.string().optional(),
+  /** Tool calls the model must make, in order; other calls are allowed */
+  expect: z.array(expectedToolCallSchema).min(1),
+});
+
+const evalFixtureSchema = z.object({
+  /** Frozen local time of the cases in their timezone */
+  now: localTimeField,
+  timezone: z.string().default(DEFAULT_TIMEZONE),
+  cases: z.array(evalCaseSchema).min(1),
+});
+
+export type ExpectedToolCall = z.infer<typeof expectedToolCallSchema>;
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+export type EvalFixture = z.infer<typeof evalFixtureSchema>;
+
+/** A tool call the model made, with the dates the server resolved */
+export type EvalToolCall = {
+  name: string;
+  arguments: unknown;
+  resolvedDates?: ResolvedDates;
+};
+
+export type EvalCaseResult = {
+  id: string;
+  category: string;
+  utterance: string;
+  passed: boolean;
+  /** Why the case failed */
+  failures: string[];
+  toolCalls: EvalToolCall[];
+  answer?: string;
+};
+
+export type CategoryScore = {
+  category: string;
+  passed: number;
+  total: number;
+  /** 0 to 1 */
+  passRate: number;
+};
+
+export type EvalReport = {
+  provider: string;
+  passed: number;
+  total: number;
+  passRate: number;
+  categories: CategoryScore[];
+  cases: EvalCaseResult[];
+};
+
+type EvalOptions = {
+  /** The model to evaluate, or a replay of recorded traces */
+  provider: LlmProvider;
+  /** Run only the cases of these categories */
+  categories?: string[];
+  /** Receives each case result when it is done */
+  onResult?: (result: EvalCaseResult) => void;
+};
+
+/**
+ * Parse and validate an evaluation fixture
+ * @throws Error listing the invalid fields
+ */
+export const parseEvalFixture = (data: unknown): EvalFixture => {
+  const result = evalFixtureSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      `Invalid evaluation fixture: ${result.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join('; ')}`,
+    );
+  }
+  return result.data;
+};
+
+/**
+ * Parse a local time of a fixture in a timezone
+ * @throws Error if the time or the timezone is invalid
+ */
+const parseLocalTime = (value: string, timezone: string): DateTime => {
+  const dt = DateTime.fromISO(value, { zone: timezone });
+  if (!dt.isValid) {
+    throw new Error(
+      `Invalid time "${value}" in ${timezone}: ${dt.invalidReason}`,
+    );
+  }
+  return dt;
+};
+
+/** A resolved date as a local time of the fixture's format */
+const formatResolved = (value: string | undefined, timezone: string) =>
+  value
+    ? DateTime.fromISO(value).setZone(timezone).toFormat("yyyy-MM-dd'T'HH:mm")
+    : 'nothing';
+
+/** Whether the values of expected are found in actual, recursively */
+const isSubset = (expected: unknown, actual: unknown): boolean => {
+  if (
+    typeof expected !== 'object' ||
+    expected === null ||
+    Array.isArray(expected)
+  ) {
+    return isDeepStrictEqual(expected, actual);
+  }
+  if (typeof actual !== 'object' || actual === null) return false;
+  return Object.entries(expected).every(([key, value]) =>
+    isSubset(value, (actual as Record<string, unknown>)[key]),
+  );
+};
+
+/**
+ * How a tool call differs from the expected one
+ * @returns An empty list if it matches
+ */
+const compareToolCall = (
+  expected: ExpectedToolCall,
+  call: EvalToolCall,
+  timezone: string,
+): string[] => {
+  const mismatches: string[] = [];
+  const resolved = call.resolvedDates;
+  for (const field of ['start', 'end'] as const) {
+    const value = expected[field];
+    if (value === undefined) continue;
+    const actual = resolved?.[field];
+    if (
+      !actual ||
+      DateTime.fromISO(actual).toMillis() !==
+        parseLocalTime(value, timezone).toMillis()
+    ) {
+      mismatches.push(
+        `${field}: expected ${value}, got ${formatResolved(actual, timezone)}`,
+      );
+    }
+  }
+  if (
+    expected.allDay !== undefined &&
+    Boolean(resolved?.allDay) !== expected.allDay
+  ) {
+    mismatches.push(
+      `allDay: expected ${expected.allDay}, got ${Boolean(resolved?.allDay)}`,
+    );
+  }
+  if (expected.arguments && !isSubset(expected.arguments, call.arguments)) {
+    mismatches.push(
+      `arguments: expected ${JSON.stringify(expected.arguments)} to be included`,
+    );
+  }
+  return mismatches;
+};
+
+/**
+ * Check the tool calls of a case: every expected call must be matched by
+ * a later call than the previous match. Other calls are ignored, e.g. an
+ * availability check before createEvent.
+ * @returns Why the calls do not match; empty if they do
+ */
+export const checkToolCalls = (
+  expected: ExpectedToolCall[],
+  calls: EvalToolCall[],
+  timezone: string,
+): string[] => {
+  const failures: string[] = [];
+  let next = 0;
+  for (const expectedCall of expected) {
+    const candidates = calls
+      .map((call, index) => ({ call, index }))
+      .filter(
+        ({ call, index }) => index >= next && call.name === expectedCall.tool,
+      );
+    const match = candidates.find(
+      ({ call }) => compareToolCall(expectedCall, call, timezone).length === 0,
+    );
+    if (match) {
+      next = match.index + 1;
+      continue;
+    }
+    const [closest] = candidates;
+    failures.push(
+      closest
+        ? `${expectedCall.tool} ${compareToolCall(expectedCall, closest.call, timezone).join(', ')} (arguments ${JSON.stringify(closest.call.arguments)})`
+        : `${expectedCall.tool} was not called${calls.length ? ` (calls: ${calls.map((call) => call.name).join(', ')})` : ''}`,
+    );
+  }
+  return failures;
+};
+
+/** Connect to a new in-process MCP server */
+const connectInProcess = async (): Promise<McpConnection> => {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const mcpServer = createMcpServer();
+  await mcpServer.connect(serverTransport);
+  const mcpClient = new Client(
+    { name: 'prompt-eval', version: '1.0.0' },
+    { capabilities: {} },
+  );
+  await mcpClient.connect(clientTransport);
+  return {
+    mcpClient,
+    close: async () => {
+      await mcpClient.close();
+      await mcpServer.close();
+    },
+  };
+};
+
+/** Run one case with the clock frozen at its now */
+const runCase = async (
+  evalCase: EvalCase,
+  fixture: EvalFixture,
+  provider: LlmProvider,
+): Promise<EvalCaseResult> => {
+  const timezone = evalCase.timezone ?? fixture.timezone;
+  const now = parseLocalTime(evalCase.now ?? fixture.now, timezone);
+  const result: EvalCaseResult = {
+    id: evalCase.id,
+    category: evalCase.category,
+    utterance: evalCase.utterance,
+    passed: false,
+    failures: [],
+    toolCalls: [],
+  };
+
+  setClock(createFixedClock(now.toJSDate()));
+  setCalendarBackend(createInMemoryBackend(EVAL_CALENDARS));
+  try {
+    const { answer, trace } = await runPromptWithMcpServer(
+      evalCase.utterance,
+      timezone,
+      { provider, connect: connectInProcess, trace: true },
+    );
+    result.answer = answer;
+    result.toolCalls = (trace?.rounds ?? []).flatMap((round) =>
+      round.toolCalls.map((call) => {
+        let args: unknown = call.arguments;
+        try {
+          args = JSON.parse(call.arguments || '{}');
+        } catch {
+          // Kept as the raw string; the call failed anyway
+        }
+        return {
+          name: call.name,
+          arguments: args,
+          resolvedDates: call.resolvedDates,
+        };
+      }),
+    );
+    result.failures = checkToolCalls(
+      evalCase.expect,
+      result.toolCalls,
+      timezone,
+    );
+  } catch (error) {
+    result.failures = [`Error: ${(error as Error).message}`];
+  } finally {
+    setClock(null);
+    setCalendarBackend(null);
+  }
+  result.passed = result.failures.length === 0;
+  return result;
+};
+
+const score = (category: string, results: EvalCaseResult[]): CategoryScore => {
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    category,
+    passed,
+    total: results.length,
+    passRate: results.length ? passed / results.length : 0,
+  };
+};
+
+/**
+ * Run the cases of a fixture one by one and score them per category.
+ * Writes go to empty in-memory calendars and an in-memory outbox, without
+ * confirmation; the process's backend, clock, sessions and mail sender are
+ * restored afterwards.
+ * @throws Error if a category filter matches no case
+ */
+export const runPromptEvaluation = async (
+  fixture: EvalFixture,
+  options: EvalOptions,
+): Promise<EvalReport> => {
+  const { provider, categories, onResult } = options;
+  const cases = categories?.length
+    ? fixture.cases.filter((evalCase) => categories.includes(evalCase.category))
+    : fixture.cases;
+  if (cases.length === 0) {
+    throw new Error(`No cases in the categories ${categories?.join(', ')}`);
+  }
+
+  const sessionStore = getSessionStore();
+  const mailSender = getMailSender();
+  setSessionStore(createInMemorySessionStore());
+  setMailSender(createInMemoryMailSender());
+  setConfirmationConfig({
+    ...parseConfirmationPolicies('never'),
+    ...parseWorkingHours('08:00-17:00'),
+  });
+
+  const results: EvalCaseResult[] = [];
+  try {
+    for (const evalCase of cases) {
+      const result = await runCase(evalCase, fixture, provider);
+      results.push(result);
+      onResult?.(result);
+    }
+  } finally {
+    setSessionStore(sessionStore);
+    setMailSender(mailSender);
+    setConfirmationConfig(null);
+  }
+
+  const byCategory = new Map<string, EvalCaseResult[]>();
+  for (const result of results) {
+    byCategory.set(result.category, [
+      ...(byCategory.get(result.category) ?? []),
+      result,
+    ]);
+  }
+  const { passed, total, passRate } = score('total', results);
+  return {
+    provider: provider.name,
+    passed,
+    total,
+    passRate,
+    categories: [...byCategory].map(([category, categoryResults]) =>
+      score(category, categoryResults),
+    ),
+    cases: results,
+  };
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/** The report as a table of categories followed by the failed cases */
+export const formatEvalReport = (report: EvalReport): string => {
+  const width = Math.max(
+    'Total'.length,
+    ...report.categories.map(({ category }) => category.length),
+  );
+  const row = (label: string, { passed, total, passRate }: CategoryScore) =>
+    `${label.padEnd(width)}  ${`${passed}/${total}`.padStart(7)}  ${percent(passRate).padStart(4)}`;
+
+  const lines = [
+    `Provider: ${report.provider}`,
+    '',
+    ...report.categories.map((category) => row(category.category, category)),
+    row('Total', { ...report, category: 'total' }),
+  ];
+  const failed = report.cases.filter((result) => !result.passed);
+  if (failed.length) {
+    lines.push('', 'Failed cases:');
+    for (const result of failed) {
+      lines.push(`- ${result.id} (${result.category}): "${result.utterance}"`);
+      lines.push(...result.failures.map((failure) => `    ${failure}`));
+    }
+  }
+  return lines.join('\n');
+};
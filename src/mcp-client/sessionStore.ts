@@ -0,0 +1,91 @@
+import type { LlmMessage } from './llm';
+
+/**
+ * A multi-turn conversation with the MCP client.
+ * messages holds the whole history except the system prompt, which is
+ * rebuilt every turn so the current date stays correct. Tool calls and
+ * their results are kept, so follow-ups can refer to earlier events.
+ */
+export type ConversationSession = {
+  id: string;
+  /** Owner of the session; undefined when authentication is disabled */
+  userId?: string;
+  messages: LlmMessage[];
+  /** Timezone of the latest turn */
+  timezone: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Storage for conversation sessions.
+ * Implementations decide how sessions expire; get() and list() must not
+ * return expired sessions.
+ */
+export type SessionStore = {
+  get: (id: string) => Promise<ConversationSession | undefined>;
+  save: (session: ConversationSession) => Promise<void>;
+  /** @returns false if the session did not exist */
+  delete: (id: string) => Promise<boolean>;
+  list: () => Promise<ConversationSession[]>;
+};
+
+/** Default session lifetime after the last turn */
+const DEFAULT_SESSION_TTL_MINUTES = 30;
+
+const sessionTtlMs = (() => {
+  const parsed = Number(process.env.SESSION_TTL_MINUTES);
+  return (
+    (Number.isFinite(parsed) && parsed > 0
+      ? parsed
+      : DEFAULT_SESSION_TTL_MINUTES) * 60_000
+  );
+})();
+
+/**
+ * In-memory session store. Sessions expire ttlMs after their last update
+ * and are removed lazily when accessed or listed.
+ * @param ttlMs - Session lifetime in milliseconds. Defaults to SESSION_TTL_MINUTES.
+ */
+export const createInMemorySessionStore = (
+  ttlMs: number = sessionTtlMs,
+): SessionStore => {
+  const sessions = new Map<string, ConversationSession>();
+
+  const isExpired = (session: ConversationSession) =>
+    Date.now() - session.updatedAt.getTime() > ttlMs;
+
+  const removeExpired = () => {
+    for (const [id, session] of sessions) {
+      if (isExpired(session)) sessions.delete(id);
+    }
+  };
+
+  return {
+    get: async (id) => {
+      removeExpired();
+      return sessions.get(id);
+    },
+    save: async (session) => {
+      sessions.set(session.id, session);
+    },
+    delete: async (id) => sessions.delete(id),
+    list: async () => {
+      removeExpired();
+      return [...sessions.values()];
+    },
+  };
+};
+
+let sessionStore: SessionStore = createInMemorySessionStore();
+
+/** The session store used by the MCP client */
+export const getSessionStore = (): SessionStore => sessionStore;
+
+/**
+ * Replace the session store, e.g. with a Redis or database backed one.
+ * Call before the server starts handling requests.
+ */
+export const setSessionStore = (store: SessionStore) => {
+  sessionStore = store;
+};
@@ -0,0 +1,87 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { ResolvedDates } from '@/mcp-server/resolvedDates';
+import type { LlmAssistantMessage } from './llm';
+
+/** One tool call of a model round */
+export type TraceToolCall = {
+  id: string;
+  name: string;
+  /** Arguments as the model produced them (a JSON string) */
+  arguments: string;
+  /** Absolute dates the server resolved from the arguments, if any */
+  resolvedDates?: ResolvedDates;
+  /** The result as sent to the model */
+  result: string;
+  isError: boolean;
+  durationMs: number;
+};
+
+/** One model call and the tool calls it asked for */
+export type TraceRound = {
+  /** The model's message as returned by the provider */
+  message: LlmAssistantMessage;
+  /** Time the model took to answer */
+  durationMs: number;
+  toolCalls: TraceToolCall[];
+};
+
+/**
+ * Everything that happened in one prompt turn. The system prompt and the
+ * model messages are kept as sent, so a turn can be replayed later.
+ */
+export type PromptTrace = {
+  /** Undefined if the turn failed before it was stored */
+  sessionId?: string;
+  /** Provider API, e.g. openai-chat */
+  provider: string;
+  prompt: string;
+  timezone: string;
+  system: string;
+  startedAt: string;
+  durationMs: number;
+  rounds: TraceRound[];
+  /** Why the turn failed */
+  error?: string;
+};
+
+/**
+ * Whether responses include a trace by default: DEBUG_MCP_CLIENT is set
+ * to anything but "0" or "false"
+ */
+export const isTraceEnabledByDefault = () => {
+  const value = process.env.DEBUG_MCP_CLIENT?.trim().toLowerCase();
+  return Boolean(value) && value !== '0' && value !== 'false';
+};
+
+/**
+ * Append a trace as one JSON line to a file, creating its directory.
+ * Failures are logged, so tracing never fails a prompt.
+ * @param file - Defaults to MCP_TRACE_FILE; nothing is written without one
+ */
+export const appendTrace = async (
+  trace: PromptTrace,
+  file = process.env.MCP_TRACE_FILE,
+) => {
+  if (!file) return;
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, `${JSON.stringify(trace)}\n`, 'utf8');
+  } catch (error) {
+    console.warn(
+      `[trace] Writing the trace to ${file} failed:`,
+      (error as Error).message,
+    );
+  }
+};
+
+/**
+ * Read the traces of a JSONL file written by appendTrace, e.g. to replay
+ * the recorded model messages.
+ * @throws Error if the file cannot be read or a line is not valid JSON
+ */
+export const readTraces = async (file: string): Promise<PromptTrace[]> =>
+  (await fs.readFile(file, 'utf8'))
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as PromptTrace);
@@ -0,0 +1,396 @@
+import { randomUUID } from 'node:crypto';
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CalendarEvent } from '@/utils/calendar-events';
+import { formatEventList } from '@/utils/eventFormatting';
+
+/** Tools that change the calendar or the task lists */
+export const WRITE_TOOLS = [
+  'createEvent',
+  'updateEvent',
+  'deleteEvent',
+  'createTask',
+  'updateTask',
+  'completeTask',
+] as const;
+
+export type WriteTool = (typeof WRITE_TOOLS)[number];
+
+/**
+ * When a write tool asks the user before changing anything:
+ * - always: every call
+ * - never: no call (default)
+ * - outside-working-hours: the event or due time is outside working hours
+ *   or on a weekend
+ * - on-conflict: the event overlaps a busy event
+ */
+export const CONFIRMATION_POLICIES = [
+  'always',
+  'never',
+  'outside-working-hours',
+  'on-conflict',
+] as const;
+
+export type ConfirmationPolicy = (typeof CONFIRMATION_POLICIES)[number];
+
+export type ConfirmationConfig = {
+  /** Policy of the tools not listed in policies */
+  defaultPolicy: ConfirmationPolicy;
+  policies: Partial<Record<WriteTool, ConfirmationPolicy>>;
+  /** Working hours "HH:mm" on weekdays, for outside-working-hours */
+  workdayStart: string;
+  workdayEnd: string;
+};
+
+/** A write held until the user confirms it */
+type PendingAction = {
+  token: string;
+  tool: WriteTool;
+  /** User who called the tool; undefined when authentication is disabled */
+  userId?: string;
+  summary: string;
+  expiresAt: Date;
+  run: () => Promise<CallToolResult>;
+};
+
+/** A change a write tool is about to make */
+export type WriteRequest = {
+  tool: WriteTool;
+  /**
+   * What the write does, with absolute dates, e.g.
+   * 'Create event "Dentist" on tiistai 3.1.2025 10:00 - 10:30 (Europe/Helsinki)'
+   */
+  summary: string;
+  /** Time of the written event or task, for outside-working-hours */
+  timing?: { start: Date; end?: Date; allDay?: boolean; timezone: string };
+  /** Busy events the write would overlap, for on-conflict */
+  findConflicts?: () => Promise<CalendarEvent[]>;
+  /** Make the change and return the tool result */
+  run: () => Promise<CallToolResult>;
+};
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** How long a pending action can be confirmed */
+const PENDING_ACTION_TTL_MINUTES = 10;
+
+const DEFAULT_WORKING_HOURS = '08:00-17:00';
+
+/** Pending actions by token. Kept in memory, so a restart drops them. */
+const pendingActions = new Map<string, PendingAction>();
+
+const removeExpired = (now: number) => {
+  for (const [token, action] of pendingActions) {
+    if (action.expiresAt.getTime() <= now) pendingActions.delete(token);
+  }
+};
+
+const isConfirmationPolicy = (value: string): value is ConfirmationPolicy =>
+  (CONFIRMATION_POLICIES as readonly string[]).includes(value);
+
+const isWriteTool = (value: string): value is WriteTool =>
+  (WRITE_TOOLS as readonly string[]).includes(value);
+
+/**
+ * Parse confirmation policies: a default policy and tool=policy pairs,
+ * separated by commas, e.g. "on-conflict,deleteEvent=always".
+ * @throws Error on an unknown tool or policy
+ */
+export const parseConfirmationPolicies = (
+  value: string,
+): Pick<ConfirmationConfig, 'defaultPolicy' | 'policies'> => {
+  let defaultPolicy: ConfirmationPolicy = 'never';
+  const policies: ConfirmationConfig['policies'] = {};
+  for (const entry of value.split(',').map((part) => part.trim())) {
+    if (!entry) continue;
+    const [name, policy] = entry.includes('=')
+      ? entry.split('=').map((part) => part.trim())
+      : [undefined, entry];
+    if (!isConfirmationPolicy(policy)) {
+      throw new Error(
+        `Unknown confirmation policy "${policy}". Use one of: ${CONFIRMATION_POLICIES.join(', ')}`,
+      );
+    }
+    if (name === undefined) {
+      defaultPolicy = policy;
+    } else if (isWriteTool(name)) {
+      policies[name] = policy;
+    } else {
+      throw new Error(
+        `Unknown write tool "${name}". Use one of: ${WRITE_TOOLS.join(', ')}`,
+      );
+    }
+  }
+  return { defaultPolicy, policies };
+};
+
+/**
+ * Parse working hours "HH:mm-HH:mm".
+ * @throws Error if the value is not a valid range
+ */
+export const parseWorkingHours = (value: string) => {
+  const match = /^(\d{2}:\d{2})-(\d{2}:\d{2})$/.exec(value.trim());
+  const [workdayStart, workdayEnd] = match ? [match[1], match[2]] : [];
+  if (!workdayStart || !workdayEnd || workdayStart >= workdayEnd) {
+    throw new Error(
+      `Invalid working hours "${value}". Use HH:mm-HH:mm, e.g. ${DEFAULT_WORKING_HOURS}`,
+    );
+  }
+  return { workdayStart, workdayEnd };
+};
+
+let confirmationConfig: ConfirmationConfig | undefined;
+
+/**
+ * The confirmation policies, by default from CONFIRM_WRITES and
+ * WORKING_HOURS. Read on first use.
+ * @throws Error if the environment variables are invalid
+ */
+export const getConfirmationConfig = (): ConfirmationConfig => {
+  confirmationConfig ??= {
+    ...parseConfirmationPolicies(process.env.CONFIRM_WRITES ?? ''),
+    ...parseWorkingHours(process.env.WORKING_HOURS || DEFAULT_WORKING_HOURS),
+  };
+  return confirmationConfig;
+};
+
+/**
+ * Replace the confirmation policies; null reads them from the
+ * environment again on next use.
+ */
+export const setConfirmationConfig = (config: ConfirmationConfig | null) => {
+  confirmationConfig = config ?? undefined;
+};
+
+/** Set the "HH:mm" time on the day of a date time */
+const atTime = (day: DateTime, time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return day.set({ hour, minute, second: 0, millisecond: 0 });
+};
+
+const isOutsideWorkingHours = (
+  timing: NonNullable<WriteRequest['timing']>,
+  config: ConfirmationConfig,
+) => {
+  if (timing.allDay) return false;
+  const start = DateTime.fromJSDate(timing.start).setZone(timing.timezone);
+  const end = DateTime.fromJSDate(timing.end ?? timing.start).setZone(
+    timing.timezone,
+  );
+  return (
+    start.weekday > 5 ||
+    start < atTime(start, config.workdayStart) ||
+    end > atTime(start, config.workdayEnd)
+  );
+};
+
+/**
+ * Why a write needs confirmation under its tool's policy
+ * @returns undefined if it can run right away
+ */
+const confirmationReason = async (
+  request: WriteRequest,
+  config: ConfirmationConfig,
+): Promise<string | undefined> => {
+  const policy = config.policies[request.tool] ?? config.defaultPolicy;
+  switch (policy) {
+    case 'never':
+      return undefined;
+    case 'always':
+      return `${request.tool} always asks for confirmation`;
+    case 'outside-working-hours':
+      return request.timing && isOutsideWorkingHours(request.timing, config)
+        ? `the time is outside working hours (${config.workdayStart}-${config.workdayEnd}, Monday to Friday)`
+        : undefined;
+    case 'on-conflict': {
+      const conflicts = (await request.findConflicts?.()) ?? [];
+      return conflicts.length > 0
+        ? `it overlaps ${conflicts.length} event(s):\n${formatEventList(conflicts, '', request.timing?.timezone)}`
+        : undefined;
+    }
+  }
+};
+
+const textResult = (text: string): CallToolResult => ({
+  content: [{ type: 'text', text }],
+});
+
+/**
+ * Outcome of confirmAction, in structuredContent.confirmationStatus:
+ * not_found for unknown, expired and already handled tokens, and failed
+ * when the confirmed write did not succeed
+ */
+export type ConfirmationStatus =
+  | 'confirmed'
+  | 'cancelled'
+  | 'not_found'
+  | 'failed';
+
+const withConfirmationStatus = (
+  result: CallToolResult,
+  confirmationStatus: ConfirmationStatus,
+): CallToolResult => ({
+  ...result,
+  structuredContent: { ...result.structuredContent, confirmationStatus },
+});
+
+/**
+ * Ask the user over MCP elicitation whether to make a change.
+ * @returns undefined if the client cannot be asked
+ */
+const elicitConfirmation = async (
+  mcpServer: McpServer,
+  extra: ToolExtra,
+  message: string,
+): Promise<boolean | undefined> => {
+  if (!mcpServer.server.getClientCapabilities()?.elicitation?.form) {
+    return undefined;
+  }
+  try {
+    const result = await mcpServer.server.elicitInput(
+      {
+        message,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Confirm',
+              description: 'Make this change',
+            },
+          },
+          required: ['confirm'],
+        },
+      },
+      { relatedRequestId: extra.requestId, signal: extra.signal },
+    );
+    return result.action === 'accept' && result.content?.confirm === true;
+  } catch (error) {
+    console.warn(
+      '[confirmation] Elicitation failed, returning a pending action:',
+      (error as Error).message,
+    );
+    return undefined;
+  }
+};
+
+/**
+ * Make a write tool's change, or hold it until the user confirms when the
+ * tool's confirmation policy asks for it. Clients that support elicitation
+ * are asked right away; others get a pending action whose token is passed
+ * to confirmAction.
+ * @param extra - Extra of the tool call, for the elicitation request and the caller
+ * @returns The tool result of the change, a cancellation, or the pending action
+ */
+export const confirmWrite = async (
+  mcpServer: McpServer,
+  extra: ToolExtra,
+  request: WriteRequest,
+): Promise<CallToolResult> => {
+  const reason = await confirmationReason(request, getConfirmationConfig());
+  if (!reason) return request.run();
+
+  const confirmed = await elicitConfirmation(
+    mcpServer,
+    extra,
+    `${request.summary}?\nConfirmation is needed because ${reason}`,
+  );
+  if (confirmed === true) return request.run();
+  if (confirmed === false) {
+    return textResult(
+      `Cancelled, the user did not confirm: ${request.summary}. Nothing was changed.`,
+    );
+  }
+
+  const now = Date.now();
+  removeExpired(now);
+  const action: PendingAction = {
+    token: randomUUID(),
+    tool: request.tool,
+    userId: extra.authInfo?.clientId,
+    summary: request.summary,
+    expiresAt: new Date(now + PENDING_ACTION_TTL_MINUTES * 60_000),
+    run: request.run,
+  };
+  pendingActions.set(action.token, action);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Confirmation required, nothing was changed yet: ${request.summary}.\nConfirmation is needed because ${reason}.\nRead the change to the user and ask them to confirm. If they confirm, call confirmAction with token "${action.token}"; if they decline, call it with confirm false.`,
+      },
+    ],
+    structuredContent: {
+      pendingAction: {
+        token: action.token,
+        tool: action.tool,
+        summary: action.summary,
+        reason,
+        expiresAt: action.expiresAt.toISOString(),
+      },
+    },
+  };
+};
+
+const confirmActionInputSchema = z.object({
+  token: z.string().min(1).describe('Token of the pending action'),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe('false to cancel the action. Defaults to true'),
+});
+
+type ConfirmActionInput = z.infer<typeof confirmActionInputSchema>;
+
+/** Register the confirmAction tool on a server */
+export const registerConfirmationTool = (mcpServer: McpServer) => {
+  mcpServer.registerTool(
+    'confirmAction',
+    {
+      title: 'Confirm Action',
+      description: `Confirm or cancel a change that a write tool returned as "Confirmation required". Call it only after the user has answered; pass confirm false if they declined. Pending actions expire after ${PENDING_ACTION_TTL_MINUTES} minutes.`,
+      inputSchema: confirmActionInputSchema,
+    },
+    async ({ token, confirm = true }: ConfirmActionInput, { authInfo }) => {
+      removeExpired(Date.now());
+      const action = pendingActions.get(token);
+      // Someone else's action is reported like a missing one
+      if (!action || action.userId !== authInfo?.clientId) {
+        return withConfirmationStatus(
+          textResult(
+            `Error: No pending action with token "${token}". It may have expired or been handled already; call the original tool again.`,
+          ),
+          'not_found',
+        );
+      }
+      pendingActions.delete(token);
+
+      if (!confirm) {
+        return withConfirmationStatus(
+          textResult(`Cancelled: ${action.summary}. Nothing was changed.`),
+          'cancelled',
+        );
+      }
+      try {
+        const result = await action.run();
+        return withConfirmationStatus(
+          result,
+          result.isError ? 'failed' : 'confirmed',
+        );
+      } catch (error) {
+        return withConfirmationStatus(
+          textResult(`Error: ${(error as Error).message}`),
+          'failed',
+        );
+      }
+    },
+  );
+};
@@ -0,0 +1,56 @@
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/** Events kept per stream for clients that reconnect with Last-Event-ID */
+const DEFAULT_MAX_EVENTS_PER_STREAM = 100;
+
+/**
+ * In-memory event store for resuming SSE streams of one MCP session.
+ * Only the latest events of each stream are kept; resuming from an older
+ * event fails, and the client has to start over.
+ * @param maxEventsPerStream - Events kept per stream
+ */
+export const createInMemoryEventStore = (
+  maxEventsPerStream: number = DEFAULT_MAX_EVENTS_PER_STREAM,
+): EventStore => {
+  const streams = new Map<
+    StreamId,
+    { id: EventId; message: JSONRPCMessage }[]
+  >();
+  const streamOfEvent = new Map<EventId, StreamId>();
+  let lastEventNumber = 0;
+
+  return {
+    storeEvent: async (streamId, message) => {
+      const id = String(++lastEventNumber);
+      const events = streams.get(streamId) ?? [];
+      events.push({ id, message });
+      streams.set(streamId, events);
+      streamOfEvent.set(id, streamId);
+
+      while (events.length > maxEventsPerStream) {
+        const dropped = events.shift();
+        if (dropped) streamOfEvent.delete(dropped.id);
+      }
+      return id;
+    },
+
+    getStreamIdForEventId: async (eventId) => streamOfEvent.get(eventId),
+
+    replayEventsAfter: async (lastEventId, { send }) => {
+      const streamId = streamOfEvent.get(lastEventId);
+      if (!streamId) throw new Error(`Unknown event ID "${lastEventId}"`);
+
+      const events = streams.get(streamId) ?? [];
+      const index = events.findIndex((event) => event.id === lastEventId);
+      for (const event of events.slice(index + 1)) {
+        await send(event.id, event.message);
+      }
+      return streamId;
+    },
+  };
+};
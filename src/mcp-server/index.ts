@@ -1,183 +1,1123 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { DateTime } from 'luxon';
 import {
-  createEvent,
-  listEvents,
-  getEventsInRange,
+  ALL_CALENDARS,
+  createCalendarClient,
+  type CalendarClient,
 } from '@/calDav/calendarClient';
-import { parseCalendarObjects } from '@/utils/calendar-events';
+import { createTaskClient } from '@/calDav/taskClient';
+import { getCalendarBackend } from '@/calDav/backendConfig';
+import { getAuthenticatedUser, getOrganizer } from '@/auth/userStore';
+import { getMailSender } from '@/mail/mailSender';
+import { MAX_REMINDER_MINUTES } from '@/reminders/scheduler';
+import {
+  confirmWrite,
+  registerConfirmationTool,
+} from '@/mcp-server/confirmation';
+import { registerPrompts } from '@/mcp-server/prompts';
+import { withResolvedDates } from '@/mcp-server/resolvedDates';
+import { registerResources } from '@/mcp-server/resources';
+import { registerTaskTools } from '@/mcp-server/tasks';
+import { isBusyEvent, type CalendarEvent } from '@/utils/calendar-events';
+import { ATTENDEE_ROLES, type Attendee } from '@/utils/ical-lib';
 import {
   calculateAbsoluteDateFromWallClock,
+  calculateAllDaySpan,
   calculateEndDate,
+  getRelativeDateInput,
   getWallClockNow,
+  pickDateExpression,
+  resolveDateExpression,
+  resolveWallClockTime,
+  type DateExpression,
 } from '@/utils/relativeDateCalculator';
 import {
+  formatEvent,
   formatEventList,
   formatDateTime,
   formatTime,
+  formatLeadTime,
 } from '@/utils/eventFormatting';
-import { relativeTimeInputSchema, DEFAULT_TIMEZONE } from '@/utils/weekday';
+import {
+  allDayInputSchema,
+  dateExpressionInputSchema,
+  relativeTimeInputSchema,
+  DEFAULT_TIMEZONE,
+  type Weekday,
+} from '@/utils/weekday';
+import { findFreeSlots } from '@/utils/freeSlots';
+import {
+  describeRecurrence,
+  recurrenceInputSchema,
+  resolveRecurrenceInput,
+} from '@/utils/recurrence';
 import {
   CREATE_EVENT_DESCRIPTION,
+  DELETE_EVENT_DESCRIPTION,
+  FIND_FREE_SLOTS_DESCRIPTION,
   GET_EVENTS_IN_TIME_SLOT_DESCRIPTION,
+  UPDATE_EVENT_DESCRIPTION,
 } from '@/utils/relativeDateRules';
 
 // ------------------- Type Definitions -------------------
 /** Input type for createEvent tool */
 type CreateEventInput = z.infer<typeof createEventInputSchema>;
 
+/** Input type for listEvents tool */
+type ListEventsInput = z.infer<typeof listEventsInputSchema>;
+
 /** Input type for getEventsInTimeSlot tool */
 type TimeSlotInput = z.infer<typeof timeSlotInputSchema>;
 
+/** Input type for findFreeSlots tool */
+type FindFreeSlotsInput = z.infer<typeof findFreeSlotsInputSchema>;
+
+/** Fields identifying an existing event (UID or title + day) */
+type EventLocator = z.infer<typeof eventLocatorSchema>;
+
+/** Input type for updateEvent tool */
+type UpdateEventInput = z.infer<typeof updateEventInputSchema>;
+
+/** Input type for deleteEvent tool */
+type DeleteEventInput = z.infer<typeof deleteEventInputSchema>;
+
+const calendarField = z
+  .string()
+  .optional()
+  .describe(
+    'Calendar name or URL (see listCalendars). Defaults to the default calendar',
+  );
+
+const calendarSelectorField = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .describe(
+    `Calendar name or URL, a list of them, or "${ALL_CALENDARS}" for every calendar. Defaults to the default calendar`,
+  );
+
+const transparentField = z
+  .boolean()
+  .optional()
+  .describe(
+    'Show as free: the event does not make the time busy (e.g. birthdays, reminders)',
+  );
+
+const attendeeSchema = z.object({
+  email: z.email().describe('Email address the invitation is sent to'),
+  name: z.string().optional().describe('Display name'),
+  role: z
+    .enum(ATTENDEE_ROLES)
+    .optional()
+    .describe('Defaults to REQ-PARTICIPANT; OPT-PARTICIPANT for optional'),
+  rsvp: z.boolean().optional().describe('Ask the attendee to reply'),
+});
+
 // Build schemas with proper typing
-const createEventInputSchema = z.object(relativeTimeInputSchema).extend({
-  title: z.string().describe('Short title of the event'),
-  description: z.string().optional().describe('Optional detailed description'),
-  location: z.string().optional().describe('Optional location of the event'),
+const createEventInputSchema = z
+  .object(relativeTimeInputSchema)
+  .extend(allDayInputSchema)
+  .extend({
+    time: relativeTimeInputSchema.time
+      .optional()
+      .describe(
+        'Time in HH:mm format (24-hour), e.g., "15:00". Required unless allDay',
+      ),
+    title: z.string().describe('Short title of the event'),
+    description: z
+      .string()
+      .optional()
+      .describe('Optional detailed description'),
+    location: z.string().optional().describe('Optional location of the event'),
+    transparent: transparentField,
+    recurrence: recurrenceInputSchema.optional(),
+    attendees: z
+      .array(attendeeSchema)
+      .optional()
+      .describe('People to invite; each gets an invitation by email'),
+    reminders: z
+      .array(z.number().int().min(0).max(MAX_REMINDER_MINUTES))
+      .max(5)
+      .optional()
+      .describe(
+        'Minutes before the start to remind the user, e.g. [15] or [1440] for a day before',
+      ),
+    calendar: calendarField,
+  });
+
+const listEventsInputSchema = z.object({ calendar: calendarSelectorField });
+
+const timeSlotInputSchema = z
+  .object(relativeTimeInputSchema)
+  .extend({ calendar: calendarSelectorField });
+
+const { timezone: timezoneField, ...relativeTimeFields } =
+  relativeTimeInputSchema;
+
+const findFreeSlotsInputSchema = z.object(dateExpressionInputSchema).extend({
+  endWeekOffset: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      'Week offset of the last day to search. Defaults to the week of the first day',
+    ),
+  endWeekday: relativeTimeFields.weekday
+    .optional()
+    .describe('Last day to search (inclusive)'),
+  durationMinutes: relativeTimeFields.durationMinutes,
+  workdayStart: relativeTimeFields.time
+    .optional()
+    .describe('Start of working hours in HH:mm. Defaults to 08:00'),
+  workdayEnd: relativeTimeFields.time
+    .optional()
+    .describe('End of working hours in HH:mm. Defaults to 17:00'),
+  bufferMinutes: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Free minutes to keep before and after existing events'),
+  includeWeekends: z
+    .boolean()
+    .optional()
+    .describe('Search Saturdays and Sundays too. Defaults to false'),
+  calendar: calendarSelectorField,
+  timezone: timezoneField,
 });
 
-const timeSlotInputSchema = z.object(relativeTimeInputSchema);
+const eventLocatorSchema = z
+  .object(relativeTimeFields)
+  .partial()
+  .extend({
+    uid: z
+      .string()
+      .optional()
+      .describe('UID of the event. Preferred when known from earlier output'),
+    title: z
+      .string()
+      .optional()
+      .describe('Title (or part of it) of the event, used when uid is unknown'),
+  });
 
-// ------------------- MCP Server -------------------
-const mcpServer = new McpServer({ name: 'calendar-server', version: '1.0.0' });
+const scopeSchema = z
+  .enum(['occurrence', 'series'])
+  .optional()
+  .describe(
+    'For recurring events: "occurrence" = only the occurrence on the given day (default when a day is given), "series" = all occurrences',
+  );
 
-// ------------------- MCP Tools -------------------
-mcpServer.registerTool(
-  'createEvent',
-  {
-    title: 'Create Event',
-    description: CREATE_EVENT_DESCRIPTION,
-    inputSchema: createEventInputSchema,
-  },
-  async (input: CreateEventInput) => {
-    const {
-      title,
-      weekOffset,
-      weekday,
+const updateEventInputSchema = z.object({
+  event: eventLocatorSchema.describe('Which event to update'),
+  scope: scopeSchema,
+  changes: z
+    .object(relativeTimeFields)
+    .partial()
+    .extend(allDayInputSchema)
+    .extend({
+      title: z.string().optional().describe('New title'),
+      description: z.string().optional().describe('New description'),
+      location: z.string().optional().describe('New location'),
+      transparent: transparentField,
+      addAttendees: z
+        .array(attendeeSchema)
+        .optional()
+        .describe('People to invite (or whose details change)'),
+      removeAttendees: z
+        .array(z.string())
+        .optional()
+        .describe('Email addresses of attendees to uninvite'),
+    })
+    .describe(
+      'Only the fields that change. Giving a time turns an all-day event into a timed one',
+    ),
+  timezone: timezoneField,
+});
+
+const deleteEventInputSchema = eventLocatorSchema.extend({
+  scope: scopeSchema,
+  timezone: timezoneField,
+});
+
+/** Maximum number of free slots returned by findFreeSlots */
+const MAX_FREE_SLOTS = 10;
+
+// ------------------- Helpers -------------------
+/**
+ * Calendar operations on the caller's calendars
+ * @param authInfo - Auth info of the MCP request (extra.authInfo)
+ */
+const getCalendarClient = (authInfo?: AuthInfo) => {
+  const user = getAuthenticatedUser(authInfo);
+  return createCalendarClient(getCalendarBackend(user), {
+    organizer: getOrganizer(user),
+    mailSender: getMailSender(),
+  });
+};
+
+/**
+ * Task operations on the caller's task lists
+ * @param authInfo - Auth info of the MCP request (extra.authInfo)
+ */
+const getTaskClient = (authInfo?: AuthInfo) =>
+  createTaskClient(getCalendarBackend(getAuthenticatedUser(authInfo)));
+
+/**
+ * The attendee list after adding and removing people.
+ * Attendees added again keep their participation status.
+ * @returns undefined if the attendees do not change
+ */
+const changeAttendees = (
+  current: Attendee[],
+  add: Attendee[] = [],
+  remove: string[] = [],
+): Attendee[] | undefined => {
+  if (add.length === 0 && remove.length === 0) return undefined;
+  const key = (email: string) => email.trim().toLowerCase();
+  const removed = new Set([...remove, ...add.map((a) => a.email)].map(key));
+  const kept = current.filter((attendee) => !removed.has(key(attendee.email)));
+  const added = add
+    .filter((attendee) => !remove.map(key).includes(key(attendee.email)))
+    .map((attendee) => ({
+      partstat: current.find((c) => key(c.email) === key(attendee.email))
+        ?.partstat,
+      ...attendee,
+    }));
+  return [...kept, ...added];
+};
+
+/**
+ * Time of an event for tool results, e.g. "tiistai 3.1.2025 10:00", or
+ * the days of an all-day event
+ * @param withEndTime - Add the end time of a timed event
+ */
+const describeEventTime = (
+  start: Date,
+  end: Date,
+  allDay: boolean | undefined,
+  timezone: string,
+  withEndTime = false,
+) => {
+  if (!allDay) {
+    const when = formatDateTime(start, { timezone });
+    return withEndTime ? `${when} - ${formatTime(end, timezone)}` : when;
+  }
+  const dayOptions = { timezone, includeTime: false };
+  // The stored end is exclusive: the last day is the day before it
+  const lastDay = DateTime.fromJSDate(end)
+    .setZone(timezone)
+    .minus({ days: 1 })
+    .toJSDate();
+  const lastDayText =
+    lastDay > start ? ` - ${formatDateTime(lastDay, dayOptions)}` : '';
+  return `${formatDateTime(start, dayOptions)}${lastDayText} (all day)`;
+};
+
+/**
+ * Add a warning, e.g. about a time moved by a DST switch, to a tool result
+ * as a last "Warning:" line
+ */
+const withWarning = (
+  result: CallToolResult,
+  warning?: string,
+): CallToolResult =>
+  warning
+    ? {
+        ...result,
+        content: [
+          ...result.content,
+          { type: 'text', text: `Warning: ${warning}` },
+        ],
+      }
+    : result;
+
+/**
+ * A located event for confirmation summaries, e.g.
+ * 'event "Dentist" on tiistai 3.1.2025 10:00 - 10:30 (Europe/Helsinki)'
+ */
+const describeStoredEvent = (
+  event: CalendarEvent,
+  timezone: string,
+  scope?: 'occurrence' | 'series',
+) => {
+  const when =
+    event.start && event.end
+      ? ` on ${describeEventTime(event.start, event.end, event.allDay, timezone, true)}${event.allDay ? '' : ` (${timezone})`}`
+      : '';
+  const series =
+    scope === 'series' && event.recurrenceId ? ' and all its occurrences' : '';
+  return `event "${event.title}"${when}${series}`;
+};
+
+/**
+ * The last day of a multi-day range given as endWeekOffset + endWeekday.
+ * Without endWeekOffset, the last day is in the same week as the first day.
+ */
+const getLastDay = (
+  wallClockNow: DateTime,
+  firstDay: Date,
+  endWeekOffset: number | undefined,
+  endWeekday: Weekday,
+): DateExpression => ({
+  weekOffset:
+    endWeekOffset ?? getRelativeDateInput(wallClockNow, firstDay).weekOffset,
+  weekday: endWeekday,
+});
+
+/**
+ * Resolve an event locator to a single stored event.
+ * Looks up by UID directly, or searches the given day (or time slot) for
+ * events whose title contains the requested title.
+ * @throws Error if no event or several events match
+ */
+const locateEvent = async (
+  calendarClient: CalendarClient,
+  locator: EventLocator,
+  wallClockNow: DateTime,
+): Promise<CalendarEvent & { uid: string }> => {
+  const { uid, title, time, durationMinutes } = locator;
+  const day = pickDateExpression(locator);
+  const timezone = wallClockNow.zoneName ?? DEFAULT_TIMEZONE;
+
+  if (Object.keys(day).length === 0) {
+    if (!uid) {
+      throw new Error(
+        'Provide either uid, or title together with the day of the event.',
+      );
+    }
+    // UID lookup without a day targets the whole event (or series)
+    const { event } = await calendarClient.findEventByUid(uid);
+    return { ...event, uid };
+  }
+  if (!uid && !title) {
+    throw new Error('Provide either uid or title to identify the event.');
+  }
+
+  let rangeStart: Date;
+  let rangeEnd: Date;
+  if (time) {
+    rangeStart = calculateAbsoluteDateFromWallClock(wallClockNow, {
+      ...day,
       time,
-      durationMinutes,
-      description,
-      location,
+    });
+    rangeEnd = calculateEndDate(rangeStart, durationMinutes, { timezone });
+  } else {
+    // No time given: search the whole day
+    const dayStart = resolveDateExpression(wallClockNow, day);
+    rangeStart = dayStart.toJSDate();
+    rangeEnd = dayStart.plus({ days: 1 }).toJSDate();
+  }
+
+  // With a day given, a recurring event resolves to that day's occurrence
+  const needle = title?.toLowerCase() ?? '';
+  const matches = (
+    await calendarClient.getEventsInRange(
+      rangeStart,
+      rangeEnd,
       timezone,
-    } = input;
-
-    try {
-      // Calculate absolute dates in TypeScript - NOT by LLM
-      // Use wall-clock time for correct timezone handling
-      const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
-      const wallClockNow = getWallClockNow(effectiveTimezone);
-      const startDate = calculateAbsoluteDateFromWallClock(wallClockNow, {
-        weekOffset,
-        weekday,
-        time,
-      });
-      const endDate = calculateEndDate(startDate, durationMinutes);
+      ALL_CALENDARS,
+    )
+  ).filter(
+    (e) =>
+      e.uid && (uid ? e.uid === uid : e.title.toLowerCase().includes(needle)),
+  );
+  const label = uid ? `with UID "${uid}"` : `titled "${title}"`;
 
-      const { start: eventStart } = await createEvent({
+  if (matches.length === 0) {
+    throw new Error(
+      `No event ${label} found on ${formatDateTime(rangeStart, { timezone, includeTime: Boolean(time) })}.`,
+    );
+  }
+  if (matches.length > 1) {
+    const candidates = matches
+      .map((e) => `${formatEvent(e, timezone)} (uid: ${e.uid})`)
+      .join('\n');
+    throw new Error(
+      `Several events ${label} match. Ask the user which one, then retry with its uid and the same day:\n${candidates}`,
+    );
+  }
+
+  return matches[0] as CalendarEvent & { uid: string };
+};
+
+// ------------------- MCP Tools -------------------
+/** Register the calendar tools on a server */
+const registerTools = (mcpServer: McpServer) => {
+  mcpServer.registerTool(
+    'createEvent',
+    {
+      title: 'Create Event',
+      description: CREATE_EVENT_DESCRIPTION,
+      inputSchema: createEventInputSchema,
+    },
+    async (input: CreateEventInput, extra) => {
+      const { authInfo } = extra;
+      const {
         title,
-        start: startDate,
-        end: endDate,
+        time,
+        durationMinutes,
+        allDay,
+        endWeekOffset,
+        endWeekday,
         description,
         location,
-      });
+        transparent,
+        timezone,
+        recurrence,
+        attendees,
+        reminders,
+        calendar,
+      } = input;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Successfully scheduled "${title}" for ${formatDateTime(eventStart, { timezone: effectiveTimezone })}`,
+      try {
+        // Calculate absolute dates in TypeScript - NOT by LLM
+        // Use wall-clock time for correct timezone handling
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const wallClockNow = getWallClockNow(effectiveTimezone);
+        const day = pickDateExpression(input);
+
+        let startDate: Date;
+        let endDate: Date;
+        let dstWarning: string | undefined;
+        if (allDay) {
+          const firstDay = calculateAllDaySpan(wallClockNow, day).start;
+          ({ start: startDate, end: endDate } = calculateAllDaySpan(
+            wallClockNow,
+            day,
+            endWeekday
+              ? getLastDay(wallClockNow, firstDay, endWeekOffset, endWeekday)
+              : undefined,
+          ));
+        } else {
+          if (!time) {
+            throw new Error('time is required unless allDay is true.');
+          }
+          ({ date: startDate, warning: dstWarning } = resolveWallClockTime(
+            wallClockNow,
+            { ...day, time },
+          ));
+          endDate = calculateEndDate(startDate, durationMinutes, {
+            timezone: effectiveTimezone,
+          });
+        }
+        const rule = recurrence
+          ? resolveRecurrenceInput(recurrence, wallClockNow)
+          : undefined;
+
+        const repeats = rule
+          ? `, repeating ${describeRecurrence(rule, effectiveTimezone)}`
+          : '';
+        const reminderTimes = [...new Set(reminders)]
+          .sort((a, b) => a - b)
+          .map(formatLeadTime);
+        const reminded = reminderTimes.length
+          ? `, with a reminder ${reminderTimes.join(' and ')} before`
+          : '';
+        const calendarClient = getCalendarClient(authInfo);
+        const invitees = attendees?.length
+          ? ` and invite ${attendees.map((a) => a.email).join(', ')}`
+          : '';
+
+        const create = async (): Promise<CallToolResult> => {
+          const {
+            uid,
+            start: eventStart,
+            calendar: calendarName,
+            invited,
+          } = await calendarClient.createEvent({
+            title,
+            start: startDate,
+            end: endDate,
+            allDay,
+            transparent,
+            description,
+            location,
+            timezone: effectiveTimezone,
+            recurrence: rule,
+            attendees,
+            reminders,
+            calendar,
+          });
+
+          const invitations = invited.length
+            ? `. Invitations were sent to ${invited.join(', ')}`
+            : '';
+          const when = describeEventTime(
+            eventStart,
+            endDate,
+            allDay,
+            effectiveTimezone,
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Successfully scheduled "${title}" for ${when}${repeats}${reminded} in calendar "${calendarName}"${invitations}`,
+              },
+            ],
+            structuredContent: { uid, calendar: calendarName, invited },
+          };
+        };
+
+        const target = calendar
+          ? `calendar "${calendar}"`
+          : 'the default calendar';
+        const result = await confirmWrite(mcpServer, extra, {
+          tool: 'createEvent',
+          summary: `Create event "${title}" on ${describeEventTime(startDate, endDate, allDay, effectiveTimezone, true)}${allDay ? '' : ` (${effectiveTimezone})`}${repeats}${reminded} in ${target}${invitees}`,
+          timing: {
+            start: startDate,
+            end: endDate,
+            allDay,
+            timezone: effectiveTimezone,
           },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
-      };
-    }
-  },
-);
-
-mcpServer.registerTool(
-  'listEvents',
-  {
-    title: 'List Events',
-    description:
-      'List all events from local CalDAV calendar. Returns parsed event data including title, start/end times, location, and description.',
-    inputSchema: z.object({}),
-  },
-  async () => {
-    const rawEvents = await listEvents();
-    const events = parseCalendarObjects(rawEvents);
-
-    const text =
-      events.length === 0
-        ? 'No events found.'
-        : `Found ${events.length} event(s):\n${formatEventList(events)}`;
-
-    return {
-      content: [{ type: 'text', text }],
-      structuredContent: { events },
-    };
-  },
-);
-
-mcpServer.registerTool(
-  'getEventsInTimeSlot',
-  {
-    title: 'Get Events In Time Slot',
-    description: GET_EVENTS_IN_TIME_SLOT_DESCRIPTION,
-    inputSchema: timeSlotInputSchema,
-  },
-  async (input: TimeSlotInput) => {
-    const { weekOffset, weekday, time, durationMinutes, timezone } = input;
-
-    try {
-      // Use wall-clock time for correct timezone handling
-      const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
-      const wallClockNow = getWallClockNow(effectiveTimezone);
-      const slotStart = calculateAbsoluteDateFromWallClock(wallClockNow, {
-        weekOffset,
-        weekday,
-        time,
-      });
-      const slotEnd = calculateEndDate(slotStart, durationMinutes);
+          findConflicts: transparent
+            ? undefined
+            : async () =>
+                (
+                  await calendarClient.getEventsInRange(
+                    startDate,
+                    endDate,
+                    effectiveTimezone,
+                    ALL_CALENDARS,
+                  )
+                ).filter(isBusyEvent),
+          run: create,
+        });
+        return withResolvedDates(withWarning(result, dstWarning), {
+          start: startDate,
+          end: endDate,
+          allDay,
+          timezone: effectiveTimezone,
+        });
+      } catch (error) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${(error as Error).message}` },
+          ],
+        };
+      }
+    },
+  );
 
-      const events = await getEventsInRange(slotStart, slotEnd);
+  mcpServer.registerTool(
+    'listCalendars',
+    {
+      title: 'List Calendars',
+      description:
+        'List the calendars of the user (name, URL, color, supported components). The default calendar is listed first. Use a name from this list as the calendar parameter of other tools.',
+      inputSchema: z.object({}),
+    },
+    async (_input, { authInfo }) => {
+      try {
+        const calendars = await getCalendarClient(authInfo).listCalendars();
+        const text = calendars
+          .map(
+            (calendar, index) =>
+              `- ${calendar.name}${index === 0 ? ' (default)' : ''}: ${calendar.url}`,
+          )
+          .join('\n');
 
-      const slotStartStr = formatDateTime(slotStart, {
-        timezone: effectiveTimezone,
-      });
-      const slotEndStr = formatTime(slotEnd, effectiveTimezone);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${calendars.length} calendar(s):\n${text}`,
+            },
+          ],
+          structuredContent: { calendars },
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${(error as Error).message}` },
+          ],
+        };
+      }
+    },
+  );
 
-      const isFree = events.length === 0;
-      const availabilityStatus = isFree
-        ? 'AVAILABLE - This time slot is FREE, no events scheduled.'
-        : `BUSY - This time slot is NOT FREE. Found ${events.length} event(s):`;
-      const eventList = formatEventList(events, '', effectiveTimezone);
+  mcpServer.registerTool(
+    'listEvents',
+    {
+      title: 'List Events',
+      description:
+        'List all events from local CalDAV calendar. Returns parsed event data including title, start/end times, location, and description. Recurring events are listed as occurrences from 30 days ago to 90 days ahead; occurrences of a series share its uid and have a recurrenceId.',
+      inputSchema: listEventsInputSchema,
+    },
+    async ({ calendar }: ListEventsInput, { authInfo }) => {
+      try {
+        const events = await getCalendarClient(authInfo).listEvents(calendar);
 
-      return {
-        content: [
+        const text =
+          events.length === 0
+            ? 'No events found.'
+            : `Found ${events.length} event(s):\n${formatEventList(events)}`;
+
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: { events },
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${(error as Error).message}` },
+          ],
+        };
+      }
+    },
+  );
+
+  mcpServer.registerTool(
+    'getEventsInTimeSlot',
+    {
+      title: 'Get Events In Time Slot',
+      description: GET_EVENTS_IN_TIME_SLOT_DESCRIPTION,
+      inputSchema: timeSlotInputSchema,
+    },
+    async (input: TimeSlotInput, { authInfo }) => {
+      const { time, durationMinutes, timezone, calendar } = input;
+
+      try {
+        // Use wall-clock time for correct timezone handling
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const wallClockNow = getWallClockNow(effectiveTimezone);
+        const { date: slotStart, warning: dstWarning } = resolveWallClockTime(
+          wallClockNow,
+          { ...pickDateExpression(input), time },
+        );
+        const slotEnd = calculateEndDate(slotStart, durationMinutes, {
+          timezone: effectiveTimezone,
+        });
+
+        const events = await getCalendarClient(authInfo).getEventsInRange(
+          slotStart,
+          slotEnd,
+          effectiveTimezone,
+          calendar,
+        );
+        // All-day events block the slot unless marked free (transparent)
+        const busyEvents = events.filter(isBusyEvent);
+        const freeEvents = events.filter((e) => !isBusyEvent(e));
+
+        const slotStartStr = formatDateTime(slotStart, {
+          timezone: effectiveTimezone,
+        });
+        const slotEndStr = formatTime(slotEnd, effectiveTimezone);
+
+        const isFree = busyEvents.length === 0;
+        const availabilityStatus = isFree
+          ? 'AVAILABLE - This time slot is FREE, no events scheduled.'
+          : `BUSY - This time slot is NOT FREE. Found ${busyEvents.length} event(s):`;
+        const eventList = formatEventList(busyEvents, '', effectiveTimezone);
+        const nonBlocking = freeEvents.length
+          ? `\nEvents that do not block the slot:\n${formatEventList(freeEvents, '', effectiveTimezone)}`
+          : '';
+
+        return withResolvedDates(
+          withWarning(
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: `Time slot: ${slotStartStr} - ${slotEndStr}\n${availabilityStatus}${eventList ? '\n' + eventList : ''}${nonBlocking}`,
+                },
+              ],
+              structuredContent: {
+                events,
+                isFree,
+                slot: {
+                  start: slotStart.toISOString(),
+                  end: slotEnd.toISOString(),
+                  timezone: effectiveTimezone,
+                },
+              },
+            },
+            dstWarning,
+          ),
+          { start: slotStart, end: slotEnd, timezone: effectiveTimezone },
+        );
+      } catch (error) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${(error as Error).message}` },
+          ],
+        };
+      }
+    },
+  );
+
+  mcpServer.registerTool(
+    'findFreeSlots',
+    {
+      title: 'Find Free Slots',
+      description: FIND_FREE_SLOTS_DESCRIPTION,
+      inputSchema: findFreeSlotsInputSchema,
+    },
+    async (input: FindFreeSlotsInput, { authInfo }) => {
+      const {
+        endWeekOffset,
+        endWeekday,
+        durationMinutes = 60,
+        workdayStart = '08:00',
+        workdayEnd = '17:00',
+        bufferMinutes,
+        includeWeekends,
+        calendar,
+        timezone,
+      } = input;
+
+      try {
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const wallClockNow = getWallClockNow(effectiveTimezone);
+
+        // Without a day (only a week, or nothing), search the whole week
+        const day = pickDateExpression(input);
+        const wholeWeek = Object.keys(day).every((key) => key === 'weekOffset');
+        const weekOffset = day.weekOffset ?? 0;
+        const firstDay: DateExpression = wholeWeek
+          ? { weekOffset, weekday: 'monday' }
+          : day;
+        let lastDay: DateExpression = wholeWeek
+          ? { weekOffset, weekday: 'sunday' }
+          : day;
+        if (endWeekday) {
+          lastDay = getLastDay(
+            wallClockNow,
+            calculateAllDaySpan(wallClockNow, firstDay).start,
+            endWeekOffset,
+            endWeekday,
+          );
+        }
+        const range = calculateAllDaySpan(wallClockNow, firstDay, lastDay);
+
+        // Fetch once, then compute the gaps locally
+        const events = await getCalendarClient(authInfo).getEventsInRange(
+          range.start,
+          range.end,
+          effectiveTimezone,
+          calendar,
+        );
+        const slots = findFreeSlots(events, {
+          rangeStart: DateTime.fromJSDate(range.start).setZone(
+            effectiveTimezone,
+          ),
+          rangeEnd: DateTime.fromJSDate(range.end)
+            .setZone(effectiveTimezone)
+            .minus({ days: 1 }),
+          durationMinutes,
+          workdayStart,
+          workdayEnd,
+          bufferMinutes,
+          // A single day the user asked for is searched even on weekends
+          includeWeekends: includeWeekends ?? (!wholeWeek && !endWeekday),
+          notBefore: wallClockNow.toJSDate(),
+        }).slice(0, MAX_FREE_SLOTS);
+
+        const slotList = slots
+          .map(
+            (slot) =>
+              `- ${formatDateTime(slot.start, { timezone: effectiveTimezone })} - ${formatTime(slot.end, effectiveTimezone)} (${slot.durationMinutes} min free)`,
+          )
+          .join('\n');
+        const text =
+          slots.length === 0
+            ? `No free time of ${durationMinutes} minutes found between ${workdayStart} and ${workdayEnd}.`
+            : `Free slots of at least ${durationMinutes} minutes (soonest first):\n${slotList}`;
+
+        return withResolvedDates(
           {
-            type: 'text',
-            text: `Time slot: ${slotStartStr} - ${slotEndStr}\n${availabilityStatus}${eventList ? '\n' + eventList : ''}`,
+            content: [{ type: 'text', text }],
+            structuredContent: {
+              slots: slots.map((slot) => ({
+                start: slot.start.toISOString(),
+                end: slot.end.toISOString(),
+                durationMinutes: slot.durationMinutes,
+              })),
+              range: {
+                start: range.start.toISOString(),
+                end: range.end.toISOString(),
+                timezone: effectiveTimezone,
+              },
+            },
           },
-        ],
-        structuredContent: {
-          events,
-          isFree,
-          slot: {
-            start: slotStart.toISOString(),
-            end: slotEnd.toISOString(),
+          {
+            start: range.start,
+            end: range.end,
+            allDay: true,
             timezone: effectiveTimezone,
           },
-        },
-      };
-    } catch (error) {
-      return {
-        content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
-      };
-    }
-  },
-);
+        );
+      } catch (error) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${(error as Error).message}` },
+          ],
+        };
+      }
+    },
+  );
+
+  mcpServer.registerTool(
+    'updateEvent',
+    {
+      title: 'Update Event',
+      description: UPDATE_EVENT_DESCRIPTION,
+      inputSchema: updateEventInputSchema,
+    },
+    async (input: UpdateEventInput, extra) => {
+      const { authInfo } = extra;
+      const { event: locator, changes, scope, timezone } = input;
+
+      try {
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const wallClockNow = getWallClockNow(effectiveTimezone);
+        const calendarClient = getCalendarClient(authInfo);
+        const event = await locateEvent(calendarClient, locator, wallClockNow);
+
+        const { time, durationMinutes, endWeekOffset, endWeekday } = changes;
+        const dayChange = pickDateExpression(changes);
+        // Giving a time turns an all-day event into a timed one
+        const allDay = changes.allDay ?? (event.allDay && time === undefined);
+        const timingChanged =
+          Object.keys(dayChange).length > 0 ||
+          time !== undefined ||
+          durationMinutes !== undefined ||
+          endWeekday !== undefined ||
+          allDay !== event.allDay;
+
+        let start: Date | undefined;
+        let end: Date | undefined;
+        let dstWarning: string | undefined;
+        if (timingChanged) {
+          if (!event.start || !event.end) {
+            throw new Error(
+              `Event "${event.title}" has no valid start or end.`,
+            );
+          }
+          // Keep the parts of the original timing that were not changed:
+          // a weekday alone keeps the week, a week offset alone keeps the weekday
+          const current = getRelativeDateInput(wallClockNow, event.start);
+          const keepsWeekForm = Object.keys(dayChange).every(
+            (key) => key === 'weekOffset' || key === 'weekday',
+          );
+          const firstDay: DateExpression = keepsWeekForm
+            ? {
+                weekOffset: dayChange.weekOffset ?? current.weekOffset,
+                weekday: dayChange.weekday ?? current.weekday,
+              }
+            : dayChange;
+          if (allDay) {
+            ({ start, end } = calculateAllDaySpan(
+              wallClockNow,
+              firstDay,
+              endWeekday
+                ? getLastDay(
+                    wallClockNow,
+                    calculateAllDaySpan(wallClockNow, firstDay).start,
+                    endWeekOffset,
+                    endWeekday,
+                  )
+                : undefined,
+            ));
+            if (!endWeekday && event.allDay) {
+              // Moving a multi-day event keeps its number of days
+              const days = Math.round(
+                (event.end.getTime() - event.start.getTime()) / 86_400_000,
+              );
+              end = DateTime.fromJSDate(start)
+                .setZone(effectiveTimezone)
+                .plus({ days: Math.max(days, 1) })
+                .toJSDate();
+            }
+          } else {
+            ({ date: start, warning: dstWarning } = resolveWallClockTime(
+              wallClockNow,
+              { ...firstDay, time: time ?? current.time },
+            ));
+            end = calculateEndDate(
+              start,
+              durationMinutes ??
+                (event.allDay
+                  ? undefined
+                  : Math.round(
+                      (event.end.getTime() - event.start.getTime()) / 60000,
+                    )),
+              { timezone: effectiveTimezone },
+            );
+          }
+        }
+
+        const update = async (): Promise<CallToolResult> => {
+          const updated = await calendarClient.updateEvent(
+            event.uid,
+            {
+              title: changes.title,
+              description: changes.description,
+              location: changes.location,
+              transparent: changes.transparent,
+              attendees: changeAttendees(
+                event.attendees,
+                changes.addAttendees,
+                changes.removeAttendees,
+              ),
+              start,
+              end,
+              allDay: timingChanged ? allDay : undefined,
+              // All-day dates are written in the user's timezone
+              timezone: timingChanged && allDay ? effectiveTimezone : undefined,
+            },
+            { recurrenceId: event.recurrenceId ?? undefined, scope },
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Successfully updated event:\n${formatEvent(updated, effectiveTimezone)}`,
+              },
+            ],
+            structuredContent: { event: updated },
+          };
+        };
+
+        const changeList = [
+          start &&
+            end &&
+            `move it to ${describeEventTime(start, end, allDay, effectiveTimezone, true)}`,
+          changes.title !== undefined && `rename it to "${changes.title}"`,
+          changes.location !== undefined &&
+            `set the location to "${changes.location}"`,
+          changes.description !== undefined && 'change the description',
+          changes.transparent !== undefined &&
+            `mark it as ${changes.transparent ? 'free' : 'busy'}`,
+          changes.addAttendees?.length &&
+            `invite ${changes.addAttendees.map((a) => a.email).join(', ')}`,
+          changes.removeAttendees?.length &&
+            `remove ${changes.removeAttendees.join(', ')}`,
+        ].filter(Boolean);
+        const result = await confirmWrite(mcpServer, extra, {
+          tool: 'updateEvent',
+          summary: `Update ${describeStoredEvent(event, effectiveTimezone, scope)}: ${changeList.join(', ') || 'no changes'}`,
+          timing:
+            start && end
+              ? { start, end, allDay, timezone: effectiveTimezone }
+              : undefined,
+          findConflicts:
+            start && end
+              ? async () =>
+                  (
+                    await calendarClient.getEventsInRange(
+                      start,
+                      end,
+                      effectiveTimezone,
+                      ALL_CALENDARS,
+                    )
+                  ).filter((e) => isBusyEvent(e) && e.uid !== event.uid)
+              : undefined,
+          run: update,
+        });
+        return withResolvedDates(withWarning(result, dstWarning), {
+          start: start ?? event.start,
+          end: end ?? event.end,
+          allDay: timingChanged ? allDay : event.allDay,
+          timezone: effectiveTimezone,
+        });
+      } catch (error) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${(error as Error).message}` },
+          ],
+        };
+      }
+    },
+  );
+
+  mcpServer.registerTool(
+    'deleteEvent',
+    {
+      title: 'Delete Event',
+      description: DELETE_EVENT_DESCRIPTION,
+      inputSchema: deleteEventInputSchema,
+    },
+    async (input: DeleteEventInput, extra) => {
+      const { authInfo } = extra;
+      const { timezone, scope, ...locator } = input;
+
+      try {
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const wallClockNow = getWallClockNow(effectiveTimezone);
+        const calendarClient = getCalendarClient(authInfo);
+        const event = await locateEvent(calendarClient, locator, wallClockNow);
+
+        const remove = async (): Promise<CallToolResult> => {
+          const deleted = await calendarClient.deleteEvent(event.uid, {
+            recurrenceId: event.recurrenceId ?? undefined,
+            scope,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Successfully deleted event:\n${formatEvent(deleted, effectiveTimezone)}`,
+              },
+            ],
+            structuredContent: { event: deleted },
+          };
+        };
+
+        const result = await confirmWrite(mcpServer, extra, {
+          tool: 'deleteEvent',
+          summary: `Delete ${describeStoredEvent(event, effectiveTimezone, scope)}`,
+          timing:
+            event.start && event.end
+              ? {
+                  start: event.start,
+                  end: event.end,
+                  allDay: event.allDay,
+                  timezone: effectiveTimezone,
+                }
+              : undefined,
+          run: remove,
+        });
+        return withResolvedDates(result, {
+          start: event.start,
+          end: event.end,
+          allDay: event.allDay,
+          timezone: effectiveTimezone,
+        });
+      } catch (error) {
+        return {
+          content: [
+            { type: 'text', text: `Error: ${(error as Error).message}` },
+          ],
+        };
+      }
+    },
+  );
+};
+
+// ------------------- MCP Server -------------------
+/**
+ * Create an MCP server with the calendar and task tools, resources and
+ * prompts.
+ * A server serves one transport, so every MCP session gets its own.
+ */
+const createMcpServer = (): McpServer => {
+  const mcpServer = new McpServer({
+    name: 'calendar-server',
+    version: '1.0.0',
+  });
+  registerTools(mcpServer);
+  registerTaskTools(mcpServer, getTaskClient);
+  registerConfirmationTool(mcpServer);
+  registerResources(mcpServer, getCalendarClient);
+  registerPrompts(mcpServer);
+  return mcpServer;
+};
 
-export { mcpServer };
+export { createMcpServer };
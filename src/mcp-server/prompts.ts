@@ -0,0 +1,195 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getCurrentDateInfo } from '@/utils/relativeDateCalculator';
+import { SYSTEM_PROMPT_DATE_RULES } from '@/utils/relativeDateRules';
+import {
+  SYSTEM_PROMPT_TOOL_RULES,
+  SYSTEM_PROMPT_WORKFLOW_RULES,
+} from '@/utils/systemPromptRules';
+import { DEFAULT_TIMEZONE, optionalTimezoneSchema } from '@/utils/weekday';
+
+/** Default meeting length of the scheduling prompts */
+const DEFAULT_DURATION_MINUTES = 60;
+
+// ------------------- Arguments -------------------
+// Prompt arguments are sent as strings, so numbers are coerced
+const timezoneArgument = optionalTimezoneSchema.describe(
+  `IANA timezone of the user, e.g. "Europe/Helsinki". Defaults to ${DEFAULT_TIMEZONE}`,
+);
+
+const weekOffsetArgument = z.coerce
+  .number()
+  .int()
+  .optional()
+  .describe('Week to plan: 0 = this week (default), 1 = next week, etc.');
+
+const durationArgument = z.coerce
+  .number()
+  .int()
+  .positive()
+  .optional()
+  .describe(
+    `Length of the event in minutes. Defaults to ${DEFAULT_DURATION_MINUTES}`,
+  );
+
+const dayArgument = z
+  .string()
+  .min(1)
+  .describe('The day in the user\'s words, e.g. "tomorrow" or "next Friday"');
+
+const optionalDayArgument = z
+  .string()
+  .optional()
+  .describe(
+    'The day in the user\'s words, e.g. "tomorrow" or "next Friday". Defaults to today',
+  );
+
+// ------------------- Helpers -------------------
+/**
+ * A prompt result with one user message: the current date in the user's
+ * timezone and the rules the MCP client gives its model, followed by the
+ * task, so hosts using the prompt resolve dates the same way.
+ * @param timezone - IANA timezone of the user. Defaults to DEFAULT_TIMEZONE.
+ */
+const buildPrompt = (
+  description: string,
+  task: string,
+  timezone: string = DEFAULT_TIMEZONE,
+): GetPromptResult => ({
+  description,
+  messages: [
+    {
+      role: 'user',
+      content: {
+        type: 'text',
+        text: `
+${getCurrentDateInfo(timezone)}
+
+${SYSTEM_PROMPT_DATE_RULES}
+
+${SYSTEM_PROMPT_WORKFLOW_RULES}
+
+${SYSTEM_PROMPT_TOOL_RULES}
+
+TASK:
+${task}
+Pass timezone "${timezone}" to every tool call.
+`.trim(),
+      },
+    },
+  ],
+});
+
+/** "this week", "next week", "in 3 weeks" or "2 weeks ago" */
+const describeWeek = (weekOffset: number) => {
+  if (weekOffset === 0) return 'this week';
+  if (weekOffset === 1) return 'next week';
+  if (weekOffset === -1) return 'last week';
+  return weekOffset > 0
+    ? `in ${weekOffset} weeks (weekOffset ${weekOffset})`
+    : `${-weekOffset} weeks ago (weekOffset ${weekOffset})`;
+};
+
+// ------------------- MCP Prompts -------------------
+/**
+ * Register prompt templates for common calendar workflows. Each prompt
+ * carries the current date in the caller's timezone and the shared date,
+ * workflow and tool rules, so any MCP host can run them with the tools.
+ */
+export const registerPrompts = (mcpServer: McpServer) => {
+  mcpServer.registerPrompt(
+    'schedule-if-free',
+    {
+      title: 'Schedule if free',
+      description:
+        'Create an event if the time slot is free, otherwise suggest free times on the same day',
+      argsSchema: {
+        title: z.string().min(1).describe('Title of the event'),
+        day: dayArgument,
+        time: z
+          .string()
+          .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm')
+          .describe('Start time in HH:mm (24h)'),
+        durationMinutes: durationArgument,
+        timezone: timezoneArgument,
+      },
+    },
+    ({ title, day, time, durationMinutes, timezone }) =>
+      buildPrompt(
+        `Schedule "${title}" ${day} at ${time} if the time is free`,
+        `Create an event "${title}" ${day} at ${time} lasting ${durationMinutes ?? DEFAULT_DURATION_MINUTES} minutes, but only if the time is free.
+Follow the workflow for creating events with availability check.`,
+        timezone,
+      ),
+  );
+
+  mcpServer.registerPrompt(
+    'plan-my-week',
+    {
+      title: 'Plan my week',
+      description: 'Summarize the events of a week and the free time left',
+      argsSchema: {
+        weekOffset: weekOffsetArgument,
+        timezone: timezoneArgument,
+      },
+    },
+    ({ weekOffset = 0, timezone }) =>
+      buildPrompt(
+        `Plan the week: ${describeWeek(weekOffset)}`,
+        `Help me plan ${describeWeek(weekOffset)}.
+1. For each day from Monday to Sunday of that week, call getEventsInTimeSlot
+   with weekOffset ${weekOffset} and the weekday, from 00:00 for 1440 minutes
+2. Call findFreeSlots with weekOffset ${weekOffset} alone and durationMinutes ${DEFAULT_DURATION_MINUTES}
+3. Summarize the week day by day: the events, overlapping events, and the
+   longest free periods. Do not create or change events.`,
+        timezone,
+      ),
+  );
+
+  mcpServer.registerPrompt(
+    'daily-agenda',
+    {
+      title: 'Daily agenda',
+      description: 'List the events of a day in order, with gaps between them',
+      argsSchema: {
+        day: optionalDayArgument,
+        timezone: timezoneArgument,
+      },
+    },
+    ({ day = 'today', timezone }) =>
+      buildPrompt(
+        `Agenda for ${day}`,
+        `Give me my agenda for ${day}.
+1. Call getEventsInTimeSlot for that day from 00:00 for 1440 minutes with calendar "all"
+2. List the events in order with their times, calendar and location
+3. Mention the free time between the events. Do not create or change events.`,
+        timezone,
+      ),
+  );
+
+  mcpServer.registerPrompt(
+    'reschedule-conflicts',
+    {
+      title: 'Reschedule conflicts',
+      description:
+        'Find overlapping events on a day and propose new times for them',
+      argsSchema: {
+        day: dayArgument,
+        durationMinutes: durationArgument,
+        timezone: timezoneArgument,
+      },
+    },
+    ({ day, durationMinutes, timezone }) =>
+      buildPrompt(
+        `Resolve conflicting events ${day}`,
+        `Find conflicting events ${day} and help me reschedule them.
+1. Call getEventsInTimeSlot for that day from 00:00 for 1440 minutes with calendar "all"
+2. Find the events that overlap each other. If there are none, say so and stop
+3. For each conflict, call findFreeSlots for that day with the length of the
+   event to move (or ${durationMinutes ?? DEFAULT_DURATION_MINUTES} minutes if unknown) and propose a new time
+4. Only call updateEvent after I confirm which event to move and where`,
+        timezone,
+      ),
+  );
+};
@@ -0,0 +1,47 @@
+import { DateTime } from 'luxon';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/** _meta key of the absolute dates a tool resolved from its date inputs */
+export const RESOLVED_DATES_META_KEY = 'resolvedDates';
+
+/**
+ * Absolute dates a tool computed from the model's relative date inputs,
+ * as ISO times in the user's timezone (e.g. 2025-01-07T10:00:00.000+02:00).
+ * Traces show them next to the raw arguments, so a wrong day can be told
+ * apart from a wrong weekOffset.
+ */
+export type ResolvedDates = {
+  timezone: string;
+  start?: string;
+  end?: string;
+  allDay?: boolean;
+};
+
+/**
+ * Attach the resolved dates to a tool result as _meta.resolvedDates
+ * @param dates - Start and end (or due date) the tool resolved; null and undefined are left out
+ */
+export const withResolvedDates = <T extends CallToolResult>(
+  result: T,
+  dates: {
+    start?: Date | null;
+    end?: Date | null;
+    allDay?: boolean;
+    timezone: string;
+  },
+): T => {
+  const toLocalIso = (date?: Date | null) =>
+    date
+      ? (DateTime.fromJSDate(date).setZone(dates.timezone).toISO() ?? undefined)
+      : undefined;
+  const resolved: ResolvedDates = {
+    timezone: dates.timezone,
+    start: toLocalIso(dates.start),
+    end: toLocalIso(dates.end),
+    allDay: dates.allDay,
+  };
+  return {
+    ...result,
+    _meta: { ...result._meta, [RESOLVED_DATES_META_KEY]: resolved },
+  };
+};
@@ -0,0 +1,362 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { DateTime } from 'luxon';
+import {
+  ALL_CALENDARS,
+  type CalendarClient,
+  type EventSyncState,
+} from '@/calDav/calendarClient';
+import { mergeICalendars } from '@/utils/ical-lib';
+import { getWallClockNow } from '@/utils/relativeDateCalculator';
+import { DEFAULT_TIMEZONE } from '@/utils/weekday';
+
+type Variables = Record<string, string | string[]>;
+
+/** Calendar operations for the user of an MCP request */
+type GetCalendarClient = (authInfo?: AuthInfo) => CalendarClient;
+
+// ------------------- URIs -------------------
+const CALENDARS_URI = 'calendar://calendars';
+const EVENTS_URI_TEMPLATE = 'calendar://{calendarId}/events{?from,to}';
+const EVENT_URI_TEMPLATE = 'calendar://{calendarId}/event/{uid}';
+
+/** Days covered by the events resources listed for each calendar */
+const LISTED_RANGE_DAYS = 7;
+
+/** Longest time range an events resource may cover */
+const MAX_RANGE_DAYS = 366;
+
+/** Default interval for checking subscribed calendars for changes */
+const DEFAULT_POLL_SECONDS = 30;
+
+const pollIntervalMs = (() => {
+  const parsed = Number(process.env.MCP_RESOURCE_POLL_SECONDS);
+  return (
+    (Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_POLL_SECONDS) *
+    1000
+  );
+})();
+
+const eventsUri = (calendar: string, from: DateTime, to: DateTime) =>
+  `calendar://${encodeURIComponent(calendar)}/events?from=${from.toISODate()}&to=${to.toISODate()}`;
+
+const eventUri = (calendar: string, uid: string) =>
+  `calendar://${encodeURIComponent(calendar)}/event/${encodeURIComponent(uid)}`;
+
+/** A decoded URI template variable */
+const getVariable = (variables: Variables, name: string): string => {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+};
+
+/**
+ * Parse the from/to query of an events resource. Dates without a time
+ * start at midnight in DEFAULT_TIMEZONE; to is exclusive.
+ * @throws Error for invalid dates or a range that is empty or too long
+ */
+const parseRange = (from: string, to: string) => {
+  const [start, end] = [from, to].map((value) => {
+    const date = DateTime.fromISO(value, { zone: DEFAULT_TIMEZONE });
+    if (!date.isValid) {
+      throw new Error(
+        `Invalid date "${value}". Use an ISO 8601 date or date-time, e.g. 2025-01-31.`,
+      );
+    }
+    return date;
+  });
+  if (end <= start) throw new Error('"to" must be after "from".');
+  if (end.diff(start, 'days').days > MAX_RANGE_DAYS) {
+    throw new Error(`The range may cover at most ${MAX_RANGE_DAYS} days.`);
+  }
+  return { start: start.toJSDate(), end: end.toJSDate() };
+};
+
+/** The next LISTED_RANGE_DAYS days, starting today */
+const getListedRange = () => {
+  const from = getWallClockNow(DEFAULT_TIMEZONE).startOf('day');
+  return { from, to: from.plus({ days: LISTED_RANGE_DAYS }) };
+};
+
+/** JSON content of a resource */
+const jsonContent = (uri: URL, value: unknown) => ({
+  uri: uri.href,
+  mimeType: 'application/json',
+  text: JSON.stringify(value, null, 2),
+});
+
+/** iCalendar content of a resource */
+const icsContent = (uri: URL, text: string) => ({
+  uri: uri.href,
+  mimeType: 'text/calendar',
+  text,
+});
+
+// ------------------- Subscriptions -------------------
+/**
+ * Resource subscriptions of one MCP session. While there are
+ * subscriptions, the subscribed calendars are checked for changes every
+ * MCP_RESOURCE_POLL_SECONDS (ctag first, then ETags) and
+ * notifications/resources/updated is sent for the affected URIs: every
+ * events resource of a changed calendar, and event resources whose event
+ * was changed or removed.
+ */
+const createSubscriptions = (
+  mcpServer: McpServer,
+  getCalendarClient: GetCalendarClient,
+) => {
+  const uriTemplates = [
+    new UriTemplate(EVENTS_URI_TEMPLATE),
+    new UriTemplate(EVENT_URI_TEMPLATE),
+  ];
+  /** Subscribed URIs with the calendar and event they watch */
+  const subscriptions = new Map<string, { calendarId: string; uid?: string }>();
+  /** Sync state of each watched calendar */
+  const states = new Map<string, EventSyncState>();
+  // Subscriptions belong to the session, which belongs to one user
+  let authInfo: AuthInfo | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const calendarClient = getCalendarClient(authInfo);
+      for (const [calendarId, since] of [...states]) {
+        const { state, changedUids } = await calendarClient.syncEvents(
+          calendarId,
+          since,
+        );
+        // Unsubscribed while syncing
+        if (!states.has(calendarId)) continue;
+        states.set(calendarId, state);
+        if (changedUids.length === 0) continue;
+
+        for (const [uri, target] of subscriptions) {
+          if (
+            target.calendarId === calendarId &&
+            (!target.uid || changedUids.includes(target.uid))
+          ) {
+            await mcpServer.server.sendResourceUpdated({ uri });
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(
+        '[resources] Checking calendars for changes failed:',
+        (error as Error).message,
+      );
+    } finally {
+      polling = false;
+    }
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+  };
+
+  return {
+    /**
+     * Watch a calendar or event resource.
+     * @throws Error if the URI is not a calendar resource or the calendar does not exist
+     */
+    subscribe: async (uri: string, auth?: AuthInfo) => {
+      const variables = uriTemplates
+        .map((template) => template.match(uri))
+        .find(Boolean);
+      if (!variables) {
+        throw new Error(
+          `Cannot subscribe to "${uri}": not a calendar resource`,
+        );
+      }
+      const calendarId = getVariable(variables, 'calendarId');
+      const uid = variables.uid ? getVariable(variables, 'uid') : undefined;
+
+      authInfo = auth;
+      if (!states.has(calendarId)) {
+        const { state } =
+          await getCalendarClient(authInfo).syncEvents(calendarId);
+        states.set(calendarId, state);
+      }
+      subscriptions.set(uri, { calendarId, uid });
+
+      if (!timer) {
+        timer = setInterval(() => void poll(), pollIntervalMs);
+        // Subscriptions must not keep the process alive
+        timer.unref();
+      }
+    },
+
+    unsubscribe: (uri: string) => {
+      subscriptions.delete(uri);
+      const watched = new Set(
+        [...subscriptions.values()].map((target) => target.calendarId),
+      );
+      for (const calendarId of states.keys()) {
+        if (!watched.has(calendarId)) states.delete(calendarId);
+      }
+      if (subscriptions.size === 0) stop();
+    },
+
+    close: () => {
+      stop();
+      subscriptions.clear();
+      states.clear();
+    },
+  };
+};
+
+// ------------------- Resources -------------------
+/**
+ * Register the calendar resources on a server, so MCP hosts can read the
+ * calendar without a tool call:
+ * - calendar://calendars: the user's calendars
+ * - calendar://{calendarId}/events?from=&to=: events in a time range
+ * - calendar://{calendarId}/event/{uid}: one event (series master)
+ * Events are returned both as JSON and as iCalendar. Subscriptions are
+ * supported for the events and event resources.
+ * @param getCalendarClient - Calendar operations for the request's user
+ */
+export const registerResources = (
+  mcpServer: McpServer,
+  getCalendarClient: GetCalendarClient,
+) => {
+  mcpServer.registerResource(
+    'calendars',
+    CALENDARS_URI,
+    {
+      title: 'Calendars',
+      description: "The user's calendars, default calendar first",
+      mimeType: 'application/json',
+    },
+    async (uri, { authInfo }) => ({
+      contents: [
+        jsonContent(uri, {
+          calendars: await getCalendarClient(authInfo).listCalendars(),
+        }),
+      ],
+    }),
+  );
+
+  mcpServer.registerResource(
+    'calendar-events',
+    new ResourceTemplate(EVENTS_URI_TEMPLATE, {
+      // The coming week of each calendar
+      list: async ({ authInfo }) => {
+        const { from, to } = getListedRange();
+        const calendars = await getCalendarClient(authInfo).listCalendars();
+        return {
+          resources: calendars.map((calendar) => ({
+            uri: eventsUri(calendar.name, from, to),
+            name: `${calendar.name} events`,
+            description: `Events in ${calendar.name} from ${from.toISODate()} until ${to.toISODate()}`,
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Calendar events',
+      description:
+        'Events of a calendar (name or URL) overlapping the range from (inclusive) to (exclusive), given as ISO 8601 dates or date-times. Recurring series are expanded.',
+    },
+    async (uri, variables, { authInfo }) => {
+      const { start, end } = parseRange(
+        getVariable(variables, 'from'),
+        getVariable(variables, 'to'),
+      );
+      const { calendar, events, objects } = await getCalendarClient(
+        authInfo,
+      ).getEventObjectsInRange(
+        start,
+        end,
+        DEFAULT_TIMEZONE,
+        getVariable(variables, 'calendarId'),
+      );
+
+      return {
+        contents: [
+          jsonContent(uri, {
+            calendar: calendar.name,
+            from: start.toISOString(),
+            to: end.toISOString(),
+            events,
+          }),
+          icsContent(uri, mergeICalendars(objects.map((o) => o.data))),
+        ],
+      };
+    },
+  );
+
+  mcpServer.registerResource(
+    'calendar-event',
+    new ResourceTemplate(EVENT_URI_TEMPLATE, {
+      // Events of the coming week in all calendars
+      list: async ({ authInfo }) => {
+        const { from, to } = getListedRange();
+        const events = await getCalendarClient(authInfo).getEventsInRange(
+          from.toJSDate(),
+          to.toJSDate(),
+          DEFAULT_TIMEZONE,
+          ALL_CALENDARS,
+        );
+        const uris = new Map<string, string>();
+        for (const event of events) {
+          if (!event.uid || !event.calendar) continue;
+          uris.set(eventUri(event.calendar, event.uid), event.title);
+        }
+        return {
+          resources: [...uris].map(([uri, title]) => ({ uri, name: title })),
+        };
+      },
+    }),
+    {
+      title: 'Calendar event',
+      description:
+        'One event by calendar (name or URL) and UID. Recurring events are returned as the stored series.',
+    },
+    async (uri, variables, { authInfo }) => {
+      const { event, calendarObject } = await getCalendarClient(
+        authInfo,
+      ).findEventByUid(
+        getVariable(variables, 'uid'),
+        getVariable(variables, 'calendarId'),
+      );
+      return {
+        contents: [
+          jsonContent(uri, event),
+          icsContent(uri, calendarObject.data),
+        ],
+      };
+    },
+  );
+
+  const subscriptions = createSubscriptions(mcpServer, getCalendarClient);
+  mcpServer.server.registerCapabilities({ resources: { subscribe: true } });
+  mcpServer.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request, { authInfo }) => {
+      await subscriptions.subscribe(request.params.uri, authInfo);
+      return {};
+    },
+  );
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Stop polling when the session ends
+  const onclose = mcpServer.server.onclose;
+  mcpServer.server.onclose = () => {
+    subscriptions.close();
+    onclose?.();
+  };
+};
@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import type { ServerResponse } from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createMcpServer } from '@/mcp-server';
+import { createInMemoryEventStore } from '@/mcp-server/eventStore';
+
+/** A Streamable HTTP session: a transport connected to its own server */
+export type McpSession = {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** User who started the session; undefined when authentication is disabled */
+  userId?: string;
+  lastSeen: number;
+  /** Open server-to-client streams keep the session alive */
+  openStreams: number;
+};
+
+/** Default session lifetime after the last request */
+const DEFAULT_SESSION_IDLE_MINUTES = 30;
+
+const sessionIdleMs = (() => {
+  const parsed = Number(process.env.MCP_SESSION_IDLE_MINUTES);
+  return (
+    (Number.isFinite(parsed) && parsed > 0
+      ? parsed
+      : DEFAULT_SESSION_IDLE_MINUTES) * 60_000
+  );
+})();
+
+/** Sessions by Mcp-Session-Id */
+const sessions = new Map<string, McpSession>();
+
+/**
+ * Close sessions without requests or open streams for
+ * MCP_SESSION_IDLE_MINUTES. Clients that did not send DELETE would
+ * otherwise keep their server and event store in memory forever.
+ */
+const closeIdleSessions = () => {
+  const now = Date.now();
+  for (const session of sessions.values()) {
+    if (session.openStreams === 0 && now - session.lastSeen > sessionIdleMs) {
+      // Closing the server closes the transport, which unregisters it
+      void session.server.close();
+    }
+  }
+};
+
+/**
+ * Start a session for an initialize request. The session is registered
+ * when the transport assigns its id while handling that request, and
+ * unregistered when the transport closes (DELETE, idle or shutdown).
+ * @param userId - Authenticated user; later requests must come from them
+ */
+export const startMcpSession = async (userId?: string): Promise<McpSession> => {
+  closeIdleSessions();
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: createInMemoryEventStore(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, session);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId);
+  };
+
+  const session: McpSession = {
+    transport,
+    server: createMcpServer(),
+    userId,
+    lastSeen: Date.now(),
+    openStreams: 0,
+  };
+  await session.server.connect(transport);
+  return session;
+};
+
+/**
+ * Find a session and mark it as used.
+ * @param id - Mcp-Session-Id of the request
+ * @param userId - Authenticated user of the request
+ * @returns undefined if the session does not exist, has expired or
+ * belongs to another user
+ */
+export const getMcpSession = (
+  id: string,
+  userId?: string,
+): McpSession | undefined => {
+  closeIdleSessions();
+  const session = sessions.get(id);
+  if (!session || session.userId !== userId) return undefined;
+  session.lastSeen = Date.now();
+  return session;
+};
+
+/** Keep a session alive while a server-to-client stream is open */
+export const holdMcpSession = (session: McpSession, res: ServerResponse) => {
+  session.openStreams++;
+  res.on('close', () => {
+    session.openStreams--;
+    session.lastSeen = Date.now();
+  });
+};
+
+/** Close all sessions, e.g. on shutdown */
+export const closeMcpSessions = async () => {
+  await Promise.all(
+    [...sessions.values()].map((session) => session.server.close()),
+  );
+};
@@ -0,0 +1,375 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ALL_CALENDARS } from '@/calDav/calendarClient';
+import type { TaskClient } from '@/calDav/taskClient';
+import { confirmWrite } from '@/mcp-server/confirmation';
+import { withResolvedDates } from '@/mcp-server/resolvedDates';
+import type { CalendarTask } from '@/utils/calendar-events';
+import {
+  calculateAbsoluteDateFromWallClock,
+  calculateAllDaySpan,
+  getWallClockNow,
+  pickDateExpression,
+} from '@/utils/relativeDateCalculator';
+import {
+  formatDateTime,
+  formatTask,
+  formatTaskList,
+} from '@/utils/eventFormatting';
+import {
+  DEFAULT_TIMEZONE,
+  dateExpressionInputSchema,
+  relativeTimeInputSchema,
+  type DateExpression,
+} from '@/utils/weekday';
+import {
+  COMPLETE_TASK_DESCRIPTION,
+  CREATE_TASK_DESCRIPTION,
+  LIST_TASKS_DESCRIPTION,
+  UPDATE_TASK_DESCRIPTION,
+} from '@/utils/relativeDateRules';
+
+/** Task operations for the user of an MCP request */
+type GetTaskClient = (authInfo?: AuthInfo) => TaskClient;
+
+// ------------------- Schemas -------------------
+/** PRIORITY values (RFC 5545 3.8.1.9) of the priorities the tools accept */
+const PRIORITIES = { high: 1, medium: 5, low: 9 } as const;
+
+const priorityField = z
+  .enum(['high', 'medium', 'low'])
+  .optional()
+  .describe('Priority of the task');
+
+const dueFields = {
+  ...dateExpressionInputSchema,
+  time: relativeTimeInputSchema.time
+    .optional()
+    .describe(
+      'Due time HH:mm (24-hour). Omit when the task is due on a day ("by Friday")',
+    ),
+  timezone: relativeTimeInputSchema.timezone,
+};
+
+const createTaskInputSchema = z.object(dueFields).extend({
+  title: z.string().describe('Short title of the task'),
+  description: z.string().optional().describe('Optional detailed description'),
+  priority: priorityField,
+  taskList: z
+    .string()
+    .optional()
+    .describe('Task list name or URL. Defaults to the default task list'),
+});
+
+const listTasksInputSchema = z.object({
+  filter: z
+    .enum(['open', 'overdue', 'completed', 'all'])
+    .optional()
+    .describe('Which tasks to list. Defaults to open'),
+  taskList: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe('Task list name or URL, or a list of them. Defaults to all'),
+  timezone: relativeTimeInputSchema.timezone,
+});
+
+const taskUidField = z
+  .string()
+  .min(1)
+  .describe('Task UID from listTasks or createTask output');
+
+const completeTaskInputSchema = z.object({
+  uid: taskUidField,
+  timezone: relativeTimeInputSchema.timezone,
+});
+
+const updateTaskInputSchema = z.object(dueFields).extend({
+  uid: taskUidField,
+  title: z.string().optional().describe('New title'),
+  description: z.string().optional().describe('New description'),
+  priority: priorityField,
+  clearDue: z.boolean().optional().describe('true to remove the due date'),
+  completed: z
+    .boolean()
+    .optional()
+    .describe('false to reopen a completed task'),
+});
+
+type CreateTaskInput = z.infer<typeof createTaskInputSchema>;
+type ListTasksInput = z.infer<typeof listTasksInputSchema>;
+type CompleteTaskInput = z.infer<typeof completeTaskInputSchema>;
+type UpdateTaskInput = z.infer<typeof updateTaskInputSchema>;
+
+// ------------------- Helpers -------------------
+/**
+ * Due date of a task from its date expression and optional time. A time
+ * without a day means today; a day without a time makes a due day.
+ * @returns undefined if neither is given
+ * @throws Error if the date expression is invalid
+ */
+const resolveDue = (
+  input: DateExpression & { time?: string } & Record<string, unknown>,
+  timezone: string,
+) => {
+  const day = pickDateExpression(input);
+  const hasDay = Object.keys(day).length > 0;
+  if (!hasDay && !input.time) return undefined;
+
+  const wallClockNow = getWallClockNow(timezone);
+  const expression = hasDay ? day : { dayOffset: 0 };
+  if (input.time) {
+    return {
+      due: calculateAbsoluteDateFromWallClock(wallClockNow, {
+        ...expression,
+        time: input.time,
+      }),
+      dueAllDay: false,
+    };
+  }
+  return {
+    due: calculateAllDaySpan(wallClockNow, expression).start,
+    dueAllDay: true,
+  };
+};
+
+/** " due Friday 3.1.2025", or nothing for a task without a due date */
+const describeDue = (
+  task: Pick<CalendarTask, 'due' | 'dueAllDay'>,
+  timezone: string,
+) =>
+  task.due
+    ? ` due ${formatDateTime(task.due, { timezone, includeTime: !task.dueAllDay })}`
+    : '';
+
+/** Due time of a task for the confirmation policies */
+const dueTiming = (
+  task: Pick<CalendarTask, 'due' | 'dueAllDay'>,
+  timezone: string,
+) =>
+  task.due ? { start: task.due, allDay: task.dueAllDay, timezone } : undefined;
+
+const errorResult = (error: unknown) => ({
+  content: [
+    { type: 'text' as const, text: `Error: ${(error as Error).message}` },
+  ],
+});
+
+// ------------------- MCP Tools -------------------
+/**
+ * Register the task (VTODO) tools on a server.
+ * @param getTaskClient - Task operations for the request's user
+ */
+export const registerTaskTools = (
+  mcpServer: McpServer,
+  getTaskClient: GetTaskClient,
+) => {
+  mcpServer.registerTool(
+    'createTask',
+    {
+      title: 'Create Task',
+      description: CREATE_TASK_DESCRIPTION,
+      inputSchema: createTaskInputSchema,
+    },
+    async (input: CreateTaskInput, extra) => {
+      const { title, description, priority, timezone, taskList } = input;
+      try {
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const due = resolveDue(input, effectiveTimezone);
+        const dueText = describeDue(
+          { due: due?.due ?? null, dueAllDay: due?.dueAllDay ?? false },
+          effectiveTimezone,
+        );
+
+        const create = async (): Promise<CallToolResult> => {
+          const created = await getTaskClient(extra.authInfo).createTask({
+            title,
+            description,
+            ...due,
+            timezone: effectiveTimezone,
+            priority: priority && PRIORITIES[priority],
+            taskList,
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Successfully created task "${title}"${dueText} in task list "${created.taskList}"`,
+              },
+            ],
+            structuredContent: {
+              uid: created.uid,
+              taskList: created.taskList,
+            },
+          };
+        };
+
+        const target = taskList
+          ? `task list "${taskList}"`
+          : 'the default task list';
+        const result = await confirmWrite(mcpServer, extra, {
+          tool: 'createTask',
+          summary: `Create task "${title}"${dueText} in ${target}`,
+          timing: due && dueTiming(due, effectiveTimezone),
+          run: create,
+        });
+        return withResolvedDates(result, {
+          start: due?.due,
+          allDay: due?.dueAllDay,
+          timezone: effectiveTimezone,
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  mcpServer.registerTool(
+    'listTasks',
+    {
+      title: 'List Tasks',
+      description: LIST_TASKS_DESCRIPTION,
+      inputSchema: listTasksInputSchema,
+    },
+    async (
+      { filter = 'open', taskList, timezone }: ListTasksInput,
+      { authInfo },
+    ) => {
+      try {
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const tasks = await getTaskClient(authInfo).listTasks({
+          filter,
+          selector: taskList ?? ALL_CALENDARS,
+          timezone: effectiveTimezone,
+        });
+
+        const kind = filter && filter !== 'all' ? `${filter} ` : '';
+        const text =
+          tasks.length === 0
+            ? `No ${kind}tasks found.`
+            : `Found ${tasks.length} ${kind}task(s):\n${formatTaskList(tasks, '', effectiveTimezone)}`;
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: { tasks },
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  mcpServer.registerTool(
+    'completeTask',
+    {
+      title: 'Complete Task',
+      description: COMPLETE_TASK_DESCRIPTION,
+      inputSchema: completeTaskInputSchema,
+    },
+    async ({ uid, timezone }: CompleteTaskInput, extra) => {
+      try {
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const taskClient = getTaskClient(extra.authInfo);
+        const { task: current } = await taskClient.findTaskByUid(uid);
+
+        const complete = async (): Promise<CallToolResult> => {
+          const task = await taskClient.completeTask(uid);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Marked task "${task.title}" as completed:\n${formatTask(task, effectiveTimezone)}`,
+              },
+            ],
+            structuredContent: { task },
+          };
+        };
+
+        return await confirmWrite(mcpServer, extra, {
+          tool: 'completeTask',
+          summary: `Mark task "${current.title}"${describeDue(current, effectiveTimezone)} as completed`,
+          timing: dueTiming(current, effectiveTimezone),
+          run: complete,
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  mcpServer.registerTool(
+    'updateTask',
+    {
+      title: 'Update Task',
+      description: UPDATE_TASK_DESCRIPTION,
+      inputSchema: updateTaskInputSchema,
+    },
+    async (input: UpdateTaskInput, extra) => {
+      const {
+        uid,
+        title,
+        description,
+        priority,
+        clearDue,
+        completed,
+        timezone,
+      } = input;
+      try {
+        const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+        const due = clearDue
+          ? { due: null }
+          : resolveDue(input, effectiveTimezone);
+        const taskClient = getTaskClient(extra.authInfo);
+        const { task: current } = await taskClient.findTaskByUid(uid);
+
+        const update = async (): Promise<CallToolResult> => {
+          const task = await taskClient.updateTask(uid, {
+            title,
+            description,
+            priority: priority && PRIORITIES[priority],
+            ...due,
+            timezone: effectiveTimezone,
+            status: completed === false ? 'NEEDS-ACTION' : undefined,
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Updated task "${task.title}"${describeDue(task, effectiveTimezone)}:\n${formatTask(task, effectiveTimezone)}`,
+              },
+            ],
+            structuredContent: { task },
+          };
+        };
+
+        const changeList = [
+          title !== undefined && `rename it to "${title}"`,
+          description !== undefined && 'change the description',
+          priority && `set the priority to ${priority}`,
+          due?.due === null && 'remove the due date',
+          due?.due &&
+            `make it${describeDue({ due: due.due, dueAllDay: due.dueAllDay }, effectiveTimezone)}`,
+          completed === false && 'reopen it',
+        ].filter(Boolean);
+        const result = await confirmWrite(mcpServer, extra, {
+          tool: 'updateTask',
+          summary: `Update task "${current.title}": ${changeList.join(', ') || 'no changes'}`,
+          timing: due?.due
+            ? dueTiming(
+                { due: due.due, dueAllDay: due.dueAllDay },
+                effectiveTimezone,
+              )
+            : undefined,
+          run: update,
+        });
+        return withResolvedDates(result, {
+          start: due?.due,
+          allDay: due?.due ? due.dueAllDay : undefined,
+          timezone: effectiveTimezone,
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+};
@@ -3,6 +3,14 @@ import { promises as fs } from 'fs';
 import { ErrorResponse } from './types/LocalTypes';
 import CustomError from './classes/CustomError';
 import fetchData from './utils/fetchData';
+import { getUserStore, toAuthInfo } from './auth/userStore';
+import {
+  CLOCK_HEADER,
+  createOffsetClock,
+  isClockOverrideAllowed,
+  parseClockOverride,
+  runWithClock,
+} from './utils/clock';
 
 type TranscriptionResponse = {
   text: string;
@@ -28,14 +36,86 @@ const errorHandler = (
   });
 };
 
+/**
+ * Middleware to require a bearer token from a known user.
+ * Sets req.auth for the controllers and the MCP transport. Does nothing
+ * when authentication is disabled (no user store configured).
+ */
+const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const userStore = getUserStore();
+  if (!userStore) {
+    next();
+    return;
+  }
+
+  const [scheme, token] = req.headers.authorization?.split(' ') ?? [];
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    res.set('WWW-Authenticate', 'Bearer');
+    next(new CustomError('Missing bearer token', 401));
+    return;
+  }
+
+  try {
+    const user = await userStore.findByToken(token);
+    if (!user) {
+      res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+      next(new CustomError('Invalid bearer token', 401));
+      return;
+    }
+    req.auth = toAuthInfo(token, user);
+    next();
+  } catch (error) {
+    next(new CustomError((error as Error).message, 500));
+  }
+};
+
+/**
+ * Middleware to run the rest of the request with the clock set by the
+ * X-Clock-Now header (see parseClockOverride), e.g. "2026-03-29T02:30
+ * Europe/Helsinki". The clock starts at that time and runs from there.
+ * The header is refused unless ALLOW_CLOCK_OVERRIDE is set. Mount it after
+ * multer: the clock does not carry over its upload handling.
+ */
+const clockOverride = (req: Request, res: Response, next: NextFunction) => {
+  const value = req.header(CLOCK_HEADER);
+  if (!value) {
+    next();
+    return;
+  }
+  if (!isClockOverrideAllowed()) {
+    next(
+      new CustomError(
+        `The ${CLOCK_HEADER} header is not allowed on this server (set ALLOW_CLOCK_OVERRIDE)`,
+        403,
+      ),
+    );
+    return;
+  }
+
+  let now: Date;
+  try {
+    now = parseClockOverride(value);
+  } catch (error) {
+    next(new CustomError((error as Error).message, 400));
+    return;
+  }
+  runWithClock(createOffsetClock(now), () => next());
+};
+
 /**
  * Middleware to receive audio and transcribe it using OpenAI's Whisper API.
+ * The transcription replaces req.body.prompt and is kept in
+ * res.locals.transcription for controllers that report it back.
  */
 const audioTranscriptionMiddleware = async (
   req: Request<object, object, { prompt?: string }> & {
     file?: Express.Multer.File;
   },
-  _res: Response,
+  res: Response,
   next: NextFunction,
 ) => {
   const file = req.file;
@@ -83,6 +163,7 @@ const audioTranscriptionMiddleware = async (
     );
 
     req.body.prompt = transcription.text;
+    res.locals.transcription = transcription.text;
 
     if (process.env.DEBUG_TRANSCRIPTION === 'true') {
       console.debug('transcription received', {
@@ -108,4 +189,10 @@ const audioTranscriptionMiddleware = async (
   }
 };
 
-export { notFound, errorHandler, audioTranscriptionMiddleware };
+export {
+  notFound,
+  errorHandler,
+  authenticate,
+  clockOverride,
+  audioTranscriptionMiddleware,
+};
@@ -0,0 +1,140 @@
+import type { ServerResponse } from 'node:http';
+
+/** A reminder of an upcoming event, sent when one of its alarms is due */
+export type ReminderNotification = {
+  /** Owner of the calendar; undefined for the shared calendar */
+  userId?: string;
+  uid: string;
+  title: string;
+  /** Start of the event (occurrence) */
+  start: Date;
+  calendar: string | null;
+  location: string | null;
+  /** Minutes before the start the reminder was set for */
+  minutesBefore: number;
+  /** Text to show or speak, e.g. "Lab meeting starts in 15 minutes" */
+  message: string;
+};
+
+/** Delivers reminders to the user, e.g. over a webhook or to the browser */
+export type ReminderChannel = {
+  /** @throws Error if the reminder could not be delivered */
+  notify: (reminder: ReminderNotification) => Promise<void>;
+};
+
+/** Channel streaming reminders to the connected browsers of each user */
+export type SseReminderChannel = ReminderChannel & {
+  /**
+   * Stream the reminders of a user to an open Server-Sent Events response
+   * until it closes.
+   */
+  subscribe: (res: ServerResponse, userId?: string) => void;
+};
+
+/** Channel that writes reminders to the server log */
+export const createLogReminderChannel = (): ReminderChannel => ({
+  notify: async (reminder) => {
+    const user = reminder.userId ? ` (${reminder.userId})` : '';
+    console.log(`[reminder]${user} ${reminder.message}`);
+  },
+});
+
+/**
+ * Channel that POSTs each reminder as JSON to a webhook, e.g. a chat or
+ * push notification service.
+ * @param url - Webhook URL
+ */
+export const createWebhookReminderChannel = (url: string): ReminderChannel => ({
+  notify: async (reminder) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(reminder),
+    });
+    if (!response.ok) {
+      throw new Error(`Reminder webhook returned ${response.status}`);
+    }
+  },
+});
+
+/**
+ * Channel sending reminders as "reminder" events to the Server-Sent Events
+ * streams opened by the browser UI. Reminders of users without an open
+ * stream are dropped.
+ */
+export const createSseReminderChannel = (): SseReminderChannel => {
+  // Open streams by user id; '' for the shared calendar
+  const streams = new Map<string, Set<ServerResponse>>();
+
+  return {
+    subscribe: (res, userId = '') => {
+      const userStreams = streams.get(userId) ?? new Set<ServerResponse>();
+      userStreams.add(res);
+      streams.set(userId, userStreams);
+      res.on('close', () => {
+        userStreams.delete(res);
+        if (userStreams.size === 0) streams.delete(userId);
+      });
+    },
+    notify: async (reminder) => {
+      for (const res of streams.get(reminder.userId ?? '') ?? []) {
+        res.write(`event: reminder\ndata: ${JSON.stringify(reminder)}\n\n`);
+      }
+    },
+  };
+};
+
+/**
+ * Channel that notifies all the given channels. A failing channel does
+ * not keep the others from getting the reminder.
+ * @throws Error listing the failures if any channel failed
+ */
+export const combineReminderChannels = (
+  ...channels: ReminderChannel[]
+): ReminderChannel => ({
+  notify: async (reminder) => {
+    const results = await Promise.allSettled(
+      channels.map((channel) => channel.notify(reminder)),
+    );
+    const failures = results
+      .filter((result) => result.status === 'rejected')
+      .map((result) => (result.reason as Error).message);
+    if (failures.length > 0) {
+      throw new Error(failures.join('; '));
+    }
+  },
+});
+
+let sseChannel: SseReminderChannel | undefined;
+
+/** The channel behind the reminder stream of the browser UI */
+export const getSseReminderChannel = (): SseReminderChannel => {
+  sseChannel ??= createSseReminderChannel();
+  return sseChannel;
+};
+
+let reminderChannel: ReminderChannel | undefined;
+
+/**
+ * The channel reminders are sent to, by default the log, the browser UI
+ * and REMINDER_WEBHOOK_URL if set. Created on first use.
+ */
+export const getReminderChannel = (): ReminderChannel => {
+  if (!reminderChannel) {
+    const webhookUrl = process.env.REMINDER_WEBHOOK_URL;
+    reminderChannel = combineReminderChannels(
+      createLogReminderChannel(),
+      getSseReminderChannel(),
+      ...(webhookUrl ? [createWebhookReminderChannel(webhookUrl)] : []),
+    );
+  }
+  return reminderChannel;
+};
+
+/**
+ * Replace the reminder channel, e.g. with a push notification service.
+ * Include getSseReminderChannel() to keep reminders in the browser UI.
+ */
+export const setReminderChannel = (channel: ReminderChannel) => {
+  reminderChannel = channel;
+};
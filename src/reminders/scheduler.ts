@@ -0,0 +1,188 @@
+import {
+  ALL_CALENDARS,
+  createCalendarClient,
+  type CalendarClient,
+} from '@/calDav/calendarClient';
+import { getScanCalendarBackend } from '@/calDav/backendConfig';
+import { getUserStore } from '@/auth/userStore';
+import { formatLeadTime } from '@/utils/eventFormatting';
+import {
+  getReminderChannel,
+  type ReminderChannel,
+  type ReminderNotification,
+} from '@/reminders/channels';
+
+/** Longest time before an event a reminder can be set: one week */
+export const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+/** Default interval for checking the calendars for due reminders */
+const DEFAULT_SCAN_SECONDS = 60;
+
+const scanIntervalMs = (() => {
+  const parsed = Number(process.env.REMINDER_SCAN_SECONDS);
+  return (
+    (Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_SCAN_SECONDS) *
+    1000
+  );
+})();
+
+/** Calendars whose reminders are sent, with the user they belong to */
+export type ReminderSource = {
+  /** Undefined for the shared calendar */
+  userId?: string;
+  calendarClient: CalendarClient;
+};
+
+export type ReminderSchedulerOptions = {
+  /** Defaults to getReminderChannel() */
+  channel?: ReminderChannel;
+  /** Defaults to the calendars of every user, see listReminderSources */
+  listSources?: () => Promise<ReminderSource[]>;
+  /** Defaults to REMINDER_SCAN_SECONDS (60 s) */
+  intervalMs?: number;
+};
+
+/**
+ * The calendars of every user in the user store, or the shared calendar
+ * when authentication is disabled. Users whose backend cannot be created
+ * are skipped. The backends come from getScanCalendarBackend, so scans do
+ * not count as use of the per-user backend cache.
+ */
+export const listReminderSources = async (): Promise<ReminderSource[]> => {
+  const userStore = getUserStore();
+  if (!userStore) {
+    return [{ calendarClient: createCalendarClient(getScanCalendarBackend()) }];
+  }
+  return (await userStore.list()).flatMap((user) => {
+    try {
+      return [
+        {
+          userId: user.id,
+          calendarClient: createCalendarClient(getScanCalendarBackend(user)),
+        },
+      ];
+    } catch (error) {
+      console.warn(
+        `[reminders] Skipping the calendars of ${user.id}:`,
+        (error as Error).message,
+      );
+      return [];
+    }
+  });
+};
+
+/** Text of a reminder, e.g. "Lab meeting starts in 15 minutes" */
+const reminderMessage = (title: string, minutesBefore: number) =>
+  minutesBefore === 0
+    ? `${title} starts now`
+    : `${title} starts in ${formatLeadTime(minutesBefore)}`;
+
+/**
+ * Scheduler that checks the calendars for due reminders (VALARMs) every
+ * interval and sends them to the reminder channel. Each scan covers the
+ * time since the previous one, so every reminder is sent once while the
+ * server runs; reminders due while it was down are not sent.
+ * @param options - Channel, calendars and interval, for tests
+ */
+export const createReminderScheduler = ({
+  channel,
+  listSources = listReminderSources,
+  intervalMs = scanIntervalMs,
+}: ReminderSchedulerOptions = {}) => {
+  let lastScan: Date | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let scanning = false;
+
+  /**
+   * Send the reminders due after the previous scan up to now. The first
+   * scan looks back one interval.
+   * @param now - End of the scanned time, for tests
+   * @returns The reminders that were due
+   */
+  const scan = async (now = new Date()): Promise<ReminderNotification[]> => {
+    const since = lastScan ?? new Date(now.getTime() - intervalMs);
+    lastScan = now;
+    const horizon = new Date(now.getTime() + MAX_REMINDER_MINUTES * 60_000);
+
+    const due: ReminderNotification[] = [];
+    for (const { userId, calendarClient } of await listSources()) {
+      let events;
+      try {
+        events = await calendarClient.getEventsInRange(
+          since,
+          horizon,
+          undefined,
+          ALL_CALENDARS,
+        );
+      } catch (error) {
+        console.warn(
+          `[reminders] Checking the calendars${userId ? ` of ${userId}` : ''} failed:`,
+          (error as Error).message,
+        );
+        continue;
+      }
+
+      for (const event of events) {
+        if (!event.uid || !event.start || event.status === 'CANCELLED') {
+          continue;
+        }
+        for (const minutesBefore of event.reminders) {
+          const dueAt = event.start.getTime() - minutesBefore * 60_000;
+          if (dueAt <= since.getTime() || dueAt > now.getTime()) continue;
+          due.push({
+            userId,
+            uid: event.uid,
+            title: event.title,
+            start: event.start,
+            calendar: event.calendar,
+            location: event.location,
+            minutesBefore,
+            message: reminderMessage(event.title, minutesBefore),
+          });
+        }
+      }
+    }
+
+    for (const reminder of due) {
+      try {
+        await (channel ?? getReminderChannel()).notify(reminder);
+      } catch (error) {
+        console.warn(
+          `[reminders] Sending "${reminder.message}" failed:`,
+          (error as Error).message,
+        );
+      }
+    }
+    return due;
+  };
+
+  const run = async () => {
+    if (scanning) return;
+    scanning = true;
+    try {
+      await scan();
+    } catch (error) {
+      console.warn('[reminders] Scan failed:', (error as Error).message);
+    } finally {
+      scanning = false;
+    }
+  };
+
+  return {
+    scan,
+    /** Start scanning every interval */
+    start: () => {
+      if (timer) return;
+      lastScan = new Date();
+      timer = setInterval(() => void run(), intervalMs);
+      // The scheduler must not keep the process alive
+      timer.unref();
+    },
+    stop: () => {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+};
+
+export type ReminderScheduler = ReturnType<typeof createReminderScheduler>;
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+/**
+ * Run the calendar MCP server over stdio, for desktop MCP hosts that start
+ * the server as a subprocess. No web app, no authentication: the calendar
+ * backend comes from the environment (.env) or the flags below, which
+ * override it.
+ *
+ * stdout carries the protocol, so all logging goes to stderr.
+ */
+import { parseArgs } from 'node:util';
+import dotenv from 'dotenv';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+
+const USAGE = `Usage: mcp-labrat-stdio [options]
+
+Options (override the environment variable in parentheses):
+  --backend <caldav|filesystem|memory>  Calendar backend (CALENDAR_BACKEND)
+  --calendar-dir <path>                 Directory of the filesystem backend (CALENDAR_DIR)
+  --caldav-url <url>                    CalDAV server URL (CALDAV_SERVER_URL)
+  --caldav-username <name>              CalDAV username (CALDAV_USERNAME)
+  --caldav-password <password>          CalDAV password (CALDAV_PASSWORD); prefer the
+                                        environment, flags are visible to other users
+  --default-calendar <name>             Default calendar (CALDAV_DEFAULT_CALENDAR)
+  --env-file <path>                     Load variables from this file instead of .env
+  -h, --help                            Show this help`;
+
+/** CLI flags and the environment variables they set */
+const FLAG_ENV = {
+  backend: 'CALENDAR_BACKEND',
+  'calendar-dir': 'CALENDAR_DIR',
+  'caldav-url': 'CALDAV_SERVER_URL',
+  'caldav-username': 'CALDAV_USERNAME',
+  'caldav-password': 'CALDAV_PASSWORD',
+  'default-calendar': 'CALDAV_DEFAULT_CALENDAR',
+} as const;
+
+// Modules log with console.log, which would corrupt the protocol stream
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      ...(Object.fromEntries(
+        Object.keys(FLAG_ENV).map((flag) => [flag, { type: 'string' }]),
+      ) as Record<keyof typeof FLAG_ENV, { type: 'string' }>),
+      'env-file': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.error(USAGE);
+    return;
+  }
+
+  dotenv.config({ path: values['env-file'], quiet: true });
+  for (const [flag, name] of Object.entries(FLAG_ENV)) {
+    const value = values[flag as keyof typeof FLAG_ENV];
+    if (value !== undefined) process.env[name] = value;
+  }
+
+  // Imported after the environment is set: modules read it when loaded
+  const { createMcpServer } = await import('@/mcp-server');
+  const { getCalendarBackend } = await import('@/calDav/backendConfig');
+  // Fail now on an unknown backend, not on the first tool call
+  getCalendarBackend();
+
+  const mcpServer = createMcpServer();
+  const transport = new StdioServerTransport();
+  const shutdown = async () => {
+    await mcpServer.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown());
+  process.on('SIGTERM', () => void shutdown());
+  // The host closes stdin to stop the server
+  process.stdin.on('end', () => void shutdown());
+
+  await mcpServer.connect(transport);
+  console.error(
+    `[stdio] Calendar MCP server running (backend: ${process.env.CALENDAR_BACKEND || 'caldav'})`,
+  );
+};
+
+main().catch((error) => {
+  console.error(`[stdio] ${(error as Error).message}\n\n${USAGE}`);
+  process.exit(1);
+});
@@ -0,0 +1,8 @@
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Set by the authenticate middleware; read by the MCP transport */
+    auth?: AuthInfo;
+  }
+}
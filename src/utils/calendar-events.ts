@@ -1,6 +1,41 @@
-import { DateTime } from 'luxon';
-import { icsToJson } from '@/utils/icsToJson';
+import { DateTime, Duration } from 'luxon';
+import {
+  findComponents,
+  getParam,
+  getProperties,
+  getProperty,
+  getText,
+  getTextList,
+  getValueList,
+  parseICalendar,
+  type ICalComponent,
+  type ICalProperty,
+} from '@/utils/ical-parser';
+import {
+  ATTENDEE_ROLES,
+  MANAGED_CALENDAR_PROPERTIES,
+  MANAGED_EVENT_PROPERTIES,
+  MANAGED_TASK_PROPERTIES,
+  PARTICIPATION_STATUSES,
+  TASK_STATUSES,
+  type Attendee,
+  type AttendeeRole,
+  type ICalCalendarExtras,
+  type ICalInput,
+  type ICalTaskInput,
+  type Organizer,
+  type ParticipationStatus,
+  type TaskStatus,
+  withStoredDates,
+  withStoredTaskDates,
+} from '@/utils/ical-lib';
+import {
+  expandRecurrence,
+  parseRRule,
+  type RecurrenceRule,
+} from '@/utils/recurrence';
 import { DEFAULT_TIMEZONE } from '@/utils/weekday';
+import { getNow } from '@/utils/clock';
 
 /**
  * Logger interface for ICS parsing warnings.
@@ -20,48 +55,160 @@ const defaultLogger: IcsLogger = {
  * Formatting is done at the presentation layer (MCP server).
  */
 export type CalendarEvent = {
+  /** iCalendar UID - stable identifier used to update or delete the event */
+  uid: string | null;
+  /** URL of the CalDAV object that stores the event */
+  url: string | null;
+  /** ETag of the CalDAV object, used for If-Match on writes */
+  etag: string | null;
+  /** Display name of the calendar the event is stored in */
+  calendar: string | null;
   title: string;
   start: Date | null;
   end: Date | null;
   location: string | null;
   description: string | null;
+  /**
+   * Whole-day event (DTSTART;VALUE=DATE). start is midnight of the first day
+   * and end is midnight after the last day (exclusive), in the parse timezone.
+   */
+  allDay: boolean;
+  /** TRANSP:TRANSPARENT - the event does not block time in availability checks */
+  transparent: boolean;
+  /** STATUS in upper case (TENTATIVE, CONFIRMED, CANCELLED), null if not set */
+  status: string | null;
+  categories: string[];
+  /** Organizer of a meeting, null for private events */
+  organizer: Organizer | null;
+  /** Invited people with their role and participation status */
+  attendees: Attendee[];
+  /** Minutes before the start of each alarm (VALARM), in ascending order */
+  reminders: number[];
+  /** Recurrence rule of the series this event belongs to, null for single events */
+  recurrence: RecurrenceRule | null;
+  /** Original start of this occurrence within its series, null for single events */
+  recurrenceId: Date | null;
 };
 
 /**
- * Parse iCal date string to Date object using luxon.
+ * Task (VTODO) data model with raw Date objects.
+ * Recurring tasks are listed once, with their first due date.
+ */
+export type CalendarTask = {
+  uid: string | null;
+  /** URL of the CalDAV object that stores the task */
+  url: string | null;
+  /** ETag of the CalDAV object, used for If-Match on writes */
+  etag: string | null;
+  /** Display name of the task list (calendar) the task is stored in */
+  calendar: string | null;
+  title: string;
+  description: string | null;
+  /** Due time, or the start of the due day when dueAllDay */
+  due: Date | null;
+  /** Due on a day without a time (DUE;VALUE=DATE), in the parse timezone */
+  dueAllDay: boolean;
+  status: TaskStatus;
+  /** 1 (highest) to 9 (lowest), null if not set */
+  priority: number | null;
+  /** When the task was completed */
+  completed: Date | null;
+  categories: string[];
+};
+
+/** Time window used to expand recurring events */
+export type TimeRange = {
+  start: Date;
+  end: Date;
+};
+
+export type IcsParseOptions = {
+  /**
+   * Window for expanding recurring series. When given, events outside it
+   * are dropped too. Defaults to getDefaultExpansionWindow()
+   */
+  range?: TimeRange;
+  /** Zone for floating times and all-day dates. Defaults to DEFAULT_TIMEZONE */
+  timezone?: string;
+  /** Set to false to return series masters as stored instead of occurrences */
+  expand?: boolean;
+};
+
+/** Days before now included when expanding recurring events without a range */
+const DEFAULT_EXPANSION_PAST_DAYS = 30;
+
+/** Days after now included when expanding recurring events without a range */
+const DEFAULT_EXPANSION_FUTURE_DAYS = 90;
+
+/**
+ * Window used to expand recurring series when no range is requested
+ * (e.g. listEvents): 30 days back to 90 days ahead.
+ */
+export const getDefaultExpansionWindow = (): TimeRange => {
+  const now = DateTime.fromJSDate(getNow());
+  return {
+    start: now.minus({ days: DEFAULT_EXPANSION_PAST_DAYS }).toJSDate(),
+    end: now.plus({ days: DEFAULT_EXPANSION_FUTURE_DAYS }).toJSDate(),
+  };
+};
+
+/**
+ * Shared state while mapping one iCalendar object.
+ * timezones maps VTIMEZONE TZIDs to IANA zones (via X-LIC-LOCATION) so
+ * non-IANA TZIDs like "W. Europe Standard Time" can still be resolved.
+ */
+type ParseContext = {
+  logger: IcsLogger;
+  timezones: Map<string, string>;
+  /** Zone for floating times and all-day dates */
+  floatingZone: string;
+};
+
+const isValidZone = (zone: string): boolean =>
+  DateTime.local().setZone(zone).isValid;
+
+/** Collect TZID → IANA zone mappings from the VTIMEZONE components */
+const collectTimezones = (roots: ICalComponent[]): Map<string, string> => {
+  const timezones = new Map<string, string>();
+  for (const vtimezone of findComponents(roots, 'VTIMEZONE')) {
+    const tzid = getProperty(vtimezone, 'TZID')?.value;
+    const location = getProperty(vtimezone, 'X-LIC-LOCATION')?.value;
+    if (tzid && location && isValidZone(location)) {
+      timezones.set(tzid, location);
+    }
+  }
+  return timezones;
+};
+
+/**
+ * Parse an iCal date or date-time value to a Luxon DateTime in its own zone.
  * Handles UTC (ending with Z), floating local time, TZID parameters,
  * and numeric offsets (e.g., +0200).
  *
- * @param icalDate - The iCal date string to parse
- * @param logger - Optional logger for warnings. Defaults to console.warn.
+ * @param value - The iCal date value, e.g. "20250101T120000"
+ * @param tzid - TZID parameter of the property, if any
+ * @param context - Logger and VTIMEZONE mappings
  */
-const parseIcsDate = (
-  icalDate?: string,
-  logger: IcsLogger = defaultLogger,
-): Date | null => {
-  if (!icalDate) return null;
+const parseIcsDateTime = (
+  value: string | undefined,
+  tzid: string | undefined,
+  { logger, timezones, floatingZone }: ParseContext,
+): DateTime | null => {
+  if (!value) return null;
 
-  let dateStr = icalDate;
+  let dateStr = value.trim();
   let timezone: string | null = null;
   let offsetMinutes: number | null = null;
 
-  // Handle TZID format: "TZID=Europe/Helsinki:20250101T120000"
-  // Extract and honor the specified timezone
-  if (icalDate.includes('TZID=')) {
-    const tzMatch = icalDate.match(/TZID=([^:]+):(.+)/);
-    if (tzMatch) {
-      const [, tz, date] = tzMatch;
-      // Validate the timezone with luxon
-      const testDt = DateTime.local().setZone(tz);
-      if (testDt.isValid) {
-        timezone = tz;
-        dateStr = date;
-      } else {
-        logger.warn(
-          `[parseIcsDate] Invalid TZID "${tz}" in "${icalDate}". Using DEFAULT_TIMEZONE.`,
-        );
-        dateStr = date;
-      }
+  // Honor the TZID parameter, falling back to the VTIMEZONE's location
+  if (tzid) {
+    const zone = isValidZone(tzid) ? tzid : timezones.get(tzid);
+    if (zone) {
+      timezone = zone;
+    } else {
+      logger.warn(
+        `[parseIcsDate] Invalid TZID "${tzid}" for "${value}". Using the floating timezone.`,
+      );
     }
   }
 
@@ -83,7 +230,7 @@ const parseIcsDate = (
   );
   if (!match) {
     logger.warn(
-      `[parseIcsDate] Unable to parse date: "${icalDate}". Returning null.`,
+      `[parseIcsDate] Unable to parse date: "${value}". Returning null.`,
     );
     return null;
   }
@@ -92,18 +239,18 @@ const parseIcsDate = (
 
   // Determine the zone to use:
   // 1. If UTC suffix (Z), use UTC
-  // 2. If TZID was specified and valid, use that timezone
+  // 2. If TZID was specified and valid, use that timezone (date-times only)
   // 3. If numeric offset, use fixed offset zone
-  // 4. Otherwise, use DEFAULT_TIMEZONE (floating time)
+  // 4. Otherwise (floating time or a date without time), use the floating zone
   let zone: string;
   if (isUTC) {
     zone = 'utc';
-  } else if (timezone) {
+  } else if (timezone && hour) {
     zone = timezone;
   } else if (offsetMinutes !== null) {
     zone = `UTC${offsetMinutes >= 0 ? '+' : ''}${Math.floor(offsetMinutes / 60)}:${String(Math.abs(offsetMinutes % 60)).padStart(2, '0')}`;
   } else {
-    zone = DEFAULT_TIMEZONE;
+    zone = floatingZone;
   }
 
   const dt = DateTime.fromObject(
@@ -118,42 +265,617 @@ const parseIcsDate = (
     { zone },
   );
 
-  return dt.isValid ? dt.toJSDate() : null;
+  return dt.isValid ? dt : null;
+};
+
+/** Parse a date property (DTSTART, DTEND, RECURRENCE-ID) of a component */
+const parseDateProperty = (
+  component: ICalComponent,
+  name: string,
+  context: ParseContext,
+): DateTime | null => {
+  const property = getProperty(component, name);
+  return parseIcsDateTime(property?.value, getParam(property, 'TZID'), context);
+};
+
+/**
+ * Whether a date property holds floating times: local times without a TZID,
+ * UTC marker or offset (RFC 5545 3.3.5)
+ */
+const isFloating = (property: ICalProperty | undefined): boolean =>
+  property !== undefined &&
+  !getParam(property, 'TZID') &&
+  /T\d{4}(\d{2})?$/.test(property.value.trim());
+
+/** Parse all EXDATE properties of a component, each may hold several dates */
+const parseExdates = (
+  component: ICalComponent,
+  context: ParseContext,
+): Date[] =>
+  getProperties(component, 'EXDATE').flatMap((property) =>
+    getValueList(property)
+      .map((value) =>
+        parseIcsDateTime(value, getParam(property, 'TZID'), context),
+      )
+      .filter((dt): dt is DateTime => dt !== null)
+      .map((dt) => dt.toJSDate()),
+  );
+
+/** Parameters of ORGANIZER and ATTENDEE that are mapped to fields */
+const CAL_ADDRESS_PARAMS = ['CN', 'ROLE', 'PARTSTAT', 'RSVP'];
+
+/**
+ * Parse an ORGANIZER or ATTENDEE property. The address is usually a
+ * mailto: URI; other parameters are kept for rewriting.
+ */
+const parseCalAddress = (property: ICalProperty): Organizer => {
+  const params = Object.fromEntries(
+    Object.entries(property.params).filter(
+      ([name]) => !CAL_ADDRESS_PARAMS.includes(name),
+    ),
+  );
+  return {
+    email: property.value.trim().replace(/^mailto:/i, ''),
+    name: getParam(property, 'CN') || undefined,
+    params: Object.keys(params).length > 0 ? params : undefined,
+  };
+};
+
+/**
+ * Parse the ATTENDEE properties of a component. Unknown roles count as
+ * REQ-PARTICIPANT and unknown statuses as NEEDS-ACTION (RFC 5545 3.2.12, 3.2.16).
+ */
+const parseAttendees = (component: ICalComponent): Attendee[] =>
+  getProperties(component, 'ATTENDEE').map((property) => {
+    const role = getParam(property, 'ROLE')?.toUpperCase() as AttendeeRole;
+    const partstat = getParam(
+      property,
+      'PARTSTAT',
+    )?.toUpperCase() as ParticipationStatus;
+    const rsvp = getParam(property, 'RSVP')?.toUpperCase();
+    return {
+      ...parseCalAddress(property),
+      role: ATTENDEE_ROLES.includes(role) ? role : 'REQ-PARTICIPANT',
+      partstat: PARTICIPATION_STATUSES.includes(partstat)
+        ? partstat
+        : 'NEEDS-ACTION',
+      rsvp: rsvp === undefined ? undefined : rsvp === 'TRUE',
+    };
+  });
+
+/**
+ * Minutes before the start of the alarms (VALARM) of an event.
+ * Triggers relative to the end (RELATED=END) are converted using the
+ * event's duration. Absolute triggers and alarms after the start are ignored.
+ */
+const parseReminders = (
+  component: ICalComponent,
+  start: DateTime | null,
+  end: Date | null,
+): number[] => {
+  const durationMinutes =
+    start && end ? (end.getTime() - start.toMillis()) / 60_000 : 0;
+  const minutes = component.components
+    .filter((alarm) => alarm.name === 'VALARM')
+    .flatMap((alarm) => {
+      const trigger = getProperty(alarm, 'TRIGGER');
+      if (!trigger || getParam(trigger, 'VALUE')?.toUpperCase() === 'DATE-TIME')
+        return [];
+      const offset = Duration.fromISO(trigger.value.trim().replace(/^\+/, ''));
+      if (!offset.isValid) return [];
+      const relatedToEnd =
+        getParam(trigger, 'RELATED')?.toUpperCase() === 'END';
+      const before =
+        -offset.as('minutes') - (relatedToEnd ? durationMinutes : 0);
+      return before >= 0 ? [Math.round(before)] : [];
+    });
+  return [...new Set(minutes)].sort((a, b) => a - b);
+};
+
+/**
+ * VEVENT fields normalized from the component tree.
+ * Intermediate shape shared by the CalendarEvent and ICalInput mappings.
+ */
+type ParsedEvent = {
+  component: ICalComponent;
+  uid: string | undefined;
+  title: string;
+  start: DateTime | null;
+  end: Date | null;
+  allDay: boolean;
+  transparent: boolean;
+  description: string | undefined;
+  location: string | undefined;
+  status: string | undefined;
+  categories: string[];
+  organizer: Organizer | undefined;
+  attendees: Attendee[];
+  sequence: number | undefined;
+  reminders: number[];
+  rule: RecurrenceRule | null;
+  exdates: Date[];
+  recurrenceId: Date | null;
+};
+
+/**
+ * Normalize a VEVENT component.
+ * DTEND falls back to DTSTART + DURATION, or to one day for all-day events.
+ */
+const parseEventComponent = (
+  component: ICalComponent,
+  context: ParseContext,
+): ParsedEvent => {
+  const uid = getText(component, 'UID')?.trim();
+  const dtstart = getProperty(component, 'DTSTART');
+  const start = parseDateProperty(component, 'DTSTART', context);
+  const allDay =
+    getParam(dtstart, 'VALUE')?.toUpperCase() === 'DATE' ||
+    /^\d{8}$/.test(dtstart?.value.trim() ?? '');
+
+  let end = parseDateProperty(component, 'DTEND', context)?.toJSDate() ?? null;
+  const duration = getProperty(component, 'DURATION')?.value;
+  if (!end && start && duration) {
+    const parsedDuration = Duration.fromISO(duration.trim());
+    end = parsedDuration.isValid ? start.plus(parsedDuration).toJSDate() : null;
+  }
+  if (!end && start && allDay) {
+    end = start.plus({ days: 1 }).toJSDate();
+  }
+
+  const organizer = getProperty(component, 'ORGANIZER');
+  const sequence = parseInt(getProperty(component, 'SEQUENCE')?.value ?? '');
+
+  let rule: RecurrenceRule | null = null;
+  const rrule = getProperty(component, 'RRULE')?.value;
+  if (rrule && start) {
+    rule = parseRRule(rrule, start.zoneName ?? 'utc');
+    if (!rule) {
+      context.logger.warn(
+        `[parseEventComponent] Unsupported RRULE "${rrule}" in event "${uid}". Treating as single event.`,
+      );
+    }
+  }
+
+  return {
+    component,
+    uid,
+    title: getText(component, 'SUMMARY')?.trim() || 'Untitled',
+    start,
+    end,
+    allDay,
+    transparent:
+      getProperty(component, 'TRANSP')?.value.trim().toUpperCase() ===
+      'TRANSPARENT',
+    description: getText(component, 'DESCRIPTION')?.trim() || undefined,
+    location: getText(component, 'LOCATION')?.trim() || undefined,
+    status: getText(component, 'STATUS')?.trim().toUpperCase() || undefined,
+    categories: getTextList(component, 'CATEGORIES')
+      .map((category) => category.trim())
+      .filter(Boolean),
+    organizer: organizer ? parseCalAddress(organizer) : undefined,
+    attendees: parseAttendees(component),
+    sequence: Number.isNaN(sequence) ? undefined : sequence,
+    reminders: parseReminders(component, start, end),
+    rule,
+    exdates: parseExdates(component, context),
+    recurrenceId:
+      parseDateProperty(component, 'RECURRENCE-ID', context)?.toJSDate() ??
+      null,
+  };
+};
+
+/** Parse an ICS string into its components and normalized VEVENTs */
+const parseEvents = (
+  ics: string,
+  logger: IcsLogger,
+  floatingZone: string = DEFAULT_TIMEZONE,
+) => {
+  const roots = parseICalendar(ics, logger);
+  const context: ParseContext = {
+    logger,
+    timezones: collectTimezones(roots),
+    floatingZone,
+  };
+  const events = findComponents(roots, 'VEVENT').map((component) =>
+    parseEventComponent(component, context),
+  );
+  return { roots, events };
+};
+
+/** Whether the event overlaps the range. End times are exclusive */
+const overlaps = (event: CalendarEvent, range: TimeRange): boolean => {
+  if (!event.start) return true;
+  const end = event.end ?? event.start;
+  return (
+    event.start < range.end && (end > range.start || event.start >= range.start)
+  );
+};
+
+/**
+ * Whether an event blocks time in availability checks.
+ * Transparent (e.g. birthdays marked free) and cancelled events do not.
+ */
+export const isBusyEvent = (event: CalendarEvent): boolean =>
+  !event.transparent && event.status !== 'CANCELLED';
+
+/**
+ * Parse a raw calendar object into ICalInput events, as stored.
+ * Used when rewriting calendar objects: the series master comes with its
+ * recurrence rule and EXDATEs, overridden occurrences with their RECURRENCE-ID.
+ * Unknown properties, rules that cannot be expanded here (with their
+ * EXDATEs), sub-components (VALARM) and calendar-level content
+ * (VTIMEZONE, X- properties, other components) are kept, so
+ * generateICal(events, extras) writes the object back without data loss.
+ * Events without a valid start are skipped.
+ *
+ * @param ics - Raw ICS string content
+ * @param logger - Optional logger for parsing warnings. Defaults to console.warn.
+ */
+export const parseIcsObject = (
+  ics: string,
+  logger: IcsLogger = defaultLogger,
+): { events: ICalInput[]; extras: ICalCalendarExtras } => {
+  const { roots, events } = parseEvents(ics, logger);
+  const calendar = roots.find((c) => c.name === 'VCALENDAR');
+
+  const extras: ICalCalendarExtras = {
+    properties: calendar?.properties.filter(
+      (p) => !MANAGED_CALENDAR_PROPERTIES.includes(p.name),
+    ),
+    components: calendar?.components.filter((c) => c.name !== 'VEVENT'),
+  };
+
+  const inputs = events.flatMap((evt): ICalInput[] => {
+    if (!evt.start) return [];
+    // A rule that cannot be expanded here is written back verbatim, with
+    // its EXDATEs, instead of being dropped
+    const keepsRule = !evt.rule && getProperty(evt.component, 'RRULE');
+    const managed = keepsRule
+      ? MANAGED_EVENT_PROPERTIES.filter((n) => n !== 'RRULE' && n !== 'EXDATE')
+      : MANAGED_EVENT_PROPERTIES;
+    const input: ICalInput = {
+      uid: evt.uid,
+      title: evt.title,
+      start: evt.start.toJSDate(),
+      end: evt.end ?? evt.start.toJSDate(),
+      allDay: evt.allDay || undefined,
+      transparent: evt.transparent || undefined,
+      description: evt.description,
+      location: evt.location,
+      timezone:
+        evt.start.zone.type === 'iana' ? evt.start.zoneName! : undefined,
+      floating: isFloating(getProperty(evt.component, 'DTSTART')) || undefined,
+      recurrence: evt.rule ?? undefined,
+      exdates: evt.exdates.length && !keepsRule ? evt.exdates : undefined,
+      recurrenceId: evt.recurrenceId ?? undefined,
+      organizer: evt.organizer,
+      attendees: evt.attendees.length ? evt.attendees : undefined,
+      sequence: evt.sequence,
+      properties: evt.component.properties.filter(
+        (p) => !managed.includes(p.name),
+      ),
+      components: evt.component.components,
+    };
+    // Unchanged dates are written back with their TZID and value text
+    return [withStoredDates(input, evt.component)];
+  });
+
+  return { events: inputs, extras };
 };
 
 /**
  * Map raw ICS string to CalendarEvent array.
  * Centralizes iCal → CalendarEvent transformation.
+ * Recurring series are expanded into occurrences inside the requested range;
+ * overridden occurrences (RECURRENCE-ID) replace the generated ones.
  *
  * @param ics - Raw ICS string content
  * @param logger - Optional logger for parsing warnings. Defaults to console.warn.
+ * @param options - Expansion range, or expand: false to keep series masters
  */
 export const mapIcsToCalendarEvents = (
   ics: string,
   logger: IcsLogger = defaultLogger,
+  options: IcsParseOptions = {},
 ): CalendarEvent[] => {
-  const parsed = icsToJson(ics);
-  return parsed.map((evt) => ({
-    title: evt.summary || 'Untitled',
-    start: parseIcsDate(evt.startDate, logger),
-    end: parseIcsDate(evt.endDate, logger),
-    location: evt.location || null,
-    description: evt.description || null,
-  }));
+  const { expand = true } = options;
+  const range = options.range ?? getDefaultExpansionWindow();
+  const { events: parsed } = parseEvents(ics, logger, options.timezone);
+
+  const toEvent = (
+    evt: ParsedEvent,
+    start: Date | null,
+    end: Date | null,
+    recurrence: RecurrenceRule | null,
+    recurrenceId: Date | null,
+  ): CalendarEvent => ({
+    uid: evt.uid || null,
+    url: null,
+    etag: null,
+    calendar: null,
+    title: evt.title,
+    start,
+    end,
+    allDay: evt.allDay,
+    transparent: evt.transparent,
+    location: evt.location ?? null,
+    description: evt.description ?? null,
+    status: evt.status ?? null,
+    categories: evt.categories,
+    organizer: evt.organizer ?? null,
+    attendees: evt.attendees,
+    reminders: evt.reminders,
+    recurrence,
+    recurrenceId,
+  });
+
+  // Overridden occurrences, keyed by series UID
+  const overridden = new Map<string, Set<number>>();
+  const rules = new Map<string, RecurrenceRule>();
+  for (const evt of parsed) {
+    if (!evt.uid || !evt.recurrenceId) continue;
+    const ids = overridden.get(evt.uid) ?? new Set<number>();
+    ids.add(evt.recurrenceId.getTime());
+    overridden.set(evt.uid, ids);
+  }
+
+  const events: CalendarEvent[] = [];
+  for (const evt of parsed) {
+    if (evt.recurrenceId) continue;
+
+    const { start, end, rule } = evt;
+    if (rule && evt.uid) rules.set(evt.uid, rule);
+
+    if (!start || !rule || !expand) {
+      events.push(toEvent(evt, start?.toJSDate() ?? null, end, rule, null));
+      continue;
+    }
+
+    const durationMs = end ? end.getTime() - start.toMillis() : 0;
+    const skip = overridden.get(evt.uid ?? '') ?? new Set<number>();
+    const occurrences = expandRecurrence({
+      start,
+      rule,
+      exdates: evt.exdates,
+      rangeStart: range.start,
+      rangeEnd: range.end,
+      durationMs,
+    }).filter((occurrence) => !skip.has(occurrence.getTime()));
+
+    for (const occurrence of occurrences) {
+      // All-day occurrences span whole days, even across a DST change
+      const occurrenceEnd = evt.allDay
+        ? DateTime.fromJSDate(occurrence, { zone: start.zone })
+            .plus({ days: Math.round(durationMs / 86_400_000) })
+            .toJSDate()
+        : new Date(occurrence.getTime() + durationMs);
+      events.push(toEvent(evt, occurrence, occurrenceEnd, rule, occurrence));
+    }
+  }
+
+  for (const evt of parsed) {
+    if (!evt.recurrenceId) continue;
+    const event = toEvent(
+      evt,
+      evt.start?.toJSDate() ?? null,
+      evt.end,
+      rules.get(evt.uid ?? '') ?? null,
+      evt.recurrenceId,
+    );
+    if (!expand || overlaps(event, range)) events.push(event);
+  }
+
+  // An explicit range also filters single events, e.g. all-day events the
+  // server matched in its own timezone
+  return options.range
+    ? events.filter((event) => overlaps(event, range))
+    : events;
 };
 
 /**
  * Parse raw CalDAV calendar objects into CalendarEvent array.
  * Shared helper to ensure consistent parsing across all event retrieval methods.
+ * Each event carries the URL and ETag of the object it was parsed from.
  *
  * @param calendarObjects - Raw CalDAV calendar objects with ICS data
  * @param logger - Optional logger for parsing warnings. Defaults to console.warn.
+ * @param options - Expansion options for recurring events
  */
 export const parseCalendarObjects = (
-  calendarObjects: Array<{ data?: string }>,
+  calendarObjects: Array<{ data?: string; url?: string; etag?: string }>,
   logger: IcsLogger = defaultLogger,
+  options: IcsParseOptions = {},
 ): CalendarEvent[] => {
   return calendarObjects
     .filter((obj) => obj.data)
-    .flatMap((obj) => mapIcsToCalendarEvents(obj.data!, logger));
+    .flatMap((obj) =>
+      mapIcsToCalendarEvents(obj.data!, logger, options).map((event) => ({
+        ...event,
+        url: obj.url ?? null,
+        etag: obj.etag ?? null,
+      })),
+    );
+};
+
+/** Whether a task still needs to be done */
+export const isOpenTask = (task: CalendarTask) =>
+  task.status !== 'COMPLETED' && task.status !== 'CANCELLED';
+
+/**
+ * Whether an open task is past its due time. Tasks due on a day become
+ * overdue when the day is over.
+ * @param timezone - Zone the due day was parsed in
+ */
+export const isOverdueTask = (
+  task: CalendarTask,
+  now: Date,
+  timezone: string = DEFAULT_TIMEZONE,
+) => {
+  if (!isOpenTask(task) || !task.due) return false;
+  const deadline = task.dueAllDay
+    ? DateTime.fromJSDate(task.due).setZone(timezone).plus({ days: 1 })
+    : DateTime.fromJSDate(task.due);
+  return deadline.toMillis() <= now.getTime();
+};
+
+/**
+ * VTODO fields normalized from the component tree.
+ * Intermediate shape shared by the CalendarTask and ICalTaskInput mappings.
+ */
+type ParsedTask = {
+  component: ICalComponent;
+  uid: string | undefined;
+  title: string;
+  description: string | undefined;
+  due: DateTime | null;
+  dueAllDay: boolean;
+  status: TaskStatus;
+  priority: number | undefined;
+  completed: Date | null;
+  percentComplete: number | undefined;
+  categories: string[];
+};
+
+/** Parse an integer property, undefined if missing or invalid */
+const parseIntProperty = (component: ICalComponent, name: string) => {
+  const value = parseInt(getProperty(component, name)?.value ?? '');
+  return Number.isNaN(value) ? undefined : value;
+};
+
+/**
+ * Normalize a VTODO component. Unknown statuses count as NEEDS-ACTION and
+ * priorities outside 1-9 as none (RFC 5545 3.8.1.9, 3.8.1.11).
+ */
+const parseTaskComponent = (
+  component: ICalComponent,
+  context: ParseContext,
+): ParsedTask => {
+  const dueProperty = getProperty(component, 'DUE');
+  const status = getText(component, 'STATUS')
+    ?.trim()
+    .toUpperCase() as TaskStatus;
+  const priority = parseIntProperty(component, 'PRIORITY');
+
+  return {
+    component,
+    uid: getText(component, 'UID')?.trim(),
+    title: getText(component, 'SUMMARY')?.trim() || 'Untitled',
+    description: getText(component, 'DESCRIPTION')?.trim() || undefined,
+    due: parseDateProperty(component, 'DUE', context),
+    dueAllDay:
+      getParam(dueProperty, 'VALUE')?.toUpperCase() === 'DATE' ||
+      /^\d{8}$/.test(dueProperty?.value.trim() ?? ''),
+    status: TASK_STATUSES.includes(status) ? status : 'NEEDS-ACTION',
+    priority:
+      priority !== undefined && priority >= 1 && priority <= 9
+        ? priority
+        : undefined,
+    completed:
+      parseDateProperty(component, 'COMPLETED', context)?.toJSDate() ?? null,
+    percentComplete: parseIntProperty(component, 'PERCENT-COMPLETE'),
+    categories: getTextList(component, 'CATEGORIES')
+      .map((category) => category.trim())
+      .filter(Boolean),
+  };
+};
+
+/** Parse an ICS string into its components and normalized VTODOs */
+const parseTasks = (
+  ics: string,
+  logger: IcsLogger,
+  floatingZone: string = DEFAULT_TIMEZONE,
+) => {
+  const roots = parseICalendar(ics, logger);
+  const context: ParseContext = {
+    logger,
+    timezones: collectTimezones(roots),
+    floatingZone,
+  };
+  const tasks = findComponents(roots, 'VTODO').map((component) =>
+    parseTaskComponent(component, context),
+  );
+  return { roots, tasks };
+};
+
+/**
+ * Parse raw calendar objects into CalendarTask array. Objects without
+ * tasks (e.g. events) are skipped.
+ * Each task carries the URL and ETag of the object it was parsed from.
+ *
+ * @param calendarObjects - Raw calendar objects with ICS data
+ * @param logger - Optional logger for parsing warnings. Defaults to console.warn.
+ * @param timezone - Zone for floating times and due dates. Defaults to DEFAULT_TIMEZONE
+ */
+export const parseTaskObjects = (
+  calendarObjects: Array<{ data?: string; url?: string; etag?: string }>,
+  logger: IcsLogger = defaultLogger,
+  timezone?: string,
+): CalendarTask[] =>
+  calendarObjects
+    .filter((obj) => obj.data)
+    .flatMap((obj) =>
+      parseTasks(obj.data!, logger, timezone).tasks.map(
+        (task): CalendarTask => ({
+          uid: task.uid || null,
+          url: obj.url ?? null,
+          etag: obj.etag ?? null,
+          calendar: null,
+          title: task.title,
+          description: task.description ?? null,
+          due: task.due?.toJSDate() ?? null,
+          dueAllDay: task.dueAllDay,
+          status: task.status,
+          priority: task.priority ?? null,
+          completed: task.completed,
+          categories: task.categories,
+        }),
+      ),
+    );
+
+/**
+ * Parse a raw calendar object into ICalTaskInput tasks, as stored, so
+ * generateTaskICal(task, extras) writes it back without data loss
+ * (see parseIcsObject).
+ *
+ * @param ics - Raw ICS string content
+ * @param logger - Optional logger for parsing warnings. Defaults to console.warn.
+ */
+export const parseIcsTaskObject = (
+  ics: string,
+  logger: IcsLogger = defaultLogger,
+): { tasks: ICalTaskInput[]; extras: ICalCalendarExtras } => {
+  const { roots, tasks } = parseTasks(ics, logger);
+  const calendar = roots.find((c) => c.name === 'VCALENDAR');
+
+  return {
+    tasks: tasks.map((task) =>
+      withStoredTaskDates(
+        {
+          uid: task.uid,
+          title: task.title,
+          description: task.description,
+          due: task.due?.toJSDate(),
+          dueAllDay: task.dueAllDay || undefined,
+          timezone:
+            task.due?.zone.type === 'iana' ? task.due.zoneName! : undefined,
+          floating: isFloating(getProperty(task.component, 'DUE')) || undefined,
+          priority: task.priority,
+          status: task.status,
+          completed: task.completed ?? undefined,
+          percentComplete: task.percentComplete,
+          properties: task.component.properties.filter(
+            (p) => !MANAGED_TASK_PROPERTIES.includes(p.name),
+          ),
+          components: task.component.components,
+        },
+        task.component,
+      ),
+    ),
+    extras: {
+      properties: calendar?.properties.filter(
+        (p) => !MANAGED_CALENDAR_PROPERTIES.includes(p.name),
+      ),
+      components: calendar?.components.filter((c) => c.name !== 'VTODO'),
+    },
+  };
 };
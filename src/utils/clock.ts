@@ -0,0 +1,94 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { DateTime } from 'luxon';
+
+/**
+ * Source of the current time for date calculations: the system prompt's
+ * date info, the relative dates of the tools, overdue tasks and DTSTAMPs.
+ * Replaced to pretend it is another time, e.g. to reproduce a bug report
+ * from a Sunday night or to try a DST switch. Expiry of sessions, pending
+ * actions and reminder delivery keep using the system time.
+ */
+export type Clock = () => Date;
+
+/** Request header that sets the clock of one request */
+export const CLOCK_HEADER = 'X-Clock-Now';
+
+const systemClock: Clock = () => new Date();
+
+let clock: Clock | undefined;
+
+/** Clock of the request being handled, set by runWithClock */
+const requestClock = new AsyncLocalStorage<Clock>();
+
+/**
+ * Parse a clock override: an ISO time with an offset
+ * ("2026-03-29T02:30+02:00", "2026-03-29T00:30Z"), or a local time and an
+ * IANA timezone separated by a space ("2026-03-29T02:30 Europe/Helsinki").
+ * @throws Error if the time or the timezone is invalid
+ */
+export const parseClockOverride = (value: string): Date => {
+  const [time, timezone, ...rest] = value.trim().split(/\s+/);
+  const hasOffset = /(Z|[+-]\d{2}(:?\d{2})?)$/i.test(time ?? '');
+  const dt =
+    rest.length === 0 && (timezone || hasOffset)
+      ? DateTime.fromISO(time, timezone ? { zone: timezone } : {})
+      : undefined;
+  if (!dt?.isValid) {
+    throw new Error(
+      `Invalid clock override "${value}". Use an ISO time with an offset, e.g. 2026-03-29T02:30+02:00, or a local time and a timezone, e.g. "2026-03-29T02:30 Europe/Helsinki"${dt?.invalidReason ? ` (${dt.invalidReason})` : ''}`,
+    );
+  }
+  return dt.toJSDate();
+};
+
+/** A clock stopped at a time */
+export const createFixedClock =
+  (now: Date): Clock =>
+  () =>
+    new Date(now);
+
+/** A clock that starts at a time and runs from there */
+export const createOffsetClock = (start: Date): Clock => {
+  const offset = start.getTime() - Date.now();
+  return () => new Date(Date.now() + offset);
+};
+
+/**
+ * The process-wide clock: the system clock, or one starting at CLOCK_NOW
+ * (see parseClockOverride). Read on first use.
+ * @throws Error if CLOCK_NOW is invalid
+ */
+export const getClock = (): Clock => {
+  const clockNow = process.env.CLOCK_NOW?.trim();
+  clock ??= clockNow
+    ? createOffsetClock(parseClockOverride(clockNow))
+    : systemClock;
+  return clock;
+};
+
+/**
+ * Replace the process-wide clock; null reads it from the environment
+ * again on next use.
+ */
+export const setClock = (next: Clock | null) => {
+  clock = next ?? undefined;
+};
+
+/** The current time of the request's clock, or of the process-wide clock */
+export const getNow = (): Date => (requestClock.getStore() ?? getClock())();
+
+/**
+ * Run a function, and everything it starts asynchronously, with a clock,
+ * e.g. for one HTTP request
+ */
+export const runWithClock = <T>(requestScopedClock: Clock, fn: () => T): T =>
+  requestClock.run(requestScopedClock, fn);
+
+/** Whether the current request runs with a clock of its own */
+export const hasRequestClock = () => requestClock.getStore() !== undefined;
+
+/** Whether requests may set their clock with the X-Clock-Now header */
+export const isClockOverrideAllowed = () => {
+  const value = process.env.ALLOW_CLOCK_OVERRIDE?.trim().toLowerCase();
+  return Boolean(value) && value !== '0' && value !== 'false';
+};
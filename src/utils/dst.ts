@@ -0,0 +1,168 @@
+/**
+ * Daylight saving time handling for local (wall-clock) times.
+ * When the clocks go forward, an hour of local times does not exist;
+ * when they go back, an hour of local times occurs twice. Luxon silently
+ * picks an instant for both, so the tools resolve them here instead, by a
+ * configurable policy, and report what they did.
+ */
+import { DateTime } from 'luxon';
+
+/**
+ * What to do with a local time skipped when the clocks go forward:
+ * - shift-forward: move it forward by the length of the gap (03:30 → 04:30)
+ * - reject: fail, so the user is asked for another time
+ */
+export const DST_GAP_POLICIES = ['shift-forward', 'reject'] as const;
+
+/**
+ * Which instant a local time repeated when the clocks go back means:
+ * - earlier: the first one, still on summer time
+ * - later: the second one, on standard time
+ * - reject: fail, so the user is asked for another time
+ */
+export const DST_OVERLAP_POLICIES = ['earlier', 'later', 'reject'] as const;
+
+/**
+ * How event durations are counted across a DST switch:
+ * - elapsed: real time; 4 hours from 01:00 on the spring-forward night end at 06:00
+ * - wall-clock: time on the clock; they end at 05:00, after 3 real hours
+ */
+export const DURATION_MODES = ['elapsed', 'wall-clock'] as const;
+
+export type DstGapPolicy = (typeof DST_GAP_POLICIES)[number];
+export type DstOverlapPolicy = (typeof DST_OVERLAP_POLICIES)[number];
+export type DurationMode = (typeof DURATION_MODES)[number];
+
+export type DstPolicy = {
+  gap: DstGapPolicy;
+  overlap: DstOverlapPolicy;
+  duration: DurationMode;
+};
+
+/** Local date and time fields, without a zone */
+export type LocalTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+/** A local time resolved to an instant, with a warning if DST changed it */
+export type ResolvedLocalTime = {
+  dateTime: DateTime;
+  /** Set when the time does not exist or occurs twice */
+  warning?: string;
+};
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Read a policy from an environment variable
+ * @throws Error on an unknown value
+ */
+const readPolicy = <T extends string>(
+  name: string,
+  values: readonly T[],
+  fallback: T,
+): T => {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  if (!(values as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unknown ${name} "${value}". Use one of: ${values.join(', ')}`,
+    );
+  }
+  return value as T;
+};
+
+let dstPolicy: DstPolicy | undefined;
+
+/**
+ * The DST policy, by default from DST_GAP_POLICY (default shift-forward),
+ * DST_OVERLAP_POLICY (default earlier) and DURATION_MODE (default
+ * elapsed). Read on first use.
+ * @throws Error if an environment variable is invalid
+ */
+export const getDstPolicy = (): DstPolicy => {
+  dstPolicy ??= {
+    gap: readPolicy('DST_GAP_POLICY', DST_GAP_POLICIES, 'shift-forward'),
+    overlap: readPolicy('DST_OVERLAP_POLICY', DST_OVERLAP_POLICIES, 'earlier'),
+    duration: readPolicy('DURATION_MODE', DURATION_MODES, 'elapsed'),
+  };
+  return dstPolicy;
+};
+
+/**
+ * Replace the DST policy; null reads it from the environment again on
+ * next use.
+ */
+export const setDstPolicy = (policy: DstPolicy | null) => {
+  dstPolicy = policy ?? undefined;
+};
+
+/** e.g. "1 hour" or "30 minutes" */
+const describeOffsetChange = (minutes: number) => {
+  const change = Math.abs(minutes);
+  if (change % 60 !== 0) return `${change} minutes`;
+  return change === 60 ? '1 hour' : `${change / 60} hours`;
+};
+
+/**
+ * Resolve a local time in a timezone to an instant, applying the DST
+ * policy to times that do not exist or occur twice.
+ * @param timezone - IANA timezone
+ * @param local - Local date and time
+ * @throws Error if the policy rejects the time, or the timezone is invalid
+ */
+export const resolveLocalTime = (
+  timezone: string,
+  local: LocalTime,
+  policy: Pick<DstPolicy, 'gap' | 'overlap'> = getDstPolicy(),
+): ResolvedLocalTime => {
+  const zoned = DateTime.fromObject(local, { zone: timezone });
+  if (!zoned.isValid) {
+    throw new Error(
+      `Invalid local time in ${timezone}: ${zoned.invalidReason ?? 'unknown reason'}`,
+    );
+  }
+  const { zone } = zoned;
+  // The local time read as UTC; subtracting an offset gives an instant
+  const wall = DateTime.fromObject(local, { zone: 'utc' });
+  const wallMs = wall.toMillis();
+  const offsetBefore = zone.offset(wallMs - DAY_MS);
+  const offsetAfter = zone.offset(wallMs + DAY_MS);
+  const instants = [...new Set([offsetBefore, offsetAfter])]
+    .map((offset) => wallMs - offset * 60_000)
+    .filter((ms) => zone.offset(ms) * 60_000 === wallMs - ms)
+    .sort((a, b) => a - b);
+
+  const at = (ms: number) => DateTime.fromMillis(ms, { zone });
+  if (instants.length === 1) return { dateTime: at(instants[0]) };
+
+  const label = `${wall.toFormat('HH:mm')} on ${wall.toFormat('yyyy-MM-dd')} in ${timezone}`;
+  const change = describeOffsetChange(offsetAfter - offsetBefore);
+
+  if (instants.length === 0) {
+    const reason = `${label} does not exist: the clocks go forward by ${change}`;
+    if (policy.gap === 'reject') {
+      throw new Error(`${reason}. Ask the user for another time.`);
+    }
+    // With the offset before the switch, the time lands after the gap
+    const dateTime = at(wallMs - offsetBefore * 60_000);
+    return {
+      dateTime,
+      warning: `${reason}, so ${dateTime.toFormat('HH:mm')} is used instead.`,
+    };
+  }
+
+  const reason = `${label} occurs twice: the clocks go back by ${change}`;
+  if (policy.overlap === 'reject') {
+    throw new Error(`${reason}. Ask the user for another time.`);
+  }
+  const dateTime = at(policy.overlap === 'earlier' ? instants[0] : instants[1]);
+  return {
+    dateTime,
+    warning: `${reason}, so the ${policy.overlap === 'earlier' ? 'first' : 'second'} one (UTC${dateTime.toFormat('ZZ')}) is used.`,
+  };
+};
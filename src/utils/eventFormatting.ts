@@ -1,33 +1,100 @@
 import { DateTime } from 'luxon';
-import type { CalendarEvent } from '@/utils/calendar-events';
+import {
+  isOverdueTask,
+  type CalendarEvent,
+  type CalendarTask,
+} from '@/utils/calendar-events';
 import { DEFAULT_TIMEZONE } from '@/utils/weekday';
+import { getNow } from '@/utils/clock';
+import { describeRecurrence } from '@/utils/recurrence';
 
 /** Default locale for date/time formatting */
 export const DEFAULT_LOCALE = 'fi-FI';
 
 /**
  * Format a Date object as a readable string with weekday.
- * Output: "YYYY-MM-DD (Weekday) HH:mm" or "YYYY-MM-DD (Weekday)" for midnight.
+ * Output: "YYYY-MM-DD (Weekday) HH:mm", or "YYYY-MM-DD (Weekday)" for all-day dates.
  *
  * @param date - Date to format
  * @param timezone - IANA timezone for display. Defaults to DEFAULT_TIMEZONE.
+ * @param allDay - Omit the time (date of an all-day event)
  */
 const formatDate = (
   date: Date | null,
   timezone: string = DEFAULT_TIMEZONE,
+  allDay: boolean = false,
 ): string | null => {
   if (!date) return null;
 
   const dt = DateTime.fromJSDate(date).setZone(timezone);
-  const isMidnight = dt.hour === 0 && dt.minute === 0;
+  return dt.toFormat(allDay ? 'yyyy-MM-dd (cccc)' : 'yyyy-MM-dd (cccc) HH:mm');
+};
 
-  if (isMidnight) {
-    return dt.toFormat('yyyy-MM-dd (cccc)');
-  }
+/**
+ * Format the days of an all-day event. The stored end is exclusive,
+ * so the last day shown is the day before it.
+ */
+const formatAllDayRange = (
+  event: CalendarEvent,
+  timezone: string,
+): string | null => {
+  const startStr = formatDate(event.start, timezone, true);
+  if (!startStr || !event.end) return startStr;
+
+  const lastDay = DateTime.fromJSDate(event.end)
+    .setZone(timezone)
+    .minus({ days: 1 })
+    .toJSDate();
+  const lastStr = formatDate(
+    event.start && lastDay > event.start ? lastDay : event.start,
+    timezone,
+    true,
+  );
+  return startStr === lastStr ? startStr : `${startStr} to ${lastStr}`;
+};
+
+/**
+ * Format the attendees of a meeting with their participation status,
+ * e.g. " [attendees: Anna <anna@example.com> (accepted)]"
+ */
+const formatAttendees = (event: CalendarEvent): string => {
+  if (event.attendees.length === 0) return '';
+  const attendees = event.attendees.map((attendee) => {
+    const address = attendee.name
+      ? `${attendee.name} <${attendee.email}>`
+      : attendee.email;
+    return `${address} (${(attendee.partstat ?? 'NEEDS-ACTION').toLowerCase()})`;
+  });
+  return ` [attendees: ${attendees.join(', ')}]`;
+};
 
-  return dt.toFormat('yyyy-MM-dd (cccc) HH:mm');
+/**
+ * Format a time before an event in words,
+ * e.g. "15 minutes", "1 hour 30 minutes" or "2 days".
+ * @param minutes - Whole minutes
+ */
+const formatLeadTime = (minutes: number): string => {
+  const plural = (count: number, unit: string) =>
+    `${count} ${unit}${count === 1 ? '' : 's'}`;
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const rest = minutes % 60;
+  const parts = [
+    ...(days ? [plural(days, 'day')] : []),
+    ...(hours ? [plural(hours, 'hour')] : []),
+    ...(rest || minutes === 0 ? [plural(rest, 'minute')] : []),
+  ];
+  return parts.join(' ');
 };
 
+/**
+ * Format the reminders of an event, e.g. " [reminders: 15 minutes, 1 day before]"
+ */
+const formatReminders = (event: CalendarEvent): string =>
+  event.reminders.length === 0
+    ? ''
+    : ` [reminders: ${event.reminders.map(formatLeadTime).join(', ')} before]`;
+
 /**
  * Format a single event as a display string.
  *
@@ -38,6 +105,20 @@ const formatEvent = (
   event: CalendarEvent,
   timezone: string = DEFAULT_TIMEZONE,
 ): string => {
+  const location = event.location ? ` at ${event.location}` : '';
+  const repeats = event.recurrence
+    ? ` (repeats ${describeRecurrence(event.recurrence, timezone)})`
+    : '';
+  const free = event.transparent ? ' (free)' : '';
+  const calendar = event.calendar ? ` [calendar: ${event.calendar}]` : '';
+  const attendees = formatAttendees(event);
+  const reminders = formatReminders(event);
+
+  if (event.allDay) {
+    const days = formatAllDayRange(event, timezone) ?? 'No time';
+    return `- ${event.title}: ${days} (all day)${location}${repeats}${free}${calendar}${attendees}${reminders}`;
+  }
+
   const startStr = formatDate(event.start, timezone);
   const endStr = formatDate(event.end, timezone);
 
@@ -52,9 +133,7 @@ const formatEvent = (
     timeRange = 'No time';
   }
 
-  const location = event.location ? ` at ${event.location}` : '';
-
-  return `- ${event.title}: ${timeRange}${location}`;
+  return `- ${event.title}: ${timeRange}${location}${repeats}${free}${calendar}${attendees}${reminders}`;
 };
 
 /**
@@ -74,6 +153,50 @@ const formatEventList = (
   return events.map((e) => formatEvent(e, timezone)).join('\n');
 };
 
+/** Priority of a task in words: 1-4 high, 5 medium, 6-9 low */
+const describePriority = (priority: number): string =>
+  priority < 5 ? 'high' : priority === 5 ? 'medium' : 'low';
+
+/**
+ * Format a task as a display string,
+ * e.g. "- Submit report: due 2025-01-03 (Friday) (high priority) [overdue] [list: Tasks]"
+ *
+ * @param task - Task to format
+ * @param timezone - IANA timezone for display. Defaults to DEFAULT_TIMEZONE.
+ * @param now - Reference time for overdue tasks
+ */
+const formatTask = (
+  task: CalendarTask,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = getNow(),
+): string => {
+  const due = task.due
+    ? `: due ${formatDate(task.due, timezone, task.dueAllDay)}`
+    : '';
+  const priority = task.priority
+    ? ` (${describePriority(task.priority)} priority)`
+    : '';
+  const status =
+    task.status === 'NEEDS-ACTION' ? '' : ` (${task.status.toLowerCase()})`;
+  const overdue = isOverdueTask(task, now, timezone) ? ' [overdue]' : '';
+  const list = task.calendar ? ` [list: ${task.calendar}]` : '';
+  return `- ${task.title}${due}${priority}${status}${overdue}${list}`;
+};
+
+/**
+ * Format a list of tasks as a display string.
+ * Returns emptyMessage if no tasks.
+ */
+const formatTaskList = (
+  tasks: CalendarTask[],
+  emptyMessage: string = '',
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = getNow(),
+): string => {
+  if (tasks.length === 0) return emptyMessage;
+  return tasks.map((task) => formatTask(task, timezone, now)).join('\n');
+};
+
 /**
  * Format a Date as a localized datetime string.
  * Used for user-facing messages in MCP tool responses.
@@ -121,4 +244,13 @@ const formatTime = (
   return DateTime.fromJSDate(date).setZone(timezone).toFormat('HH:mm');
 };
 
-export { formatEvent, formatEventList, formatDateTime, formatTime, formatDate };
+export {
+  formatEvent,
+  formatEventList,
+  formatDateTime,
+  formatTime,
+  formatDate,
+  formatLeadTime,
+  formatTask,
+  formatTaskList,
+};
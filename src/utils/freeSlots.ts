@@ -0,0 +1,142 @@
+/**
+ * Free time calculation for availability questions ("when am I free next week?").
+ * Works on already fetched events, so callers query the calendar only once.
+ *
+ * Days are walked in the wall-clock zone, so working hours stay e.g. 08:00-17:00
+ * local time across DST changes.
+ */
+
+import { DateTime } from 'luxon';
+import { isBusyEvent, type CalendarEvent } from '@/utils/calendar-events';
+
+export type FreeSlot = {
+  start: Date;
+  end: Date;
+  /** Length of the free interval in minutes */
+  durationMinutes: number;
+};
+
+export type FreeSlotOptions = {
+  /** First day of the search, any time on that day (wall-clock zone) */
+  rangeStart: DateTime;
+  /** Last day of the search (inclusive) */
+  rangeEnd: DateTime;
+  /** Minimum length of a free interval */
+  durationMinutes: number;
+  /** Start of working hours, "HH:mm" */
+  workdayStart: string;
+  /** End of working hours, "HH:mm" */
+  workdayEnd: string;
+  /** Free time kept before and after each busy event */
+  bufferMinutes?: number;
+  /** Include Saturdays and Sundays */
+  includeWeekends?: boolean;
+  /** Time before which nothing is free (usually the current time) */
+  notBefore?: Date;
+};
+
+type Interval = { start: number; end: number };
+
+/** Set the "HH:mm" time on a day, in the day's zone */
+const atTime = (day: DateTime, time: string): DateTime => {
+  const [hour, minute] = time.split(':').map(Number);
+  return day.set({ hour, minute, second: 0, millisecond: 0 });
+};
+
+/** Merge overlapping or touching intervals, sorted by start */
+const mergeIntervals = (intervals: Interval[]): Interval[] =>
+  [...intervals]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Interval[]>((merged, interval) => {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+      return merged;
+    }, []);
+
+/**
+ * Find free intervals within working hours that are at least durationMinutes long.
+ * Transparent and cancelled events do not block time (see isBusyEvent).
+ *
+ * Slots are ranked soonest first; slots starting at the same time
+ * are ordered longest first.
+ *
+ * @param events - Events overlapping the search range
+ * @param options - Search range, duration, working hours and buffer
+ * @throws Error if the working hours or the range are empty
+ */
+export const findFreeSlots = (
+  events: CalendarEvent[],
+  options: FreeSlotOptions,
+): FreeSlot[] => {
+  const {
+    rangeStart,
+    rangeEnd,
+    durationMinutes,
+    workdayStart,
+    workdayEnd,
+    bufferMinutes = 0,
+    includeWeekends = false,
+    notBefore,
+  } = options;
+
+  if (workdayEnd <= workdayStart) {
+    throw new Error(
+      `Working hours end (${workdayEnd}) must be after their start (${workdayStart}).`,
+    );
+  }
+  if (rangeEnd.startOf('day') < rangeStart.startOf('day')) {
+    throw new Error('The last day of the search is before the first day.');
+  }
+
+  const bufferMs = bufferMinutes * 60_000;
+  const durationMs = durationMinutes * 60_000;
+  const busy = mergeIntervals(
+    events
+      .filter(isBusyEvent)
+      .filter((event) => event.start && event.end)
+      .map((event) => ({
+        start: event.start!.getTime() - bufferMs,
+        end: event.end!.getTime() + bufferMs,
+      })),
+  );
+
+  const slots: FreeSlot[] = [];
+  const lastDay = rangeEnd.startOf('day');
+  for (
+    let day = rangeStart.startOf('day');
+    day <= lastDay;
+    day = day.plus({ days: 1 })
+  ) {
+    if (!includeWeekends && day.weekday > 5) continue;
+
+    let cursor = Math.max(
+      atTime(day, workdayStart).toMillis(),
+      notBefore?.getTime() ?? -Infinity,
+    );
+    const dayEnd = atTime(day, workdayEnd).toMillis();
+
+    for (const interval of [...busy, { start: dayEnd, end: dayEnd }]) {
+      if (interval.end <= cursor) continue;
+      const gapEnd = Math.min(interval.start, dayEnd);
+      if (gapEnd - cursor >= durationMs) {
+        slots.push({
+          start: new Date(cursor),
+          end: new Date(gapEnd),
+          durationMinutes: Math.round((gapEnd - cursor) / 60_000),
+        });
+      }
+      cursor = Math.max(cursor, interval.end);
+      if (cursor >= dayEnd) break;
+    }
+  }
+
+  return slots.sort(
+    (a, b) =>
+      a.start.getTime() - b.start.getTime() ||
+      b.durationMinutes - a.durationMinutes,
+  );
+};
@@ -1,4 +1,80 @@
 import { DateTime } from 'luxon';
+import { formatRRule, type RecurrenceRule } from '@/utils/recurrence';
+import {
+  escapeText,
+  findComponents,
+  getParam,
+  getProperties,
+  getText,
+  parseICalendar,
+  serializeICalendar,
+  serializeProperty,
+  type ICalComponent,
+  type ICalParameters,
+  type ICalProperty,
+} from '@/utils/ical-parser';
+import { buildTimezoneComponent } from '@/utils/vtimezone';
+import { DEFAULT_TIMEZONE } from '@/utils/weekday';
+import { getNow } from '@/utils/clock';
+
+/** ROLE values of an attendee (RFC 5545 3.2.16) */
+export const ATTENDEE_ROLES = [
+  'CHAIR',
+  'REQ-PARTICIPANT',
+  'OPT-PARTICIPANT',
+  'NON-PARTICIPANT',
+] as const;
+
+/** PARTSTAT values of an attendee of an event (RFC 5545 3.2.12) */
+export const PARTICIPATION_STATUSES = [
+  'NEEDS-ACTION',
+  'ACCEPTED',
+  'DECLINED',
+  'TENTATIVE',
+  'DELEGATED',
+] as const;
+
+export type AttendeeRole = (typeof ATTENDEE_ROLES)[number];
+
+export type ParticipationStatus = (typeof PARTICIPATION_STATUSES)[number];
+
+/** ORGANIZER of a scheduled event */
+export type Organizer = {
+  email: string;
+  /** Display name (CN) */
+  name?: string;
+  /** Other parameters (SENT-BY, DIR...), kept when rewriting a parsed event */
+  params?: ICalParameters;
+};
+
+/** ATTENDEE of a scheduled event */
+export type Attendee = Organizer & {
+  /** Defaults to REQ-PARTICIPANT */
+  role?: AttendeeRole;
+  /** Defaults to NEEDS-ACTION */
+  partstat?: ParticipationStatus;
+  /** Whether a reply is expected */
+  rsvp?: boolean;
+};
+
+/** STATUS values of a task (RFC 5545 3.8.1.11) */
+export const TASK_STATUSES = [
+  'NEEDS-ACTION',
+  'IN-PROCESS',
+  'COMPLETED',
+  'CANCELLED',
+] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+/**
+ * Date properties as stored (with their TZID and value text), keyed by the
+ * content line generated for the same dates. See withStoredDates.
+ */
+export type StoredDates = Record<string, ICalProperty[]>;
+
+/** iTIP methods (RFC 5546) sent by the organizer */
+export type ITipMethod = 'REQUEST' | 'CANCEL';
 
 export type ICalInput = {
   title: string;
@@ -8,15 +84,132 @@ export type ICalInput = {
   location?: string;
   uid?: string;
   domain?: string;
+  /**
+   * IANA timezone for DTSTART/DTEND. When set, times are written as local
+   * time with TZID so recurrences keep their wall-clock time across DST.
+   * Otherwise times are written in UTC.
+   */
+  timezone?: string;
+  /**
+   * Floating times (no TZID or UTC): local times in timezone, meant to be
+   * the same wall-clock time wherever the reader is
+   */
+  floating?: boolean;
+  /**
+   * Whole-day event: dates are written as VALUE=DATE in the event's timezone
+   * (DEFAULT_TIMEZONE if unset). end is exclusive, i.e. midnight after the last day.
+   */
+  allDay?: boolean;
+  /** Does not block time in free/busy checks (TRANSP:TRANSPARENT) */
+  transparent?: boolean;
+  /** Recurrence rule, makes this component a series master */
+  recurrence?: RecurrenceRule;
+  /** Excluded occurrence starts of a series (EXDATE) */
+  exdates?: Date[];
+  /** Original start of the occurrence this component overrides (RECURRENCE-ID) */
+  recurrenceId?: Date;
+  /** Organizer of a scheduled event (one with attendees) */
+  organizer?: Organizer;
+  attendees?: Attendee[];
+  /** Revision of a scheduled event (SEQUENCE), increased with each change sent to attendees */
+  sequence?: number;
+  /** Minutes before the start to alert the user, written as VALARM components */
+  reminders?: number[];
+  /** Date properties of a parsed event, written as stored while unchanged */
+  storedDates?: StoredDates;
+  /**
+   * Other properties of the event (ATTENDEE, STATUS, CATEGORIES, X-...),
+   * written verbatim so rewriting a parsed event does not lose them.
+   */
+  properties?: ICalProperty[];
+  /** Sub-components of the event, e.g. VALARM */
+  components?: ICalComponent[];
+};
+
+/** A task (VTODO) */
+export type ICalTaskInput = {
+  title: string;
+  uid?: string;
+  domain?: string;
+  description?: string;
+  /** When the task is due; the due day only when dueAllDay */
+  due?: Date;
+  /** Due on a day without a time: written as DUE;VALUE=DATE in the timezone */
+  dueAllDay?: boolean;
+  /** IANA timezone for DUE, see ICalInput.timezone. Otherwise UTC */
+  timezone?: string;
+  /** Floating due time, see ICalInput.floating */
+  floating?: boolean;
+  /** 1 (highest) to 9 (lowest); 0 or undefined for none */
+  priority?: number;
+  /** Defaults to NEEDS-ACTION */
+  status?: TaskStatus;
+  /** When the task was completed (COMPLETED) */
+  completed?: Date;
+  /** Progress 0-100 (PERCENT-COMPLETE) */
+  percentComplete?: number;
+  /** DUE of a parsed task, written as stored while unchanged */
+  storedDates?: StoredDates;
+  /** Other properties of the task (CATEGORIES, RRULE, X-...), written verbatim */
+  properties?: ICalProperty[];
+  /** Sub-components of the task, e.g. VALARM */
+  components?: ICalComponent[];
 };
 
 /**
- * Escape special characters for iCal (RFC 5545) text values.
- * - Backslash, comma, semicolon are escaped with backslash
- * - Newlines are converted to literal \n
+ * Calendar-level content kept when rewriting a calendar object:
+ * properties like X-WR-CALNAME and components like VTIMEZONE.
  */
-const escapeText = (str: string): string =>
-  str.replace(/[\\,;]/g, (match) => `\\${match}`).replace(/\n/g, '\\n');
+export type ICalCalendarExtras = {
+  properties?: ICalProperty[];
+  components?: ICalComponent[];
+};
+
+/** VEVENT properties generated from ICalInput fields */
+export const MANAGED_EVENT_PROPERTIES = [
+  'UID',
+  'DTSTAMP',
+  'DTSTART',
+  'DTEND',
+  'DURATION',
+  'SUMMARY',
+  'DESCRIPTION',
+  'LOCATION',
+  'RRULE',
+  'EXDATE',
+  'RECURRENCE-ID',
+  'TRANSP',
+  'ORGANIZER',
+  'ATTENDEE',
+  'SEQUENCE',
+];
+
+/** VTODO properties generated from ICalTaskInput fields */
+export const MANAGED_TASK_PROPERTIES = [
+  'UID',
+  'DTSTAMP',
+  'DUE',
+  'SUMMARY',
+  'DESCRIPTION',
+  'PRIORITY',
+  'STATUS',
+  'COMPLETED',
+  'PERCENT-COMPLETE',
+];
+
+/** Product identifier of the documents generated here */
+const PRODID = '-//Standardized ICal Lib//EN';
+
+/**
+ * VCALENDAR properties written by generateICal. METHOD is only written in
+ * iTIP messages; stored calendar objects must not have one.
+ */
+export const MANAGED_CALENDAR_PROPERTIES = [
+  'VERSION',
+  'PRODID',
+  'CALSCALE',
+  'METHOD',
+];
 
 /**
  * Format a Date as iCal UTC timestamp (YYYYMMDDTHHMMSSZ).
@@ -24,45 +217,417 @@ const escapeText = (str: string): string =>
 const toCalDavUTC = (date: Date): string =>
   DateTime.fromJSDate(date).toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
 
-const generateICal = (input: ICalInput): string => {
+const property = (
+  name: string,
+  value: string,
+  params: ICalProperty['params'] = {},
+): ICalProperty => ({ name, params, value });
+
+/**
+ * Build an ORGANIZER or ATTENDEE property with a mailto: address,
+ * e.g. "ATTENDEE;CN=Anna;PARTSTAT=NEEDS-ACTION:mailto:anna@example.com"
+ */
+const calAddressProperty = (
+  name: string,
+  { email, name: commonName, params }: Organizer,
+  roleParams: ICalParameters = {},
+): ICalProperty =>
+  property(name, `mailto:${email}`, {
+    ...params,
+    ...(commonName ? { CN: [commonName] } : {}),
+    ...roleParams,
+  });
+
+/** ATTENDEE property with its role, participation status and RSVP */
+const attendeeProperty = (attendee: Attendee): ICalProperty =>
+  calAddressProperty('ATTENDEE', attendee, {
+    ROLE: [attendee.role ?? 'REQ-PARTICIPANT'],
+    PARTSTAT: [attendee.partstat ?? 'NEEDS-ACTION'],
+    ...(attendee.rsvp === undefined
+      ? {}
+      : { RSVP: [attendee.rsvp ? 'TRUE' : 'FALSE'] }),
+  });
+
+/**
+ * Build a date-time property, with TZID when a timezone is given.
+ * e.g. "DTSTART;TZID=Europe/Helsinki:20250101T100000" or "DTSTART:20250101T080000Z"
+ * All-day dates are written as "DTSTART;VALUE=DATE:20250101", floating
+ * times as "DTSTART:20250101T100000".
+ */
+const dateProperty = (
+  name: string,
+  dates: Date[],
+  timezone?: string,
+  allDay = false,
+  floating = false,
+): ICalProperty => {
+  if (allDay) {
+    const values = dates.map((date) =>
+      DateTime.fromJSDate(date)
+        .setZone(timezone ?? DEFAULT_TIMEZONE)
+        .toFormat('yyyyMMdd'),
+    );
+    return property(name, values.join(','), { VALUE: ['DATE'] });
+  }
+  if (!timezone || timezone.toUpperCase() === 'UTC') {
+    return property(name, dates.map(toCalDavUTC).join(','));
+  }
+  const values = dates.map((date) =>
+    DateTime.fromJSDate(date).setZone(timezone).toFormat("yyyyMMdd'T'HHmmss"),
+  );
+  return property(name, values.join(','), floating ? {} : { TZID: [timezone] });
+};
+
+/** The date properties generated for an event, in the order they are written */
+const eventDateProperties = ({
+  start,
+  end,
+  timezone,
+  allDay,
+  floating,
+  recurrenceId,
+  exdates,
+}: ICalInput): ICalProperty[] => [
+  dateProperty('DTSTART', [start], timezone, allDay, floating),
+  dateProperty('DTEND', [end], timezone, allDay, floating),
+  ...(recurrenceId
+    ? [
+        dateProperty(
+          'RECURRENCE-ID',
+          [recurrenceId],
+          timezone,
+          allDay,
+          floating,
+        ),
+      ]
+    : []),
+  ...(exdates?.length
+    ? [dateProperty('EXDATE', exdates, timezone, allDay, floating)]
+    : []),
+];
+
+/** The DUE property generated for a task */
+const taskDateProperties = ({
+  due,
+  timezone,
+  dueAllDay,
+  floating,
+}: ICalTaskInput): ICalProperty[] =>
+  due ? [dateProperty('DUE', [due], timezone, dueAllDay, floating)] : [];
+
+/** Map the generated date properties to the stored ones they stand for */
+const mapStoredDates = (
+  generated: ICalProperty[],
+  component: ICalComponent,
+): StoredDates =>
+  Object.fromEntries(
+    generated
+      .map((p) => [serializeProperty(p), getProperties(component, p.name)])
+      .filter(([, stored]) => stored.length > 0),
+  );
+
+/** A generated date property, or the stored ones it stands for */
+const storedOr = (
+  storedDates: StoredDates | undefined,
+  generated: ICalProperty,
+): ICalProperty[] => storedDates?.[serializeProperty(generated)] ?? [generated];
+
+/**
+ * Remember the date properties of a parsed event, so they are written as
+ * stored (keeping e.g. a Windows TZID or a floating time) as long as the
+ * event's dates, timezone and all-day flag are unchanged
+ * @param input - The event as parsed from component
+ * @param component - The stored VEVENT
+ */
+const withStoredDates = (
+  input: ICalInput,
+  component: ICalComponent,
+): ICalInput => ({
+  ...input,
+  storedDates: mapStoredDates(eventDateProperties(input), component),
+});
+
+/** Remember the DUE of a parsed task, see withStoredDates */
+const withStoredTaskDates = (
+  input: ICalTaskInput,
+  component: ICalComponent,
+): ICalTaskInput => ({
+  ...input,
+  storedDates: mapStoredDates(taskDateProperties(input), component),
+});
+
+/**
+ * TRIGGER of an alarm the given minutes before the start,
+ * e.g. "-PT15M", "-PT2H" or "-P1D".
+ */
+const formatTrigger = (minutesBefore: number): string => {
+  if (minutesBefore === 0) return 'PT0M';
+  if (minutesBefore % (24 * 60) === 0) return `-P${minutesBefore / (24 * 60)}D`;
+  if (minutesBefore % 60 === 0) return `-PT${minutesBefore / 60}H`;
+  return `-PT${minutesBefore}M`;
+};
+
+/** Display alarm (VALARM) the given minutes before the start of an event */
+const alarmComponent = (
+  minutesBefore: number,
+  title: string,
+): ICalComponent => ({
+  name: 'VALARM',
+  properties: [
+    property('ACTION', 'DISPLAY'),
+    property('DESCRIPTION', escapeText(title)),
+    property('TRIGGER', formatTrigger(minutesBefore)),
+  ],
+  components: [],
+});
+
+/**
+ * Generate a globally unique event UID (RFC 5545 recommends "id@domain").
+ */
+const generateUid = (domain: string = 'mcp-server'): string =>
+  `${crypto.randomUUID()}@${domain}`;
+
+/**
+ * Build the VEVENT component of a single event.
+ * Overrides of a series share the master's UID.
+ */
+const buildEventComponent = (
+  input: ICalInput,
+  uid: string,
+  now: string,
+): ICalComponent => {
   const {
     title,
-    start,
-    end,
     description,
     location,
-    uid,
-    domain = 'mcp-server',
+    transparent,
+    recurrence,
+    organizer,
+    attendees,
+    sequence,
+    reminders,
   } = input;
 
-  const finalUid = uid || `${crypto.randomUUID()}@${domain}`;
-  const now = toCalDavUTC(new Date());
-
-  const lines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//Standardized ICal Lib//EN',
-    'CALSCALE:GREGORIAN',
-    'BEGIN:VEVENT',
-    `UID:${finalUid}`,
-    `DTSTAMP:${now}`,
-    `DTSTART:${toCalDavUTC(start)}`,
-    `DTEND:${toCalDavUTC(end)}`,
-    `SUMMARY:${escapeText(title)}`,
+  const properties = [
+    property('UID', uid),
+    property('DTSTAMP', now),
+    ...eventDateProperties(input).flatMap((p) =>
+      storedOr(input.storedDates, p),
+    ),
+    property('SUMMARY', escapeText(title)),
   ];
 
+  if (recurrence) {
+    properties.push(property('RRULE', formatRRule(recurrence)));
+  }
+  if (transparent) {
+    properties.push(property('TRANSP', 'TRANSPARENT'));
+  }
   if (description) {
-    lines.push(`DESCRIPTION:${escapeText(description)}`);
+    properties.push(property('DESCRIPTION', escapeText(description)));
   }
   if (location) {
-    lines.push(`LOCATION:${escapeText(location)}`);
+    properties.push(property('LOCATION', escapeText(location)));
+  }
+  if (sequence) {
+    properties.push(property('SEQUENCE', String(sequence)));
   }
+  if (organizer) {
+    properties.push(calAddressProperty('ORGANIZER', organizer));
+  }
+  properties.push(...(attendees ?? []).map(attendeeProperty));
+
+  return {
+    name: 'VEVENT',
+    properties: [...properties, ...(input.properties ?? [])],
+    components: [
+      ...(reminders ?? []).map((minutes) => alarmComponent(minutes, title)),
+      ...(input.components ?? []),
+    ],
+  };
+};
+
+/** TZIDs referenced by the properties of components, at any depth */
+const collectTzids = (components: ICalComponent[]): string[] =>
+  components.flatMap((component) => [
+    ...component.properties
+      .map((p) => getParam(p, 'TZID'))
+      .filter((tzid): tzid is string => tzid !== undefined),
+    ...collectTzids(component.components),
+  ]);
+
+/**
+ * VTIMEZONEs for the TZIDs of components that the kept calendar content
+ * does not define (RFC 5545 3.2.19). Built from the IANA zone's current rules.
+ */
+const missingTimezones = (
+  components: ICalComponent[],
+  kept: ICalComponent[],
+): ICalComponent[] => {
+  const defined = new Set(
+    kept.filter((c) => c.name === 'VTIMEZONE').map((c) => getText(c, 'TZID')),
+  );
+  const year = DateTime.fromJSDate(getNow()).year;
+  return [...new Set(collectTzids(components))]
+    .filter((tzid) => !defined.has(tzid))
+    .map((tzid) => buildTimezoneComponent(tzid, year))
+    .filter((c): c is ICalComponent => c !== null);
+};
+
+/**
+ * Wrap components in a VCALENDAR and serialize it. Every TZID written gets
+ * a VTIMEZONE.
+ * @param components - VEVENT or VTODO components
+ * @param extras - Calendar-level properties and components to keep
+ * @param method - iTIP method, only for messages sent to attendees
+ */
+const serializeCalendar = (
+  components: ICalComponent[],
+  extras: ICalCalendarExtras,
+  method?: ITipMethod,
+): string => {
+  const kept = extras.components ?? [];
+  // Serializer joins with CRLF and folds long lines as required by RFC 5545
+  return serializeICalendar({
+    name: 'VCALENDAR',
+    properties: [
+      property('VERSION', '2.0'),
+      property('PRODID', PRODID),
+      property('CALSCALE', 'GREGORIAN'),
+      ...(method ? [property('METHOD', method)] : []),
+      ...(extras.properties ?? []),
+    ],
+    components: [...missingTimezones(components, kept), ...kept, ...components],
+  });
+};
+
+/**
+ * Generate an iCalendar object.
+ * Pass an array to store a recurring series master together with its
+ * overridden occurrences; all components share the first one's UID.
+ *
+ * @param input - Event, or series master followed by its overrides
+ * @param extras - Calendar-level properties and components to keep (e.g. VTIMEZONE)
+ * @param method - iTIP method, only for messages sent to attendees
+ */
+const generateICal = (
+  input: ICalInput | ICalInput[],
+  extras: ICalCalendarExtras = {},
+  method?: ITipMethod,
+): string => {
+  const events = Array.isArray(input) ? input : [input];
+  const [first] = events;
+  const { uid, domain = 'mcp-server' } = first;
 
-  lines.push('END:VEVENT');
-  lines.push('END:VCALENDAR');
+  const finalUid = uid || generateUid(domain);
+  const now = toCalDavUTC(getNow());
 
-  // Join with CRLF as required by RFC 5545
-  return lines.join('\r\n');
+  return serializeCalendar(
+    events.map((event) => buildEventComponent(event, finalUid, now)),
+    extras,
+    method,
+  );
 };
 
-export { generateICal };
+/**
+ * Build the VTODO component of a task.
+ */
+const buildTaskComponent = (
+  input: ICalTaskInput,
+  uid: string,
+  now: string,
+): ICalComponent => {
+  const { title, description, priority, status, completed, percentComplete } =
+    input;
+
+  const properties = [
+    property('UID', uid),
+    property('DTSTAMP', now),
+    property('SUMMARY', escapeText(title)),
+    property('STATUS', status ?? 'NEEDS-ACTION'),
+  ];
+  properties.push(
+    ...taskDateProperties(input).flatMap((p) => storedOr(input.storedDates, p)),
+  );
+  if (description) {
+    properties.push(property('DESCRIPTION', escapeText(description)));
+  }
+  if (priority) {
+    properties.push(property('PRIORITY', String(priority)));
+  }
+  if (completed) {
+    properties.push(property('COMPLETED', toCalDavUTC(completed)));
+  }
+  if (percentComplete !== undefined) {
+    properties.push(property('PERCENT-COMPLETE', String(percentComplete)));
+  }
+
+  return {
+    name: 'VTODO',
+    properties: [...properties, ...(input.properties ?? [])],
+    components: input.components ?? [],
+  };
+};
+
+/**
+ * Generate an iCalendar object holding a task (VTODO).
+ * Pass an array to keep the overridden instances of a recurring task;
+ * all components share the first one's UID.
+ *
+ * @param input - Task, or a recurring task followed by its overrides
+ * @param extras - Calendar-level properties and components to keep (e.g. VTIMEZONE)
+ */
+const generateTaskICal = (
+  input: ICalTaskInput | ICalTaskInput[],
+  extras: ICalCalendarExtras = {},
+): string => {
+  const tasks = Array.isArray(input) ? input : [input];
+  const uid = tasks[0].uid || generateUid(tasks[0].domain);
+  const now = toCalDavUTC(getNow());
+  return serializeCalendar(
+    tasks.map((task) => buildTaskComponent(task, uid, now)),
+    extras,
+  );
+};
+
+/**
+ * Combine calendar objects into one iCalendar document, e.g. to export the
+ * events of a time range. Each time zone is included once.
+ * @param objects - Raw iCalendar text of each object
+ */
+const mergeICalendars = (objects: string[]): string => {
+  const timezones = new Map<string, ICalComponent>();
+  const components: ICalComponent[] = [];
+
+  for (const calendar of objects.flatMap((ics) =>
+    findComponents(parseICalendar(ics), 'VCALENDAR'),
+  )) {
+    for (const component of calendar.components) {
+      if (component.name !== 'VTIMEZONE') {
+        components.push(component);
+        continue;
+      }
+      const tzid = getText(component, 'TZID') ?? '';
+      if (!timezones.has(tzid)) timezones.set(tzid, component);
+    }
+  }
+
+  return serializeICalendar({
+    name: 'VCALENDAR',
+    properties: [
+      property('VERSION', '2.0'),
+      property('PRODID', PRODID),
+      property('CALSCALE', 'GREGORIAN'),
+    ],
+    components: [...timezones.values(), ...components],
+  });
+};
+
+export {
+  generateICal,
+  generateTaskICal,
+  generateUid,
+  mergeICalendars,
+  withStoredDates,
+  withStoredTaskDates,
+};
@@ -0,0 +1,313 @@
+/**
+ * RFC 5545 content-line parser and serializer.
+ * Turns iCalendar text into a typed component tree
+ * (VCALENDAR → VEVENT/VTODO/VTIMEZONE → VALARM/STANDARD/DAYLIGHT ...)
+ * and back, preserving every property and parameter.
+ *
+ * Property values are kept exactly as written (still escaped), so a
+ * parse → serialize round trip does not change them. Use getText()/getTextList()
+ * to read TEXT values and escapeText() when building new ones.
+ */
+
+/** Parameter name (upper case) → values. Most parameters have a single value */
+export type ICalParameters = Record<string, string[]>;
+
+export type ICalProperty = {
+  /** Property name in upper case, e.g. "DTSTART" or "X-WR-CALNAME" */
+  name: string;
+  params: ICalParameters;
+  /** Raw value as written in the content line (TEXT values still escaped) */
+  value: string;
+};
+
+export type ICalComponent = {
+  /** Component name in upper case, e.g. "VEVENT" */
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+};
+
+/**
+ * Logger interface for parse warnings.
+ * Allows callers to plug in structured logging if needed.
+ */
+export type ICalParserLogger = {
+  warn: (message: string) => void;
+};
+
+const defaultLogger: ICalParserLogger = {
+  warn: (message: string) => console.warn(message),
+};
+
+/** Maximum content line length in octets before folding (RFC 5545 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape special characters for iCal (RFC 5545) text values.
+ * - Backslash, comma, semicolon are escaped with backslash
+ * - Newlines are converted to literal \n
+ */
+export const escapeText = (str: string): string =>
+  str.replace(/[\\,;]/g, (match) => `\\${match}`).replace(/\r?\n/g, '\\n');
+
+/**
+ * Reverse escapeText: "\\," → ",", "\\;" → ";", "\\n"/"\\N" → newline, "\\\\" → "\\".
+ */
+export const unescapeText = (str: string): string =>
+  str.replace(/\\([\\,;nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+
+/** Split a raw multi-valued value on commas that are not escaped */
+const splitUnescaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+/** Decode RFC 6868 caret encoding in parameter values (^n, ^', ^^) */
+const decodeParamValue = (value: string): string =>
+  value.replace(/\^([n'^])/g, (_match, char: string) =>
+    char === 'n' ? '\n' : char === "'" ? '"' : '^',
+  );
+
+/** Encode a parameter value, quoting it when it contains separators */
+const encodeParamValue = (value: string): string => {
+  const encoded = value
+    .replace(/\^/g, '^^')
+    .replace(/\n/g, '^n')
+    .replace(/"/g, "^'");
+  return /[:;,]/.test(encoded) ? `"${encoded}"` : encoded;
+};
+
+/**
+ * Parse a single unfolded content line into a property.
+ * Handles quoted parameter values containing ':' ';' or ','.
+ * @returns null when the line has no ':' separator
+ */
+export const parseContentLine = (line: string): ICalProperty | null => {
+  let i = 0;
+  let name = '';
+  while (i < line.length && line[i] !== ';' && line[i] !== ':') {
+    name += line[i++];
+  }
+
+  const params: ICalParameters = {};
+  while (i < line.length && line[i] === ';') {
+    i++;
+    let paramName = '';
+    while (i < line.length && line[i] !== '=' && line[i] !== ':') {
+      paramName += line[i++];
+    }
+    if (line[i] !== '=') break;
+    i++;
+
+    const values: string[] = [];
+    for (;;) {
+      let value = '';
+      if (line[i] === '"') {
+        i++;
+        while (i < line.length && line[i] !== '"') value += line[i++];
+        i++; // closing quote
+      } else {
+        while (i < line.length && !';:,'.includes(line[i])) value += line[i++];
+      }
+      values.push(decodeParamValue(value));
+      if (line[i] !== ',') break;
+      i++;
+    }
+    params[paramName.toUpperCase()] = values;
+  }
+
+  if (line[i] !== ':' || !name) return null;
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+};
+
+/**
+ * Parse iCalendar text into its top-level components (usually one VCALENDAR).
+ * Folded lines are unfolded first. Malformed lines and unbalanced END lines
+ * are reported through the logger and skipped.
+ *
+ * @param ics - Raw iCalendar text
+ * @param logger - Optional logger for warnings. Defaults to console.warn.
+ */
+export const parseICalendar = (
+  ics: string,
+  logger: ICalParserLogger = defaultLogger,
+): ICalComponent[] => {
+  // Unfold: a line break followed by a single space or tab continues the line
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r\n|\n|\r/);
+
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    const property = parseContentLine(line);
+    if (!property) {
+      logger.warn(`[parseICalendar] Skipping malformed line: "${line}"`);
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = {
+        name: property.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.components.push(component);
+      else roots.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const name = property.value.trim().toUpperCase();
+      if (stack[stack.length - 1]?.name !== name) {
+        logger.warn(`[parseICalendar] Unexpected END:${name}, ignoring.`);
+        continue;
+      }
+      stack.pop();
+    } else {
+      const current = stack[stack.length - 1];
+      if (current) {
+        current.properties.push(property);
+      } else {
+        logger.warn(`[parseICalendar] Property outside component: "${line}"`);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    logger.warn(
+      `[parseICalendar] Unterminated component(s): ${stack.map((c) => c.name).join(', ')}`,
+    );
+  }
+
+  return roots;
+};
+
+/** Fold a content line at 75 octets without splitting UTF-8 characters */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+/** Serialize a property as a (folded) content line */
+export const serializeProperty = (property: ICalProperty): string => {
+  const params = Object.entries(property.params)
+    .map(
+      ([name, values]) => `;${name}=${values.map(encodeParamValue).join(',')}`,
+    )
+    .join('');
+  return foldLine(`${property.name}${params}:${property.value}`);
+};
+
+/**
+ * Serialize a component tree as iCalendar text.
+ * Lines are folded at 75 octets and joined with CRLF as required by RFC 5545.
+ */
+export const serializeICalendar = (component: ICalComponent): string => {
+  const lines = [
+    `BEGIN:${component.name}`,
+    ...component.properties.map(serializeProperty),
+    ...component.components.map(serializeICalendar),
+    `END:${component.name}`,
+  ];
+  return lines.join('\r\n');
+};
+
+// ------------------- Accessors -------------------
+
+/** First property with the given name */
+export const getProperty = (
+  component: ICalComponent,
+  name: string,
+): ICalProperty | undefined =>
+  component.properties.find((p) => p.name === name.toUpperCase());
+
+/** All properties with the given name (e.g. EXDATE, ATTENDEE, CATEGORIES) */
+export const getProperties = (
+  component: ICalComponent,
+  name: string,
+): ICalProperty[] =>
+  component.properties.filter((p) => p.name === name.toUpperCase());
+
+/** First value of a parameter, e.g. getParam(dtstart, 'TZID') */
+export const getParam = (
+  property: ICalProperty | undefined,
+  name: string,
+): string | undefined => property?.params[name.toUpperCase()]?.[0];
+
+/** Unescaped TEXT value of the first property with the given name */
+export const getText = (
+  component: ICalComponent,
+  name: string,
+): string | undefined => {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+};
+
+/**
+ * Unescaped values of a multi-valued TEXT property, across all its occurrences.
+ * e.g. "CATEGORIES:Work,Lab" and "CATEGORIES:Team" → ["Work", "Lab", "Team"]
+ */
+export const getTextList = (component: ICalComponent, name: string): string[] =>
+  getProperties(component, name).flatMap((property) =>
+    splitUnescaped(property.value, ',').map(unescapeText),
+  );
+
+/** Raw comma-separated values of a property, e.g. the dates of one EXDATE */
+export const getValueList = (property: ICalProperty): string[] =>
+  splitUnescaped(property.value, ',').map((value) => value.trim());
+
+/** Direct sub-components with the given name */
+export const getComponents = (
+  component: ICalComponent,
+  name: string,
+): ICalComponent[] =>
+  component.components.filter((c) => c.name === name.toUpperCase());
+
+/**
+ * All components with the given name at any depth below the given roots.
+ * e.g. findComponents(parseICalendar(ics), 'VEVENT')
+ */
+export const findComponents = (
+  roots: ICalComponent[],
+  name: string,
+): ICalComponent[] =>
+  roots.flatMap((component) => [
+    ...(component.name === name.toUpperCase() ? [component] : []),
+    ...findComponents(component.components, name),
+  ]);
@@ -0,0 +1,195 @@
+import {
+  generateICal,
+  type Attendee,
+  type ICalCalendarExtras,
+  type ICalInput,
+  type ITipMethod,
+} from '@/utils/ical-lib';
+import { formatDateTime } from '@/utils/eventFormatting';
+import { DEFAULT_TIMEZONE } from '@/utils/weekday';
+import type { MailMessage } from '@/mail/mailSender';
+
+/** A change of a stored event, as components before and after it */
+export type ScheduleChange = {
+  /** Components before the change; omitted for a new event */
+  before?: ICalInput[];
+  /** Components after the change; omitted when the event was deleted */
+  after?: ICalInput[];
+  /** Original start of a single occurrence that was cancelled */
+  cancelledOccurrence?: Date;
+  /** Calendar-level content of the object (VTIMEZONE etc.) */
+  extras?: ICalCalendarExtras;
+  /** Zone of the dates in the mail text. Defaults to the event's timezone */
+  timezone?: string;
+};
+
+const emailKey = (email: string) => email.toLowerCase();
+
+/** Attendees of all components, without the organizer, by email */
+const collectAttendees = (components: ICalInput[]) => {
+  const attendees = new Map<string, Attendee>();
+  for (const component of components) {
+    const organizer = emailKey(component.organizer?.email ?? '');
+    for (const attendee of component.attendees ?? []) {
+      const key = emailKey(attendee.email);
+      if (key !== organizer && !attendees.has(key)) {
+        attendees.set(key, attendee);
+      }
+    }
+  }
+  return attendees;
+};
+
+/**
+ * Mark a component as cancelled (STATUS:CANCELLED). Alarms are personal,
+ * so they are not sent to attendees.
+ */
+const cancelled = (component: ICalInput): ICalInput => ({
+  ...component,
+  properties: [
+    ...(component.properties ?? []).filter((p) => p.name !== 'STATUS'),
+    { name: 'STATUS', params: {}, value: 'CANCELLED' },
+  ],
+  reminders: undefined,
+  components: [],
+});
+
+/** Components as sent to attendees, without the organizer's alarms */
+const withoutAlarms = (components: ICalInput[]) =>
+  components.map((component) => ({
+    ...component,
+    reminders: undefined,
+    components: [],
+  }));
+
+/**
+ * Build the iTIP (RFC 5546) messages the organizer sends for a change of a
+ * scheduled event, as emails with the iCalendar document attached:
+ * - new or changed event: REQUEST with the whole event to every attendee
+ * - attendees removed by a change: CANCEL to them
+ * - deleted event: CANCEL to every attendee
+ * - cancelled occurrence: CANCEL with its RECURRENCE-ID to every attendee
+ * Events without an organizer or attendees are private: no messages.
+ * @param change - The event before and after the change
+ */
+export const createITipMessages = ({
+  before = [],
+  after,
+  cancelledOccurrence,
+  extras,
+  timezone: textTimezone,
+}: ScheduleChange): MailMessage[] => {
+  const components = after ?? before;
+  const master = components.find((c) => !c.recurrenceId) ?? components[0];
+  const organizer = components.find((c) => c.organizer)?.organizer;
+  if (!master || !organizer) return [];
+
+  const timezone = textTimezone ?? master.timezone ?? DEFAULT_TIMEZONE;
+  const from = organizer.name
+    ? `${organizer.name} <${organizer.email}>`
+    : organizer.email;
+  const when = (start: Date) =>
+    formatDateTime(start, { timezone, includeTime: !master.allDay });
+
+  const message = (
+    method: ITipMethod,
+    to: Attendee[],
+    sent: ICalInput[],
+    subject: string,
+    text: string,
+  ): MailMessage => ({
+    from,
+    to: to.map((attendee) => attendee.email),
+    subject,
+    text: [
+      text,
+      '',
+      `When: ${when(sent[0].start)}`,
+      ...(master.location ? [`Where: ${master.location}`] : []),
+      ...(master.description ? ['', master.description] : []),
+    ].join('\n'),
+    calendar: {
+      method,
+      content: generateICal(sent, extras, method),
+    },
+  });
+
+  const current = collectAttendees(components);
+  if (current.size === 0 && !after) return [];
+  const organizerName = organizer.name ?? organizer.email;
+
+  if (cancelledOccurrence) {
+    const durationMs = master.end.getTime() - master.start.getTime();
+    const occurrence = cancelled({
+      ...master,
+      start: cancelledOccurrence,
+      end: new Date(cancelledOccurrence.getTime() + durationMs),
+      recurrence: undefined,
+      exdates: undefined,
+      recurrenceId: cancelledOccurrence,
+    });
+    return [
+      message(
+        'CANCEL',
+        [...current.values()],
+        [occurrence],
+        `Cancelled: ${master.title} @ ${when(cancelledOccurrence)}`,
+        `${organizerName} has cancelled this occurrence of "${master.title}".`,
+      ),
+    ];
+  }
+
+  if (!after) {
+    const sequence = (master.sequence ?? 0) + 1;
+    return [
+      message(
+        'CANCEL',
+        [...current.values()],
+        [cancelled({ ...master, sequence })],
+        `Cancelled: ${master.title} @ ${when(master.start)}`,
+        `${organizerName} has cancelled "${master.title}".`,
+      ),
+    ];
+  }
+
+  const messages: MailMessage[] = [];
+  if (current.size > 0) {
+    const updated = before.length > 0;
+    messages.push(
+      message(
+        'REQUEST',
+        [...current.values()],
+        withoutAlarms(after),
+        `${updated ? 'Updated invitation' : 'Invitation'}: ${master.title} @ ${when(master.start)}`,
+        updated
+          ? `${organizerName} has updated "${master.title}".`
+          : `${organizerName} has invited you to "${master.title}".`,
+      ),
+    );
+  }
+
+  const previous = collectAttendees(before);
+  const removed = [...previous]
+    .filter(([key]) => !current.has(key))
+    .map(([, attendee]) => attendee);
+  if (removed.length > 0) {
+    const previousMaster = before.find((c) => !c.recurrenceId) ?? before[0];
+    messages.push(
+      message(
+        'CANCEL',
+        removed,
+        [
+          cancelled({
+            ...previousMaster,
+            organizer,
+            attendees: removed,
+            sequence: master.sequence,
+          }),
+        ],
+        `Cancelled: ${master.title} @ ${when(previousMaster.start)}`,
+        `${organizerName} has removed you from "${master.title}".`,
+      ),
+    );
+  }
+  return messages;
+};
@@ -0,0 +1,368 @@
+/**
+ * Recurrence rule (RRULE) utilities.
+ * Supports the subset of RFC 5545 recurrence rules that the calendar tools create:
+ * FREQ (daily/weekly/monthly/yearly), INTERVAL, BYDAY (plain weekdays), COUNT and UNTIL.
+ *
+ * Expansion happens on Luxon DateTimes in the series' own zone, so a weekly
+ * 10:00 meeting stays at 10:00 wall-clock time across DST changes.
+ */
+
+import { z } from 'zod';
+import { DateTime } from 'luxon';
+import {
+  type Weekday,
+  WEEKDAYS,
+  WEEKDAY_TO_ISO,
+  ISO_TO_WEEKDAY,
+  weekdaySchema,
+} from '@/utils/weekday';
+import { calculateAbsoluteDateFromWallClock } from '@/utils/relativeDateCalculator';
+
+export const RECURRENCE_FREQUENCIES = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  /** Repeat every N periods. 1 = every period */
+  interval: number;
+  /** Weekdays for weekly/monthly rules. Defaults to the weekday of DTSTART */
+  byDay?: Weekday[];
+  /** Total number of occurrences, including excluded ones */
+  count?: number;
+  /** Last possible occurrence start (inclusive) */
+  until?: Date;
+};
+
+/** RFC 5545 two-letter weekday codes */
+const WEEKDAY_TO_ICAL: Record<Weekday, string> = {
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+  sunday: 'SU',
+};
+
+const ICAL_TO_WEEKDAY: Record<string, Weekday> = Object.fromEntries(
+  WEEKDAYS.map((day) => [WEEKDAY_TO_ICAL[day], day]),
+);
+
+/** Upper bound for expansion loops, protects against runaway rules */
+const MAX_EXPANSION_PERIODS = 50_000;
+
+/**
+ * Serialize a recurrence rule as an RRULE value (without the "RRULE:" prefix).
+ * UNTIL is always written in UTC as required when DTSTART has a TZID.
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => WEEKDAY_TO_ICAL[d]).join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(
+      `UNTIL=${DateTime.fromJSDate(rule.until).toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")}`,
+    );
+  }
+
+  return parts.join(';');
+};
+
+/**
+ * Parse an RRULE value into a RecurrenceRule.
+ * Returns null for rules using parts this module cannot expand
+ * (e.g. BYSETPOS, BYMONTH or ordinal BYDAY like "2TU").
+ *
+ * @param value - RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"
+ * @param zone - Zone for a floating or date-only UNTIL value
+ */
+export const parseRRule = (
+  value: string,
+  zone: string = 'utc',
+): RecurrenceRule | null => {
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of value.trim().split(';')) {
+    const [name, rawValue = ''] = part.split('=');
+    switch (name.toUpperCase()) {
+      case 'FREQ': {
+        const frequency = rawValue.toLowerCase() as RecurrenceFrequency;
+        if (!RECURRENCE_FREQUENCIES.includes(frequency)) return null;
+        rule.frequency = frequency;
+        break;
+      }
+      case 'INTERVAL': {
+        const interval = parseInt(rawValue);
+        if (!Number.isFinite(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days = rawValue.split(',').map((code) => ICAL_TO_WEEKDAY[code]);
+        if (days.some((day) => !day)) return null;
+        rule.byDay = days;
+        break;
+      }
+      case 'COUNT': {
+        const count = parseInt(rawValue);
+        if (!Number.isFinite(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(rawValue, zone);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'WKST':
+      case '':
+        // Week start only affects rules we do not support (BYWEEKNO etc.)
+        break;
+      default:
+        return null;
+    }
+  }
+
+  return rule.frequency ? (rule as RecurrenceRule) : null;
+};
+
+/** Parse UNTIL: UTC date-time, floating date-time or date (end of that day) */
+const parseUntil = (value: string, zone: string): Date | null => {
+  const formats: Array<[string, string, boolean]> = [
+    ["yyyyMMdd'T'HHmmss'Z'", 'utc', false],
+    ["yyyyMMdd'T'HHmmss", zone, false],
+    ['yyyyMMdd', zone, true],
+  ];
+
+  for (const [format, formatZone, isDate] of formats) {
+    const dt = DateTime.fromFormat(value, format, { zone: formatZone });
+    if (dt.isValid) return (isDate ? dt.endOf('day') : dt).toJSDate();
+  }
+  return null;
+};
+
+/**
+ * Candidate occurrence starts of one period (day/week/month/year) of a series.
+ * Candidates keep the wall-clock time of the series start.
+ */
+const getPeriodCandidates = (
+  seriesStart: DateTime,
+  rule: RecurrenceRule,
+  period: number,
+): DateTime[] => {
+  const step = period * rule.interval;
+  const time = {
+    hour: seriesStart.hour,
+    minute: seriesStart.minute,
+    second: seriesStart.second,
+    millisecond: 0,
+  };
+  const days = rule.byDay?.map((day) => WEEKDAY_TO_ISO[day]);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return [seriesStart.plus({ days: step })];
+    case 'weekly': {
+      const weekStart = seriesStart.startOf('week').plus({ weeks: step });
+      return (days ?? [seriesStart.weekday])
+        .map((iso) => weekStart.plus({ days: iso - 1 }).set(time))
+        .sort((a, b) => a.toMillis() - b.toMillis());
+    }
+    case 'monthly': {
+      const monthStart = seriesStart.startOf('month').plus({ months: step });
+      if (days) {
+        return Array.from({ length: monthStart.daysInMonth ?? 0 }, (_, i) =>
+          monthStart.plus({ days: i }).set(time),
+        ).filter((dt) => days.includes(dt.weekday));
+      }
+      // Months without this day (e.g. the 31st) are skipped per RFC 5545
+      if (seriesStart.day > (monthStart.daysInMonth ?? 0)) return [];
+      return [monthStart.set({ day: seriesStart.day, ...time })];
+    }
+    case 'yearly': {
+      const candidate = seriesStart
+        .startOf('year')
+        .plus({ years: step })
+        .set({ month: seriesStart.month, day: seriesStart.day, ...time });
+      // Skip Feb 29 in non-leap years
+      return candidate.day === seriesStart.day ? [candidate] : [];
+    }
+  }
+};
+
+/**
+ * Expand a recurring series into the occurrence starts that overlap a window.
+ *
+ * @param params.start - Series start (DTSTART) in the series' zone
+ * @param params.rule - Recurrence rule of the series
+ * @param params.exdates - Excluded occurrence starts (EXDATE)
+ * @param params.rangeStart - Window start (inclusive)
+ * @param params.rangeEnd - Window end (exclusive)
+ * @param params.durationMs - Occurrence duration, used for overlap checks
+ * @returns Occurrence start instants, in chronological order
+ */
+export const expandRecurrence = ({
+  start,
+  rule,
+  exdates = [],
+  rangeStart,
+  rangeEnd,
+  durationMs = 0,
+}: {
+  start: DateTime;
+  rule: RecurrenceRule;
+  exdates?: Date[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  durationMs?: number;
+}): Date[] => {
+  const excluded = new Set(exdates.map((d) => d.getTime()));
+  const startMs = start.toMillis();
+  const untilMs = rule.until?.getTime() ?? Infinity;
+  const windowStartMs = rangeStart.getTime();
+  const windowEndMs = rangeEnd.getTime();
+
+  const occurrences: Date[] = [];
+  let count = 0;
+
+  for (let period = 0; period < MAX_EXPANSION_PERIODS; period++) {
+    for (const candidate of getPeriodCandidates(start, rule, period)) {
+      const candidateMs = candidate.toMillis();
+      if (candidateMs < startMs) continue;
+
+      count++;
+      if (rule.count && count > rule.count) return occurrences;
+      if (candidateMs > untilMs || candidateMs >= windowEndMs) {
+        return occurrences;
+      }
+
+      const overlaps = candidateMs + durationMs > windowStartMs;
+      if (overlaps && !excluded.has(candidateMs)) {
+        occurrences.push(candidate.toJSDate());
+      }
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Human-readable summary of a recurrence rule, e.g. "every 2 weeks on monday".
+ * @param timezone - IANA timezone used to display UNTIL
+ */
+export const describeRecurrence = (
+  rule: RecurrenceRule,
+  timezone: string,
+): string => {
+  const unit = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year',
+  }[rule.frequency];
+
+  let text =
+    rule.interval > 1 ? `every ${rule.interval} ${unit}s` : `every ${unit}`;
+  if (rule.byDay?.length) text += ` on ${rule.byDay.join(', ')}`;
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) {
+    text += ` until ${DateTime.fromJSDate(rule.until).setZone(timezone).toFormat('yyyy-MM-dd')}`;
+  }
+  return text;
+};
+
+/**
+ * Zod schema for the recurrence input of MCP tools.
+ * UNTIL is expressed relatively, like all other dates the LLM provides.
+ */
+export const recurrenceInputSchema = z
+  .object({
+    frequency: z
+      .enum(RECURRENCE_FREQUENCIES)
+      .describe('How often the event repeats'),
+    interval: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Repeat every N periods, e.g. 2 = every other week. Default 1'),
+    byDay: z
+      .array(weekdaySchema)
+      .optional()
+      .describe(
+        'Weekdays the event repeats on (weekly/monthly). Defaults to the weekday of the first occurrence',
+      ),
+    count: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Total number of occurrences'),
+    until: z
+      .object({
+        weekOffset: z.number().int(),
+        weekday: weekdaySchema,
+      })
+      .optional()
+      .describe('Last day of the series, as relative weekOffset + weekday'),
+  })
+  .describe('Optional recurrence. Omit for a single event');
+
+export type RecurrenceInput = z.infer<typeof recurrenceInputSchema>;
+
+/**
+ * Convert validated tool input into a RecurrenceRule.
+ * A relative UNTIL is resolved to the end of that day in the wall-clock zone.
+ *
+ * @param input - Recurrence input from the LLM
+ * @param wallClockNow - The reference wall-clock time (from getWallClockNow)
+ */
+export const resolveRecurrenceInput = (
+  input: RecurrenceInput,
+  wallClockNow: DateTime,
+): RecurrenceRule => {
+  const { frequency, interval, byDay, count, until } = input;
+
+  return {
+    frequency,
+    interval: interval ?? 1,
+    byDay: byDay?.length ? byDay : undefined,
+    count,
+    until: until
+      ? calculateAbsoluteDateFromWallClock(wallClockNow, {
+          ...until,
+          time: '23:59',
+        })
+      : undefined,
+  };
+};
+
+/**
+ * Replace a single-day BYDAY when a series moves to another weekday,
+ * so "move the Monday standup to Thursday" keeps a consistent rule.
+ */
+export const shiftRecurrenceWeekday = (
+  rule: RecurrenceRule,
+  from: DateTime,
+  to: DateTime,
+): RecurrenceRule => {
+  if (
+    rule.byDay?.length !== 1 ||
+    rule.byDay[0] !== ISO_TO_WEEKDAY[from.weekday]
+  ) {
+    return rule;
+  }
+  return { ...rule, byDay: [ISO_TO_WEEKDAY[to.weekday]] };
+};
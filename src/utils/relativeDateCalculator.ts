@@ -10,17 +10,24 @@
 
 import { DateTime } from 'luxon';
 import {
+  type DateExpression,
   type Weekday,
+  DATE_EXPRESSION_KEYS,
   WEEKDAY_TO_ISO,
   ISO_TO_WEEKDAY,
   DEFAULT_TIMEZONE,
 } from '@/utils/weekday';
+import { getNow } from '@/utils/clock';
+import {
+  getDstPolicy,
+  resolveLocalTime,
+  type DstPolicy,
+  type DurationMode,
+} from '@/utils/dst';
 
-export type { Weekday };
+export type { DateExpression, Weekday };
 
-export type RelativeDateInput = {
-  weekOffset: number; // 0 = this week, 1 = next week, -1 = last week, etc.
-  weekday: Weekday;
+export type RelativeDateInput = DateExpression & {
   time: string; // "HH:mm" format
 };
 
@@ -36,7 +43,8 @@ const parseHHmm = (time: string): { hours: number; minutes: number } | null => {
 
 /**
  * Get current wall-clock time in a specific timezone.
- * Returns a Luxon DateTime in the specified zone.
+ * Returns a Luxon DateTime in the specified zone. The time comes from the
+ * clock (see setClock).
  *
  * @param timezone - IANA timezone string (e.g., 'Europe/Helsinki'). Defaults to DEFAULT_TIMEZONE.
  * @throws Error if timezone is invalid
@@ -44,7 +52,7 @@ const parseHHmm = (time: string): { hours: number; minutes: number } | null => {
 export const getWallClockNow = (
   timezone: string = DEFAULT_TIMEZONE,
 ): DateTime => {
-  const dt = DateTime.now().setZone(timezone);
+  const dt = DateTime.fromJSDate(getNow()).setZone(timezone);
 
   if (!dt.isValid) {
     throw new Error(
@@ -56,28 +64,171 @@ export const getWallClockNow = (
 };
 
 /**
- * Calculate absolute date from relative date input.
- * Works with Luxon DateTime internally and returns a proper UTC Date.
+ * Pick the date expression fields from a tool input, dropping undefined ones.
+ */
+export const pickDateExpression = (
+  input: DateExpression & Record<string, unknown>,
+): DateExpression =>
+  Object.fromEntries(
+    DATE_EXPRESSION_KEYS.filter((key) => input[key] !== undefined).map(
+      (key) => [key, input[key]],
+    ),
+  );
+
+/**
+ * Years searched for the next occurrence of a day in a month without a
+ * year. February 29 can be 8 years apart (2096, 2104).
+ */
+const MAX_YEARS_AHEAD = 8;
+
+/**
+ * The day of a month given by dayOfMonth (-1 = last) or nthWeekday + weekday.
+ * @throws Error if the month has no such day
+ */
+const resolveDayInMonth = (
+  monthStart: DateTime,
+  { dayOfMonth, nthWeekday, weekday }: DateExpression,
+): DateTime => {
+  const daysInMonth = monthStart.daysInMonth ?? 31;
+  const monthName = monthStart.toFormat('LLLL yyyy');
+
+  if (dayOfMonth !== undefined) {
+    if (dayOfMonth > daysInMonth) {
+      throw new Error(`${monthName} has only ${daysInMonth} days.`);
+    }
+    return monthStart.set({
+      day: dayOfMonth === -1 ? daysInMonth : dayOfMonth,
+    });
+  }
+
+  if (nthWeekday !== undefined && weekday) {
+    const targetISOWeekday = WEEKDAY_TO_ISO[weekday];
+    if (nthWeekday === -1) {
+      const lastDay = monthStart.set({ day: daysInMonth });
+      return lastDay.minus({
+        days: (lastDay.weekday - targetISOWeekday + 7) % 7,
+      });
+    }
+    const firstMatch = monthStart.plus({
+      days: (targetISOWeekday - monthStart.weekday + 7) % 7,
+    });
+    const day = firstMatch.plus({ weeks: nthWeekday - 1 });
+    if (day.month !== monthStart.month) {
+      throw new Error(`${monthName} does not have ${nthWeekday} ${weekday}s.`);
+    }
+    return day;
+  }
+
+  throw new Error(
+    'Provide dayOfMonth, or nthWeekday together with weekday, for a month-based date.',
+  );
+};
+
+/**
+ * Resolve a date expression to the start of that day in the zone of wallClockNow.
+ * Supported forms (exactly one per expression):
+ * - date: explicit "YYYY-MM-DD" as written by the user
+ * - dayOffset: days from today
+ * - weekOffset + weekday: ISO weeks from the current week
+ * - month or monthOffset, with dayOfMonth or nthWeekday + weekday.
+ *   A month without year means the next occurrence of the day (today
+ *   counts), e.g. February 29 of the next leap year.
  *
  * @param wallClockNow - The reference wall-clock time (from getWallClockNow)
- * @param input - Relative date specification from LLM
- * @returns Calculated absolute Date representing the correct UTC instant
+ * @param expression - Date expression from the LLM
+ * @throws Error if the expression is empty, mixes several forms or names no real day
  */
-export const calculateAbsoluteDateFromWallClock = (
+export const resolveDateExpression = (
   wallClockNow: DateTime,
-  input: RelativeDateInput,
-): Date => {
-  const { weekOffset, weekday, time } = input;
+  expression: DateExpression,
+): DateTime => {
+  const {
+    weekOffset,
+    weekday,
+    dayOffset,
+    monthOffset,
+    month,
+    year,
+    dayOfMonth,
+    nthWeekday,
+    date,
+  } = expression;
+  const today = wallClockNow.startOf('day');
 
-  // Validate and parse time using Luxon
-  const parsedTime = parseHHmm(time);
-  if (!parsedTime) {
+  const usesMonth =
+    month !== undefined ||
+    monthOffset !== undefined ||
+    dayOfMonth !== undefined ||
+    nthWeekday !== undefined;
+  const forms = [
+    date !== undefined,
+    dayOffset !== undefined,
+    weekOffset !== undefined || (weekday !== undefined && !usesMonth),
+    usesMonth,
+  ].filter(Boolean).length;
+
+  if (forms === 0) {
     throw new Error(
-      `Invalid time format: "${time}". Expected "HH:mm" (e.g., "15:00").`,
+      'No date given. Provide weekOffset + weekday, dayOffset, month/monthOffset + dayOfMonth, or date.',
     );
   }
-  const { hours, minutes } = parsedTime;
+  if (forms > 1) {
+    throw new Error(
+      'Use only one way to specify the date: weekOffset + weekday, dayOffset, month/monthOffset + dayOfMonth or nthWeekday, or date.',
+    );
+  }
+  if (year !== undefined && month === undefined) {
+    throw new Error('year can only be used together with month.');
+  }
+
+  if (date !== undefined) {
+    const explicit = DateTime.fromISO(date, { zone: wallClockNow.zone });
+    if (!explicit.isValid) {
+      throw new Error(`Invalid date: "${date}". Expected "YYYY-MM-DD".`);
+    }
+    return explicit.startOf('day');
+  }
+
+  if (dayOffset !== undefined) {
+    return today.plus({ days: dayOffset });
+  }
+
+  if (usesMonth) {
+    if (month !== undefined && monthOffset !== undefined) {
+      throw new Error('Use either month or monthOffset, not both.');
+    }
+    if (month === undefined) {
+      const monthStart = today
+        .startOf('month')
+        .plus({ months: monthOffset ?? 0 });
+      return resolveDayInMonth(monthStart, expression);
+    }
 
+    if (year !== undefined) {
+      return resolveDayInMonth(
+        today.startOf('year').set({ year, month }),
+        expression,
+      );
+    }
+
+    // Without a year, the next such day counts: a day that has passed means
+    // next year, and one the month lacks (February 29) the next year it has it
+    let error: unknown;
+    for (let years = 0; years <= MAX_YEARS_AHEAD; years++) {
+      const monthStart = today.startOf('year').set({ month }).plus({ years });
+      try {
+        const day = resolveDayInMonth(monthStart, expression);
+        if (day >= today) return day;
+      } catch (err) {
+        error = err;
+      }
+    }
+    throw error;
+  }
+
+  if (!weekday) {
+    throw new Error('weekday is required together with weekOffset.');
+  }
   // Get target ISO weekday (1-7) with inline validation
   const targetISOWeekday = WEEKDAY_TO_ISO[weekday];
   if (!targetISOWeekday) {
@@ -85,27 +236,126 @@ export const calculateAbsoluteDateFromWallClock = (
   }
 
   // Luxon's weekday property is already ISO (1=Monday, 7=Sunday)
-  const currentISOWeekday = wallClockNow.weekday;
-
-  // Calculate days to target weekday within the same week
-  const daysToTargetInWeek = targetISOWeekday - currentISOWeekday;
+  const daysToTargetInWeek = targetISOWeekday - today.weekday;
 
   // Calculate total days offset
-  const totalDaysOffset = weekOffset * 7 + daysToTargetInWeek;
+  return today.plus({ days: (weekOffset ?? 0) * 7 + daysToTargetInWeek });
+};
 
-  // Calculate the target DateTime using Luxon's arithmetic (stays in same zone)
-  const targetWallClock = wallClockNow
-    .plus({ days: totalDaysOffset })
-    .set({ hour: hours, minute: minutes, second: 0, millisecond: 0 });
+/**
+ * Resolve relative date input to an absolute date, like
+ * calculateAbsoluteDateFromWallClock, with a warning when the time does
+ * not exist or occurs twice on that day because of a DST switch.
+ *
+ * @param wallClockNow - The reference wall-clock time (from getWallClockNow)
+ * @param input - Date expression and time from LLM
+ * @param policy - How to resolve DST gaps and overlaps. Defaults to getDstPolicy().
+ * @throws Error if the input is invalid or the policy rejects the time
+ */
+export const resolveWallClockTime = (
+  wallClockNow: DateTime,
+  input: RelativeDateInput,
+  policy: Pick<DstPolicy, 'gap' | 'overlap'> = getDstPolicy(),
+): { date: Date; warning?: string } => {
+  const { time } = input;
 
-  // Validate and convert to UTC
-  if (!targetWallClock.isValid) {
+  // Validate and parse time using Luxon
+  const parsedTime = parseHHmm(time);
+  if (!parsedTime) {
     throw new Error(
-      `Invalid target DateTime: ${targetWallClock.invalidReason ?? 'unknown reason'}`,
+      `Invalid time format: "${time}". Expected "HH:mm" (e.g., "15:00").`,
     );
   }
+  const { hours, minutes } = parsedTime;
+
+  // The day in the wall-clock zone; the time is resolved separately, as
+  // setting it on the day would silently move times in a DST gap
+  const day = resolveDateExpression(wallClockNow, input);
+  const { dateTime, warning } = resolveLocalTime(
+    wallClockNow.zoneName ?? DEFAULT_TIMEZONE,
+    {
+      year: day.year,
+      month: day.month,
+      day: day.day,
+      hour: hours,
+      minute: minutes,
+    },
+    policy,
+  );
 
-  return targetWallClock.toUTC().toJSDate();
+  return { date: dateTime.toUTC().toJSDate(), warning };
+};
+
+/**
+ * Calculate absolute date from relative date input.
+ * Works with Luxon DateTime internally and returns a proper UTC Date.
+ * Times in a DST gap or overlap are resolved by the DST policy.
+ *
+ * @param wallClockNow - The reference wall-clock time (from getWallClockNow)
+ * @param input - Date expression and time from LLM
+ * @returns Calculated absolute Date representing the correct UTC instant
+ * @throws Error if the input is invalid or the DST policy rejects the time
+ */
+export const calculateAbsoluteDateFromWallClock = (
+  wallClockNow: DateTime,
+  input: RelativeDateInput,
+): Date => resolveWallClockTime(wallClockNow, input).date;
+
+/**
+ * Inverse of calculateAbsoluteDateFromWallClock: express an absolute date
+ * as relative date input (week offset, weekday, time) in the zone of wallClockNow.
+ * Used to keep unchanged parts of an event's timing when only some are edited.
+ *
+ * @param wallClockNow - The reference wall-clock time (from getWallClockNow)
+ * @param date - Absolute date to express relatively
+ */
+export const getRelativeDateInput = (
+  wallClockNow: DateTime,
+  date: Date,
+): Required<Pick<RelativeDateInput, 'weekOffset' | 'weekday' | 'time'>> => {
+  const target = DateTime.fromJSDate(date).setZone(wallClockNow.zone);
+  const weekOffset = Math.round(
+    target.startOf('week').diff(wallClockNow.startOf('week'), 'weeks').weeks,
+  );
+
+  return {
+    weekOffset,
+    weekday: ISO_TO_WEEKDAY[target.weekday],
+    time: target.toFormat('HH:mm'),
+  };
+};
+
+/**
+ * Calculate the span of an all-day event from its first and last day.
+ * Returns the start of the first day and the start of the day after the
+ * last day (exclusive end, as in iCalendar DTEND;VALUE=DATE). A day whose
+ * midnight a DST switch skips starts at the first time that exists, so
+ * the DST policy does not apply.
+ *
+ * @param wallClockNow - The reference wall-clock time (from getWallClockNow)
+ * @param first - Relative first day
+ * @param last - Relative last day (inclusive). Defaults to the first day.
+ * @throws Error if the last day is before the first day
+ */
+export const calculateAllDaySpan = (
+  wallClockNow: DateTime,
+  first: DateExpression,
+  last: DateExpression = first,
+): { start: Date; end: Date } => {
+  const firstDay = resolveDateExpression(wallClockNow, first).startOf('day');
+  const lastDay = resolveDateExpression(wallClockNow, last).startOf('day');
+
+  if (lastDay < firstDay) {
+    throw new Error(
+      'The last day of an all-day event is before its first day.',
+    );
+  }
+
+  // Add a calendar day in the wall-clock zone, not 24 hours (DST)
+  return {
+    start: firstDay.toJSDate(),
+    end: lastDay.plus({ days: 1 }).startOf('day').toJSDate(),
+  };
 };
 
 /**
@@ -128,19 +378,42 @@ export const calculateAbsoluteDate = (
 
 /**
  * Calculate end date based on start date and optional duration.
- * Default duration is 60 minutes.
+ * Default duration is 60 minutes. Across a DST switch, elapsed mode adds
+ * real time, while wall-clock mode adds time on the clock of the timezone
+ * (01:00 + 4 hours ends at 05:00 on the spring-forward night).
  *
  * @param startDate - Start date of the event
  * @param durationMinutes - Duration in minutes. Defaults to 60 if undefined.
+ * @param options - Duration mode (defaults to the DST policy's) and the timezone of the clock
+ * @throws Error in wall-clock mode if the DST policy rejects the end time
  */
 export const calculateEndDate = (
   startDate: Date,
   durationMinutes?: number,
+  {
+    mode = getDstPolicy().duration,
+    timezone = DEFAULT_TIMEZONE,
+  }: { mode?: DurationMode; timezone?: string } = {},
 ): Date => {
   const effectiveDuration = durationMinutes ?? 60;
-  return DateTime.fromJSDate(startDate)
-    .plus({ minutes: effectiveDuration })
-    .toJSDate();
+  if (mode === 'elapsed') {
+    return DateTime.fromJSDate(startDate)
+      .plus({ minutes: effectiveDuration })
+      .toJSDate();
+  }
+
+  // Add the minutes to the local time as if there were no DST
+  const end = DateTime.fromJSDate(startDate)
+    .setZone(timezone)
+    .setZone('utc', { keepLocalTime: true })
+    .plus({ minutes: effectiveDuration });
+  return resolveLocalTime(timezone, {
+    year: end.year,
+    month: end.month,
+    day: end.day,
+    hour: end.hour,
+    minute: end.minute,
+  }).dateTime.toJSDate();
 };
 
 /**
@@ -1,41 +1,161 @@
 /**
  * Centralized relative date rules and documentation.
  * Single source of truth to avoid drift between MCP tool descriptions and system prompts.
+ * Parameter lists are generated from the Zod field descriptions in weekday.ts,
+ * so the prompts always describe the schema the tools accept.
  */
 
+import {
+  dateExpressionInputSchema,
+  relativeTimeInputSchema,
+  type DateExpression,
+} from '@/utils/weekday';
+
+/** A user phrase and the date expression it maps to */
+type DateExpressionExample = {
+  phrase: string;
+  expression: DateExpression;
+};
+
+/**
+ * Example phrases for every date expression form.
+ * Used in both the tool descriptions and the system prompt.
+ */
+export const DATE_EXPRESSION_EXAMPLES: DateExpressionExample[] = [
+  { phrase: 'next Monday', expression: { weekOffset: 1, weekday: 'monday' } },
+  { phrase: 'this Friday', expression: { weekOffset: 0, weekday: 'friday' } },
+  {
+    phrase: 'two weeks from now on Tuesday',
+    expression: { weekOffset: 2, weekday: 'tuesday' },
+  },
+  {
+    phrase: 'last Wednesday',
+    expression: { weekOffset: -1, weekday: 'wednesday' },
+  },
+  { phrase: 'today', expression: { dayOffset: 0 } },
+  { phrase: 'tomorrow', expression: { dayOffset: 1 } },
+  { phrase: 'in 10 days', expression: { dayOffset: 10 } },
+  {
+    phrase: 'the 3rd of next month',
+    expression: { monthOffset: 1, dayOfMonth: 3 },
+  },
+  {
+    phrase: 'the last day of this month',
+    expression: { monthOffset: 0, dayOfMonth: -1 },
+  },
+  { phrase: 'December 24th', expression: { month: 12, dayOfMonth: 24 } },
+  {
+    phrase: 'the last Friday of March',
+    expression: { month: 3, nthWeekday: -1, weekday: 'friday' },
+  },
+  {
+    phrase: 'the second Tuesday of next month',
+    expression: { monthOffset: 1, nthWeekday: 2, weekday: 'tuesday' },
+  },
+  {
+    phrase: '2027-01-15 (typed by the user)',
+    expression: { date: '2027-01-15' },
+  },
+];
+
+/** Format a date expression the way the LLM should pass it */
+const formatExpression = (expression: DateExpression): string =>
+  Object.entries(expression)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(', ');
+
+/** One "- name: description" line per date expression field */
+const DATE_EXPRESSION_PARAMS = Object.entries(dateExpressionInputSchema)
+  .map(([name, schema]) => `- ${name}: ${schema.description}`)
+  .join('\n');
+
 /** Short description of relative date parameters for MCP tool descriptions */
-export const RELATIVE_DATE_PARAMS_DESCRIPTION = `- weekOffset: 0 = this week, 1 = next week, -1 = last week, -2 = two weeks ago, etc.
-- weekday: The target day of the week (monday-sunday)
-- time: Time in HH:mm format (24-hour)
-- durationMinutes: Optional duration, defaults to 60 minutes`;
+export const RELATIVE_DATE_PARAMS_DESCRIPTION = `Specify the day in exactly ONE of these ways: weekOffset + weekday, dayOffset, month or monthOffset + dayOfMonth, month or monthOffset + nthWeekday + weekday, or date.
+${DATE_EXPRESSION_PARAMS}
+- time: ${relativeTimeInputSchema.time.description}
+- durationMinutes: ${relativeTimeInputSchema.durationMinutes.description}`;
 
 /** Examples of relative date interpretation for MCP tool descriptions */
 export const RELATIVE_DATE_EXAMPLES = `Examples:
-- "next Monday" = weekOffset: 1, weekday: "monday"
-- "this Friday" = weekOffset: 0, weekday: "friday"
-- "two weeks from now on Tuesday" = weekOffset: 2, weekday: "tuesday"
-- "last Wednesday" = weekOffset: -1, weekday: "wednesday"`;
+${DATE_EXPRESSION_EXAMPLES.map(({ phrase, expression }) => `- "${phrase}" = ${formatExpression(expression)}`).join('\n')}`;
+
+/** Description of the recurrence parameter for MCP tool descriptions */
+export const RECURRENCE_PARAMS_DESCRIPTION = `- recurrence: Optional, for repeating events. The relative date is the FIRST occurrence.
+  - frequency: daily, weekly, monthly or yearly
+  - interval: repeat every N periods (2 = every other week)
+  - byDay: weekdays for weekly events that repeat on several days
+  - count OR until (until is relative: weekOffset + weekday of the last day)
+
+Recurrence examples:
+- "weekly standup on Mondays at 9 starting next week" = weekOffset: 1, weekday: "monday", time: "09:00", recurrence: { frequency: "weekly" }
+- "biweekly retro on Friday, 6 times" = recurrence: { frequency: "weekly", interval: 2, count: 6 }`;
+
+/** Description of the all-day parameters for MCP tool descriptions */
+export const ALL_DAY_PARAMS_DESCRIPTION = `- allDay: true for whole-day events (birthdays, holidays, vacations). Omit time and durationMinutes
+  - endWeekOffset + endWeekday: LAST day of a multi-day event (inclusive). endWeekOffset defaults to the week of the first day
+- transparent: true if the event should not make the time busy (e.g. a birthday reminder)
+
+All-day examples:
+- "Mom's birthday on Saturday" = weekOffset: 0, weekday: "saturday", allDay: true, transparent: true
+- "vacation next week Monday to Friday" = weekOffset: 1, weekday: "monday", allDay: true, endWeekday: "friday"`;
+
+/** Description of the attendee parameters for MCP tool descriptions */
+export const ATTENDEES_PARAMS_DESCRIPTION = `- attendees: Optional, people to invite to a meeting. Each one is sent an invitation by email
+  - email: required; never guess it, ask the user if it is not known
+  - name, role (REQ-PARTICIPANT default, OPT-PARTICIPANT, CHAIR, NON-PARTICIPANT), rsvp (reply requested)
+
+Attendee example:
+- "meeting with Anna (anna@example.com) on Friday at 10" = weekOffset: 0, weekday: "friday", time: "10:00", attendees: [{ email: "anna@example.com", name: "Anna" }]`;
+
+/** Description of the reminder parameter for MCP tool descriptions */
+export const REMINDERS_PARAMS_DESCRIPTION = `- reminders: Optional, minutes before the start to remind the user, at most a week (10080)
+  - "15 minutes before" = [15], "an hour before" = [60], "a day before" = [1440]
+  - only when the user asks for a reminder`;
 
 /** Full MCP tool description for createEvent */
 export const CREATE_EVENT_DESCRIPTION = `Create a new calendar event using RELATIVE date specification.
 IMPORTANT: Do NOT compute absolute dates. Provide relative date info only.
 ${RELATIVE_DATE_PARAMS_DESCRIPTION}
+${ALL_DAY_PARAMS_DESCRIPTION}
+${RECURRENCE_PARAMS_DESCRIPTION}
+${ATTENDEES_PARAMS_DESCRIPTION}
+${REMINDERS_PARAMS_DESCRIPTION}
 
 ${RELATIVE_DATE_EXAMPLES}`;
 
 /** Full MCP tool description for getEventsInTimeSlot */
 export const GET_EVENTS_IN_TIME_SLOT_DESCRIPTION = `Get all events within a specific time slot.
 Use this tool to check what events exist in a given time range.
-Provide relative date parameters to specify the time slot.
-weekOffset can be negative for past weeks (e.g., -1 = last week).`;
+${RELATIVE_DATE_PARAMS_DESCRIPTION}
+weekOffset can be negative for past weeks (e.g., -1 = last week).
+All-day events on that day make the slot busy unless they are marked free (transparent).
+Use calendar: "all" (or a list of calendar names) to check several calendars at once;
+each event shows the calendar it belongs to.`;
+
+/** Full MCP tool description for findFreeSlots */
+export const FIND_FREE_SLOTS_DESCRIPTION = `Find free time intervals for a meeting of a given length.
+Use this to answer "when am I free?" questions, or to suggest alternatives when a requested slot is busy.
+Provide the days to search with RELATIVE date specification:
+- weekOffset alone: search that whole week (0 = this week, 1 = next week)
+- Or the first day to search, with the same date parameters as createEvent (weekOffset + weekday, dayOffset, ...)
+- endWeekOffset + endWeekday: Optional last day (inclusive). Defaults to the first day, or to the end of the week
+- durationMinutes: Required length of the free time, defaults to 60
+- workdayStart / workdayEnd: Working hours in HH:mm, default 08:00-17:00
+- bufferMinutes: Optional free time to keep before and after existing events
+- includeWeekends: Search Saturdays and Sundays too (default false)
+Returns free intervals, soonest first. Past times are never returned.
+
+Examples:
+- "when am I free next week for an hour?" = weekOffset: 1, durationMinutes: 60
+- "any 30 minutes on Thursday afternoon?" = weekOffset: 0, weekday: "thursday", durationMinutes: 30, workdayStart: "12:00"`;
 
 /** Detailed rules for system prompt - used by LLM to interpret user requests */
 export const SYSTEM_PROMPT_DATE_RULES = `CRITICAL DATE RULES - READ CAREFULLY:
-1. You must NEVER compute or output absolute dates (like 2026-01-12 or ISO timestamps).
-2. For calendar events, you MUST provide ONLY relative date information:
-   - weekOffset: number (0 = this week, 1 = next week, -1 = last week, 2 = two weeks from now, etc.)
-   - weekday: string (monday, tuesday, wednesday, thursday, friday, saturday, sunday)
-   - time: string in HH:mm format (24-hour)
+1. You must NEVER compute absolute dates (like 2026-01-12 or ISO timestamps) yourself.
+   Use the date parameter ONLY to pass on a full date the user wrote themselves.
+2. For calendar events, describe the day with the date parameters below
+   and the server will calculate the actual date.
+${RELATIVE_DATE_PARAMS_DESCRIPTION}
 
 3. Week definition (ISO-8601):
    - Week starts on MONDAY (weekday 1)
@@ -43,18 +163,84 @@ export const SYSTEM_PROMPT_DATE_RULES = `CRITICAL DATE RULES - READ CAREFULLY:
    - "This week" means the current Mon-Sun period
    - "Next week" means the NEXT Mon-Sun period (weekOffset: 1)
 
-4. Special case - "tomorrow":
-   - Calculate weekOffset and weekday based on what day tomorrow actually is
-   - If today is Thursday, tomorrow is Friday → weekOffset: 0, weekday: "friday"
-   - If today is Saturday, tomorrow is Sunday → weekOffset: 0, weekday: "sunday"
-   - If today is Sunday, tomorrow is Monday → weekOffset: 1, weekday: "monday"
-
-5. Examples of correct interpretation:
-   - "next Monday" → weekOffset: 1, weekday: "monday"
-   - "next Friday" → weekOffset: 1, weekday: "friday"
-   - "this Friday" → weekOffset: 0, weekday: "friday"
-   - "two weeks from now on Tuesday" → weekOffset: 2, weekday: "tuesday"
-   - "last Wednesday" → weekOffset: -1, weekday: "wednesday"
-   - "tomorrow" when today is Thursday → weekOffset: 0, weekday: "friday"
-
-6. The server will calculate the actual date. Your job is ONLY to extract the relative intent.`;
+4. Pick the form that matches the user's words:
+   - Weekday names ("next Monday") → weekOffset + weekday
+   - Days from today ("tomorrow", "in 10 days") → dayOffset
+   - Days of a month ("the 3rd of next month", "December 24th") → month/monthOffset + dayOfMonth
+   - "The last Friday of March" → month + nthWeekday + weekday
+
+5. ${RELATIVE_DATE_EXAMPLES}
+
+6. Your job is ONLY to extract the relative intent.`;
+
+/** Short description of how an existing event is identified */
+export const EVENT_LOCATOR_DESCRIPTION = `Identify the event EITHER by:
+- uid: the event UID from listEvents/getEventsInTimeSlot output (preferred), OR
+- title + the day it is on (date parameters such as weekOffset + weekday or dayOffset, + optional time): the event title (or part of it) and its day`;
+
+/** Full MCP tool description for updateEvent */
+export const UPDATE_EVENT_DESCRIPTION = `Update (reschedule, rename, etc.) an existing calendar event.
+${EVENT_LOCATOR_DESCRIPTION}
+
+In "changes", provide ONLY the fields that change, using RELATIVE date specification.
+Unchanged timing parts are kept: e.g. giving only weekday keeps the original week and time,
+giving only time keeps the original day. durationMinutes keeps the original duration if omitted.
+Moving an all-day event keeps it all-day and keeps its number of days; giving a time makes it a timed event.
+IMPORTANT: Do NOT compute absolute dates.
+
+For recurring events, a locator with a day targets that day's occurrence.
+Use scope "series" to change every occurrence (e.g. "move the weekly standup to Thursdays").
+
+Invite people with changes.addAttendees and uninvite them with changes.removeAttendees (emails).
+Attendees of a meeting are sent the update by email; removed attendees get a cancellation.
+
+Examples:
+- "move my dentist to Thursday" = event: { title: "dentist", ... }, changes: { weekOffset: <same or new week>, weekday: "thursday" }
+- "make the standup 30 minutes" = changes: { durationMinutes: 30 }
+- "extend my vacation until Sunday" = changes: { endWeekday: "sunday" }`;
+
+/** Full MCP tool description for deleteEvent */
+export const DELETE_EVENT_DESCRIPTION = `Delete (cancel) an existing calendar event.
+${EVENT_LOCATOR_DESCRIPTION}
+
+For recurring events, a locator with a day cancels only that occurrence.
+Use scope "series" to delete the whole series.
+Attendees of a meeting are sent a cancellation by email.
+
+Examples:
+- "cancel tomorrow's standup" = title: "standup", dayOffset: 1
+- "stop the weekly standup altogether" = title: "standup", the day of any occurrence, scope: "series"`;
+
+/** Full MCP tool description for createTask */
+export const CREATE_TASK_DESCRIPTION = `Create a task (to-do) with an optional due date, e.g. "remind me to submit the report by Friday".
+Use tasks for things the user has to do by some time; use createEvent for things that happen at a time.
+IMPORTANT: Do NOT compute absolute dates. Give the due day with exactly ONE date form, or omit it for no due date:
+${DATE_EXPRESSION_PARAMS}
+- time: Optional due time HH:mm. Omit it when the task is due on a day ("by Friday")
+- priority: Optional, high, medium or low
+- taskList: Optional task list name. Defaults to the default task list
+
+Examples:
+- "remind me to submit the report by Friday" = title: "Submit the report", weekOffset: 0, weekday: "friday"
+- "I need to call the plumber tomorrow before 10" = title: "Call the plumber", dayOffset: 1, time: "10:00"
+- "add buying milk to my to-do list" = title: "Buy milk"`;
+
+/** Full MCP tool description for listTasks */
+export const LIST_TASKS_DESCRIPTION = `List the user's tasks (to-dos), earliest due first.
+- filter: "open" (default) for tasks still to do, "overdue" for open tasks past their due date, "completed", or "all"
+- taskList: Optional task list name, or a list of them. Defaults to every task list
+Each task shows its uid, due date, priority and task list.`;
+
+/** Full MCP tool description for completeTask */
+export const COMPLETE_TASK_DESCRIPTION = `Mark a task as done.
+Identify the task by its uid from listTasks or createTask output; call listTasks first if you do not know it.`;
+
+/** Full MCP tool description for updateTask */
+export const UPDATE_TASK_DESCRIPTION = `Change an existing task: title, description, priority or due date, or reopen a completed task.
+Identify the task by its uid from listTasks or createTask output. Provide ONLY the fields that change.
+A new due day uses the same date parameters as createTask (with optional time); clearDue: true removes the due date.
+Use completeTask to mark a task as done.
+
+Examples:
+- "make the report task high priority" = uid: <uid>, priority: "high"
+- "the report is due next Monday instead" = uid: <uid>, weekOffset: 1, weekday: "monday"`;
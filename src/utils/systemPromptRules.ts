@@ -8,9 +8,57 @@ export const SYSTEM_PROMPT_WORKFLOW_RULES = `WORKFLOW FOR CREATING EVENTS WITH A
 When the user asks to create an event "if the time is free" or similar:
 1. FIRST call getEventsInTimeSlot with the relative date parameters
 2. If no events are returned, the time slot is free - call createEvent
-3. If events are returned, inform the user about the existing events
+3. If the slot is busy, call findFreeSlots for the same day with the same duration
+   and offer the user the nearest free times instead of only reporting the conflict
 
-Do NOT try to interpret dates from listEvents output. Use getEventsInTimeSlot instead.`;
+WORKFLOW FOR FINDING FREE TIME:
+When the user asks when they are free, or for a time that suits a meeting:
+1. Call findFreeSlots with the relative days, the meeting length and any
+   working-hours or buffer wishes the user mentioned
+2. Suggest a few of the returned slots; do not create an event until the user picks one
+
+CALENDARS:
+- Without a calendar parameter, tools use the user's default calendar
+- When the user names a calendar (e.g. "the Team calendar"), pass its name as calendar;
+  call listCalendars first if you are unsure of the exact name
+- When the user asks whether they are free in general, check calendar "all"
+
+Do NOT try to interpret dates from listEvents output. Use getEventsInTimeSlot instead.
+
+MEETINGS WITH OTHER PEOPLE:
+When the user wants to meet with someone ("set up a meeting with Anna"), add them as attendees
+so they get an invitation. Use only email addresses the user gave; ask for missing ones.
+
+TASKS AND TO-DOS:
+- Something the user has to do by a time, without a time slot of its own, is a task:
+  "remind me to submit the report by Friday" means createTask with title "Submit the report"
+  and weekday 5, not an event
+- Give a time only if the user said one ("by 3 pm"); otherwise the task is due on the day
+- Event reminders (createEvent reminders) are only for alerts before an event
+- When the user asks what they have to do, call listTasks (filter "overdue" for late tasks)
+- To complete or change a task, call listTasks first unless you already know its uid,
+  then completeTask or updateTask
+
+CONFIRMING CHANGES:
+When a tool answers "Confirmation required", nothing was changed yet:
+1. Read the change back to the user with its exact date and time, and ask them to confirm
+2. Do NOT call confirmAction in the same turn; wait for the user's answer
+3. If the user confirms, call confirmAction with the token; if they decline, call it with
+   confirm false. If they correct the details instead, call the original tool again
+
+DAYLIGHT SAVING TIME:
+When a tool result ends with "Warning:" about a time that does not exist or occurs twice
+because the clocks change, tell the user which time was actually used. If a tool says to
+ask the user for another time, do so instead of guessing one
+
+WORKFLOW FOR CHANGING OR CANCELLING EVENTS:
+When the user asks to move, rename, shorten or cancel an existing event:
+1. If you already know the event uid from an earlier tool result, use it
+2. Otherwise identify the event by title and the day it is on (relative date parameters)
+3. Call updateEvent with only the changed fields, or deleteEvent to cancel
+4. If the tool reports several matching events, ask the user which one they mean
+5. For recurring events, change or cancel only the occurrence the user refers to,
+   unless they clearly mean every occurrence (then use scope "series")`;
 
 /** Tool usage and reasoning rules for LLM */
 export const SYSTEM_PROMPT_TOOL_RULES = `ABSOLUTE RULE:
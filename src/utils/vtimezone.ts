@@ -0,0 +1,136 @@
+/**
+ * VTIMEZONE components (RFC 5545 3.6.5) for IANA zones, so every TZID
+ * written has a definition in the same object. The definition follows the
+ * zone's rules in a reference year: a yearly rule for each DST transition
+ * (e.g. the last Sunday of March), or a single STANDARD observance for
+ * zones without DST.
+ */
+import { DateTime, IANAZone } from 'luxon';
+import type { ICalComponent, ICalProperty } from '@/utils/ical-parser';
+
+const ICAL_WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const HOUR_MS = 3_600_000;
+
+/** An offset change of a zone */
+type Transition = {
+  /** First instant of the new offset */
+  at: number;
+  /** Offsets in minutes before and after */
+  from: number;
+  to: number;
+};
+
+const property = (name: string, value: string): ICalProperty => ({
+  name,
+  params: {},
+  value,
+});
+
+/** UTC offset in minutes as written in TZOFFSETFROM/TO, e.g. "+0300" */
+const formatOffset = (minutes: number): string => {
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hours}${String(abs % 60).padStart(2, '0')}`;
+};
+
+/** The offset changes of a zone in a year, in order */
+const findTransitions = (zone: IANAZone, year: number): Transition[] => {
+  const transitions: Transition[] = [];
+  const end = DateTime.utc(year + 1).toMillis();
+  for (let ms = DateTime.utc(year).toMillis(); ms < end; ms += HOUR_MS) {
+    const from = zone.offset(ms);
+    const to = zone.offset(ms + HOUR_MS);
+    if (from === to) continue;
+
+    // Narrow down to the minute
+    let [low, high] = [ms, ms + HOUR_MS];
+    while (high - low > 60_000) {
+      const middle = low + Math.floor((high - low) / 120_000) * 60_000;
+      if (zone.offset(middle) === from) low = middle;
+      else high = middle;
+    }
+    transitions.push({ at: high, from, to });
+  }
+  return transitions;
+};
+
+/**
+ * The observance that starts at a transition, repeated on the same
+ * weekday of the month every year, e.g. BYMONTH=3;BYDAY=-1SU. Its DTSTART is
+ * the first such onset in 1970, so it also covers dates before the
+ * reference year.
+ */
+const observance = ({ at, from, to }: Transition): ICalComponent => {
+  // Onsets are local times in the offset before the transition
+  const onset = DateTime.fromMillis(at, { zone: 'utc' }).plus({
+    minutes: from,
+  });
+  const last = onset.day + 7 > onset.daysInMonth!;
+  const nth = last ? -1 : Math.ceil(onset.day / 7);
+
+  const month = DateTime.utc(1970, onset.month);
+  const first = last
+    ? month
+        .endOf('month')
+        .startOf('day')
+        .minus({ days: (month.endOf('month').weekday - onset.weekday + 7) % 7 })
+    : month.plus({
+        days: ((onset.weekday - month.weekday + 7) % 7) + (nth - 1) * 7,
+      });
+
+  return {
+    name: to > from ? 'DAYLIGHT' : 'STANDARD',
+    properties: [
+      property(
+        'DTSTART',
+        first
+          .set({ hour: onset.hour, minute: onset.minute })
+          .toFormat("yyyyMMdd'T'HHmmss"),
+      ),
+      property(
+        'RRULE',
+        `FREQ=YEARLY;BYMONTH=${onset.month};BYDAY=${nth}${ICAL_WEEKDAYS[onset.weekday - 1]}`,
+      ),
+      property('TZOFFSETFROM', formatOffset(from)),
+      property('TZOFFSETTO', formatOffset(to)),
+    ],
+    components: [],
+  };
+};
+
+/**
+ * Build a VTIMEZONE for an IANA zone, following its rules in a year.
+ * @param tzid - IANA timezone, used as the TZID
+ * @param year - Reference year of the rules
+ * @returns null if the zone is not a valid IANA zone
+ */
+export const buildTimezoneComponent = (
+  tzid: string,
+  year: number,
+): ICalComponent | null => {
+  if (!IANAZone.isValidZone(tzid)) return null;
+  const zone = IANAZone.create(tzid);
+  const transitions = findTransitions(zone, year);
+
+  const offset = zone.offset(DateTime.utc(year).toMillis());
+  const observances = transitions.length
+    ? transitions.map(observance)
+    : [
+        {
+          name: 'STANDARD',
+          properties: [
+            property('DTSTART', '19700101T000000'),
+            property('TZOFFSETFROM', formatOffset(offset)),
+            property('TZOFFSETTO', formatOffset(offset)),
+          ],
+          components: [],
+        },
+      ];
+
+  return {
+    name: 'VTIMEZONE',
+    properties: [property('TZID', tzid)],
+    components: observances,
+  };
+};
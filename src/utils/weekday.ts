@@ -78,19 +78,96 @@ export const optionalTimezoneSchema = z
   });
 
 /**
- * Shared Zod schema for relative time input fields.
- * Used by createEvent and getEventsInTimeSlot MCP tools.
+ * Shared Zod schema for date expressions: the ways the LLM may describe a day.
+ * Exactly one way is used per date; the server resolves it to an absolute date.
+ * The field descriptions also generate the date rules of the prompts
+ * (see relativeDateRules.ts), so keep them self-contained.
  */
-export const relativeTimeInputSchema = {
+export const dateExpressionInputSchema = {
   weekOffset: z
     .number()
     .int()
+    .optional()
     .describe(
-      'Week offset from current week. 0 = this week, 1 = next week, -1 = last week, etc.',
+      'Week offset from current week, used with weekday. 0 = this week, 1 = next week, -1 = last week, etc.',
     ),
-  weekday: weekdaySchema.describe(
-    'Target weekday (monday, tuesday, wednesday, thursday, friday, saturday, sunday)',
-  ),
+  weekday: weekdaySchema
+    .optional()
+    .describe(
+      'Target weekday (monday-sunday). Used with weekOffset, or with nthWeekday for "the 2nd Tuesday of a month"',
+    ),
+  dayOffset: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      'Days from today. 0 = today, 1 = tomorrow, -1 = yesterday, 10 = in ten days',
+    ),
+  monthOffset: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      'Month offset from current month, used with dayOfMonth or nthWeekday. 0 = this month, 1 = next month',
+    ),
+  month: z
+    .number()
+    .int()
+    .min(1)
+    .max(12)
+    .optional()
+    .describe(
+      'Calendar month 1-12 (3 = March), used with dayOfMonth or nthWeekday. The next such date unless year is given',
+    ),
+  year: z
+    .number()
+    .int()
+    .optional()
+    .describe('Year, only together with month and only if the user says it'),
+  dayOfMonth: z
+    .number()
+    .int()
+    .min(-1)
+    .max(31)
+    .refine((day) => day !== 0, { message: 'dayOfMonth cannot be 0.' })
+    .optional()
+    .describe('Day of the month 1-31, or -1 for the last day of the month'),
+  nthWeekday: z
+    .number()
+    .int()
+    .min(-1)
+    .max(5)
+    .refine((n) => n !== 0, { message: 'nthWeekday cannot be 0.' })
+    .optional()
+    .describe(
+      'Which weekday of the month, used with weekday: 1 = first, 2 = second, -1 = last',
+    ),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe(
+      'Explicit date YYYY-MM-DD. ONLY when the user wrote the full date including the year',
+    ),
+};
+
+export type DateExpression = {
+  [K in keyof typeof dateExpressionInputSchema]?: z.infer<
+    (typeof dateExpressionInputSchema)[K]
+  >;
+};
+
+/** Field names of a date expression */
+export const DATE_EXPRESSION_KEYS = Object.keys(
+  dateExpressionInputSchema,
+) as (keyof DateExpression)[];
+
+/**
+ * Shared Zod schema for relative time input fields.
+ * Used by createEvent and getEventsInTimeSlot MCP tools.
+ */
+export const relativeTimeInputSchema = {
+  ...dateExpressionInputSchema,
   time: z
     .string()
     .regex(/^\d{2}:\d{2}$/)
@@ -115,3 +192,28 @@ export const relativeTimeInputSchema = {
     'IANA timezone (e.g., "Europe/Helsinki"). Defaults to Europe/Helsinki if not specified.',
   ),
 };
+
+/**
+ * Shared Zod schema for all-day and multi-day event fields.
+ * Used by the createEvent and updateEvent MCP tools.
+ */
+export const allDayInputSchema = {
+  allDay: z
+    .boolean()
+    .optional()
+    .describe(
+      'Whole-day event (birthdays, holidays, vacations). time and durationMinutes are ignored',
+    ),
+  endWeekOffset: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      'Multi-day all-day events: week offset of the LAST day. Defaults to the week of the first day',
+    ),
+  endWeekday: weekdaySchema
+    .optional()
+    .describe(
+      'Multi-day all-day events: weekday of the LAST day (inclusive). Omit for a single day',
+    ),
+};
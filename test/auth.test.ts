@@ -0,0 +1,238 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  createFileUserStore,
+  createInMemoryUserStore,
+  hashToken,
+  setUserStore,
+} from '@/auth/userStore';
+import { startTestApp, type TestApp } from './support/testApp';
+import {
+  startFakeChatServer,
+  type FakeChatServer,
+} from './support/fakeChatServer';
+
+const ALICE = 'alice-token';
+const BOB = 'bob-token';
+
+describe('API authentication', () => {
+  let testApp: TestApp;
+  let chat: FakeChatServer;
+
+  /** Call an MCP tool as the owner of the token and return its text */
+  const callToolAs = async (
+    token: string,
+    name: string,
+    args: Record<string, unknown>,
+  ) => {
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`${testApp.baseUrl}/api/v1/mcp`),
+      { requestInit: { headers: { Authorization: `Bearer ${token}` } } },
+    );
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+    try {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as { text: string }[];
+      return content.map((item) => item.text).join('\n');
+    } finally {
+      await transport.close();
+    }
+  };
+
+  const postPromptAs = (token: string, body: Record<string, unknown>) =>
+    fetch(`${testApp.baseUrl}/api/v1/client`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+  before(async () => {
+    testApp = await startTestApp();
+    chat = await startFakeChatServer();
+    process.env.LLM_BASE_URL = chat.url;
+  });
+
+  after(async () => {
+    await chat.close();
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.reset();
+    setUserStore(
+      createInMemoryUserStore([
+        { token: ALICE, user: { id: 'alice' } },
+        { token: BOB, user: { id: 'bob' } },
+      ]),
+    );
+  });
+
+  it('rejects requests without a valid bearer token', async () => {
+    const missing = await fetch(`${testApp.baseUrl}/api/v1/client/sessions`);
+    assert.equal(missing.status, 401);
+    assert.match(missing.headers.get('www-authenticate') ?? '', /^Bearer/);
+
+    const invalid = await fetch(`${testApp.baseUrl}/api/v1/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer nope' },
+    });
+    assert.equal(invalid.status, 401);
+    assert.equal((await invalid.json()).message, 'Invalid bearer token');
+  });
+
+  it('keeps each user in their own calendars', async () => {
+    const created = await callToolAs(ALICE, 'createEvent', {
+      title: 'Dentist',
+      dayOffset: 1,
+      time: '10:00',
+    });
+    assert.match(created, /^Successfully scheduled/);
+
+    assert.match(await callToolAs(ALICE, 'listEvents', {}), /Dentist/);
+    assert.match(await callToolAs(BOB, 'listEvents', {}), /No events found/);
+  });
+
+  it('keeps the in-memory calendars of idle users', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    await callToolAs(ALICE, 'createEvent', {
+      title: 'Dentist',
+      dayOffset: 1,
+      time: '10:00',
+    });
+
+    // Past CALENDAR_BACKEND_IDLE_MINUTES, Bob's call evicts idle backends
+    t.mock.timers.tick(31 * 60_000);
+    await callToolAs(BOB, 'listEvents', {});
+    assert.match(await callToolAs(ALICE, 'listEvents', {}), /Dentist/);
+  });
+
+  it("forwards the caller's identity from the client endpoint", async () => {
+    chat.enqueue(
+      {
+        toolCalls: [
+          {
+            name: 'createEvent',
+            arguments: { title: 'Dentist', dayOffset: 1, time: '10:00' },
+          },
+        ],
+      },
+      { content: 'Booked.' },
+    );
+
+    const res = await postPromptAs(BOB, { prompt: 'Book the dentist' });
+    assert.equal(res.status, 200);
+    assert.match(await callToolAs(BOB, 'listEvents', {}), /Dentist/);
+    assert.match(await callToolAs(ALICE, 'listEvents', {}), /No events found/);
+  });
+
+  it('keeps sessions private', async () => {
+    chat.enqueue({ content: 'Hi Alice.' });
+    const { sessionId } = await (
+      await postPromptAs(ALICE, { prompt: 'Hi' })
+    ).json();
+
+    const continued = await postPromptAs(BOB, { prompt: 'Hi', sessionId });
+    assert.equal(continued.status, 404);
+
+    const list = (token: string) =>
+      fetch(`${testApp.baseUrl}/api/v1/client/sessions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      }).then((r) => r.json());
+    assert.equal((await list(ALICE)).length, 1);
+    assert.deepEqual(await list(BOB), []);
+
+    const deleted = await fetch(
+      `${testApp.baseUrl}/api/v1/client/sessions/${sessionId}`,
+      { method: 'DELETE', headers: { Authorization: `Bearer ${BOB}` } },
+    );
+    assert.equal(deleted.status, 404);
+    assert.equal((await list(ALICE)).length, 1);
+  });
+
+  it("does not let users use each other's MCP sessions", async () => {
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`${testApp.baseUrl}/api/v1/mcp`),
+      { requestInit: { headers: { Authorization: `Bearer ${ALICE}` } } },
+    );
+    await new Client({ name: 'test', version: '1.0.0' }).connect(transport);
+
+    const res = await fetch(`${testApp.baseUrl}/api/v1/mcp`, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${BOB}`,
+        'mcp-session-id': transport.sessionId ?? '',
+      },
+    });
+    assert.equal(res.status, 404);
+    await transport.terminateSession();
+    await transport.close();
+  });
+
+  it('requires a CalDAV account for each user', async () => {
+    process.env.CALENDAR_BACKEND = 'caldav';
+    try {
+      const text = await callToolAs(BOB, 'listCalendars', {});
+      assert.match(
+        text,
+        /^Error: No CalDAV account is configured for user "bob"/,
+      );
+    } finally {
+      process.env.CALENDAR_BACKEND = 'memory';
+    }
+  });
+});
+
+describe('users file', () => {
+  it('finds users by the hash of their token', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+    try {
+      const filePath = path.join(dir, 'users.json');
+      await fs.writeFile(
+        filePath,
+        JSON.stringify([
+          {
+            id: 'alice',
+            tokenSha256: hashToken(ALICE),
+            caldav: { username: 'alice', password: 'secret' },
+          },
+        ]),
+      );
+      const store = createFileUserStore(filePath);
+
+      assert.deepEqual(await store.findByToken(ALICE), {
+        id: 'alice',
+        caldav: { username: 'alice', password: 'secret' },
+      });
+      assert.equal(await store.findByToken(BOB), undefined);
+      assert.deepEqual(
+        (await store.list()).map((user) => user.id),
+        ['alice'],
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects an invalid file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+    try {
+      const filePath = path.join(dir, 'users.json');
+      await fs.writeFile(filePath, JSON.stringify([{ id: '../alice' }]));
+      await assert.rejects(
+        createFileUserStore(filePath).findByToken(ALICE),
+        /Invalid users file/,
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  CLOCK_HEADER,
+  getNow,
+  parseClockOverride,
+  setClock,
+} from '@/utils/clock';
+import { getCurrentDateInfo } from '@/utils/relativeDateCalculator';
+import { startTestApp, type TestApp } from './support/testApp';
+import {
+  startFakeChatServer,
+  type FakeChatServer,
+} from './support/fakeChatServer';
+
+/** Half an hour before the clocks go forward in Helsinki */
+const BEFORE_DST = '2026-03-29T02:30 Europe/Helsinki';
+
+describe('clock', () => {
+  let testApp: TestApp;
+  let chat: FakeChatServer;
+  const openClients: Client[] = [];
+
+  /** Connect an MCP client that sends the clock header */
+  const connect = async (clockNow: string) => {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(
+        new URL(`${testApp.baseUrl}/api/v1/mcp`),
+        { requestInit: { headers: { [CLOCK_HEADER]: clockNow } } },
+      ),
+    );
+    openClients.push(client);
+    return client;
+  };
+
+  const createDentist = (client: Client) =>
+    client.callTool({
+      name: 'createEvent',
+      arguments: { title: 'Dentist', dayOffset: 1, time: '10:00' },
+    });
+
+  before(async () => {
+    testApp = await startTestApp();
+    chat = await startFakeChatServer();
+    process.env.LLM_BASE_URL = chat.url;
+  });
+
+  after(async () => {
+    await Promise.all(openClients.map((client) => client.close()));
+    await chat.close();
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.reset();
+    process.env.ALLOW_CLOCK_OVERRIDE = '1';
+  });
+
+  it('parses overrides with an offset or a timezone', () => {
+    const expected = '2026-03-29T00:30:00.000Z';
+    assert.equal(parseClockOverride(BEFORE_DST).toISOString(), expected);
+    assert.equal(
+      parseClockOverride('2026-03-29T02:30+02:00').toISOString(),
+      expected,
+    );
+    assert.equal(
+      parseClockOverride('2026-03-29T00:30Z').toISOString(),
+      expected,
+    );
+    assert.throws(
+      () => parseClockOverride('2026-03-29T02:30'),
+      /Invalid clock override/,
+    );
+    assert.throws(
+      () => parseClockOverride('2026-03-29T02:30 Mars/Olympus'),
+      /Invalid clock override/,
+    );
+  });
+
+  it('starts the process clock at CLOCK_NOW', (t) => {
+    process.env.CLOCK_NOW = '2025-01-05T23:30 Europe/Helsinki';
+    t.after(() => {
+      process.env.CLOCK_NOW = '';
+      setClock(null);
+    });
+    setClock(null);
+
+    assert.match(
+      getCurrentDateInfo('Europe/Helsinki'),
+      /^Current date: 2025-01-05 \(sunday\), Current time: 23:30/,
+    );
+    assert.ok(getNow().getTime() - Date.parse('2025-01-05T21:30Z') < 60_000);
+  });
+
+  it('resolves dates and stamps events at the time of the header', async () => {
+    const result = await createDentist(await connect(BEFORE_DST));
+    const meta = result._meta as { resolvedDates: { start: string } };
+    // Tomorrow is already in summer time
+    assert.equal(meta.resolvedDates.start, '2026-03-30T10:00:00.000+03:00');
+
+    const [object] = testApp.calendars.getObjects('Personal');
+    assert.match(object.data, /DTSTAMP:20260329T0030\d{2}Z/);
+  });
+
+  it('refuses the header unless ALLOW_CLOCK_OVERRIDE is set', async () => {
+    process.env.ALLOW_CLOCK_OVERRIDE = '';
+    await assert.rejects(connect(BEFORE_DST), /header is not allowed/);
+
+    process.env.ALLOW_CLOCK_OVERRIDE = '1';
+    await assert.rejects(connect('yesterday'), /Invalid clock override/);
+  });
+
+  it('forwards the clock of a prompt to the tools', async () => {
+    chat.enqueue(
+      {
+        toolCalls: [
+          {
+            name: 'createEvent',
+            arguments: { title: 'Dentist', dayOffset: 1, time: '10:00' },
+          },
+        ],
+      },
+      { content: 'Booked.' },
+    );
+    const res = await fetch(`${testApp.baseUrl}/api/v1/client?trace=1`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [CLOCK_HEADER]: BEFORE_DST,
+      },
+      body: JSON.stringify({ prompt: 'Dentist tomorrow at 10' }),
+    });
+    const { trace } = await res.json();
+
+    assert.match(
+      trace.system,
+      /Current date: 2026-03-29 \(sunday\), Current time: 02:30/,
+    );
+    assert.equal(
+      trace.rounds[0].toolCalls[0].resolvedDates.start,
+      '2026-03-30T10:00:00.000+03:00',
+    );
+  });
+});
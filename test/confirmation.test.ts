@@ -0,0 +1,263 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  parseConfirmationPolicies,
+  setConfirmationConfig,
+  type ConfirmationConfig,
+} from '@/mcp-server/confirmation';
+import { startTestApp, type TestApp } from './support/testApp';
+import {
+  startFakeChatServer,
+  type FakeChatServer,
+} from './support/fakeChatServer';
+
+/** A Wednesday, so working hours apply */
+const WEDNESDAY = '2030-01-02';
+
+describe('write confirmation', () => {
+  let testApp: TestApp;
+  const openClients: Client[] = [];
+
+  /** Connect an MCP client; with confirm, it answers elicitations with it */
+  const connect = async (confirm?: boolean) => {
+    const client = new Client(
+      { name: 'test', version: '1.0.0' },
+      { capabilities: confirm === undefined ? {} : { elicitation: {} } },
+    );
+    if (confirm !== undefined) {
+      client.setRequestHandler(ElicitRequestSchema, async () => ({
+        action: 'accept',
+        content: { confirm },
+      }));
+    }
+    await client.connect(
+      new StreamableHTTPClientTransport(
+        new URL(`${testApp.baseUrl}/api/v1/mcp`),
+      ),
+    );
+    openClients.push(client);
+    return client;
+  };
+
+  /** Call a tool and return its text and structured content */
+  const callTool = async (
+    client: Client,
+    name: string,
+    args: Record<string, unknown>,
+  ) => {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text: string }[];
+    return {
+      text: content.map((item) => item.text).join('\n'),
+      structured: result.structuredContent as
+        | {
+            pendingAction?: { token: string; summary: string };
+            confirmationStatus?: string;
+          }
+        | undefined,
+    };
+  };
+
+  const usePolicies = (value: string) =>
+    setConfirmationConfig({
+      ...parseConfirmationPolicies(value),
+      workdayStart: '08:00',
+      workdayEnd: '17:00',
+    } satisfies ConfirmationConfig);
+
+  const createMeeting = (client: Client, time: string) =>
+    callTool(client, 'createEvent', { title: 'Review', date: WEDNESDAY, time });
+
+  before(async () => {
+    testApp = await startTestApp();
+  });
+
+  after(async () => {
+    await Promise.all(openClients.map((client) => client.close()));
+    await testApp.close();
+  });
+
+  beforeEach(() => testApp.reset());
+
+  it('parses policies per tool', () => {
+    assert.deepEqual(
+      parseConfirmationPolicies('on-conflict, deleteEvent=always'),
+      { defaultPolicy: 'on-conflict', policies: { deleteEvent: 'always' } },
+    );
+    assert.throws(
+      () => parseConfirmationPolicies('listEvents=always'),
+      /Unknown write tool "listEvents"/,
+    );
+    assert.throws(() => parseConfirmationPolicies('sometimes'), /policy/);
+  });
+
+  it('holds a write until it is confirmed with the token', async () => {
+    usePolicies('createEvent=always');
+    const client = await connect();
+
+    const { text, structured } = await createMeeting(client, '10:00');
+    assert.match(text, /^Confirmation required, nothing was changed yet/);
+    assert.equal(
+      structured?.pendingAction?.summary,
+      'Create event "Review" on keskiviikko 2.1.2030 10:00 - 11:00 (Europe/Helsinki) in the default calendar',
+    );
+    assert.equal(testApp.calendars.getObjects('Personal').length, 0);
+
+    const token = structured?.pendingAction?.token;
+    const confirmed = await callTool(client, 'confirmAction', { token });
+    assert.match(confirmed.text, /^Successfully scheduled "Review"/);
+    assert.equal(confirmed.structured?.confirmationStatus, 'confirmed');
+    assert.equal(testApp.calendars.getObjects('Personal').length, 1);
+
+    const again = await callTool(client, 'confirmAction', { token });
+    assert.match(again.text, /^Error: No pending action/);
+    assert.equal(again.structured?.confirmationStatus, 'not_found');
+  });
+
+  it('asks only when the event overlaps a busy one', async () => {
+    usePolicies('on-conflict');
+    const client = await connect();
+
+    const first = await createMeeting(client, '10:00');
+    assert.match(first.text, /^Successfully scheduled/);
+
+    const overlapping = await createMeeting(client, '10:30');
+    assert.match(overlapping.text, /overlaps 1 event\(s\)/);
+    const cancelled = await callTool(client, 'confirmAction', {
+      token: overlapping.structured?.pendingAction?.token,
+      confirm: false,
+    });
+    assert.match(cancelled.text, /^Cancelled: Create event "Review"/);
+    assert.equal(cancelled.structured?.confirmationStatus, 'cancelled');
+    assert.equal(testApp.calendars.getObjects('Personal').length, 1);
+  });
+
+  it('asks only outside working hours', async () => {
+    usePolicies('outside-working-hours');
+    const client = await connect();
+
+    assert.match((await createMeeting(client, '09:00')).text, /^Successfully/);
+    const evening = await createMeeting(client, '20:00');
+    assert.match(evening.text, /outside working hours \(08:00-17:00/);
+    assert.equal(testApp.calendars.getObjects('Personal').length, 1);
+  });
+
+  it('asks clients that support elicitation right away', async () => {
+    usePolicies('always');
+
+    const accepted = await createMeeting(await connect(true), '10:00');
+    assert.match(accepted.text, /^Successfully scheduled/);
+    const declined = await createMeeting(await connect(false), '12:00');
+    assert.match(declined.text, /^Cancelled, the user did not confirm/);
+    assert.equal(testApp.calendars.getObjects('Personal').length, 1);
+  });
+
+  describe('POST /api/v1/client/confirm', () => {
+    let chat: FakeChatServer;
+
+    const post = (path: string, body: Record<string, unknown>) =>
+      fetch(`${testApp.baseUrl}/api/v1/client${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    before(async () => {
+      chat = await startFakeChatServer();
+      process.env.LLM_BASE_URL = chat.url;
+    });
+
+    after(() => chat.close());
+
+    it('confirms a pending action of a prompt and records it in the session', async () => {
+      usePolicies('always');
+      chat.enqueue(
+        {
+          toolCalls: [
+            {
+              name: 'createEvent',
+              arguments: { title: 'Review', date: WEDNESDAY, time: '10:00' },
+            },
+          ],
+        },
+        { content: 'Shall I book Review on Wednesday at 10?' },
+      );
+      const prompt = await (
+        await post('', { prompt: 'Book a review on 2.1.2030 at 10' })
+      ).json();
+      assert.equal(prompt.pendingActions.length, 1);
+      const [{ token, tool }] = prompt.pendingActions;
+      assert.equal(tool, 'createEvent');
+      assert.equal(testApp.calendars.getObjects('Personal').length, 0);
+
+      const res = await post('/confirm', {
+        token,
+        sessionId: prompt.sessionId,
+      });
+      assert.equal(res.status, 200);
+      const confirmed = await res.json();
+      assert.equal(confirmed.status, 'confirmed');
+      assert.match(confirmed.answer, /^Successfully scheduled/);
+      assert.equal(testApp.calendars.getObjects('Personal').length, 1);
+
+      const sessions = await (
+        await fetch(`${testApp.baseUrl}/api/v1/client/sessions`)
+      ).json();
+      assert.equal(sessions[0].turns, 2);
+
+      const again = await post('/confirm', {
+        token,
+        sessionId: prompt.sessionId,
+      });
+      assert.equal(again.status, 404);
+      const unchanged = await (
+        await fetch(`${testApp.baseUrl}/api/v1/client/sessions`)
+      ).json();
+      assert.equal(unchanged[0].turns, 2);
+    });
+
+    it('does not let the model confirm a write held in the same turn', async () => {
+      usePolicies('always');
+      chat.enqueue({
+        toolCalls: [
+          {
+            name: 'createEvent',
+            arguments: { title: 'Review', date: WEDNESDAY, time: '10:00' },
+          },
+        ],
+      });
+      // The model reads the token from the tool result and tries to use it
+      let token = '';
+      chat.enqueue(
+        (request) => {
+          token = /token \\"([^\\]+)\\"/.exec(JSON.stringify(request))![1];
+          return {
+            toolCalls: [{ name: 'confirmAction', arguments: { token } }],
+          };
+        },
+        { content: 'Shall I book Review on Wednesday at 10?' },
+      );
+      const prompt = await (
+        await post('', { prompt: 'Book a review on 2.1.2030 at 10' })
+      ).json();
+      assert.equal(testApp.calendars.getObjects('Personal').length, 0);
+
+      const refused = chat.requests.at(-1)?.messages.at(-1);
+      assert.match(
+        String(refused?.content),
+        /^Error: The user has not answered/,
+      );
+
+      // A later turn, after the user answered, may confirm it
+      chat.enqueue(
+        { toolCalls: [{ name: 'confirmAction', arguments: { token } }] },
+        { content: 'Booked.' },
+      );
+      await post('', { prompt: 'Yes', sessionId: prompt.sessionId });
+      assert.equal(testApp.calendars.getObjects('Personal').length, 1);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { DateTime } from 'luxon';
+import { createFixedClock, setClock } from '@/utils/clock';
+import { resolveLocalTime, setDstPolicy } from '@/utils/dst';
+import { calculateEndDate } from '@/utils/relativeDateCalculator';
+import { startTestApp, type TestApp } from './support/testApp';
+
+const HELSINKI = 'Europe/Helsinki';
+
+/** The clocks go forward from 03:00 to 04:00 in Helsinki */
+const SPRING_FORWARD = { year: 2026, month: 3, day: 29 };
+/** The clocks go back from 04:00 to 03:00 in Helsinki */
+const FALL_BACK = { year: 2026, month: 10, day: 25 };
+
+const toIso = (date: Date) =>
+  DateTime.fromJSDate(date).setZone(HELSINKI).toISO();
+
+describe('DST handling', () => {
+  let testApp: TestApp;
+  let client: Client;
+  let transport: StreamableHTTPClientTransport;
+
+  /** Call a tool the day before a DST switch and return its text */
+  const callToolBefore = async (
+    day: { year: number; month: number; day: number },
+    name: string,
+    args: Record<string, unknown>,
+  ) => {
+    const now = DateTime.fromObject(day, { zone: HELSINKI }).minus({ days: 1 });
+    setClock(createFixedClock(now.set({ hour: 12 }).toJSDate()));
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text: string }[];
+    return {
+      text: content.map((item) => item.text).join('\n'),
+      meta: result._meta as { resolvedDates: { start: string; end: string } },
+    };
+  };
+
+  before(async () => {
+    testApp = await startTestApp();
+    transport = new StreamableHTTPClientTransport(
+      new URL(`${testApp.baseUrl}/api/v1/mcp`),
+    );
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+  });
+
+  after(async () => {
+    await transport.close();
+    await testApp.close();
+  });
+
+  beforeEach(() => testApp.reset());
+
+  it('shifts a skipped local time forward, or rejects it', () => {
+    const local = { ...SPRING_FORWARD, hour: 3, minute: 30 };
+    const { dateTime, warning } = resolveLocalTime(HELSINKI, local);
+    assert.equal(dateTime.toISO(), '2026-03-29T04:30:00.000+03:00');
+    assert.equal(
+      warning,
+      '03:30 on 2026-03-29 in Europe/Helsinki does not exist: the clocks go forward by 1 hour, so 04:30 is used instead.',
+    );
+
+    assert.throws(
+      () =>
+        resolveLocalTime(HELSINKI, local, {
+          gap: 'reject',
+          overlap: 'earlier',
+        }),
+      /does not exist: .* Ask the user for another time/,
+    );
+    assert.equal(
+      resolveLocalTime(HELSINKI, { ...local, hour: 2 }).warning,
+      undefined,
+    );
+  });
+
+  it('picks the earlier or later of a repeated local time', () => {
+    const local = { ...FALL_BACK, hour: 3, minute: 30 };
+    const earlier = resolveLocalTime(HELSINKI, local);
+    assert.equal(earlier.dateTime.toISO(), '2026-10-25T03:30:00.000+03:00');
+    assert.match(earlier.warning ?? '', /occurs twice: .* the first one/);
+
+    const later = resolveLocalTime(HELSINKI, local, {
+      gap: 'shift-forward',
+      overlap: 'later',
+    });
+    assert.equal(later.dateTime.toISO(), '2026-10-25T03:30:00.000+02:00');
+    assert.throws(
+      () =>
+        resolveLocalTime(HELSINKI, local, {
+          gap: 'shift-forward',
+          overlap: 'reject',
+        }),
+      /occurs twice/,
+    );
+  });
+
+  it('counts durations in elapsed or wall-clock time', () => {
+    const start = DateTime.fromObject(
+      { ...SPRING_FORWARD, hour: 1 },
+      { zone: HELSINKI },
+    ).toJSDate();
+    const options = { timezone: HELSINKI };
+
+    assert.equal(
+      toIso(calculateEndDate(start, 240, options)),
+      '2026-03-29T06:00:00.000+03:00',
+    );
+    assert.equal(
+      toIso(calculateEndDate(start, 240, { ...options, mode: 'wall-clock' })),
+      '2026-03-29T05:00:00.000+03:00',
+    );
+
+    setDstPolicy({
+      gap: 'shift-forward',
+      overlap: 'earlier',
+      duration: 'wall-clock',
+    });
+    assert.equal(
+      toIso(calculateEndDate(start, 240, options)),
+      '2026-03-29T05:00:00.000+03:00',
+    );
+  });
+
+  it('warns in the tool output when DST moves a time', async () => {
+    const created = await callToolBefore(SPRING_FORWARD, 'createEvent', {
+      title: 'Night flight',
+      dayOffset: 1,
+      time: '03:30',
+    });
+    assert.match(created.text, /^Successfully scheduled "Night flight"/);
+    assert.match(
+      created.text,
+      /\nWarning: 03:30 on 2026-03-29 .* does not exist/,
+    );
+    assert.equal(
+      created.meta.resolvedDates.start,
+      '2026-03-29T04:30:00.000+03:00',
+    );
+
+    const slot = await callToolBefore(FALL_BACK, 'getEventsInTimeSlot', {
+      dayOffset: 1,
+      time: '03:30',
+    });
+    assert.match(slot.text, /AVAILABLE/);
+    assert.match(slot.text, /\nWarning: 03:30 on 2026-10-25 .* occurs twice/);
+  });
+
+  it('warns when an event is moved to a time DST skips', async () => {
+    await callToolBefore(SPRING_FORWARD, 'createEvent', {
+      title: 'Night flight',
+      dayOffset: 1,
+      time: '01:00',
+    });
+    const moved = await callToolBefore(SPRING_FORWARD, 'updateEvent', {
+      event: { title: 'night flight', dayOffset: 1 },
+      changes: { time: '03:30' },
+    });
+    assert.match(moved.text, /^Successfully updated event/);
+    assert.match(
+      moved.text,
+      /\nWarning: 03:30 on 2026-03-29 .* does not exist: .* 04:30 is used instead\.$/,
+    );
+    assert.equal(
+      moved.meta.resolvedDates.start,
+      '2026-03-29T04:30:00.000+03:00',
+    );
+  });
+
+  it('refuses to create an event at a rejected time', async () => {
+    setDstPolicy({ gap: 'reject', overlap: 'reject', duration: 'elapsed' });
+    const { text } = await callToolBefore(SPRING_FORWARD, 'createEvent', {
+      title: 'Night flight',
+      dayOffset: 1,
+      time: '03:30',
+    });
+    assert.match(text, /^Error: .* does not exist/);
+    assert.deepEqual(testApp.calendars.getObjects('Personal'), []);
+  });
+});
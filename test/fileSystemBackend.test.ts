@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createFileSystemBackend } from '@/calDav/fileSystemBackend';
+import type { CalendarBackend, CalendarInfo } from '@/calDav/calendarBackend';
+
+const ICS = (summary: string) =>
+  `BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:1\r\nSUMMARY:${summary}\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n`;
+
+describe('file system calendar backend', () => {
+  let root: string;
+  let backend: CalendarBackend;
+  let calendar: CalendarInfo;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'calendars-'));
+    backend = createFileSystemBackend(root);
+    [calendar] = await backend.listCalendars();
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('creates a default calendar directory', async () => {
+    assert.equal(calendar.name, 'Calendar');
+    assert.ok((await fs.stat(path.join(root, 'Calendar'))).isDirectory());
+  });
+
+  it('lists subdirectories as calendars', async () => {
+    await fs.mkdir(path.join(root, 'Work'));
+    const names = (await backend.listCalendars()).map((c) => c.name);
+    assert.deepEqual(names, ['Calendar', 'Work']);
+  });
+
+  it('stores objects as .ics files', async () => {
+    const created = await backend.createObject(calendar, 'a.ics', ICS('A'));
+    assert.equal(
+      await fs.readFile(path.join(root, 'Calendar', 'a.ics'), 'utf8'),
+      ICS('A'),
+    );
+
+    const [fetched] = await backend.fetchObjects(calendar);
+    assert.deepEqual(fetched, created);
+    await assert.rejects(
+      backend.createObject(calendar, 'a.ics', ICS('B')),
+      /modified by someone else/,
+    );
+  });
+
+  it('rejects writes with a stale etag', async () => {
+    const created = await backend.createObject(calendar, 'a.ics', ICS('A'));
+    const updated = await backend.updateObject({ ...created, data: ICS('B') });
+    assert.notEqual(updated.etag, created.etag);
+
+    await assert.rejects(
+      backend.updateObject({ ...created, data: ICS('C') }),
+      /modified by someone else/,
+    );
+    await assert.rejects(backend.deleteObject(created), /modified/);
+
+    await backend.deleteObject(updated);
+    assert.deepEqual(await backend.fetchObjects(calendar), []);
+  });
+
+  it('detects changes made by other programs', async () => {
+    const created = await backend.createObject(calendar, 'a.ics', ICS('A'));
+    await fs.writeFile(path.join(root, 'Calendar', 'a.ics'), ICS('Edited'));
+    await assert.rejects(
+      backend.updateObject({ ...created, data: ICS('B') }),
+      /modified by someone else/,
+    );
+  });
+
+  it('reports changes since the previous sync', async () => {
+    const a = await backend.createObject(calendar, 'a.ics', ICS('A'));
+    const b = await backend.createObject(calendar, 'b.ics', ICS('B'));
+    const first = await backend.syncChanges(calendar);
+    assert.equal(first.changed.length, 2);
+
+    await backend.updateObject({ ...a, data: ICS('A2') });
+    await backend.deleteObject(b);
+    [calendar] = await backend.listCalendars();
+    const second = await backend.syncChanges(calendar, first.state);
+    assert.deepEqual(
+      second.changed.map((object) => object.data),
+      [ICS('A2')],
+    );
+    assert.deepEqual(second.deleted, [b.url]);
+
+    [calendar] = await backend.listCalendars();
+    const third = await backend.syncChanges(calendar, second.state);
+    assert.deepEqual([third.changed, third.deleted], [[], []]);
+  });
+
+  it('refuses object URLs outside the calendar directory', async () => {
+    await assert.rejects(
+      backend.deleteObject({ url: 'file:///etc/passwd' }),
+      /not inside the calendar directory/,
+    );
+  });
+});
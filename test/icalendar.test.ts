@@ -0,0 +1,260 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCalendarClient } from '@/calDav/calendarClient';
+import { createInMemoryBackend } from '@/calDav/inMemoryBackend';
+import { parseIcsObject } from '@/utils/calendar-events';
+import { generateICal } from '@/utils/ical-lib';
+import {
+  escapeText,
+  findComponents,
+  getText,
+  getTextList,
+  parseICalendar,
+  serializeICalendar,
+  serializeProperty,
+} from '@/utils/ical-parser';
+
+/** An Outlook event with a Windows TZID, and a floating event */
+const OUTLOOK_CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Microsoft Corporation//Outlook 16.0//EN',
+  'BEGIN:VTIMEZONE',
+  'TZID:W. Europe Standard Time',
+  'X-LIC-LOCATION:Europe/Berlin',
+  'BEGIN:STANDARD',
+  'DTSTART:16011028T030000',
+  'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'END:STANDARD',
+  'BEGIN:DAYLIGHT',
+  'DTSTART:16010325T020000',
+  'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'END:DAYLIGHT',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:standup',
+  'DTSTAMP:20250101T000000Z',
+  'DTSTART;TZID=W. Europe Standard Time:20250110T100000',
+  'DTEND;TZID=W. Europe Standard Time:20250110T103000',
+  'RRULE:FREQ=WEEKLY',
+  'EXDATE;TZID=W. Europe Standard Time:20250117T100000',
+  'SUMMARY:Standup',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:breakfast',
+  'DTSTAMP:20250101T000000Z',
+  'DTSTART:20250111T090000',
+  'DTEND:20250111T100000',
+  'SUMMARY:Breakfast',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+/** Date properties of the events of an iCalendar object, as "NAME;TZID:value" */
+const eventLines = (ics: string) =>
+  findComponents(parseICalendar(ics), 'VEVENT').map((event) =>
+    event.properties
+      .filter((p) => ['DTSTART', 'DTEND', 'EXDATE'].includes(p.name))
+      .map(
+        (p) =>
+          `${p.name}${p.params.TZID ? `;${p.params.TZID}` : ''}:${p.value}`,
+      ),
+  );
+
+/** TZIDs of the VTIMEZONEs of an iCalendar object */
+const timezoneIds = (ics: string) =>
+  findComponents(parseICalendar(ics), 'VTIMEZONE').map((c) =>
+    getText(c, 'TZID'),
+  );
+
+describe('iCalendar round trip', () => {
+  it('writes unchanged dates back with their TZID and value text', () => {
+    const { events, extras } = parseIcsObject(OUTLOOK_CALENDAR);
+    const ics = generateICal(events[0], extras);
+
+    assert.deepEqual(eventLines(ics), [
+      [
+        'DTSTART;W. Europe Standard Time:20250110T100000',
+        'DTEND;W. Europe Standard Time:20250110T103000',
+        'EXDATE;W. Europe Standard Time:20250117T100000',
+      ],
+    ]);
+    assert.deepEqual(timezoneIds(ics), ['W. Europe Standard Time']);
+
+    const floating = generateICal(events[1], extras);
+    assert.match(floating, /\r\nDTSTART:20250111T090000\r\n/);
+  });
+
+  it('writes a VTIMEZONE for every TZID of changed dates', () => {
+    const { events, extras } = parseIcsObject(OUTLOOK_CALENDAR);
+    const ics = generateICal(
+      { ...events[0], start: new Date('2025-01-10T08:00:00Z') },
+      extras,
+    );
+
+    assert.match(ics, /\r\nDTSTART;TZID=Europe\/Berlin:20250110T090000\r\n/);
+    assert.deepEqual(timezoneIds(ics), [
+      'Europe/Berlin',
+      'W. Europe Standard Time',
+    ]);
+    assert.match(
+      ics,
+      /BEGIN:DAYLIGHT\r\nDTSTART:19700329T020000\r\nRRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU\r\nTZOFFSETFROM:\+0100\r\nTZOFFSETTO:\+0200/,
+    );
+
+    // The stored object still reads as the same event
+    const [reparsed] = parseIcsObject(ics).events;
+    assert.equal(reparsed.start.toISOString(), '2025-01-10T08:00:00.000Z');
+    assert.equal(reparsed.end.toISOString(), '2025-01-10T09:30:00.000Z');
+  });
+
+  it('keeps moved floating times floating', () => {
+    const { events } = parseIcsObject(OUTLOOK_CALENDAR);
+    const breakfast = events[1];
+    const ics = generateICal({
+      ...breakfast,
+      start: new Date(breakfast.start.getTime() + 3_600_000),
+      end: new Date(breakfast.end.getTime() + 3_600_000),
+    });
+
+    assert.match(
+      ics,
+      /\r\nDTSTART:20250111T100000\r\nDTEND:20250111T110000\r\n/,
+    );
+    assert.deepEqual(timezoneIds(ics), []);
+  });
+});
+
+/** A series on the 2nd Tuesday of the month, which is not expanded here */
+const BOARD_MEETINGS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:board',
+  'DTSTAMP:20250101T000000Z',
+  'DTSTART;TZID=Europe/Helsinki:20250114T090000',
+  'DTEND;TZID=Europe/Helsinki:20250114T100000',
+  'RRULE:FREQ=MONTHLY;BYDAY=2TU',
+  'EXDATE;TZID=Europe/Helsinki:20250211T090000',
+  'SUMMARY:Board meeting',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const quiet = { warn: () => {} };
+
+describe('iCalendar round trip of unsupported rules', () => {
+  it('keeps a rule it cannot expand, with its EXDATEs', () => {
+    const { events, extras } = parseIcsObject(BOARD_MEETINGS, quiet);
+    const renamed = generateICal({ ...events[0], title: 'Board' }, extras);
+
+    const [event] = findComponents(parseICalendar(renamed), 'VEVENT');
+    assert.equal(getText(event, 'SUMMARY'), 'Board');
+    assert.deepEqual(
+      event.properties
+        .filter((p) => ['RRULE', 'EXDATE'].includes(p.name))
+        .map((p) => `${p.name}:${p.value}`),
+      ['RRULE:FREQ=MONTHLY;BYDAY=2TU', 'EXDATE:20250211T090000'],
+    );
+  });
+
+  it('renames such a series but refuses to move it', async (t) => {
+    t.mock.method(console, 'warn', () => {});
+    const backend = createInMemoryBackend();
+    const [calendar] = await backend.listCalendars();
+    await backend.createObject(calendar, 'board.ics', BOARD_MEETINGS);
+    const client = createCalendarClient(backend);
+
+    await client.updateEvent('board', { title: 'Board' });
+    const [stored] = backend.getObjects('Calendar');
+    assert.match(stored.data, /\r\nRRULE:FREQ=MONTHLY;BYDAY=2TU\r\n/);
+    assert.match(stored.data, /\r\nSUMMARY:Board\r\n/);
+
+    await assert.rejects(
+      client.updateEvent('board', {
+        start: new Date('2025-01-15T07:00:00Z'),
+      }),
+      /repeats by a rule this server cannot change \(FREQ=MONTHLY;BYDAY=2TU\)/,
+    );
+  });
+});
+
+describe('iCalendar content lines', () => {
+  it('unfolds continuation lines and decodes parameters', () => {
+    const [calendar] = parseICalendar(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'SUMMARY:Quarterly plan',
+        ' ning review',
+        '\t of the budget',
+        'ATTENDEE;CN="Doe, Jane";X-NOTE=line^nbreak ^\'quoted^\' ^^;MEMBER="mai',
+        ' lto:a@example.com","mailto:b@example.com":mailto:jane@example.com',
+        'CATEGORIES:Work\\,Lab,Team',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n'),
+    );
+    const [event] = calendar.components;
+
+    assert.equal(
+      getText(event, 'SUMMARY'),
+      'Quarterly planning review of the budget',
+    );
+    assert.deepEqual(event.properties[1], {
+      name: 'ATTENDEE',
+      params: {
+        CN: ['Doe, Jane'],
+        'X-NOTE': ['line\nbreak "quoted" ^'],
+        MEMBER: ['mailto:a@example.com', 'mailto:b@example.com'],
+      },
+      value: 'mailto:jane@example.com',
+    });
+    assert.deepEqual(getTextList(event, 'CATEGORIES'), ['Work,Lab', 'Team']);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const description = escapeText(
+      `Sauna ${'ä'.repeat(60)}; bring towels\nand a drink`,
+    );
+    const line = serializeProperty({
+      name: 'DESCRIPTION',
+      params: { ALTREP: ['cid:part1@example.com'] },
+      value: description,
+    });
+
+    const lines = line.split('\r\n');
+    assert.ok(lines.length > 2);
+    for (const [index, folded] of lines.entries()) {
+      assert.ok(Buffer.byteLength(folded) <= 75, folded);
+      assert.equal(folded.startsWith(' '), index > 0);
+      assert.ok(!folded.includes('\ufffd'));
+    }
+    assert.ok(
+      line.startsWith('DESCRIPTION;ALTREP="cid:part1@example.com":Sauna'),
+    );
+  });
+
+  it('serializes a parsed calendar back to the same tree', () => {
+    const parsed = parseICalendar(OUTLOOK_CALENDAR);
+    const serialized = serializeICalendar(parsed[0]);
+    assert.deepEqual(parseICalendar(serialized), parsed);
+    assert.match(serialized, /\r\nEND:VCALENDAR$/);
+  });
+
+  it('reports malformed lines and skips them', () => {
+    const warnings: string[] = [];
+    const [calendar] = parseICalendar(
+      'BEGIN:VCALENDAR\r\nnot a property\r\nEND:VEVENT\r\nEND:VCALENDAR',
+      { warn: (message) => warnings.push(message) },
+    );
+    assert.deepEqual(calendar.properties, []);
+    assert.equal(warnings.length, 2);
+    assert.match(warnings[0], /Skipping malformed line: "not a property"/);
+    assert.match(warnings[1], /Unexpected END:VEVENT/);
+  });
+});
@@ -0,0 +1,191 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createLlmProvider,
+  type LlmMessage,
+  type LlmProviderName,
+  type LlmTool,
+} from '@/mcp-client/llm';
+import {
+  startFakeChatServer,
+  type FakeChatServer,
+} from './support/fakeChatServer';
+
+const TOOLS: LlmTool[] = [
+  {
+    name: 'createEvent',
+    description: 'Create an event',
+    inputSchema: { type: 'object', properties: { title: { type: 'string' } } },
+  },
+];
+
+/** A turn that called two tools, with both results */
+const HISTORY: LlmMessage[] = [
+  { role: 'user', content: 'Dentist and gym tomorrow' },
+  {
+    role: 'assistant',
+    content: 'Booking both.',
+    toolCalls: [
+      { id: 'call_a', name: 'createEvent', arguments: '{"title":"Dentist"}' },
+      { id: 'call_b', name: 'createEvent', arguments: '{"title":"Gym"}' },
+    ],
+  },
+  { role: 'tool', toolCallId: 'call_a', name: 'createEvent', content: 'Done' },
+  { role: 'tool', toolCallId: 'call_b', name: 'createEvent', content: 'Done' },
+];
+
+const PROVIDERS: LlmProviderName[] = [
+  'openai-chat',
+  'openai-responses',
+  'anthropic',
+];
+
+describe('LLM providers', () => {
+  let chat: FakeChatServer;
+
+  const complete = (name: LlmProviderName, onToken?: (token: string) => void) =>
+    createLlmProvider(name, {
+      baseUrl: `${chat.url}/`,
+      model: 'scripted',
+      maxTokens: 512,
+    }).complete({
+      system: 'Be brief.',
+      messages: HISTORY,
+      tools: TOOLS,
+      onToken,
+    });
+
+  before(async () => {
+    chat = await startFakeChatServer();
+  });
+
+  after(() => chat.close());
+
+  for (const name of PROVIDERS) {
+    for (const streamed of [false, true]) {
+      const mode = streamed ? 'streamed' : 'complete';
+
+      it(`${name}: reads ${mode} tool calls and text`, async () => {
+        chat.enqueue(
+          {
+            toolCalls: [
+              {
+                name: 'createEvent',
+                arguments: { title: 'Sauna', dayOffset: 1 },
+              },
+            ],
+          },
+          { content: 'Booked the sauna.' },
+        );
+        const tokens: string[] = [];
+        const onToken = streamed
+          ? (token: string) => tokens.push(token)
+          : undefined;
+
+        const call = await complete(name, onToken);
+        assert.equal(call.toolCalls?.length, 1);
+        assert.equal(call.toolCalls[0].name, 'createEvent');
+        assert.ok(call.toolCalls[0].id);
+        assert.deepEqual(JSON.parse(call.toolCalls[0].arguments), {
+          title: 'Sauna',
+          dayOffset: 1,
+        });
+
+        const answer = await complete(name, onToken);
+        assert.deepEqual(answer, {
+          role: 'assistant',
+          content: 'Booked the sauna.',
+        });
+        if (streamed) assert.equal(tokens.join(''), 'Booked the sauna.');
+      });
+    }
+  }
+
+  it('anthropic: sends tool results of one turn in one user message', async () => {
+    chat.enqueue({ content: 'Ok.' });
+    await complete('anthropic');
+
+    const { path, body } = chat.received[chat.received.length - 1];
+    assert.equal(path, '/v1/messages');
+    assert.equal(body.system, 'Be brief.');
+    assert.equal(body.max_tokens, 512);
+    assert.deepEqual(body.tools, [
+      {
+        name: 'createEvent',
+        description: 'Create an event',
+        input_schema: TOOLS[0].inputSchema,
+      },
+    ]);
+    assert.deepEqual(body.messages, [
+      { role: 'user', content: 'Dentist and gym tomorrow' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Booking both.' },
+          {
+            type: 'tool_use',
+            id: 'call_a',
+            name: 'createEvent',
+            input: { title: 'Dentist' },
+          },
+          {
+            type: 'tool_use',
+            id: 'call_b',
+            name: 'createEvent',
+            input: { title: 'Gym' },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call_a', content: 'Done' },
+          { type: 'tool_result', tool_use_id: 'call_b', content: 'Done' },
+        ],
+      },
+    ]);
+  });
+
+  it('openai-responses: sends the history as stateless input items', async () => {
+    chat.enqueue({ content: 'Ok.' });
+    await complete('openai-responses');
+
+    const { path, body } = chat.received[chat.received.length - 1];
+    assert.equal(path, '/v1/responses');
+    assert.equal(body.instructions, 'Be brief.');
+    assert.equal(body.store, false);
+    assert.deepEqual(body.tools, [
+      {
+        type: 'function',
+        name: 'createEvent',
+        description: 'Create an event',
+        parameters: TOOLS[0].inputSchema,
+        strict: false,
+      },
+    ]);
+    assert.deepEqual(body.input, [
+      { role: 'user', content: 'Dentist and gym tomorrow' },
+      { role: 'assistant', content: 'Booking both.' },
+      {
+        type: 'function_call',
+        call_id: 'call_a',
+        name: 'createEvent',
+        arguments: '{"title":"Dentist"}',
+      },
+      {
+        type: 'function_call',
+        call_id: 'call_b',
+        name: 'createEvent',
+        arguments: '{"title":"Gym"}',
+      },
+      { type: 'function_call_output', call_id: 'call_a', output: 'Done' },
+      { type: 'function_call_output', call_id: 'call_b', output: 'Done' },
+    ]);
+  });
+
+  it('reports the error message of the API', async () => {
+    for (const name of PROVIDERS) {
+      await assert.rejects(complete(name), /No scripted turn left/, name);
+    }
+  });
+});
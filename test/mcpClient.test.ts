@@ -0,0 +1,262 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DateTime } from 'luxon';
+import { readTraces } from '@/mcp-client/trace';
+import { startTestApp, type TestApp } from './support/testApp';
+import {
+  startFakeChatServer,
+  type FakeChatServer,
+} from './support/fakeChatServer';
+
+describe('POST /api/v1/client', () => {
+  let testApp: TestApp;
+  let chat: FakeChatServer;
+
+  const postPrompt = (body: Record<string, unknown>, path = '') =>
+    fetch(`${testApp.baseUrl}/api/v1/client${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  const scheduleDentist = {
+    toolCalls: [
+      {
+        name: 'createEvent',
+        arguments: { title: 'Dentist', dayOffset: 1, time: '10:00' },
+      },
+    ],
+  };
+
+  before(async () => {
+    testApp = await startTestApp();
+    chat = await startFakeChatServer();
+    process.env.LLM_BASE_URL = chat.url;
+  });
+
+  after(async () => {
+    await chat.close();
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.reset();
+    chat.requests.length = 0;
+    assert.equal(chat.remaining(), 0, 'previous test left scripted turns');
+  });
+
+  it('runs scripted tool calls against the calendar', async () => {
+    chat.enqueue(scheduleDentist, { content: 'Booked the dentist.' });
+
+    const res = await postPrompt({ prompt: 'Book the dentist tomorrow at 10' });
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.equal(body.answer, 'Booked the dentist.');
+    assert.equal(body.toolCalls, 1);
+    assert.equal(typeof body.sessionId, 'string');
+
+    assert.equal(testApp.calendars.getObjects('Personal').length, 1);
+
+    // The tool result was sent back to the model
+    assert.equal(chat.requests.length, 2);
+    const toolMessage = chat.requests[1].messages.find(
+      (m) => m.role === 'tool',
+    );
+    assert.match(String(toolMessage?.content), /Successfully scheduled/);
+  });
+
+  it('sends the system prompt and the MCP tools to the model', async () => {
+    chat.enqueue({ content: 'Hello!' });
+
+    await postPrompt({ prompt: 'Hi', timezone: 'Europe/Helsinki' });
+    const [request] = chat.requests;
+    assert.equal(request.messages[0].role, 'system');
+    assert.match(String(request.messages[0].content), /Europe\/Helsinki/);
+    const toolNames = request.tools?.map((tool) =>
+      tool.type === 'function' ? tool.function.name : '',
+    );
+    assert.ok(toolNames?.includes('createEvent'));
+  });
+
+  it('continues a session with the earlier history', async () => {
+    chat.enqueue(scheduleDentist, { content: 'Booked.' });
+    const first = await (
+      await postPrompt({ prompt: 'Book the dentist tomorrow at 10' })
+    ).json();
+
+    chat.enqueue({ content: 'It is at 10:00.' });
+    const res = await postPrompt({
+      prompt: 'When was that?',
+      sessionId: first.sessionId,
+    });
+    const second = await res.json();
+    assert.equal(second.sessionId, first.sessionId);
+
+    const roles = chat.requests[2].messages.map((m) => m.role);
+    assert.deepEqual(roles, [
+      'system',
+      'user',
+      'assistant',
+      'tool',
+      'assistant',
+      'user',
+    ]);
+
+    const sessions = await (
+      await fetch(`${testApp.baseUrl}/api/v1/client/sessions`)
+    ).json();
+    assert.equal(sessions.length, 1);
+    assert.equal(sessions[0].turns, 2);
+  });
+
+  it('returns 404 for an unknown session', async () => {
+    const res = await postPrompt({ prompt: 'Hi', sessionId: 'missing' });
+    assert.equal(res.status, 404);
+    assert.equal(chat.requests.length, 0);
+  });
+
+  it('returns 400 without a prompt', async () => {
+    const res = await postPrompt({ timezone: 'Europe/Helsinki' });
+    assert.equal(res.status, 400);
+  });
+
+  it('returns 500 when the model API fails', async () => {
+    const res = await postPrompt({ prompt: 'Hi' });
+    assert.equal(res.status, 500);
+    assert.match((await res.json()).message, /No scripted turn left/);
+  });
+
+  it('returns a trace with the resolved dates when asked', async () => {
+    chat.enqueue(scheduleDentist, { content: 'Booked the dentist.' });
+
+    const body = await (
+      await postPrompt(
+        { prompt: 'Book the dentist tomorrow at 10' },
+        '?trace=1',
+      )
+    ).json();
+    const { rounds, system, provider } = body.trace;
+    assert.equal(provider, 'openai-chat');
+    assert.match(system, /CRITICAL DATE RULES/);
+    assert.equal(rounds.length, 2);
+
+    const [call] = rounds[0].toolCalls;
+    assert.equal(call.name, 'createEvent');
+    assert.deepEqual(JSON.parse(call.arguments), {
+      title: 'Dentist',
+      dayOffset: 1,
+      time: '10:00',
+    });
+    const tomorrow = DateTime.now()
+      .setZone('Europe/Helsinki')
+      .plus({ days: 1 })
+      .set({ hour: 10, minute: 0, second: 0, millisecond: 0 });
+    assert.equal(call.resolvedDates.start, tomorrow.toISO());
+    assert.equal(call.resolvedDates.timezone, 'Europe/Helsinki');
+    assert.match(call.result, /^Successfully scheduled/);
+    assert.equal(typeof call.durationMs, 'number');
+    assert.equal(rounds[1].message.content, 'Booked the dentist.');
+
+    const untraced = await postPrompt({ prompt: 'Hi' }, '?trace=0');
+    assert.equal((await untraced.json()).trace, undefined);
+  });
+
+  it('appends traces to MCP_TRACE_FILE', async (t) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'traces-'));
+    const file = path.join(dir, 'traces.jsonl');
+    process.env.MCP_TRACE_FILE = file;
+    t.after(async () => {
+      process.env.MCP_TRACE_FILE = '';
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    chat.enqueue(scheduleDentist, { content: 'Booked.' });
+    const body = await (
+      await postPrompt({ prompt: 'Book the dentist tomorrow at 10' })
+    ).json();
+    assert.equal(body.trace, undefined);
+    // A failed turn is recorded with its error
+    await postPrompt({ prompt: 'Hi' });
+
+    const traces = await readTraces(file);
+    assert.equal(traces.length, 2);
+    assert.equal(traces[0].sessionId, body.sessionId);
+    assert.equal(traces[0].rounds[0].toolCalls[0].name, 'createEvent');
+    assert.match(traces[1].error ?? '', /No scripted turn left/);
+  });
+
+  it('answers tool arguments that are not a JSON object with an error', async (t) => {
+    process.env.LLM_PROVIDER = 'anthropic';
+    t.after(() => delete process.env.LLM_PROVIDER);
+    chat.enqueue(
+      { toolCalls: [{ name: 'createEvent', arguments: '{"title": "Dent' }] },
+      { toolCalls: [{ name: 'createEvent', arguments: '["Dentist"]' }] },
+      { content: 'Sorry, I could not book it.' },
+    );
+
+    const res = await postPrompt(
+      { prompt: 'Book the dentist tomorrow at 10' },
+      '/stream',
+    );
+    assert.match(await res.text(), /Sorry, I could not book it/);
+    assert.deepEqual(testApp.calendars.getObjects('Personal'), []);
+
+    const { messages } = chat.received[chat.received.length - 1].body as {
+      messages: { content: { type: string; content?: string }[] }[];
+    };
+    const results = messages
+      .flatMap((message) => message.content)
+      .filter((block) => block.type === 'tool_result')
+      .map((block) => block.content);
+    assert.equal(results.length, 2);
+    assert.match(
+      results[0] ?? '',
+      /^Error: Invalid JSON arguments for tool createEvent: .*JSON.*\. Call createEvent again with corrected arguments\.$/,
+    );
+    assert.match(
+      results[1] ?? '',
+      /^Error: Invalid JSON arguments for tool createEvent: expected a JSON object, got \["Dentist"\]/,
+    );
+  });
+
+  it('streams tool progress and the answer as server-sent events', async () => {
+    chat.enqueue(scheduleDentist, { content: 'Booked the dentist.' });
+
+    const res = await postPrompt(
+      { prompt: 'Book the dentist tomorrow at 10' },
+      '/stream',
+    );
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /text\/event-stream/);
+
+    const events = (await res.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map((block) => {
+        const [event, data] = block.split('\n');
+        return {
+          event: event.replace('event: ', ''),
+          data: JSON.parse(data.replace('data: ', '')),
+        };
+      });
+
+    const types = events.map((e) => e.event);
+    assert.deepEqual(
+      [...new Set(types)],
+      ['tool_call', 'tool_result', 'token', 'done'],
+    );
+    assert.equal(events[0].data.name, 'createEvent');
+    assert.match(events[1].data.summary, /Successfully scheduled/);
+    assert.equal(
+      events
+        .filter((e) => e.event === 'token')
+        .map((e) => e.data.text)
+        .join(''),
+      'Booked the dentist.',
+    );
+    assert.equal(events.at(-1)?.data.answer, 'Booked the dentist.');
+  });
+});
@@ -0,0 +1,681 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DateTime } from 'luxon';
+import { DEFAULT_TIMEZONE } from '@/utils/weekday';
+import type { CalendarEvent } from '@/utils/calendar-events';
+import { createInMemoryEventStore } from '@/mcp-server/eventStore';
+import { startTestApp, type TestApp } from './support/testApp';
+
+describe('POST /api/v1/mcp', () => {
+  let testApp: TestApp;
+  let client: Client;
+  let transport: StreamableHTTPClientTransport;
+
+  /** Call a tool and return its text and structured content */
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text: string }[];
+    return {
+      text: content.map((item) => item.text).join('\n'),
+      structured: result.structuredContent as Record<string, unknown>,
+    };
+  };
+
+  const createDentist = () =>
+    callTool('createEvent', {
+      title: 'Dentist',
+      dayOffset: 1,
+      time: '10:00',
+      durationMinutes: 30,
+    });
+
+  before(async () => {
+    testApp = await startTestApp();
+    transport = new StreamableHTTPClientTransport(
+      new URL(`${testApp.baseUrl}/api/v1/mcp`),
+    );
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+  });
+
+  after(async () => {
+    await transport.close();
+    await testApp.close();
+  });
+
+  beforeEach(() => testApp.reset());
+
+  it('lists the calendar tools', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+    for (const name of [
+      'createEvent',
+      'listCalendars',
+      'listEvents',
+      'getEventsInTimeSlot',
+      'findFreeSlots',
+      'updateEvent',
+      'deleteEvent',
+      'createTask',
+      'listTasks',
+      'completeTask',
+      'updateTask',
+    ]) {
+      assert.ok(names.includes(name), `missing tool ${name}`);
+    }
+  });
+
+  it('lists calendars with the default first', async () => {
+    const { text } = await callTool('listCalendars', {});
+    assert.match(text, /Found 2 calendar\(s\)/);
+    assert.match(text, /- Personal \(default\)/);
+    assert.match(text, /- Work:/);
+  });
+
+  it('creates an event in the default calendar', async () => {
+    const { text, structured } = await createDentist();
+    assert.match(text, /^Successfully scheduled "Dentist"/);
+    assert.match(text, /10:00/);
+    assert.equal(structured.calendar, 'Personal');
+
+    const objects = testApp.calendars.getObjects('Personal');
+    assert.equal(objects.length, 1);
+    assert.match(objects[0].data, /SUMMARY:Dentist/);
+    assert.match(objects[0].data, new RegExp(`UID:${structured.uid}`));
+  });
+
+  it('creates an event in a selected calendar', async () => {
+    const { structured } = await callTool('createEvent', {
+      title: 'Standup',
+      dayOffset: 1,
+      time: '09:00',
+      calendar: 'work',
+    });
+    assert.equal(structured.calendar, 'Work');
+    assert.equal(testApp.calendars.getObjects('Work').length, 1);
+    assert.equal(testApp.calendars.getObjects('Personal').length, 0);
+  });
+
+  it('reports an unknown calendar as a tool error', async () => {
+    const { text } = await callTool('createEvent', {
+      title: 'Standup',
+      dayOffset: 1,
+      time: '09:00',
+      calendar: 'Holidays',
+    });
+    assert.match(text, /^Error: Calendar "Holidays" not found/);
+  });
+
+  it('rejects an invalid time', async () => {
+    const result = await client.callTool({
+      name: 'createEvent',
+      arguments: { title: 'Late', dayOffset: 1, time: '25:00' },
+    });
+    assert.equal(result.isError, true);
+  });
+
+  it('lists created events', async () => {
+    await createDentist();
+    const { text, structured } = await callTool('listEvents', {});
+    assert.match(text, /Found 1 event\(s\)/);
+    const [event] = structured.events as { title: string; calendar: string }[];
+    assert.equal(event.title, 'Dentist');
+    assert.equal(event.calendar, 'Personal');
+  });
+
+  it('creates an event with reminders', async () => {
+    const { text } = await callTool('createEvent', {
+      title: 'Lab meeting',
+      dayOffset: 1,
+      time: '14:00',
+      reminders: [1440, 15],
+    });
+    assert.match(text, /with a reminder 15 minutes and 1 day before/);
+
+    const [stored] = testApp.calendars.getObjects('Personal');
+    assert.match(stored.data, /BEGIN:VALARM\r\nACTION:DISPLAY/);
+    assert.match(stored.data, /TRIGGER:-PT15M/);
+    assert.match(stored.data, /TRIGGER:-P1D/);
+
+    const { text: listed } = await callTool('listEvents', {});
+    assert.match(listed, /\[reminders: 15 minutes, 1 day before\]/);
+  });
+
+  it('reports whether a time slot is free', async () => {
+    await createDentist();
+
+    const busy = await callTool('getEventsInTimeSlot', {
+      dayOffset: 1,
+      time: '10:15',
+    });
+    assert.equal(busy.structured.isFree, false);
+    assert.match(busy.text, /BUSY/);
+
+    const free = await callTool('getEventsInTimeSlot', {
+      dayOffset: 1,
+      time: '11:00',
+    });
+    assert.equal(free.structured.isFree, true);
+  });
+
+  it('finds free slots around existing events', async () => {
+    await createDentist();
+    const { structured } = await callTool('findFreeSlots', {
+      dayOffset: 1,
+      durationMinutes: 60,
+      workdayStart: '09:00',
+      workdayEnd: '12:00',
+    });
+    const slots = structured.slots as { durationMinutes: number }[];
+    // 09:00-10:00 and 10:30-12:00
+    assert.deepEqual(
+      slots.map((slot) => slot.durationMinutes),
+      [60, 90],
+    );
+  });
+
+  it('moves an event located by title and day', async () => {
+    await createDentist();
+    const { text } = await callTool('updateEvent', {
+      event: { title: 'dentist', dayOffset: 1 },
+      changes: { time: '14:00' },
+    });
+    assert.match(text, /^Successfully updated event/);
+    assert.match(text, /14:00/);
+
+    const moved = await callTool('getEventsInTimeSlot', {
+      dayOffset: 1,
+      time: '14:00',
+    });
+    assert.equal(moved.structured.isFree, false);
+    const old = await callTool('getEventsInTimeSlot', {
+      dayOffset: 1,
+      time: '10:00',
+    });
+    assert.equal(old.structured.isFree, true);
+  });
+
+  it('deletes an event by uid', async () => {
+    const { structured } = await createDentist();
+    const { text } = await callTool('deleteEvent', { uid: structured.uid });
+    assert.match(text, /^Successfully deleted event/);
+    assert.equal(testApp.calendars.getObjects('Personal').length, 0);
+  });
+
+  describe('meetings', () => {
+    const anna = { email: 'anna@example.com', name: 'Anna' };
+    const pekka = { email: 'pekka@example.com', name: 'Pekka', rsvp: true };
+
+    /** iCalendar text with folded lines joined */
+    const unfold = (ics = '') => ics.replace(/\r\n[ \t]/g, '');
+
+    const createMeeting = () =>
+      callTool('createEvent', {
+        title: 'Planning',
+        dayOffset: 1,
+        time: '13:00',
+        attendees: [anna, pekka],
+      });
+
+    it('invites the attendees of a new event', async () => {
+      const { text } = await createMeeting();
+      assert.match(
+        text,
+        /Invitations were sent to anna@example.com, pekka@example.com$/,
+      );
+
+      const [stored] = testApp.calendars.getObjects('Personal');
+      assert.doesNotMatch(stored.data, /METHOD/);
+      assert.match(stored.data, /ORGANIZER;CN=Test User:mailto:me@example.com/);
+
+      assert.equal(testApp.mail.sent.length, 1);
+      const [invitation] = testApp.mail.sent;
+      assert.equal(invitation.from, 'Test User <me@example.com>');
+      assert.deepEqual(invitation.to, [anna.email, pekka.email]);
+      assert.match(invitation.subject, /^Invitation: Planning/);
+      assert.equal(invitation.calendar?.method, 'REQUEST');
+      assert.match(invitation.calendar?.content ?? '', /METHOD:REQUEST/);
+      assert.match(
+        unfold(invitation.calendar?.content),
+        /ATTENDEE;CN=Pekka;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:pekka@example.com/,
+      );
+    });
+
+    it('lists attendees with their participation status', async () => {
+      await createMeeting();
+      const { text, structured } = await callTool('listEvents', {});
+      assert.match(
+        text,
+        /\[attendees: Anna <anna@example.com> \(needs-action\), Pekka <pekka@example.com> \(needs-action\)\]/,
+      );
+      const [event] = structured.events as CalendarEvent[];
+      assert.deepEqual(event.organizer, {
+        email: 'me@example.com',
+        name: 'Test User',
+      });
+      assert.deepEqual(
+        event.attendees.map((a) => [a.email, a.partstat, a.rsvp]),
+        [
+          [anna.email, 'NEEDS-ACTION', undefined],
+          [pekka.email, 'NEEDS-ACTION', true],
+        ],
+      );
+    });
+
+    it('sends updates, and a cancellation to removed attendees', async () => {
+      await createMeeting();
+      testApp.mail.sent.length = 0;
+
+      await callTool('updateEvent', {
+        event: { title: 'planning', dayOffset: 1 },
+        changes: { time: '15:00', removeAttendees: ['PEKKA@example.com'] },
+      });
+
+      const [update, cancel] = testApp.mail.sent;
+      assert.deepEqual(update.to, [anna.email]);
+      assert.match(update.subject, /^Updated invitation: Planning/);
+      assert.match(update.calendar?.content ?? '', /SEQUENCE:1/);
+      assert.doesNotMatch(update.calendar?.content ?? '', /pekka/);
+
+      assert.deepEqual(cancel.to, [pekka.email]);
+      assert.equal(cancel.calendar?.method, 'CANCEL');
+      assert.match(cancel.calendar?.content ?? '', /STATUS:CANCELLED/);
+    });
+
+    it('sends a cancellation when the event is deleted', async () => {
+      const { structured } = await createMeeting();
+      await callTool('deleteEvent', { uid: structured.uid });
+
+      const cancel = testApp.mail.sent.at(-1);
+      assert.deepEqual(cancel?.to, [anna.email, pekka.email]);
+      assert.match(cancel?.subject ?? '', /^Cancelled: Planning/);
+      assert.match(cancel?.calendar?.content ?? '', /METHOD:CANCEL/);
+      assert.match(cancel?.calendar?.content ?? '', /SEQUENCE:1/);
+    });
+
+    it('requires an organizer email to invite attendees', async () => {
+      const email = process.env.ORGANIZER_EMAIL;
+      delete process.env.ORGANIZER_EMAIL;
+      try {
+        const { text } = await createMeeting();
+        assert.match(text, /^Error: Cannot invite attendees/);
+        assert.equal(testApp.calendars.getObjects('Personal').length, 0);
+      } finally {
+        process.env.ORGANIZER_EMAIL = email;
+      }
+    });
+  });
+
+  describe('resources', () => {
+    const today = DateTime.now().setZone(DEFAULT_TIMEZONE).startOf('day');
+    const weekUri = `calendar://Personal/events?from=${today.toISODate()}&to=${today.plus({ days: 7 }).toISODate()}`;
+
+    /** Read a resource and return its contents by MIME type */
+    const readResource = async (uri: string) => {
+      const { contents } = await client.readResource({ uri });
+      const byType = Object.fromEntries(
+        contents.map((item) => [
+          item.mimeType,
+          'text' in item ? item.text : '',
+        ]),
+      );
+      return {
+        json: JSON.parse(byType['application/json']),
+        ics: byType['text/calendar'],
+      };
+    };
+
+    it('lists calendars and event resources', async () => {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      assert.deepEqual(
+        resourceTemplates.map((template) => template.uriTemplate),
+        [
+          'calendar://{calendarId}/events{?from,to}',
+          'calendar://{calendarId}/event/{uid}',
+        ],
+      );
+
+      const { structured } = await createDentist();
+      const uris = (await client.listResources()).resources.map((r) => r.uri);
+      assert.ok(uris.includes('calendar://calendars'));
+      assert.ok(uris.includes(weekUri));
+      assert.ok(
+        uris.includes(
+          `calendar://Personal/event/${encodeURIComponent(String(structured.uid))}`,
+        ),
+      );
+    });
+
+    it('reads the events of a range as JSON and iCalendar', async () => {
+      await createDentist();
+      const { json, ics } = await readResource(weekUri);
+      assert.equal(json.calendar, 'Personal');
+      assert.deepEqual(
+        json.events.map((event: { title: string }) => event.title),
+        ['Dentist'],
+      );
+      assert.equal(ics.match(/BEGIN:VCALENDAR/g)?.length, 1);
+      assert.match(ics, /SUMMARY:Dentist/);
+    });
+
+    it('reads one event by uid', async () => {
+      const { structured } = await createDentist();
+      const { json, ics } = await readResource(
+        `calendar://Personal/event/${encodeURIComponent(String(structured.uid))}`,
+      );
+      assert.equal(json.uid, structured.uid);
+      assert.match(ics, new RegExp(`UID:${structured.uid}`));
+
+      await assert.rejects(
+        client.readResource({ uri: `calendar://Work/event/${structured.uid}` }),
+        /No event found/,
+      );
+    });
+
+    it('rejects an invalid range', async () => {
+      await assert.rejects(
+        client.readResource({
+          uri: 'calendar://Personal/events?from=2025-02-01&to=2025-01-01',
+        }),
+        /"to" must be after "from"/,
+      );
+    });
+
+    it('notifies subscribers when the calendar changes', async () => {
+      const updated = new Promise<string>((resolve) =>
+        client.setNotificationHandler(
+          ResourceUpdatedNotificationSchema,
+          (notification) => resolve(notification.params.uri),
+        ),
+      );
+      await client.subscribeResource({ uri: weekUri });
+      await createDentist();
+
+      assert.equal(await updated, weekUri);
+      await client.unsubscribeResource({ uri: weekUri });
+    });
+  });
+
+  describe('prompts', () => {
+    /** Get a prompt and return the text of its message */
+    const getPromptText = async (
+      name: string,
+      args: Record<string, string>,
+    ) => {
+      const { messages } = await client.getPrompt({ name, arguments: args });
+      assert.equal(messages.length, 1);
+      const { content } = messages[0];
+      return content.type === 'text' ? content.text : '';
+    };
+
+    it('lists the workflow prompts with their arguments', async () => {
+      const { prompts } = await client.listPrompts();
+      assert.deepEqual(
+        prompts.map((prompt) => prompt.name),
+        [
+          'schedule-if-free',
+          'plan-my-week',
+          'daily-agenda',
+          'reschedule-conflicts',
+        ],
+      );
+      const schedule = prompts.find((p) => p.name === 'schedule-if-free');
+      assert.deepEqual(
+        schedule?.arguments?.map((arg) => [arg.name, arg.required]),
+        [
+          ['title', true],
+          ['day', true],
+          ['time', true],
+          ['durationMinutes', false],
+          ['timezone', false],
+        ],
+      );
+    });
+
+    it('includes the date rules and the current date in the timezone', async () => {
+      const text = await getPromptText('schedule-if-free', {
+        title: 'Dentist',
+        day: 'next Tuesday',
+        time: '10:00',
+        durationMinutes: '30',
+        timezone: 'America/New_York',
+      });
+      const today = DateTime.now().setZone('America/New_York').toISODate();
+      assert.match(text, new RegExp(`Current date: ${today}`));
+      assert.match(text, /Timezone: America\/New_York/);
+      assert.match(text, /CRITICAL DATE RULES/);
+      assert.match(text, /WORKFLOW FOR CREATING EVENTS/);
+      assert.match(text, /"Dentist" next Tuesday at 10:00 lasting 30 minutes/);
+    });
+
+    it('plans the week of the offset', async () => {
+      const text = await getPromptText('plan-my-week', { weekOffset: '1' });
+      assert.match(text, /Help me plan next week/);
+      assert.match(text, /Timezone: Europe\/Helsinki/);
+    });
+
+    it('rejects invalid arguments', async () => {
+      await assert.rejects(
+        client.getPrompt({
+          name: 'plan-my-week',
+          arguments: { weekOffset: 'soon' },
+        }),
+        /Invalid arguments/,
+      );
+      await assert.rejects(
+        client.getPrompt({
+          name: 'daily-agenda',
+          arguments: { timezone: 'Mars/Olympus' },
+        }),
+        /Invalid timezone/,
+      );
+    });
+  });
+
+  describe('tasks', () => {
+    const createReport = () =>
+      callTool('createTask', { title: 'Submit the report', dayOffset: 1 });
+
+    it('creates a task due on a day in the default task list', async () => {
+      const { text, structured } = await createReport();
+      assert.match(text, /^Successfully created task "Submit the report" due /);
+      assert.match(text, /in task list "Personal"$/);
+      assert.equal(structured.taskList, 'Personal');
+
+      const [stored] = testApp.calendars.getObjects('Personal');
+      assert.match(stored.data, /BEGIN:VTODO/);
+      assert.doesNotMatch(stored.data, /BEGIN:VEVENT/);
+      const tomorrow = DateTime.now()
+        .setZone(DEFAULT_TIMEZONE)
+        .plus({ days: 1 })
+        .toFormat('yyyyLLdd');
+      assert.match(stored.data, new RegExp(`DUE;VALUE=DATE:${tomorrow}`));
+      assert.match(stored.data, /STATUS:NEEDS-ACTION/);
+    });
+
+    it('lists open and overdue tasks, but not as events', async () => {
+      await createReport();
+      await callTool('createTask', {
+        title: 'Renew passport',
+        dayOffset: -2,
+        priority: 'high',
+      });
+
+      const open = await callTool('listTasks', {});
+      assert.match(open.text, /^Found 2 open task\(s\):/);
+      assert.match(
+        open.text,
+        /Renew passport: .*\(high priority\) \[overdue\]/,
+      );
+
+      const overdue = await callTool('listTasks', { filter: 'overdue' });
+      assert.match(overdue.text, /^Found 1 overdue task\(s\):/);
+      assert.doesNotMatch(overdue.text, /Submit the report/);
+
+      const { structured } = await callTool('listEvents', {});
+      assert.deepEqual(structured.events, []);
+    });
+
+    it('completes a task by uid', async () => {
+      const { structured } = await createReport();
+      const { text } = await callTool('completeTask', {
+        uid: structured.uid,
+      });
+      assert.match(text, /^Marked task "Submit the report" as completed/);
+
+      const [stored] = testApp.calendars.getObjects('Personal');
+      assert.match(stored.data, /STATUS:COMPLETED/);
+      assert.match(stored.data, /COMPLETED:\d{8}T\d{6}Z/);
+      assert.match(stored.data, /PERCENT-COMPLETE:100/);
+      const open = await callTool('listTasks', {});
+      assert.equal(open.text, 'No open tasks found.');
+    });
+
+    it('changes the priority and removes the due date', async () => {
+      const { structured } = await createReport();
+      await callTool('updateTask', {
+        uid: structured.uid,
+        priority: 'high',
+        clearDue: true,
+      });
+
+      const [stored] = testApp.calendars.getObjects('Personal');
+      assert.match(stored.data, /PRIORITY:1/);
+      assert.doesNotMatch(stored.data, /DUE/);
+    });
+
+    it('reports an unknown task', async () => {
+      const { text } = await callTool('completeTask', { uid: 'missing' });
+      assert.match(text, /^Error: /);
+    });
+  });
+
+  it('reports a missing event', async () => {
+    const { text } = await callTool('deleteEvent', {
+      title: 'Dentist',
+      dayOffset: 1,
+    });
+    assert.match(text, /^Error: No event titled "Dentist" found/);
+  });
+});
+
+describe('MCP sessions', () => {
+  let testApp: TestApp;
+
+  const connect = async () => {
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`${testApp.baseUrl}/api/v1/mcp`),
+    );
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+    return transport;
+  };
+
+  /** Send a raw request to the MCP endpoint */
+  const request = (method: string, headers: Record<string, string>) =>
+    fetch(`${testApp.baseUrl}/api/v1/mcp`, {
+      method,
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body:
+        method === 'POST'
+          ? JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+          : undefined,
+    });
+
+  before(async () => {
+    testApp = await startTestApp();
+  });
+
+  after(() => testApp.close());
+
+  it('requires a session id after initialize', async () => {
+    const res = await request('POST', {});
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).message, /Mcp-Session-Id/);
+  });
+
+  it('ends a session on DELETE', async () => {
+    const transport = await connect();
+    const sessionId = transport.sessionId;
+    assert.ok(sessionId);
+
+    const listed = await request('POST', { 'mcp-session-id': sessionId });
+    assert.equal(listed.status, 200);
+    await listed.body?.cancel();
+
+    await transport.terminateSession();
+    const ended = await request('POST', { 'mcp-session-id': sessionId });
+    assert.equal(ended.status, 404);
+    await transport.close();
+  });
+
+  it('opens one server-to-client stream per session', async () => {
+    const initialized = await fetch(`${testApp.baseUrl}/api/v1/mcp`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-06-18',
+          capabilities: {},
+          clientInfo: { name: 'test', version: '1.0.0' },
+        },
+      }),
+    });
+    const sessionId = initialized.headers.get('mcp-session-id') ?? '';
+    assert.ok(sessionId);
+    await initialized.body?.cancel();
+
+    const abortController = new AbortController();
+    const openStream = () =>
+      fetch(`${testApp.baseUrl}/api/v1/mcp`, {
+        headers: { Accept: 'text/event-stream', 'mcp-session-id': sessionId },
+        signal: abortController.signal,
+      });
+    const stream = await openStream();
+    assert.equal(stream.status, 200);
+    assert.match(
+      stream.headers.get('content-type') ?? '',
+      /text\/event-stream/,
+    );
+    assert.equal((await openStream()).status, 409);
+    abortController.abort();
+  });
+
+  it('replays missed events of a stream', async () => {
+    const eventStore = createInMemoryEventStore(2);
+    const message = (id: number) => ({
+      jsonrpc: '2.0' as const,
+      method: 'notifications/message',
+      params: { id },
+    });
+    const first = await eventStore.storeEvent('a', message(1));
+    await eventStore.storeEvent('b', message(2));
+    await eventStore.storeEvent('a', message(3));
+
+    const replayed: unknown[] = [];
+    const streamId = await eventStore.replayEventsAfter(first, {
+      send: async (_id, event) => {
+        replayed.push(event);
+      },
+    });
+    assert.equal(streamId, 'a');
+    assert.deepEqual(replayed, [message(3)]);
+
+    // Only the latest two events of a stream are kept
+    await eventStore.storeEvent('a', message(4));
+    assert.equal(await eventStore.getStreamIdForEventId?.(first), undefined);
+  });
+});
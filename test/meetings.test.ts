@@ -0,0 +1,97 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createInMemoryBackend } from '@/calDav/inMemoryBackend';
+import { createCalendarClient } from '@/calDav/calendarClient';
+import { parseIcsObject } from '@/utils/calendar-events';
+import { generateICal } from '@/utils/ical-lib';
+import {
+  createInMemoryMailSender,
+  createOutboxMailSender,
+} from '@/mail/mailSender';
+
+/** A meeting organized by someone else, as received from them */
+const RECEIVED_MEETING = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'METHOD:REQUEST',
+  'BEGIN:VEVENT',
+  'UID:meeting-1',
+  'DTSTART:20300101T100000Z',
+  'DTEND:20300101T110000Z',
+  'SUMMARY:Review',
+  'ORGANIZER;CN=Boss:mailto:boss@example.com',
+  'ATTENDEE;CN=Me;PARTSTAT=ACCEPTED;CUTYPE=INDIVIDUAL:MAILTO:me@example.com',
+  'ATTENDEE;PARTSTAT=X-MAYBE;X-NUM-GUESTS=1:mailto:anna@example.com',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+describe('meeting invitations', () => {
+  let outboxDir: string | undefined;
+
+  afterEach(async () => {
+    if (outboxDir) await fs.rm(outboxDir, { recursive: true, force: true });
+    outboxDir = undefined;
+  });
+
+  it('parses attendees and keeps their other parameters', () => {
+    const { events, extras } = parseIcsObject(RECEIVED_MEETING);
+    const [event] = events;
+    assert.equal(event.organizer?.email, 'boss@example.com');
+    assert.deepEqual(
+      event.attendees?.map((a) => [a.email, a.partstat, a.params]),
+      [
+        ['me@example.com', 'ACCEPTED', { CUTYPE: ['INDIVIDUAL'] }],
+        // Unknown statuses count as NEEDS-ACTION
+        ['anna@example.com', 'NEEDS-ACTION', { 'X-NUM-GUESTS': ['1'] }],
+      ],
+    );
+
+    const rewritten = generateICal(events, extras);
+    assert.doesNotMatch(rewritten, /METHOD/);
+    assert.match(rewritten, /CUTYPE=INDIVIDUAL/);
+    assert.match(rewritten, /X-NUM-GUESTS=1/);
+  });
+
+  it('does not send messages for meetings organized by someone else', async () => {
+    const backend = createInMemoryBackend();
+    const [calendar] = await backend.listCalendars();
+    await backend.createObject(calendar, 'meeting-1.ics', RECEIVED_MEETING);
+    const mailSender = createInMemoryMailSender();
+    const client = createCalendarClient(backend, {
+      organizer: { email: 'me@example.com' },
+      mailSender,
+    });
+
+    await client.updateEvent('meeting-1', { location: 'Room 2' });
+    const [stored] = backend.getObjects('Calendar');
+    assert.doesNotMatch(stored.data, /SEQUENCE/);
+    await client.deleteEvent('meeting-1');
+    assert.deepEqual(mailSender.sent, []);
+  });
+
+  it('writes messages to the outbox as emails', async () => {
+    outboxDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    await createOutboxMailSender(outboxDir).send({
+      from: 'me@example.com',
+      to: ['anna@example.com', 'pekka@example.com'],
+      subject: 'Invitation: Review',
+      text: 'Join us',
+      calendar: { method: 'REQUEST', content: 'BEGIN:VCALENDAR\r\n' },
+    });
+
+    const [file] = await fs.readdir(outboxDir);
+    assert.match(file, /\.eml$/);
+    const eml = await fs.readFile(path.join(outboxDir, file), 'utf8');
+    assert.match(eml, /^To: anna@example.com, pekka@example.com\r$/m);
+    assert.match(
+      eml,
+      /Content-Type: text\/calendar; charset=utf-8; method=REQUEST/,
+    );
+    assert.match(eml, /BEGIN:VCALENDAR/);
+  });
+});
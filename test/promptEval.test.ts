@@ -0,0 +1,144 @@
+import './support/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createReplayProvider, getLlmProviderFromEnv } from '@/mcp-client/llm';
+import {
+  formatEvalReport,
+  parseEvalFixture,
+  runPromptEvaluation,
+} from '@/mcp-client/promptEval';
+import { readTraces } from '@/mcp-client/trace';
+import {
+  startFakeChatServer,
+  type FakeChatServer,
+} from './support/fakeChatServer';
+
+/** Frozen on a Sunday, where "next Monday" is tomorrow */
+const fixture = parseEvalFixture({
+  now: '2025-01-05T12:00',
+  timezone: 'Europe/Helsinki',
+  cases: [
+    {
+      id: 'tomorrow',
+      category: 'day-offset',
+      utterance: 'Dentist tomorrow at 10',
+      expect: [
+        {
+          tool: 'createEvent',
+          start: '2025-01-06T10:00',
+          end: '2025-01-06T11:00',
+        },
+      ],
+    },
+    {
+      id: 'next-monday',
+      category: 'weekday-weeks',
+      utterance: 'Team meeting next Monday at 9',
+      expect: [{ tool: 'createEvent', start: '2025-01-06T09:00' }],
+    },
+  ],
+});
+
+describe('prompt evaluation', () => {
+  let chat: FakeChatServer;
+
+  /** The model gets "tomorrow" right and "next Monday" wrong */
+  const enqueueAnswers = () =>
+    chat.enqueue(
+      {
+        toolCalls: [
+          {
+            name: 'createEvent',
+            arguments: { title: 'Dentist', dayOffset: 1, time: '10:00' },
+          },
+        ],
+      },
+      { content: 'Booked.' },
+      {
+        toolCalls: [
+          {
+            name: 'createEvent',
+            arguments: {
+              title: 'Team meeting',
+              weekOffset: 0,
+              weekday: 'monday',
+              time: '09:00',
+            },
+          },
+        ],
+      },
+      { content: 'Booked.' },
+    );
+
+  before(async () => {
+    chat = await startFakeChatServer();
+    process.env.LLM_BASE_URL = chat.url;
+  });
+
+  after(() => chat.close());
+
+  it('scores the resolved dates per category with a frozen now', async () => {
+    enqueueAnswers();
+    const report = await runPromptEvaluation(fixture, {
+      provider: getLlmProviderFromEnv(),
+    });
+
+    assert.match(
+      JSON.stringify(chat.requests[0].messages[0]),
+      /Current date: 2025-01-05 \(sunday\), Current time: 12:00/,
+    );
+    assert.deepEqual(
+      report.categories.map(({ category, passed, total }) => ({
+        category,
+        passed,
+        total,
+      })),
+      [
+        { category: 'day-offset', passed: 1, total: 1 },
+        { category: 'weekday-weeks', passed: 0, total: 1 },
+      ],
+    );
+    assert.equal(report.passRate, 0.5);
+    assert.deepEqual(report.cases[1].failures, [
+      'createEvent start: expected 2025-01-06T09:00, got 2024-12-30T09:00 (arguments {"title":"Team meeting","weekOffset":0,"weekday":"monday","time":"09:00"})',
+    ]);
+    assert.match(formatEvalReport(report), /Total\s+1\/2\s+50%/);
+  });
+
+  it('replays the model messages recorded in a trace file', async (t) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'eval-'));
+    const file = path.join(dir, 'traces.jsonl');
+    process.env.MCP_TRACE_FILE = file;
+    t.after(async () => {
+      process.env.MCP_TRACE_FILE = '';
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    enqueueAnswers();
+    const recorded = await runPromptEvaluation(fixture, {
+      provider: getLlmProviderFromEnv(),
+    });
+    process.env.MCP_TRACE_FILE = '';
+
+    const provider = createReplayProvider(await readTraces(file));
+    const replayed = await runPromptEvaluation(fixture, { provider });
+    assert.equal(replayed.provider, 'replay');
+    assert.deepEqual(replayed.categories, recorded.categories);
+
+    const other = await runPromptEvaluation(
+      { ...fixture, cases: [{ ...fixture.cases[0], utterance: 'Lunch' }] },
+      { provider },
+    );
+    assert.match(other.cases[0].failures[0], /No recorded trace/);
+  });
+
+  it('rejects an invalid fixture', () => {
+    assert.throws(
+      () => parseEvalFixture({ now: 'tomorrow', cases: [] }),
+      /Invalid evaluation fixture: now: Use YYYY-MM-DD/,
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DateTime } from 'luxon';
+import { createCalendarClient } from '@/calDav/calendarClient';
+import { createInMemoryBackend } from '@/calDav/inMemoryBackend';
+import {
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+  type RecurrenceRule,
+} from '@/utils/recurrence';
+
+const HELSINKI = 'Europe/Helsinki';
+
+/** Local start of a series in Helsinki */
+const local = (iso: string) => DateTime.fromISO(iso, { zone: HELSINKI });
+
+/** Occurrences of a series in a window, as local ISO times */
+const expand = (
+  start: string,
+  rule: string,
+  {
+    from = '2000-01-01',
+    to = '2040-01-01',
+    exdates = [],
+  }: { from?: string; to?: string; exdates?: string[] } = {},
+) =>
+  expandRecurrence({
+    start: local(start),
+    rule: parseRRule(rule, HELSINKI)!,
+    exdates: exdates.map((date) => local(date).toJSDate()),
+    rangeStart: local(from).toJSDate(),
+    rangeEnd: local(to).toJSDate(),
+  }).map((date) =>
+    DateTime.fromJSDate(date)
+      .setZone(HELSINKI)
+      .toISO({ suppressMilliseconds: true, suppressSeconds: true }),
+  );
+
+describe('recurrence rules', () => {
+  it('parses and formats the supported RRULE parts', () => {
+    const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4');
+    assert.deepEqual(rule, {
+      frequency: 'weekly',
+      interval: 2,
+      byDay: ['monday', 'wednesday'],
+      count: 4,
+    });
+    assert.equal(
+      formatRRule(rule!),
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4',
+    );
+
+    // A date-only UNTIL lasts to the end of that day in the series' zone
+    const until = parseRRule('FREQ=DAILY;UNTIL=20250110', HELSINKI)?.until;
+    assert.equal(until?.toISOString(), '2025-01-10T21:59:59.999Z');
+    assert.equal(
+      formatRRule({ frequency: 'daily', interval: 1, until: until! }),
+      'FREQ=DAILY;UNTIL=20250110T215959Z',
+    );
+  });
+
+  it('rejects RRULE parts it cannot expand', () => {
+    for (const value of [
+      'FREQ=MONTHLY;BYDAY=2TU',
+      'FREQ=MONTHLY;BYSETPOS=-1;BYDAY=FR',
+      'FREQ=YEARLY;BYMONTH=3',
+      'FREQ=HOURLY',
+      'INTERVAL=2',
+    ]) {
+      assert.equal(parseRRule(value), null, value);
+    }
+  });
+
+  it('stops after COUNT occurrences, counting excluded ones', () => {
+    assert.deepEqual(
+      expand('2025-01-06T10:00', 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4', {
+        exdates: ['2025-01-08T10:00'],
+      }),
+      [
+        '2025-01-06T10:00+02:00',
+        '2025-01-13T10:00+02:00',
+        '2025-01-15T10:00+02:00',
+      ],
+    );
+  });
+
+  it('includes an occurrence at UNTIL', () => {
+    assert.deepEqual(
+      expand(
+        '2025-01-06T10:00',
+        'FREQ=DAILY;INTERVAL=2;UNTIL=20250110T080000Z',
+      ),
+      [
+        '2025-01-06T10:00+02:00',
+        '2025-01-08T10:00+02:00',
+        '2025-01-10T10:00+02:00',
+      ],
+    );
+  });
+
+  it('expands BYDAY in weekly and monthly rules', () => {
+    assert.deepEqual(
+      expand('2025-01-07T09:00', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR;COUNT=4'),
+      [
+        '2025-01-07T09:00+02:00',
+        '2025-01-10T09:00+02:00',
+        '2025-01-21T09:00+02:00',
+        '2025-01-24T09:00+02:00',
+      ],
+    );
+    // Every Friday of the month
+    assert.deepEqual(
+      expand('2025-02-07T09:00', 'FREQ=MONTHLY;BYDAY=FR', {
+        to: '2025-03-01',
+      }),
+      [
+        '2025-02-07T09:00+02:00',
+        '2025-02-14T09:00+02:00',
+        '2025-02-21T09:00+02:00',
+        '2025-02-28T09:00+02:00',
+      ],
+    );
+  });
+
+  it('skips months without the 31st and years without February 29', () => {
+    assert.deepEqual(expand('2025-01-31T12:00', 'FREQ=MONTHLY;COUNT=4'), [
+      '2025-01-31T12:00+02:00',
+      '2025-03-31T12:00+03:00',
+      '2025-05-31T12:00+03:00',
+      '2025-07-31T12:00+03:00',
+    ]);
+    assert.deepEqual(expand('2024-02-29T12:00', 'FREQ=YEARLY;COUNT=3'), [
+      '2024-02-29T12:00+02:00',
+      '2028-02-29T12:00+02:00',
+      '2032-02-29T12:00+02:00',
+    ]);
+  });
+
+  it('keeps the wall-clock time of a weekly series across DST', () => {
+    const occurrences = expand('2026-03-16T10:00', 'FREQ=WEEKLY;COUNT=3');
+    assert.deepEqual(occurrences, [
+      '2026-03-16T10:00+02:00',
+      '2026-03-23T10:00+02:00',
+      '2026-03-30T10:00+03:00',
+    ]);
+
+    // Only the occurrences in the window, which starts mid-series
+    assert.deepEqual(
+      expand('2026-03-16T10:00', 'FREQ=WEEKLY', {
+        from: '2026-10-19T00:00',
+        to: '2026-11-03T00:00',
+      }),
+      [
+        '2026-10-19T10:00+03:00',
+        '2026-10-26T10:00+02:00',
+        '2026-11-02T10:00+02:00',
+      ],
+    );
+  });
+
+  it('expands a rule without an end only up to the window', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 1 };
+    const occurrences = expandRecurrence({
+      start: local('2025-01-01T08:00'),
+      rule,
+      rangeStart: local('2030-06-01').toJSDate(),
+      rangeEnd: local('2030-06-03').toJSDate(),
+      // Overlaps the window although it started the day before
+      durationMs: 20 * 3_600_000,
+    });
+    assert.deepEqual(
+      occurrences.map((date) => date.toISOString()),
+      [
+        '2030-05-31T05:00:00.000Z',
+        '2030-06-01T05:00:00.000Z',
+        '2030-06-02T05:00:00.000Z',
+      ],
+    );
+  });
+});
+
+/**
+ * A weekly Monday series with a cancelled occurrence, one moved to the
+ * afternoon and one only renamed
+ */
+const WEEKLY_SERIES = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:sync',
+  'DTSTAMP:20260101T000000Z',
+  'DTSTART;TZID=Europe/Helsinki:20260316T100000',
+  'DTEND;TZID=Europe/Helsinki:20260316T103000',
+  'RRULE:FREQ=WEEKLY;COUNT=5',
+  'EXDATE;TZID=Europe/Helsinki:20260330T100000',
+  'SUMMARY:Sync',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:sync',
+  'DTSTAMP:20260101T000000Z',
+  'RECURRENCE-ID;TZID=Europe/Helsinki:20260406T100000',
+  'DTSTART;TZID=Europe/Helsinki:20260406T140000',
+  'DTEND;TZID=Europe/Helsinki:20260406T143000',
+  'SUMMARY:Afternoon sync',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:sync',
+  'DTSTAMP:20260101T000000Z',
+  'RECURRENCE-ID;TZID=Europe/Helsinki:20260413T100000',
+  'DTSTART;TZID=Europe/Helsinki:20260413T100000',
+  'DTEND;TZID=Europe/Helsinki:20260413T103000',
+  'SUMMARY:Last sync',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('retiming a series', () => {
+  it('moves its cancelled and changed occurrences with it', async () => {
+    const backend = createInMemoryBackend();
+    const [calendar] = await backend.listCalendars();
+    await backend.createObject(calendar, 'sync.ics', WEEKLY_SERIES);
+    const client = createCalendarClient(backend);
+
+    // From Mondays at 10:00 to Tuesdays at 11:00, across the DST switch
+    await client.updateEvent('sync', {
+      start: local('2026-03-17T11:00').toJSDate(),
+    });
+
+    const occurrences = await client.getEventsInRange(
+      local('2026-03-01').toJSDate(),
+      local('2026-05-01').toJSDate(),
+      HELSINKI,
+    );
+    assert.deepEqual(
+      occurrences.map((event) => [
+        DateTime.fromJSDate(event.start!)
+          .setZone(HELSINKI)
+          .toISO({ suppressMilliseconds: true, suppressSeconds: true }),
+        event.title,
+      ]),
+      [
+        ['2026-03-17T11:00+02:00', 'Sync'],
+        ['2026-03-24T11:00+02:00', 'Sync'],
+        // The occurrence moved to the afternoon keeps its time
+        ['2026-04-06T14:00+03:00', 'Afternoon sync'],
+        ['2026-04-14T11:00+03:00', 'Last sync'],
+      ],
+    );
+  });
+});
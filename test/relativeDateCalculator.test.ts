@@ -0,0 +1,138 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DateTime } from 'luxon';
+import { setDstPolicy } from '@/utils/dst';
+import {
+  calculateAllDaySpan,
+  resolveDateExpression,
+  type DateExpression,
+} from '@/utils/relativeDateCalculator';
+
+/** Sunday 2026-01-04, noon in Helsinki */
+const NOW = DateTime.fromISO('2026-01-04T12:00', { zone: 'Europe/Helsinki' });
+
+const resolve = (expression: DateExpression, now = NOW) =>
+  resolveDateExpression(now, expression).toISODate();
+
+describe('resolveDateExpression', () => {
+  it('resolves a day of a month, by default the next one', () => {
+    assert.equal(resolve({ month: 3, dayOfMonth: 15 }), '2026-03-15');
+    // Today counts; a day that has passed means next year
+    assert.equal(resolve({ month: 1, dayOfMonth: 4 }), '2026-01-04');
+    assert.equal(resolve({ month: 1, dayOfMonth: 3 }), '2027-01-03');
+    assert.equal(
+      resolve({ month: 12, year: 2025, dayOfMonth: 1 }),
+      '2025-12-01',
+    );
+    assert.equal(resolve({ monthOffset: 1, dayOfMonth: -1 }), '2026-02-28');
+    assert.equal(resolve({ monthOffset: 0, dayOfMonth: 1 }), '2026-01-01');
+  });
+
+  it('resolves the nth weekday of a month', () => {
+    assert.equal(
+      resolve({ monthOffset: 0, nthWeekday: 1, weekday: 'monday' }),
+      '2026-01-05',
+    );
+    assert.equal(
+      resolve({ month: 11, nthWeekday: 4, weekday: 'thursday' }),
+      '2026-11-26',
+    );
+    assert.equal(
+      resolve({ month: 5, nthWeekday: -1, weekday: 'monday' }),
+      '2026-05-25',
+    );
+    // February has five Sundays only in some leap years
+    assert.equal(
+      resolve({ month: 2, nthWeekday: 5, weekday: 'sunday' }),
+      '2032-02-29',
+    );
+    assert.throws(
+      () => resolve({ monthOffset: 1, nthWeekday: 5, weekday: 'monday' }),
+      /February 2026 does not have 5 mondays/,
+    );
+  });
+
+  it('rejects incomplete and mixed expressions', () => {
+    assert.throws(() => resolve({}), /No date given/);
+    assert.throws(() => resolve({ month: 3 }), /Provide dayOfMonth/);
+    assert.throws(
+      () => resolve({ dayOffset: 1, month: 3, dayOfMonth: 1 }),
+      /Use only one way to specify the date/,
+    );
+    assert.throws(
+      () => resolve({ month: 3, monthOffset: 1, dayOfMonth: 1 }),
+      /either month or monthOffset/,
+    );
+    assert.throws(
+      () => resolve({ year: 2027, dayOfMonth: 1, monthOffset: 1 }),
+      /year can only be used together with month/,
+    );
+  });
+
+  it('finds February 29 in the next leap year when no year is given', () => {
+    assert.equal(resolve({ month: 2, dayOfMonth: 29 }), '2028-02-29');
+    assert.equal(
+      resolve(
+        { month: 2, dayOfMonth: 29 },
+        DateTime.fromISO('2096-03-01', { zone: 'utc' }),
+      ),
+      '2104-02-29',
+    );
+    assert.throws(
+      () => resolve({ month: 2, year: 2026, dayOfMonth: 29 }),
+      /February 2026 has only 28 days/,
+    );
+    assert.throws(
+      () => resolve({ month: 4, dayOfMonth: 31 }),
+      /April \d{4} has only 30 days/,
+    );
+  });
+});
+
+describe('calculateAllDaySpan', () => {
+  afterEach(() => setDstPolicy(null));
+
+  /** Span as local ISO times */
+  const span = (first: DateExpression, last?: DateExpression) => {
+    const { start, end } = calculateAllDaySpan(NOW, first, last);
+    return [start, end].map((date) =>
+      DateTime.fromJSDate(date).setZone('Europe/Helsinki').toISO(),
+    );
+  };
+
+  it('spans from midnight of the first day to midnight after the last', () => {
+    assert.deepEqual(span({ dayOffset: 1 }), [
+      '2026-01-05T00:00:00.000+02:00',
+      '2026-01-06T00:00:00.000+02:00',
+    ]);
+    // Whole days across the switch to summer time
+    assert.deepEqual(span({ date: '2026-03-28' }, { date: '2026-03-30' }), [
+      '2026-03-28T00:00:00.000+02:00',
+      '2026-03-31T00:00:00.000+03:00',
+    ]);
+  });
+
+  it('starts a day whose midnight DST skips at its first hour', () => {
+    setDstPolicy({ gap: 'reject', overlap: 'reject', duration: 'elapsed' });
+    // The clocks go forward from 00:00 to 01:00 in Santiago
+    const santiago = DateTime.fromISO('2026-09-01T12:00', {
+      zone: 'America/Santiago',
+    });
+    const { start, end } = calculateAllDaySpan(santiago, {
+      date: '2026-09-06',
+    });
+    assert.deepEqual(
+      [start, end].map((date) =>
+        DateTime.fromJSDate(date).setZone('America/Santiago').toISO(),
+      ),
+      ['2026-09-06T01:00:00.000-03:00', '2026-09-07T00:00:00.000-03:00'],
+    );
+  });
+
+  it('rejects a last day before the first', () => {
+    assert.throws(
+      () => span({ dayOffset: 2 }, { dayOffset: 1 }),
+      /last day of an all-day event is before its first day/,
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInMemoryBackend } from '@/calDav/inMemoryBackend';
+import { createCalendarClient } from '@/calDav/calendarClient';
+import { mapIcsToCalendarEvents } from '@/utils/calendar-events';
+import { generateICal } from '@/utils/ical-lib';
+import {
+  getSseReminderChannel,
+  type ReminderNotification,
+} from '@/reminders/channels';
+import {
+  createReminderScheduler,
+  listReminderSources,
+} from '@/reminders/scheduler';
+import {
+  getCalendarBackend,
+  getScanCalendarBackend,
+  setCalendarBackend,
+} from '@/calDav/backendConfig';
+import {
+  createInMemoryUserStore,
+  setUserStore,
+  type User,
+} from '@/auth/userStore';
+import { startTestApp, type TestApp } from './support/testApp';
+
+const START = new Date('2030-03-04T12:00:00Z');
+const minutesBeforeStart = (minutes: number) =>
+  new Date(START.getTime() - minutes * 60_000);
+
+const parse = (ics: string) =>
+  mapIcsToCalendarEvents(ics, undefined, {
+    range: { start: minutesBeforeStart(60), end: minutesBeforeStart(-60) },
+  });
+
+describe('reminders', () => {
+  let testApp: TestApp | undefined;
+
+  afterEach(async () => {
+    await testApp?.close();
+    testApp = undefined;
+  });
+
+  it('writes reminders as alarms and reads them back', () => {
+    const ics = generateICal({
+      title: 'Lab meeting',
+      start: START,
+      end: new Date(START.getTime() + 60 * 60_000),
+      reminders: [15, 120, 1440],
+    });
+    assert.match(ics, /TRIGGER:-PT15M/);
+    assert.match(ics, /TRIGGER:-PT2H/);
+    assert.match(ics, /TRIGGER:-P1D/);
+    assert.deepEqual(parse(ics)[0].reminders, [15, 120, 1440]);
+  });
+
+  it('converts alarms relative to the end and ignores absolute ones', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:alarms',
+      'DTSTART:20300304T120000Z',
+      'DTEND:20300304T130000Z',
+      'SUMMARY:Review',
+      'BEGIN:VALARM',
+      'ACTION:AUDIO',
+      'TRIGGER;RELATED=END:-PT90M',
+      'END:VALARM',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER;VALUE=DATE-TIME:20300304T110000Z',
+      'END:VALARM',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:PT5M',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    assert.deepEqual(parse(ics)[0].reminders, [30]);
+  });
+
+  it('sends each reminder once when it is due', async () => {
+    const backend = createInMemoryBackend();
+    const calendarClient = createCalendarClient(backend);
+    await calendarClient.createEvent({
+      title: 'Lab meeting',
+      start: START,
+      end: new Date(START.getTime() + 60 * 60_000),
+      reminders: [15],
+    });
+    const sent: ReminderNotification[] = [];
+    const scheduler = createReminderScheduler({
+      channel: { notify: async (reminder) => void sent.push(reminder) },
+      listSources: async () => [{ userId: 'alice', calendarClient }],
+      intervalMs: 60_000,
+    });
+
+    assert.deepEqual(await scheduler.scan(minutesBeforeStart(16)), []);
+    const [reminder] = await scheduler.scan(minutesBeforeStart(15));
+    assert.equal(reminder.message, 'Lab meeting starts in 15 minutes');
+    assert.equal(reminder.userId, 'alice');
+    assert.equal(reminder.start.getTime(), START.getTime());
+    assert.deepEqual(await scheduler.scan(minutesBeforeStart(14)), []);
+    assert.equal(sent.length, 1);
+  });
+
+  it('streams reminders to the browser as server-sent events', async () => {
+    testApp = await startTestApp();
+    const controller = new AbortController();
+    const res = await fetch(`${testApp.baseUrl}/api/v1/reminders`, {
+      signal: controller.signal,
+    });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /text\/event-stream/);
+
+    const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+    // The stream is subscribed once its headers have been sent
+    assert.match((await reader.read()).value ?? '', /^: connected/);
+    await getSseReminderChannel().notify({
+      uid: 'lab',
+      title: 'Lab meeting',
+      start: START,
+      calendar: 'Personal',
+      location: null,
+      minutesBefore: 15,
+      message: 'Lab meeting starts in 15 minutes',
+    });
+
+    let received = '';
+    while (!received.includes('\n\n')) {
+      received += (await reader.read()).value ?? '';
+    }
+    assert.match(received, /^event: reminder\n/);
+    assert.match(received, /"message":"Lab meeting starts in 15 minutes"/);
+    controller.abort();
+  });
+
+  it('scans the calendars of every user without using their cached backends', async (t) => {
+    const alice: User = {
+      id: 'alice',
+      caldav: { username: 'alice', password: 'secret' },
+    };
+    const bob: User = { id: 'bob', caldav: { username: 'bob', password: 'x' } };
+    process.env.CALENDAR_BACKEND = 'caldav';
+    setUserStore(
+      createInMemoryUserStore([
+        { token: 'alice-token', user: alice },
+        { token: 'bob-token', user: bob },
+      ]),
+    );
+    t.mock.timers.enable({ apis: ['Date'], now: START });
+    try {
+      const aliceBackend = getCalendarBackend(alice);
+      const bobBackend = getScanCalendarBackend(bob);
+      for (let scan = 0; scan < 4; scan++) {
+        t.mock.timers.tick(10 * 60_000);
+        assert.equal((await listReminderSources()).length, 2);
+        // The scans reuse the backends (and their logins)
+        assert.equal(getScanCalendarBackend(alice), aliceBackend);
+        assert.equal(getScanCalendarBackend(bob), bobBackend);
+      }
+      // Idle for 40 minutes however often it was scanned, so Bob's
+      // request drops it
+      getCalendarBackend(bob);
+      assert.notEqual(getCalendarBackend(alice), aliceBackend);
+    } finally {
+      process.env.CALENDAR_BACKEND = 'memory';
+      setUserStore(null);
+      setCalendarBackend(null);
+    }
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Test environment. Imported before the app, so values from a developer's
+ * .env (which dotenv does not override) cannot leak into the tests.
+ */
+process.env.NODE_ENV = 'test';
+process.env.CALDAV_DEFAULT_CALENDAR = '';
+process.env.LLM_PROVIDER = 'openai-chat';
+process.env.LLM_MODEL = 'scripted';
+process.env.LLM_API_KEY = '';
+process.env.OPENAI_PROXY_URL = '';
+process.env.AUTH_USERS_FILE = '';
+// Per-user backends in the auth tests
+process.env.CALENDAR_BACKEND = 'memory';
+process.env.MCP_RESOURCE_POLL_SECONDS = '0.05';
+// Organizer of the meetings set up through the tools
+process.env.ORGANIZER_EMAIL = 'me@example.com';
+process.env.ORGANIZER_NAME = 'Test User';
+// Write tools run without confirmation unless a test sets policies
+process.env.CONFIRM_WRITES = '';
+process.env.WORKING_HOURS = '';
+// Traces only where a test asks for them
+process.env.DEBUG_MCP_CLIENT = '';
+process.env.MCP_TRACE_FILE = '';
+// Real time unless a test sets the clock
+process.env.CLOCK_NOW = '';
+process.env.ALLOW_CLOCK_OVERRIDE = '';
+// Default DST policy unless a test sets one
+process.env.DST_GAP_POLICY = '';
+process.env.DST_OVERLAP_POLICY = '';
+process.env.DURATION_MODE = '';
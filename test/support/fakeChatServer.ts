@@ -0,0 +1,341 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type {
+  ChatCompletionCreateParams,
+  ChatCompletionMessageFunctionToolCall,
+} from 'openai/resources/index';
+
+/**
+ * One scripted model turn: tool calls to make, or the final answer.
+ * String arguments are sent as they are, e.g. to stream invalid JSON.
+ */
+export type ScriptedTurn =
+  | {
+      toolCalls: {
+        name: string;
+        arguments: Record<string, unknown> | string;
+      }[];
+    }
+  | { content: string };
+
+/** A scripted turn, or a function that builds it from the request body */
+export type ScriptedReply =
+  | ScriptedTurn
+  | ((request: Record<string, unknown>) => ScriptedTurn);
+
+export type FakeChatServer = {
+  /** Base URL, use as LLM_BASE_URL */
+  url: string;
+  /** Chat Completions request bodies received, in order */
+  requests: ChatCompletionCreateParams[];
+  /** Request bodies received on any of the APIs, with their path */
+  received: { path: string; body: Record<string, unknown> }[];
+  /** Append turns to the script */
+  enqueue: (...turns: ScriptedReply[]) => void;
+  /** Turns not yet replayed */
+  remaining: () => number;
+  close: () => Promise<void>;
+};
+
+const toToolCalls = (
+  turn: ScriptedTurn,
+  nextId: () => string,
+): ChatCompletionMessageFunctionToolCall[] =>
+  'toolCalls' in turn
+    ? turn.toolCalls.map((call) => ({
+        id: nextId(),
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments:
+            typeof call.arguments === 'string'
+              ? call.arguments
+              : JSON.stringify(call.arguments),
+        },
+      }))
+    : [];
+
+/**
+ * Stream a turn in several chunks, splitting content by word and tool
+ * call arguments in two, like a real server does.
+ */
+const writeStream = (
+  res: http.ServerResponse,
+  turn: ScriptedTurn,
+  toolCalls: ChatCompletionMessageFunctionToolCall[],
+) => {
+  const send = (delta: unknown) =>
+    res.write(
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`,
+    );
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  send({ role: 'assistant' });
+  if ('content' in turn) {
+    for (const word of turn.content.split(/(?<= )/)) send({ content: word });
+  }
+  toolCalls.forEach((call, index) => {
+    const args = call.function.arguments;
+    const half = Math.floor(args.length / 2);
+    send({
+      tool_calls: [
+        {
+          index,
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.function.name,
+            arguments: args.slice(0, half),
+          },
+        },
+      ],
+    });
+    send({
+      tool_calls: [{ index, function: { arguments: args.slice(half) } }],
+    });
+  });
+  res.end('data: [DONE]\n\n');
+};
+
+/** Write a Server-Sent Events response with named events */
+const writeEvents = (
+  res: http.ServerResponse,
+  events: [string, Record<string, unknown>][],
+) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const [event, data] of events) {
+    res.write(
+      `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`,
+    );
+  }
+  res.end();
+};
+
+/**
+ * Answer an Anthropic Messages request. Streams send text word by word
+ * and tool inputs as two partial JSON deltas.
+ */
+const answerMessages = (
+  res: http.ServerResponse,
+  turn: ScriptedTurn,
+  toolCalls: ChatCompletionMessageFunctionToolCall[],
+  stream: boolean,
+) => {
+  const text = 'content' in turn ? turn.content : '';
+  if (!stream) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        type: 'message',
+        role: 'assistant',
+        content: [
+          ...(text ? [{ type: 'text', text }] : []),
+          ...toolCalls.map((call) => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function.name,
+            input: JSON.parse(call.function.arguments),
+          })),
+        ],
+        stop_reason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+      }),
+    );
+    return;
+  }
+
+  const events: [string, Record<string, unknown>][] = [['message_start', {}]];
+  if (text) {
+    events.push([
+      'content_block_start',
+      { index: 0, content_block: { type: 'text', text: '' } },
+    ]);
+    for (const word of text.split(/(?<= )/)) {
+      events.push([
+        'content_block_delta',
+        { index: 0, delta: { type: 'text_delta', text: word } },
+      ]);
+    }
+    events.push(['content_block_stop', { index: 0 }]);
+  }
+  toolCalls.forEach((call, callIndex) => {
+    const index = callIndex + (text ? 1 : 0);
+    const args = call.function.arguments;
+    const half = Math.floor(args.length / 2);
+    events.push(
+      [
+        'content_block_start',
+        {
+          index,
+          content_block: {
+            type: 'tool_use',
+            id: call.id,
+            name: call.function.name,
+            input: {},
+          },
+        },
+      ],
+      ...[args.slice(0, half), args.slice(half)].map(
+        (partial): [string, Record<string, unknown>] => [
+          'content_block_delta',
+          { index, delta: { type: 'input_json_delta', partial_json: partial } },
+        ],
+      ),
+      ['content_block_stop', { index }],
+    );
+  });
+  events.push(['message_delta', {}], ['message_stop', {}]);
+  writeEvents(res, events);
+};
+
+/**
+ * Answer an OpenAI Responses request. Streams send text deltas word by
+ * word and then the completed response.
+ */
+const answerResponses = (
+  res: http.ServerResponse,
+  turn: ScriptedTurn,
+  toolCalls: ChatCompletionMessageFunctionToolCall[],
+  stream: boolean,
+  id: string,
+) => {
+  const text = 'content' in turn ? turn.content : '';
+  const response = {
+    id,
+    object: 'response',
+    status: 'completed',
+    error: null,
+    output: [
+      ...(text
+        ? [
+            {
+              type: 'message',
+              role: 'assistant',
+              content: [{ type: 'output_text', text, annotations: [] }],
+            },
+          ]
+        : []),
+      ...toolCalls.map((call) => ({
+        type: 'function_call',
+        call_id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      })),
+    ],
+  };
+  if (!stream) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+    return;
+  }
+  writeEvents(res, [
+    ...(text ? text.split(/(?<= )/) : []).map(
+      (delta): [string, Record<string, unknown>] => [
+        'response.output_text.delta',
+        { delta },
+      ],
+    ),
+    ['response.completed', { response }],
+  ]);
+};
+
+/** Paths of the model APIs the server answers */
+const API_PATHS = ['/v1/chat/completions', '/v1/messages', '/v1/responses'];
+
+/**
+ * Start an in-process model API server that replays scripted turns in
+ * order, one per request. It answers OpenAI Chat Completions, Anthropic
+ * Messages and OpenAI Responses requests, streamed or not. Requests
+ * without a scripted turn left fail with 500.
+ * @param script - Turns to replay; more can be added with enqueue
+ */
+export const startFakeChatServer = async (
+  script: ScriptedReply[] = [],
+): Promise<FakeChatServer> => {
+  const turns = [...script];
+  const requests: ChatCompletionCreateParams[] = [];
+  const received: FakeChatServer['received'] = [];
+  let callCount = 0;
+  const nextId = () => `call_${++callCount}`;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const path = req.url ?? '';
+      if (req.method !== 'POST' || !API_PATHS.includes(path)) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const request = JSON.parse(body) as ChatCompletionCreateParams;
+      received.push({ path, body: JSON.parse(body) });
+      if (path === '/v1/chat/completions') requests.push(request);
+
+      const reply = turns.shift();
+      const turn =
+        typeof reply === 'function' ? reply(JSON.parse(body)) : reply;
+      if (!turn) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({ error: { message: 'No scripted turn left' } }),
+        );
+        return;
+      }
+
+      const toolCalls = toToolCalls(turn, nextId);
+      if (path === '/v1/messages') {
+        answerMessages(res, turn, toolCalls, request.stream === true);
+        return;
+      }
+      if (path === '/v1/responses') {
+        answerResponses(
+          res,
+          turn,
+          toolCalls,
+          request.stream === true,
+          `resp_${received.length}`,
+        );
+        return;
+      }
+      if (request.stream) {
+        writeStream(res, turn, toolCalls);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          id: `chatcmpl-${requests.length}`,
+          object: 'chat.completion',
+          model: request.model,
+          choices: [
+            {
+              index: 0,
+              finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+              message: {
+                role: 'assistant',
+                content: 'content' in turn ? turn.content : null,
+                ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+              },
+            },
+          ],
+        }),
+      );
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    received,
+    enqueue: (...more) => turns.push(...more),
+    remaining: () => turns.length,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+};
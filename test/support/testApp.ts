@@ -0,0 +1,81 @@
+import './env';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import app from '@/app';
+import { setUserStore } from '@/auth/userStore';
+import { setCalendarBackend } from '@/calDav/backendConfig';
+import { closeMcpSessions } from '@/mcp-server/sessions';
+import { setConfirmationConfig } from '@/mcp-server/confirmation';
+import { setClock } from '@/utils/clock';
+import { setDstPolicy } from '@/utils/dst';
+import {
+  createInMemoryBackend,
+  type InMemoryBackend,
+} from '@/calDav/inMemoryBackend';
+import {
+  createInMemorySessionStore,
+  setSessionStore,
+} from '@/mcp-client/sessionStore';
+import {
+  createInMemoryMailSender,
+  setMailSender,
+  type InMemoryMailSender,
+} from '@/mail/mailSender';
+
+export type TestApp = {
+  /** e.g. http://127.0.0.1:1234 */
+  baseUrl: string;
+  /** The calendar store behind the MCP tools */
+  calendars: InMemoryBackend;
+  /** Invitations sent by the MCP tools */
+  mail: InMemoryMailSender;
+  /**
+   * Start over with empty calendars, mail and sessions, without
+   * authentication or confirmation policies, on the system clock
+   */
+  reset: () => void;
+  close: () => Promise<void>;
+};
+
+/** Calendars of the test user; the first is the default */
+export const TEST_CALENDARS = ['Personal', 'Work'];
+
+/**
+ * Start the Express app on a free port with in-memory calendars and
+ * sessions. The MCP client is pointed back at the app's own MCP endpoint.
+ */
+export const startTestApp = async (): Promise<TestApp> => {
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  process.env.MCP_SERVER_URL = `${baseUrl}/api/v1/mcp`;
+
+  const testApp: TestApp = {
+    baseUrl,
+    calendars: createInMemoryBackend(TEST_CALENDARS),
+    mail: createInMemoryMailSender(),
+    reset: () => {
+      testApp.calendars = createInMemoryBackend(TEST_CALENDARS);
+      setCalendarBackend(testApp.calendars);
+      testApp.mail = createInMemoryMailSender();
+      setMailSender(testApp.mail);
+      setSessionStore(createInMemorySessionStore());
+      setUserStore(null);
+      setConfirmationConfig(null);
+      setClock(null);
+      setDstPolicy(null);
+    },
+    close: async () => {
+      await closeMcpSessions();
+      setCalendarBackend(null);
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    },
+  };
+  testApp.reset();
+  return testApp;
+};